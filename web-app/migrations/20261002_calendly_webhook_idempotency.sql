@@ -0,0 +1,11 @@
+-- Record the Calendly event URI on each screening meeting so webhook deliveries are idempotent
+ALTER TABLE calendly_screening_meetings
+ADD COLUMN IF NOT EXISTS calendly_event_uri TEXT;
+
+-- Calendly retries a delivery until it gets a 2xx; the same event/type pair must only ever produce one row
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendly_screening_meetings_event_uri_type
+ON calendly_screening_meetings (calendly_event_uri, calendly_event_type)
+WHERE calendly_event_uri IS NOT NULL;
+
+-- Add comment to the column
+COMMENT ON COLUMN calendly_screening_meetings.calendly_event_uri IS 'Calendly scheduled event URI, used to de-duplicate webhook retries';
@@ -0,0 +1,54 @@
+-- Create the jobs table backing the durable background job queue
+
+CREATE TABLE IF NOT EXISTS jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  type TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'succeeded', 'dead')),
+  dedupe_key TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 8,
+  run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  locked_by TEXT,
+  last_error TEXT,
+  result JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Add comment to table
+COMMENT ON TABLE jobs IS 'Background jobs (application processing, scoring, HubSpot sync) with retries and dead-lettering';
+
+-- Add comments to columns
+COMMENT ON COLUMN jobs.type IS 'Job type, e.g. application.process or hubspot.sync_status';
+COMMENT ON COLUMN jobs.status IS 'pending -> running -> succeeded; failed attempts return to pending with backoff, or dead after max_attempts';
+COMMENT ON COLUMN jobs.dedupe_key IS 'At most one pending job may exist per key; a running job does not block queueing a fresh one';
+COMMENT ON COLUMN jobs.attempts IS 'Number of attempts started so far';
+COMMENT ON COLUMN jobs.run_at IS 'Earliest time the job may be picked up (pushed back after each failure)';
+COMMENT ON COLUMN jobs.locked_at IS 'When the current worker claimed the job; stale locks are requeued';
+COMMENT ON COLUMN jobs.last_error IS 'Error message of the most recent failed attempt';
+
+-- Index for the worker picking up due jobs
+CREATE INDEX IF NOT EXISTS idx_jobs_status_run_at ON jobs (status, run_at);
+
+-- Index for finding stale running jobs
+CREATE INDEX IF NOT EXISTS idx_jobs_locked_at ON jobs (locked_at) WHERE status = 'running';
+
+-- Only one pending job per dedupe key (work requested while a job runs is queued behind it)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_pending_dedupe_key
+  ON jobs (dedupe_key)
+  WHERE dedupe_key IS NOT NULL AND status = 'pending';
+
+-- Grant appropriate permissions
+ALTER TABLE jobs ENABLE ROW LEVEL SECURITY;
+
+-- Default policy: service role can do anything
+CREATE POLICY "Service role can manage jobs"
+  ON jobs
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON jobs TO service_role;
@@ -0,0 +1,52 @@
+-- Create notifications table for in-app user notifications
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  link TEXT,
+  application_id UUID REFERENCES public.applications(id) ON DELETE CASCADE,
+  metadata JSONB,
+  is_read BOOLEAN NOT NULL DEFAULT FALSE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Add comment to table
+COMMENT ON TABLE notifications IS 'In-app notifications shown in the dashboard bell menu';
+
+-- Add comments to columns
+COMMENT ON COLUMN notifications.type IS 'Event type, e.g. duplicate_submission, application_assigned, screening_no_show, hubspot_sync_failed';
+COMMENT ON COLUMN notifications.link IS 'In-app path opened when the notification is clicked';
+COMMENT ON COLUMN notifications.metadata IS 'Event-specific details (tokens, job IDs, errors)';
+
+-- Index for listing a user''s notifications, newest first
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created_at ON notifications (user_id, created_at DESC);
+
+-- Index for unread counts
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread ON notifications (user_id) WHERE is_read = FALSE;
+
+-- Enable RLS
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- Users can read and mark their own notifications
+CREATE POLICY "Users can view their own notifications"
+  ON notifications FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notifications"
+  ON notifications FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Service role creates notifications on behalf of system events
+CREATE POLICY "Service role can manage notifications"
+  ON notifications
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT SELECT, UPDATE ON notifications TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON notifications TO service_role;
@@ -0,0 +1,52 @@
+-- Create application_status_history table recording every application status change
+
+CREATE TABLE IF NOT EXISTS public.application_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id UUID NOT NULL REFERENCES public.applications(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  source TEXT NOT NULL CHECK (source IN ('ui', 'webhook', 'cron', 'hubspot', 'system')),
+  closed_reason TEXT,
+  rejected_type TEXT,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Add comment to table
+COMMENT ON TABLE public.application_status_history IS 'Append-only log of application status changes';
+
+-- Add comments to columns
+COMMENT ON COLUMN public.application_status_history.from_status IS 'Status before the change (NULL when the application was created)';
+COMMENT ON COLUMN public.application_status_history.changed_by IS 'User who made the change; NULL for webhook, cron and other automated changes';
+COMMENT ON COLUMN public.application_status_history.source IS 'Where the change came from: ui, webhook, cron, hubspot or system';
+
+-- Index for reading an application's timeline in order
+CREATE INDEX IF NOT EXISTS idx_application_status_history_application_created
+  ON public.application_status_history (application_id, created_at);
+
+-- Enable RLS
+ALTER TABLE public.application_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Staff can read the history; writes go through the service role
+CREATE POLICY "Authenticated users can view application status history"
+  ON public.application_status_history FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Service role can manage application status history"
+  ON public.application_status_history
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT SELECT ON public.application_status_history TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.application_status_history TO service_role;
+
+-- Seed one entry per existing application so timelines start from the current status
+INSERT INTO public.application_status_history (application_id, from_status, to_status, source, closed_reason, rejected_type, note, created_at)
+SELECT a.id, NULL, a.status, 'system', a.closed_reason, a.rejected_type, 'Status at time of history backfill', COALESCE(a.updated_at, a.created_at)
+FROM public.applications a
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.application_status_history h WHERE h.application_id = a.id
+);
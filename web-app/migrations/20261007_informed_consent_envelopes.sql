@@ -0,0 +1,44 @@
+-- Create informed_consent_envelopes table to track informed consent documents sent for signature
+
+CREATE TABLE IF NOT EXISTS informed_consent_envelopes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id UUID NOT NULL REFERENCES public.applications(id) ON DELETE CASCADE,
+  participant_id UUID REFERENCES public.participants(id) ON DELETE SET NULL,
+  provider TEXT NOT NULL,
+  envelope_id TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'sent' CHECK (status IN ('sent', 'completed', 'declined', 'voided')),
+  recipient_email TEXT NOT NULL,
+  recipient_name TEXT NOT NULL,
+  document_html TEXT NOT NULL,
+  sent_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  callback_payload JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Add comment to table
+COMMENT ON TABLE informed_consent_envelopes IS 'Informed consent documents sent through the e-signature provider, one row per envelope';
+
+-- Add comments to columns
+COMMENT ON COLUMN informed_consent_envelopes.provider IS 'E-signature provider that delivered the envelope (ESIGNATURE_PROVIDER), e.g. local';
+COMMENT ON COLUMN informed_consent_envelopes.envelope_id IS 'Provider envelope/document ID, used to match completion callbacks';
+COMMENT ON COLUMN informed_consent_envelopes.document_html IS 'Rendered document exactly as sent';
+COMMENT ON COLUMN informed_consent_envelopes.completed_at IS 'When the envelope left the sent state (completed, declined or voided)';
+COMMENT ON COLUMN informed_consent_envelopes.callback_payload IS 'Raw provider callback that closed the envelope';
+
+-- Index for finding the latest envelope of an application
+CREATE INDEX IF NOT EXISTS idx_informed_consent_envelopes_application ON informed_consent_envelopes (application_id, sent_at DESC);
+
+-- Enable RLS
+ALTER TABLE informed_consent_envelopes ENABLE ROW LEVEL SECURITY;
+
+-- Only the service role reads and writes envelopes (through the API routes)
+CREATE POLICY "Service role can manage informed consent envelopes"
+  ON informed_consent_envelopes
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON informed_consent_envelopes TO service_role;
@@ -0,0 +1,51 @@
+-- Create medical_review_cases table for screening referrals to a medical reviewer
+
+CREATE TABLE IF NOT EXISTS medical_review_cases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id UUID NOT NULL REFERENCES public.applications(id) ON DELETE CASCADE,
+  participant_id UUID REFERENCES public.participants(id) ON DELETE SET NULL,
+  reviewer_id UUID NOT NULL REFERENCES auth.users(id),
+  opened_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'cleared', 'medication_change_required', 'declined')),
+  medications TEXT[] NOT NULL DEFAULT '{}',
+  conditions TEXT[] NOT NULL DEFAULT '{}',
+  triggering_responses JSONB NOT NULL DEFAULT '[]'::jsonb,
+  referral_notes TEXT,
+  decision TEXT CHECK (decision IN ('clear', 'require_medication_change', 'decline')),
+  decision_notes TEXT,
+  decided_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  decided_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Add comment to table
+COMMENT ON TABLE medical_review_cases IS 'Medical review referrals; the latest case for an application decides whether it is medically cleared';
+
+-- Add comments to columns
+COMMENT ON COLUMN medical_review_cases.medications IS 'Medications the screener flagged for review';
+COMMENT ON COLUMN medical_review_cases.conditions IS 'Conditions the screener flagged for review';
+COMMENT ON COLUMN medical_review_cases.triggering_responses IS 'Snapshot of red/yellow application answers when the case was opened';
+COMMENT ON COLUMN medical_review_cases.decision IS 'Reviewer decision: clear, require_medication_change or decline';
+
+-- Only one open case per application
+CREATE UNIQUE INDEX IF NOT EXISTS idx_medical_review_cases_one_open
+  ON medical_review_cases (application_id) WHERE status = 'open';
+
+-- Index for a reviewer's queue
+CREATE INDEX IF NOT EXISTS idx_medical_review_cases_reviewer_status ON medical_review_cases (reviewer_id, status, created_at);
+
+-- Index for the latest case of an application
+CREATE INDEX IF NOT EXISTS idx_medical_review_cases_application ON medical_review_cases (application_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE medical_review_cases ENABLE ROW LEVEL SECURITY;
+
+-- Only the service role reads and writes cases (through the API routes)
+CREATE POLICY "Service role can manage medical review cases"
+  ON medical_review_cases
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON medical_review_cases TO service_role;
@@ -0,0 +1,48 @@
+-- Create medication_change_plans table to track medication tapers for pending_medication_change applicants
+
+CREATE TABLE IF NOT EXISTS medication_change_plans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id UUID NOT NULL REFERENCES public.applications(id) ON DELETE CASCADE,
+  screening_id UUID REFERENCES public.screenings(id) ON DELETE SET NULL,
+  medication TEXT NOT NULL,
+  washout_days INTEGER NOT NULL CHECK (washout_days >= 0),
+  last_dose_date DATE NOT NULL,
+  expected_clear_date DATE NOT NULL,
+  prescriber_name TEXT,
+  prescriber_confirmed_at TIMESTAMP WITH TIME ZONE,
+  confirmation_notes TEXT,
+  confirmed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'confirmed', 'cancelled')),
+  reminders_sent TEXT[] NOT NULL DEFAULT '{}',
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Add comment to table
+COMMENT ON TABLE medication_change_plans IS 'Medication taper/washout plans; the application returns to screening once every active plan is confirmed';
+
+-- Add comments to columns
+COMMENT ON COLUMN medication_change_plans.washout_days IS 'Days after the last dose before the applicant is considered clear';
+COMMENT ON COLUMN medication_change_plans.expected_clear_date IS 'last_dose_date + washout_days';
+COMMENT ON COLUMN medication_change_plans.prescriber_confirmed_at IS 'When the prescriber confirmed the change was completed';
+COMMENT ON COLUMN medication_change_plans.reminders_sent IS 'Reminder keys already sent (kind:expected_clear_date), so changing the date re-arms reminders';
+
+-- Index for the application's plans
+CREATE INDEX IF NOT EXISTS idx_medication_change_plans_application ON medication_change_plans (application_id, created_at);
+
+-- Index for the daily reminder sweep
+CREATE INDEX IF NOT EXISTS idx_medication_change_plans_active_clear_date
+  ON medication_change_plans (expected_clear_date) WHERE status = 'active';
+
+-- Enable RLS
+ALTER TABLE medication_change_plans ENABLE ROW LEVEL SECURITY;
+
+-- Only the service role reads and writes plans (through the API routes)
+CREATE POLICY "Service role can manage medication change plans"
+  ON medication_change_plans
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON medication_change_plans TO service_role;
@@ -0,0 +1,109 @@
+-- Create retreats and retreat_assignments tables for retreat cohorts, capacity and waitlists
+
+CREATE TABLE IF NOT EXISTS retreats (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  location TEXT NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  capacity INTEGER NOT NULL CHECK (capacity >= 0),
+  price_cents INTEGER CHECK (price_cents >= 0),
+  currency TEXT NOT NULL DEFAULT 'USD',
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'open', 'closed', 'completed', 'cancelled')),
+  facilitator_ids UUID[] NOT NULL DEFAULT '{}',
+  description TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT retreats_dates_check CHECK (end_date >= start_date)
+);
+
+CREATE TABLE IF NOT EXISTS retreat_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  retreat_id UUID NOT NULL REFERENCES retreats(id) ON DELETE CASCADE,
+  application_id UUID NOT NULL REFERENCES public.applications(id) ON DELETE CASCADE,
+  participant_id UUID REFERENCES public.participants(id) ON DELETE SET NULL,
+  status TEXT NOT NULL CHECK (status IN ('confirmed', 'waitlisted', 'withdrawn')),
+  assigned_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  waitlisted_at TIMESTAMP WITH TIME ZONE,
+  confirmed_at TIMESTAMP WITH TIME ZONE,
+  withdrawn_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Add comments to tables
+COMMENT ON TABLE retreats IS 'Retreat cohorts that conditionally approved applicants are assigned to';
+COMMENT ON TABLE retreat_assignments IS 'Applications assigned to a retreat, either confirmed (within capacity) or waitlisted';
+
+-- Add comments to columns
+COMMENT ON COLUMN retreats.capacity IS 'Maximum confirmed participants; further assignments go to the waitlist';
+COMMENT ON COLUMN retreats.price_cents IS 'Retreat price in the smallest currency unit';
+COMMENT ON COLUMN retreats.facilitator_ids IS 'user_profiles IDs of the facilitators leading the retreat';
+COMMENT ON COLUMN retreat_assignments.waitlisted_at IS 'Waitlist order: earliest is promoted first';
+
+-- An application holds at most one active (confirmed or waitlisted) assignment
+CREATE UNIQUE INDEX IF NOT EXISTS idx_retreat_assignments_one_active
+  ON retreat_assignments (application_id) WHERE status IN ('confirmed', 'waitlisted');
+
+-- Indexes for rosters and the dashboard
+CREATE INDEX IF NOT EXISTS idx_retreat_assignments_retreat_status ON retreat_assignments (retreat_id, status);
+CREATE INDEX IF NOT EXISTS idx_retreats_start_date ON retreats (start_date);
+
+-- Enforce capacity in the database so concurrent assignments cannot overbook a retreat.
+-- Locks the retreat row, then rejects a confirmed assignment once capacity is reached.
+CREATE OR REPLACE FUNCTION enforce_retreat_capacity()
+RETURNS TRIGGER AS $$
+DECLARE
+  retreat_capacity INTEGER;
+  confirmed_count INTEGER;
+BEGIN
+  IF NEW.status <> 'confirmed' OR (TG_OP = 'UPDATE' AND OLD.status = 'confirmed') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT capacity INTO retreat_capacity FROM retreats WHERE id = NEW.retreat_id FOR UPDATE;
+
+  SELECT COUNT(*) INTO confirmed_count
+  FROM retreat_assignments
+  WHERE retreat_id = NEW.retreat_id AND status = 'confirmed' AND id <> NEW.id;
+
+  IF confirmed_count >= retreat_capacity THEN
+    RAISE EXCEPTION 'retreat_full' USING ERRCODE = 'P0001', HINT = 'Assign as waitlisted instead';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER enforce_retreat_assignments_capacity
+BEFORE INSERT OR UPDATE OF status ON retreat_assignments
+FOR EACH ROW EXECUTE FUNCTION enforce_retreat_capacity();
+
+CREATE TRIGGER update_retreats_modtime
+BEFORE UPDATE ON retreats
+FOR EACH ROW EXECUTE FUNCTION update_modified_column();
+
+CREATE TRIGGER update_retreat_assignments_modtime
+BEFORE UPDATE ON retreat_assignments
+FOR EACH ROW EXECUTE FUNCTION update_modified_column();
+
+-- Enable RLS
+ALTER TABLE retreats ENABLE ROW LEVEL SECURITY;
+ALTER TABLE retreat_assignments ENABLE ROW LEVEL SECURITY;
+
+-- Only the service role reads and writes retreats (through the API routes)
+CREATE POLICY "Service role can manage retreats"
+  ON retreats
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage retreat assignments"
+  ON retreat_assignments
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON retreats TO service_role;
+GRANT SELECT, INSERT, UPDATE, DELETE ON retreat_assignments TO service_role;
@@ -0,0 +1,13 @@
+-- Allow application-level (compound) scoring rules that combine answers across fields.
+-- For these rules target_id is the typeform_forms.id of the form whose field refs the expression uses,
+-- and criteria holds { name, expression }.
+
+ALTER TABLE scoring_rules
+DROP CONSTRAINT IF EXISTS scoring_rules_target_type_check;
+
+ALTER TABLE scoring_rules
+ADD CONSTRAINT scoring_rules_target_type_check
+CHECK (target_type IN ('field', 'choice', 'application'));
+
+COMMENT ON COLUMN scoring_rules.target_id IS 'Field or choice version ID; for application rules, the typeform_forms.id the rule applies to';
+COMMENT ON COLUMN scoring_rules.criteria IS 'Match conditions. Field rules: { operator, value, ... } or { answer }. Application rules: { name, expression } over field refs';
@@ -0,0 +1,101 @@
+-- Create immutable scoring rule-set versions, per-application score history and rescore runs
+
+CREATE TABLE IF NOT EXISTS scoring_rule_set_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  form_id UUID NOT NULL REFERENCES typeform_forms(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  notes TEXT,
+  rules JSONB NOT NULL DEFAULT '[]'::jsonb,
+  rules_hash TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT scoring_rule_set_versions_number_key UNIQUE (form_id, version_number)
+);
+
+CREATE TABLE IF NOT EXISTS scoring_rescore_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  form_id UUID NOT NULL REFERENCES typeform_forms(id) ON DELETE CASCADE,
+  rule_set_version_id UUID NOT NULL REFERENCES scoring_rule_set_versions(id),
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  total_count INTEGER,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS application_score_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id UUID NOT NULL REFERENCES public.applications(id) ON DELETE CASCADE,
+  rule_set_version_id UUID REFERENCES scoring_rule_set_versions(id),
+  rescore_run_id UUID REFERENCES scoring_rescore_runs(id) ON DELETE SET NULL,
+  red_count INTEGER NOT NULL DEFAULT 0,
+  yellow_count INTEGER NOT NULL DEFAULT 0,
+  green_count INTEGER NOT NULL DEFAULT 0,
+  calculated_score INTEGER NOT NULL DEFAULT 0,
+  response_scores JSONB NOT NULL DEFAULT '[]'::jsonb,
+  scored_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE applications
+  ADD COLUMN IF NOT EXISTS scoring_rule_set_version_id UUID REFERENCES scoring_rule_set_versions(id),
+  ADD COLUMN IF NOT EXISTS scored_at TIMESTAMP WITH TIME ZONE;
+
+-- Add comments to tables
+COMMENT ON TABLE scoring_rule_set_versions IS 'Immutable snapshots of a form''s scoring rules; every stored score points at the version that produced it';
+COMMENT ON TABLE scoring_rescore_runs IS 'Admin-triggered rescoring of a population of applications against a rule-set version';
+COMMENT ON TABLE application_score_history IS 'Every score written for an application, kept for audit when it is rescored';
+
+-- Add comments to columns
+COMMENT ON COLUMN scoring_rule_set_versions.rules IS 'Field, choice and application scoring_rules rows for the form at snapshot time';
+COMMENT ON COLUMN scoring_rule_set_versions.rules_hash IS 'Hash of the rules, so an unchanged rule set reuses its latest version';
+COMMENT ON COLUMN scoring_rescore_runs.filters IS 'Population filter: { statuses?, submittedFrom?, submittedTo? }';
+COMMENT ON COLUMN scoring_rescore_runs.total_count IS 'Applications queued, or NULL until the run''s jobs are queued; progress comes from its scoring.rescore jobs';
+COMMENT ON COLUMN application_score_history.response_scores IS 'Per-answer scores: [{ responseId, fieldVersionId, score }]';
+COMMENT ON COLUMN applications.scoring_rule_set_version_id IS 'Rule-set version the stored red/yellow/green counts were calculated with';
+
+-- Versions are immutable once written
+CREATE OR REPLACE FUNCTION prevent_scoring_rule_set_version_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'scoring rule-set versions are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS scoring_rule_set_versions_immutable ON scoring_rule_set_versions;
+CREATE TRIGGER scoring_rule_set_versions_immutable
+  BEFORE UPDATE ON scoring_rule_set_versions
+  FOR EACH ROW EXECUTE FUNCTION prevent_scoring_rule_set_version_update();
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_scoring_rule_set_versions_form ON scoring_rule_set_versions (form_id, version_number DESC);
+CREATE INDEX IF NOT EXISTS idx_scoring_rescore_runs_form ON scoring_rescore_runs (form_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_application_score_history_application ON application_score_history (application_id, scored_at DESC);
+CREATE INDEX IF NOT EXISTS idx_applications_scoring_rule_set_version ON applications (scoring_rule_set_version_id);
+
+-- Grant appropriate permissions
+ALTER TABLE scoring_rule_set_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scoring_rescore_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE application_score_history ENABLE ROW LEVEL SECURITY;
+
+-- Default policy: service role can do anything
+CREATE POLICY "Service role can manage scoring_rule_set_versions"
+  ON scoring_rule_set_versions
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage scoring_rescore_runs"
+  ON scoring_rescore_runs
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage application_score_history"
+  ON application_score_history
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT SELECT, INSERT ON scoring_rule_set_versions TO service_role;
+GRANT SELECT, INSERT, UPDATE, DELETE ON scoring_rescore_runs TO service_role;
+GRANT SELECT, INSERT ON application_score_history TO service_role;
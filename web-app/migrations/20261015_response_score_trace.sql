@@ -0,0 +1,6 @@
+-- Persist why each application answer got its score: the field and choice rules that fired when it was scored
+
+ALTER TABLE application_field_responses
+ADD COLUMN IF NOT EXISTS score_trace JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN application_field_responses.score_trace IS 'Rules that matched when the answer was last scored: [{ ruleId, targetType, targetId, scoreValue, criteria, description, createdBy, createdAt }]';
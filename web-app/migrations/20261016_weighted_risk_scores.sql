@@ -0,0 +1,50 @@
+-- Weighted 0-100 risk scores: per-rule weights, per-form risk settings and a recommendation band on each application
+
+ALTER TABLE scoring_rules
+ADD COLUMN IF NOT EXISTS weight NUMERIC NOT NULL DEFAULT 1 CHECK (weight >= 0);
+
+CREATE TABLE IF NOT EXISTS scoring_risk_settings (
+  form_id UUID PRIMARY KEY REFERENCES typeform_forms(id) ON DELETE CASCADE,
+  color_points JSONB NOT NULL DEFAULT '{"red": 10, "yellow": 4, "green": 0}'::jsonb,
+  category_weights JSONB NOT NULL DEFAULT '{}'::jsonb,
+  max_points NUMERIC NOT NULL DEFAULT 50 CHECK (max_points > 0),
+  bands JSONB NOT NULL DEFAULT '[]'::jsonb,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE applications
+  ADD COLUMN IF NOT EXISTS risk_score INTEGER CHECK (risk_score BETWEEN 0 AND 100),
+  ADD COLUMN IF NOT EXISTS risk_band TEXT;
+
+ALTER TABLE application_score_history
+  ADD COLUMN IF NOT EXISTS risk_score INTEGER,
+  ADD COLUMN IF NOT EXISTS risk_band TEXT;
+
+-- Add comments to tables
+COMMENT ON TABLE scoring_risk_settings IS 'How a form''s matched scoring rules turn into a 0-100 risk score and recommendation band; forms without a row use the defaults';
+
+-- Add comments to columns
+COMMENT ON COLUMN scoring_rules.weight IS 'Multiplier on the rule''s colour points in the risk score';
+COMMENT ON COLUMN scoring_risk_settings.color_points IS 'Risk points per matched rule of each colour: { red, yellow, green }';
+COMMENT ON COLUMN scoring_risk_settings.category_weights IS 'Multipliers for answers in a top-level question group, keyed by the group''s Typeform field ID';
+COMMENT ON COLUMN scoring_risk_settings.max_points IS 'Risk points that map to a risk score of 100';
+COMMENT ON COLUMN scoring_risk_settings.bands IS 'Recommendation bands: [{ key, label, minScore }]; empty uses the defaults';
+COMMENT ON COLUMN applications.risk_score IS 'Weighted risk score, 0 (lowest) to 100 (highest)';
+COMMENT ON COLUMN applications.risk_band IS 'Key of the recommendation band the risk score falls in';
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_applications_risk_score ON applications (risk_score);
+CREATE INDEX IF NOT EXISTS idx_applications_risk_band ON applications (risk_band);
+
+-- Grant appropriate permissions
+ALTER TABLE scoring_risk_settings ENABLE ROW LEVEL SECURITY;
+
+-- Default policy: service role can do anything
+CREATE POLICY "Service role can manage scoring_risk_settings"
+  ON scoring_risk_settings
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON scoring_risk_settings TO service_role;
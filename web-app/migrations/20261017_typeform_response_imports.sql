@@ -0,0 +1,46 @@
+-- Create the table tracking imports of historical responses from the Typeform Responses API
+
+CREATE TABLE IF NOT EXISTS typeform_response_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  form_id UUID NOT NULL REFERENCES typeform_forms(id) ON DELETE CASCADE,
+  submitted_from TIMESTAMP WITH TIME ZONE,
+  submitted_to TIMESTAMP WITH TIME ZONE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+  before_token TEXT,
+  pages_fetched INTEGER NOT NULL DEFAULT 0,
+  total_count INTEGER,
+  imported_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  results JSONB NOT NULL DEFAULT '[]'::jsonb,
+  last_error TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Add comment to table
+COMMENT ON TABLE typeform_response_imports IS 'Admin-triggered backfills of responses the webhook missed, paged from the Typeform Responses API';
+
+-- Add comments to columns
+COMMENT ON COLUMN typeform_response_imports.submitted_from IS 'Only responses submitted on or after this time (Typeform "since"); NULL for no lower bound';
+COMMENT ON COLUMN typeform_response_imports.submitted_to IS 'Only responses submitted on or before this time (Typeform "until"); NULL for no upper bound';
+COMMENT ON COLUMN typeform_response_imports.before_token IS 'Paging cursor: token of the oldest response fetched so far, NULL before the first page';
+COMMENT ON COLUMN typeform_response_imports.total_count IS 'Responses in range as reported by Typeform with the first page, NULL until then';
+COMMENT ON COLUMN typeform_response_imports.results IS 'One entry per response: [{ token, submittedAt, outcome, applicationId?, reason? }]';
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_typeform_response_imports_form ON typeform_response_imports (form_id, created_at DESC);
+
+-- Grant appropriate permissions
+ALTER TABLE typeform_response_imports ENABLE ROW LEVEL SECURITY;
+
+-- Default policy: service role can do anything
+CREATE POLICY "Service role can manage typeform_response_imports"
+  ON typeform_response_imports
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON typeform_response_imports TO service_role;
@@ -0,0 +1,46 @@
+-- Per-form mapping of Typeform fields to participant attributes, and a profile for attributes without a column
+
+ALTER TABLE participants ADD COLUMN IF NOT EXISTS profile JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE participants
+  ADD CONSTRAINT participants_profile_is_object CHECK (jsonb_typeof(profile) = 'object');
+
+COMMENT ON COLUMN participants.profile IS 'Additional attributes captured from mapped form fields: { pronouns, city, country, emergency_contact_name, emergency_contact_phone, emergency_contact_relationship }, validated by the application before writing';
+
+CREATE TABLE IF NOT EXISTS participant_field_mappings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  form_id UUID NOT NULL REFERENCES typeform_forms(id) ON DELETE CASCADE,
+  attribute TEXT NOT NULL CHECK (attribute IN (
+    'email', 'first_name', 'last_name', 'full_name', 'phone', 'date_of_birth',
+    'pronouns', 'city', 'country',
+    'emergency_contact_name', 'emergency_contact_phone', 'emergency_contact_relationship'
+  )),
+  field_id TEXT NOT NULL,
+  field_ref TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (form_id, attribute)
+);
+
+-- Add comment to table
+COMMENT ON TABLE participant_field_mappings IS 'Which form field supplies each participant attribute; unmapped core attributes fall back to guessing from field titles';
+
+-- Add comments to columns
+COMMENT ON COLUMN participant_field_mappings.field_id IS 'Typeform field ID (not a field version ID), so the mapping survives re-syncs that create new field versions';
+COMMENT ON COLUMN participant_field_mappings.field_ref IS 'Typeform field ref at the time of mapping; also matched against answers in case the field ID changes';
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_participant_field_mappings_form ON participant_field_mappings (form_id);
+
+-- Grant appropriate permissions
+ALTER TABLE participant_field_mappings ENABLE ROW LEVEL SECURITY;
+
+-- Default policy: service role can do anything
+CREATE POLICY "Service role can manage participant_field_mappings"
+  ON participant_field_mappings
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON participant_field_mappings TO service_role;
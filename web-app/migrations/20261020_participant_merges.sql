@@ -0,0 +1,46 @@
+-- Support merging duplicate participants and keep an audit record of each merge
+
+ALTER TABLE participants ADD COLUMN IF NOT EXISTS merged_into_id UUID REFERENCES participants(id) ON DELETE SET NULL;
+ALTER TABLE participants ADD COLUMN IF NOT EXISTS merged_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN participants.merged_into_id IS 'Set when this record was merged into another participant; the record is kept inactive for history and new submissions with its email go to the survivor';
+
+CREATE INDEX IF NOT EXISTS idx_participants_merged_into ON participants (merged_into_id) WHERE merged_into_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS participant_merges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  survivor_id UUID NOT NULL REFERENCES participants(id) ON DELETE CASCADE,
+  merged_participant_id UUID NOT NULL REFERENCES participants(id) ON DELETE CASCADE,
+  merged_snapshot JSONB NOT NULL,
+  reparented_counts JSONB NOT NULL DEFAULT '{}'::jsonb,
+  hubspot_contact_action TEXT NOT NULL CHECK (hubspot_contact_action IN ('none', 'kept', 'adopted', 'conflict')),
+  merged_hubspot_contact_id TEXT,
+  merged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT participant_merges_distinct CHECK (survivor_id <> merged_participant_id)
+);
+
+-- Add comment to table
+COMMENT ON TABLE participant_merges IS 'Audit trail of duplicate participants merged by an admin';
+
+-- Add comments to columns
+COMMENT ON COLUMN participant_merges.merged_snapshot IS 'The merged participant row as it was before the merge';
+COMMENT ON COLUMN participant_merges.reparented_counts IS 'Rows moved to the survivor, by table: { applications, screenings, calendly_screening_meetings, ... }';
+COMMENT ON COLUMN participant_merges.hubspot_contact_action IS 'none, kept (survivor''s contact kept), adopted (merged record''s contact taken over) or conflict (both linked to different contacts; survivor''s kept)';
+COMMENT ON COLUMN participant_merges.merged_hubspot_contact_id IS 'HubSpot contact the merged record was linked to, so a conflicting contact can be merged in HubSpot';
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_participant_merges_survivor ON participant_merges (survivor_id);
+CREATE INDEX IF NOT EXISTS idx_participant_merges_created ON participant_merges (created_at DESC);
+
+-- Grant appropriate permissions
+ALTER TABLE participant_merges ENABLE ROW LEVEL SECURITY;
+
+-- Default policy: service role can do anything
+CREATE POLICY "Service role can manage participant_merges"
+  ON participant_merges
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON participant_merges TO service_role;
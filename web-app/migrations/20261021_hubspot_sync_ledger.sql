@@ -0,0 +1,49 @@
+-- Create the ledger of changes synced between HubSpot and the app
+
+CREATE TABLE IF NOT EXISTS hubspot_sync_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  direction TEXT NOT NULL CHECK (direction IN ('inbound', 'outbound')),
+  event_id TEXT,
+  subscription_type TEXT NOT NULL,
+  object_type TEXT NOT NULL CHECK (object_type IN ('deal', 'contact')),
+  object_id TEXT NOT NULL,
+  property_name TEXT,
+  property_value TEXT,
+  change_source TEXT,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  application_id UUID REFERENCES applications(id) ON DELETE SET NULL,
+  participant_id UUID REFERENCES participants(id) ON DELETE SET NULL,
+  outcome TEXT NOT NULL DEFAULT 'pending' CHECK (outcome IN ('pending', 'applied', 'no_change', 'conflict', 'superseded', 'ignored', 'failed')),
+  previous_value TEXT,
+  detail TEXT,
+  payload JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  processed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Add comment to table
+COMMENT ON TABLE hubspot_sync_ledger IS 'One row per change synced with HubSpot; inbound rows come from HubSpot webhook events';
+
+-- Add comments to columns
+COMMENT ON COLUMN hubspot_sync_ledger.event_id IS 'HubSpot webhook eventId; HubSpot retries deliveries, so each inbound event is recorded once';
+COMMENT ON COLUMN hubspot_sync_ledger.occurred_at IS 'When the change happened in HubSpot (occurredAt), used to order conflicting edits';
+COMMENT ON COLUMN hubspot_sync_ledger.outcome IS 'pending, applied, no_change (already in sync), conflict (app value kept), superseded (a newer change exists), ignored (not mapped) or failed';
+COMMENT ON COLUMN hubspot_sync_ledger.previous_value IS 'App value before an applied change, or the value kept on a conflict';
+
+-- Indexes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_hubspot_sync_ledger_event ON hubspot_sync_ledger (direction, event_id);
+CREATE INDEX IF NOT EXISTS idx_hubspot_sync_ledger_object ON hubspot_sync_ledger (object_type, object_id, property_name, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_hubspot_sync_ledger_outcome ON hubspot_sync_ledger (outcome, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_hubspot_sync_ledger_application ON hubspot_sync_ledger (application_id) WHERE application_id IS NOT NULL;
+
+-- Grant appropriate permissions
+ALTER TABLE hubspot_sync_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Default policy: service role can do anything
+CREATE POLICY "Service role can manage hubspot_sync_ledger"
+  ON hubspot_sync_ledger
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON hubspot_sync_ledger TO service_role;
@@ -0,0 +1,67 @@
+-- Create the table mapping application statuses to HubSpot deal stages and application_status values
+
+CREATE TABLE IF NOT EXISTS hubspot_status_mappings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  status TEXT NOT NULL,
+  closed_reason TEXT CHECK (closed_reason IN ('Approved', 'Unresponsive', 'Rejected')),
+  rejected_type TEXT CHECK (rejected_type IN ('Temporary', 'Permanent')),
+  pipeline_id TEXT NOT NULL,
+  stage_id TEXT NOT NULL,
+  status_property_value TEXT NOT NULL,
+  sync_from_hubspot BOOLEAN NOT NULL DEFAULT false,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CHECK (rejected_type IS NULL OR closed_reason = 'Rejected')
+);
+
+-- Add comment to table
+COMMENT ON TABLE hubspot_status_mappings IS 'Deal stage and application_status dropdown value pushed to HubSpot for each application status, closed reason and rejected type';
+
+-- Add comments to columns
+COMMENT ON COLUMN hubspot_status_mappings.closed_reason IS 'Set for statuses that carry a closed reason (closed, screening_completed)';
+COMMENT ON COLUMN hubspot_status_mappings.stage_id IS 'HubSpot deal stage ID within pipeline_id';
+COMMENT ON COLUMN hubspot_status_mappings.status_property_value IS 'Internal value of the deal application_status dropdown option';
+COMMENT ON COLUMN hubspot_status_mappings.sync_from_hubspot IS 'Moving a deal into stage_id in HubSpot sets this status on the application; at most one mapping per stage';
+
+-- Indexes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_hubspot_status_mappings_key
+  ON hubspot_status_mappings (status, COALESCE(closed_reason, ''), COALESCE(rejected_type, ''));
+CREATE UNIQUE INDEX IF NOT EXISTS idx_hubspot_status_mappings_sync_stage
+  ON hubspot_status_mappings (stage_id) WHERE sync_from_hubspot;
+
+-- Grant appropriate permissions
+ALTER TABLE hubspot_status_mappings ENABLE ROW LEVEL SECURITY;
+
+-- Default policy: service role can do anything
+CREATE POLICY "Service role can manage hubspot_status_mappings"
+  ON hubspot_status_mappings
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON hubspot_status_mappings TO service_role;
+
+-- Seed with the mapping previously hard-coded in HubSpotService. screening_completed without a
+-- closed reason, pending_medical_review, pending_medication_change and pending_ic were never
+-- mapped; 20261027_hubspot_status_mapping_defaults.sql seeds defaults for them.
+INSERT INTO hubspot_status_mappings (status, closed_reason, rejected_type, pipeline_id, stage_id, status_property_value, sync_from_hubspot)
+VALUES
+  ('new', NULL, NULL, 'default', '1142575458', 'Pending', false),
+  ('pending', NULL, NULL, 'default', '1142575458', 'Pending', true),
+  ('screening_scheduled', NULL, NULL, 'default', 'appointmentscheduled', 'Screening Scheduled', false),
+  ('screening_no_show', NULL, NULL, 'default', 'appointmentscheduled', 'Screening No Show', false),
+  ('invited_to_reschedule', NULL, NULL, 'default', 'appointmentscheduled', 'Invited to Reschedule', false),
+  ('secondary_screening', NULL, NULL, 'default', 'appointmentscheduled', 'Secondary Screening', false),
+  ('screening_in_process', NULL, NULL, 'default', 'appointmentscheduled', 'Screening', false),
+  ('medical_review_required', NULL, NULL, 'default', 'appointmentscheduled', 'Medical Review Required', false),
+  ('conditionally_approved', NULL, NULL, 'default', 'qualifiedtobuy', 'Conditionally Approved', true),
+  ('screening_completed', 'Approved', NULL, 'default', 'qualifiedtobuy', 'Screening Completed - Approved', false),
+  ('screening_completed', 'Unresponsive', NULL, 'default', '107658399', 'Screening Completed - Unresponsive', false),
+  ('screening_completed', 'Rejected', 'Temporary', 'default', '107658399', 'Screening Completed - Rejected - Temporary', false),
+  ('screening_completed', 'Rejected', 'Permanent', 'default', '107658399', 'Screening Completed - Rejected - Permanent', false),
+  ('closed', 'Approved', NULL, 'default', 'closedwon', 'Closed - Approved', true),
+  ('closed', 'Unresponsive', NULL, 'default', '121534028', 'Closed - Unresponsive', false),
+  ('closed', 'Rejected', 'Temporary', 'default', '121534028', 'Closed - Rejected - Temporary', false),
+  ('closed', 'Rejected', 'Permanent', 'default', '121534028', 'Closed - Rejected - Permanent', false)
+ON CONFLICT DO NOTHING;
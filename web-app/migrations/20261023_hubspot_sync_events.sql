@@ -0,0 +1,72 @@
+-- Create the tables recording pushes to HubSpot and nightly reconciliation against HubSpot
+
+CREATE TABLE IF NOT EXISTS hubspot_sync_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id UUID REFERENCES applications(id) ON DELETE CASCADE,
+  job_id UUID REFERENCES jobs(id) ON DELETE SET NULL,
+  operation TEXT NOT NULL CHECK (operation IN ('status', 'score')),
+  deal_id TEXT,
+  payload JSONB,
+  result TEXT NOT NULL DEFAULT 'pending' CHECK (result IN ('pending', 'succeeded', 'skipped', 'failed')),
+  error TEXT,
+  error_status INTEGER,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_attempt_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS hubspot_reconciliation_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+  cursor_application_id UUID,
+  checked_count INTEGER NOT NULL DEFAULT 0,
+  drift_count INTEGER NOT NULL DEFAULT 0,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  drift JSONB NOT NULL DEFAULT '[]'::jsonb,
+  last_error TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Add comments to tables
+COMMENT ON TABLE hubspot_sync_events IS 'One row per push of application state to a HubSpot deal (one per hubspot.sync_* job), across all of its attempts';
+COMMENT ON TABLE hubspot_reconciliation_runs IS 'Comparisons of each application''s expected HubSpot status, stage, score and screener against the live deal';
+
+-- Add comments to columns
+COMMENT ON COLUMN hubspot_sync_events.operation IS 'status (hubspot.sync_status: status, notes and stage) or score (hubspot.sync_score: status, score and screener)';
+COMMENT ON COLUMN hubspot_sync_events.payload IS 'Properties sent to the deal; on failure, the body of the request that failed';
+COMMENT ON COLUMN hubspot_sync_events.result IS 'pending while attempts remain, succeeded, skipped (nothing to push) or failed (job out of attempts)';
+COMMENT ON COLUMN hubspot_sync_events.error_status IS 'HTTP status of the last failed HubSpot call, e.g. 403 when the token is missing scopes';
+COMMENT ON COLUMN hubspot_reconciliation_runs.cursor_application_id IS 'Paging cursor: the last application checked, NULL before the first page';
+COMMENT ON COLUMN hubspot_reconciliation_runs.drift IS 'One entry per mismatch: [{ applicationId, participantName, dealId, field, expected, actual }]';
+
+-- Indexes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_hubspot_sync_events_job ON hubspot_sync_events (job_id);
+CREATE INDEX IF NOT EXISTS idx_hubspot_sync_events_result ON hubspot_sync_events (result, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_hubspot_sync_events_application ON hubspot_sync_events (application_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_hubspot_reconciliation_runs_created ON hubspot_reconciliation_runs (created_at DESC);
+
+-- Grant appropriate permissions
+ALTER TABLE hubspot_sync_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE hubspot_reconciliation_runs ENABLE ROW LEVEL SECURITY;
+
+-- Default policy: service role can do anything
+CREATE POLICY "Service role can manage hubspot_sync_events"
+  ON hubspot_sync_events
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage hubspot_reconciliation_runs"
+  ON hubspot_reconciliation_runs
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON hubspot_sync_events TO service_role;
+GRANT SELECT, INSERT, UPDATE, DELETE ON hubspot_reconciliation_runs TO service_role;
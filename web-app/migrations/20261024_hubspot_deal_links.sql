@@ -0,0 +1,23 @@
+-- Store which HubSpot deal each application pushes to, instead of looking it up on every sync
+
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS hubspot_deal_id TEXT;
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS hubspot_link_status TEXT CHECK (hubspot_link_status IN ('linked', 'missing', 'ambiguous'));
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS hubspot_link_candidates JSONB;
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS hubspot_link_error TEXT;
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS hubspot_link_checked_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS hubspot_linked_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS hubspot_linked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE participants ADD COLUMN IF NOT EXISTS hubspot_contact_id TEXT;
+
+-- Add comments to columns
+COMMENT ON COLUMN applications.hubspot_deal_id IS 'HubSpot deal this application syncs to; the deal carries the application id in br_application_id';
+COMMENT ON COLUMN applications.hubspot_link_status IS 'linked, missing (no deal found for the application) or ambiguous (several candidate deals); NULL until a sync first looks for the deal';
+COMMENT ON COLUMN applications.hubspot_link_candidates IS 'Deals that could belong to the application when the link is ambiguous: [{ id, name, createdAt, applicationId, pipeline, stage }]';
+COMMENT ON COLUMN applications.hubspot_link_error IS 'Why the deal could not be linked, shown on the link repair page';
+COMMENT ON COLUMN applications.hubspot_linked_by IS 'Admin who linked the deal by hand; NULL when it was linked automatically';
+COMMENT ON COLUMN participants.hubspot_contact_id IS 'HubSpot contact of the participant, found by email on the first sync';
+
+-- Indexes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_applications_hubspot_deal ON applications (hubspot_deal_id) WHERE hubspot_deal_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_applications_hubspot_link_issues ON applications (hubspot_link_status, submission_date DESC) WHERE hubspot_link_status IN ('missing', 'ambiguous');
+CREATE INDEX IF NOT EXISTS idx_participants_hubspot_contact ON participants (hubspot_contact_id) WHERE hubspot_contact_id IS NOT NULL;
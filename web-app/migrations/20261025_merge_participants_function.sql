@@ -0,0 +1,110 @@
+-- Merge a duplicate participant into a survivor in a single transaction, so a failure part-way
+-- never leaves records moved without the duplicate being retired and the merge audited
+
+CREATE OR REPLACE FUNCTION merge_participants(p_survivor_id UUID, p_merged_id UUID, p_merged_by UUID)
+RETURNS participant_merges AS $$
+DECLARE
+  survivor participants%ROWTYPE;
+  merged participants%ROWTYPE;
+  reparented_table TEXT;
+  moved INTEGER;
+  reparented JSONB := '{}'::jsonb;
+  contact_action TEXT;
+  merge_row participant_merges%ROWTYPE;
+BEGIN
+  IF p_survivor_id = p_merged_id THEN
+    RAISE EXCEPTION 'A participant cannot be merged into itself';
+  END IF;
+
+  -- Lock both records in a fixed order so concurrent merges of either one wait instead of deadlocking
+  PERFORM 1 FROM participants WHERE id IN (p_survivor_id, p_merged_id) ORDER BY id FOR UPDATE;
+
+  SELECT * INTO survivor FROM participants WHERE id = p_survivor_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Participant % not found', p_survivor_id;
+  END IF;
+  SELECT * INTO merged FROM participants WHERE id = p_merged_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Participant % not found', p_merged_id;
+  END IF;
+
+  IF survivor.merged_into_id IS NOT NULL THEN
+    RAISE EXCEPTION 'The surviving participant has already been merged into another participant';
+  END IF;
+  IF merged.merged_into_id IS NOT NULL THEN
+    RAISE EXCEPTION 'The duplicate has already been merged into another participant';
+  END IF;
+
+  FOREACH reparented_table IN ARRAY ARRAY[
+    'applications',
+    'screenings',
+    'calendly_screening_meetings',
+    'retreat_assignments',
+    'medical_review_cases',
+    'informed_consent_envelopes'
+  ] LOOP
+    EXECUTE format('UPDATE %I SET participant_id = $1 WHERE participant_id = $2', reparented_table)
+      USING p_survivor_id, p_merged_id;
+    GET DIAGNOSTICS moved = ROW_COUNT;
+    reparented := reparented || jsonb_build_object(reparented_table, moved);
+  END LOOP;
+
+  contact_action := CASE
+    WHEN merged.hubspot_contact_id IS NULL THEN CASE WHEN survivor.hubspot_contact_id IS NULL THEN 'none' ELSE 'kept' END
+    WHEN survivor.hubspot_contact_id IS NULL THEN 'adopted'
+    WHEN survivor.hubspot_contact_id = merged.hubspot_contact_id THEN 'kept'
+    ELSE 'conflict'
+  END;
+
+  -- The contact link moves with the merge, so only the survivor ever resolves to it
+  UPDATE participants
+  SET merged_into_id = p_survivor_id,
+      merged_at = NOW(),
+      is_active = false,
+      hubspot_contact_id = NULL,
+      updated_at = NOW()
+  WHERE id = p_merged_id;
+
+  -- Fill in what the survivor is missing; its own values always win
+  UPDATE participants
+  SET profile = COALESCE(merged.profile, '{}'::jsonb) || COALESCE(survivor.profile, '{}'::jsonb),
+      phone = CASE WHEN COALESCE(survivor.phone, '') = '' AND COALESCE(merged.phone, '') <> '' THEN merged.phone ELSE survivor.phone END,
+      date_of_birth = COALESCE(survivor.date_of_birth, merged.date_of_birth),
+      hubspot_contact_id = CASE WHEN contact_action = 'adopted' THEN merged.hubspot_contact_id ELSE survivor.hubspot_contact_id END,
+      updated_at = NOW()
+  WHERE id = p_survivor_id;
+
+  -- Records merged into the duplicate earlier now point straight at the survivor
+  UPDATE participants
+  SET merged_into_id = p_survivor_id,
+      updated_at = NOW()
+  WHERE merged_into_id = p_merged_id;
+
+  INSERT INTO participant_merges (
+    survivor_id,
+    merged_participant_id,
+    merged_snapshot,
+    reparented_counts,
+    hubspot_contact_action,
+    merged_hubspot_contact_id,
+    merged_by
+  ) VALUES (
+    p_survivor_id,
+    p_merged_id,
+    to_jsonb(merged),
+    reparented,
+    contact_action,
+    merged.hubspot_contact_id,
+    p_merged_by
+  )
+  RETURNING * INTO merge_row;
+
+  RETURN merge_row;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION merge_participants(UUID, UUID, UUID) IS 'Moves everything linked to p_merged_id onto p_survivor_id, retires the duplicate and records the merge, all or nothing';
+
+-- Only the service role (participantMergeService) may merge
+REVOKE ALL ON FUNCTION merge_participants(UUID, UUID, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION merge_participants(UUID, UUID, UUID) TO service_role;
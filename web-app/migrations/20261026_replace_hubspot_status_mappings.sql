@@ -0,0 +1,49 @@
+-- Replace the whole HubSpot status mapping in a single transaction, so a failed save keeps the
+-- previous mapping instead of leaving the table empty and every push unmapped
+
+CREATE OR REPLACE FUNCTION replace_hubspot_status_mappings(p_mappings JSONB, p_updated_by UUID)
+RETURNS SETOF hubspot_status_mappings AS $$
+BEGIN
+  DELETE FROM hubspot_status_mappings WHERE true;
+
+  RETURN QUERY
+  WITH inserted AS (
+    INSERT INTO hubspot_status_mappings (
+      status,
+      closed_reason,
+      rejected_type,
+      pipeline_id,
+      stage_id,
+      status_property_value,
+      sync_from_hubspot,
+      updated_by
+    )
+    SELECT
+      m.status,
+      m.closed_reason,
+      m.rejected_type,
+      m.pipeline_id,
+      m.stage_id,
+      m.status_property_value,
+      COALESCE(m.sync_from_hubspot, false),
+      p_updated_by
+    FROM jsonb_to_recordset(p_mappings) AS m(
+      status TEXT,
+      closed_reason TEXT,
+      rejected_type TEXT,
+      pipeline_id TEXT,
+      stage_id TEXT,
+      status_property_value TEXT,
+      sync_from_hubspot BOOLEAN
+    )
+    RETURNING *
+  )
+  SELECT * FROM inserted;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION replace_hubspot_status_mappings(JSONB, UUID) IS 'Swaps in a complete status mapping (rows as saved from /admin/hubspot), all or nothing';
+
+-- Only the service role (hubspotStatusMappingService) may replace the mapping
+REVOKE ALL ON FUNCTION replace_hubspot_status_mappings(JSONB, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION replace_hubspot_status_mappings(JSONB, UUID) TO service_role;
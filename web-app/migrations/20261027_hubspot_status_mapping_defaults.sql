@@ -0,0 +1,11 @@
+-- Seed default HubSpot mappings for the statuses the original seed left unmapped, so their pushes
+-- update the deal instead of being skipped. They use the nearest existing application_status
+-- options; adjust them on /admin/hubspot. Existing mappings are left as they are.
+
+INSERT INTO hubspot_status_mappings (status, closed_reason, rejected_type, pipeline_id, stage_id, status_property_value, sync_from_hubspot)
+VALUES
+  ('pending_medical_review', NULL, NULL, 'default', 'appointmentscheduled', 'Medical Review Required', false),
+  ('pending_medication_change', NULL, NULL, 'default', 'appointmentscheduled', 'Medical Review Required', false),
+  ('pending_ic', NULL, NULL, 'default', 'qualifiedtobuy', 'Conditionally Approved', false),
+  ('screening_completed', NULL, NULL, 'default', 'qualifiedtobuy', 'Conditionally Approved', false)
+ON CONFLICT DO NOTHING;
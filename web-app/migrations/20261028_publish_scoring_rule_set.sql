@@ -0,0 +1,56 @@
+-- Publish a form's draft scoring rule set in a single transaction, so a failure part-way never
+-- leaves the form with some rules removed and their replacements missing
+
+CREATE OR REPLACE FUNCTION publish_scoring_rule_set(p_target_ids UUID[], p_rules JSONB, p_created_by UUID)
+RETURNS JSONB AS $$
+DECLARE
+  removed_count INTEGER;
+  updated_count INTEGER;
+  created_count INTEGER;
+BEGIN
+  -- Active field and choice rules in scope that the draft no longer contains
+  UPDATE scoring_rules r
+  SET is_active = false
+  WHERE r.target_type IN ('field', 'choice')
+    AND r.target_id = ANY(p_target_ids)
+    AND r.is_active
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_to_recordset(p_rules) AS d(id UUID) WHERE d.id = r.id
+    );
+  GET DIAGNOSTICS removed_count = ROW_COUNT;
+
+  -- Draft rules that keep an active rule's id update it when their score or criteria changed
+  UPDATE scoring_rules r
+  SET score_value = d.score_value,
+      criteria = COALESCE(d.criteria, '{}'::jsonb),
+      updated_at = NOW()
+  FROM jsonb_to_recordset(p_rules) AS d(id UUID, score_value TEXT, criteria JSONB)
+  WHERE r.id = d.id
+    AND r.target_type IN ('field', 'choice')
+    AND r.target_id = ANY(p_target_ids)
+    AND r.is_active
+    AND (r.score_value IS DISTINCT FROM d.score_value OR COALESCE(r.criteria, '{}'::jsonb) <> COALESCE(d.criteria, '{}'::jsonb));
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+  -- The rest are new
+  INSERT INTO scoring_rules (target_type, target_id, score_value, criteria, created_by)
+  SELECT d.target_type, d.target_id, d.score_value, COALESCE(d.criteria, '{}'::jsonb), p_created_by
+  FROM jsonb_to_recordset(p_rules) AS d(id UUID, target_type TEXT, target_id UUID, score_value TEXT, criteria JSONB)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM scoring_rules r
+    WHERE r.id = d.id
+      AND r.target_type IN ('field', 'choice')
+      AND r.target_id = ANY(p_target_ids)
+      AND r.is_active
+  );
+  GET DIAGNOSTICS created_count = ROW_COUNT;
+
+  RETURN jsonb_build_object('created', created_count, 'updated', updated_count, 'removed', removed_count);
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION publish_scoring_rule_set(UUID[], JSONB, UUID) IS 'Makes the draft rules the active field and choice rules for p_target_ids, all or nothing; returns { created, updated, removed }';
+
+-- Only the service role (typeformService) may publish
+REVOKE ALL ON FUNCTION publish_scoring_rule_set(UUID[], JSONB, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION publish_scoring_rule_set(UUID[], JSONB, UUID) TO service_role;
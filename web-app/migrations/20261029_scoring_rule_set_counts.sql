@@ -0,0 +1,37 @@
+-- Counts for the rule-set versions and rescore runs pages, one grouped query per list
+-- instead of a count query per version or run
+
+CREATE OR REPLACE FUNCTION count_applications_by_rule_set_version(p_version_ids UUID[])
+RETURNS TABLE (version_id UUID, applications_count BIGINT) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT a.scoring_rule_set_version_id, COUNT(*)
+  FROM applications a
+  WHERE a.scoring_rule_set_version_id = ANY(p_version_ids)
+  GROUP BY a.scoring_rule_set_version_id;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION count_applications_by_rule_set_version(UUID[]) IS 'How many applications are currently scored with each of p_version_ids; versions with none are omitted';
+
+CREATE OR REPLACE FUNCTION count_rescore_run_jobs(p_run_ids UUID[])
+RETURNS TABLE (rescore_run_id UUID, succeeded_count BIGINT, failed_count BIGINT) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT (j.payload->>'rescoreRunId')::uuid,
+         COUNT(*) FILTER (WHERE j.status = 'succeeded'),
+         COUNT(*) FILTER (WHERE j.status = 'dead')
+  FROM jobs j
+  WHERE j.type = 'scoring.rescore'
+    AND j.payload->>'rescoreRunId' = ANY(p_run_ids::text[])
+  GROUP BY j.payload->>'rescoreRunId';
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION count_rescore_run_jobs(UUID[]) IS 'Succeeded and dead scoring.rescore jobs for each of p_run_ids; runs with no jobs yet are omitted';
+
+-- Only the service role (scoringRuleSetService) may read the counts
+REVOKE ALL ON FUNCTION count_applications_by_rule_set_version(UUID[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION count_applications_by_rule_set_version(UUID[]) TO service_role;
+REVOKE ALL ON FUNCTION count_rescore_run_jobs(UUID[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION count_rescore_run_jobs(UUID[]) TO service_role;
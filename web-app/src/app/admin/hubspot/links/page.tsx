@@ -0,0 +1,264 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import axios from 'axios';
+import { HubSpotLinkIssue, HubSpotUnlinkedDeal } from '@/types/hubspotSync';
+
+const errorMessage = (err: unknown, fallback: string) =>
+  (axios.isAxiosError(err) ? err.response?.data?.error : null) || fallback;
+
+const formatDateTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+type RepairAction = 'retry' | 'link' | 'create';
+
+export default function HubSpotDealLinksPage() {
+  const [issues, setIssues] = useState<HubSpotLinkIssue[]>([]);
+  const [unlinkedDeals, setUnlinkedDeals] = useState<HubSpotUnlinkedDeal[]>([]);
+  const [dealInputs, setDealInputs] = useState<Record<string, string>>({});
+  const [applicationInputs, setApplicationInputs] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadIssues = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await axios.get('/api/hubspot/deal-links');
+      setIssues(response.data.issues || []);
+      setUnlinkedDeals(response.data.unlinkedDeals || []);
+      setError(null);
+    } catch (err) {
+      console.error('Error loading HubSpot deal links:', err);
+      setError(errorMessage(err, 'Failed to load applications without a HubSpot deal.'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadIssues();
+  }, [loadIssues]);
+
+  const repair = async (applicationId: string, action: RepairAction, dealId?: string) => {
+    if (action === 'create' && !window.confirm('Create a new HubSpot deal for this application?')) return;
+
+    try {
+      setWorking(applicationId);
+      setError(null);
+      const response = await axios.post('/api/hubspot/deal-links', { applicationId, action, dealId });
+      const link = response.data.link;
+      setNotice(link?.dealId
+        ? `Linked to deal ${link.dealId}. The application's status, score and screener will be pushed to it.`
+        : `Still ${link?.status}: ${link?.error || 'no deal found'}`);
+      await loadIssues();
+    } catch (err) {
+      console.error('Error repairing HubSpot deal link:', err);
+      setError(errorMessage(err, 'Failed to repair the HubSpot deal link.'));
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 w-full">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">HubSpot Deal Links</h1>
+        <Link href="/admin/hubspot/sync" className="text-blue-500 hover:text-blue-700">
+          &larr; Back to Sync Report
+        </Link>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4" role="alert">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {notice && (
+        <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded mb-4 flex justify-between">
+          <p>{notice}</p>
+          <button onClick={() => setNotice(null)} className="text-sm">Dismiss</button>
+        </div>
+      )}
+
+      <div className="bg-white shadow-md rounded px-8 pt-6 pb-8 mb-6">
+        <p className="text-sm text-gray-600 mb-4">
+          Each application syncs to one HubSpot deal, found once by its <span className="font-mono">br_application_id</span> or
+          claimed from the applicant&apos;s deals. These applications have no deal, or several that could be theirs.
+          Pick the right deal, enter a deal ID, look again after fixing HubSpot, or create a new deal.
+        </p>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : issues.length === 0 ? (
+          <p className="text-sm text-gray-500 italic">Every application that has been synced is linked to its deal.</p>
+        ) : (
+          <div className="overflow-x-auto shadow rounded-lg">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Application</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Problem</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Candidate deals</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Repair</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {issues.map(issue => {
+                  const busy = working !== null;
+                  const dealInput = dealInputs[issue.applicationId] || '';
+                  return (
+                    <tr key={issue.applicationId} className="align-top">
+                      <td className="px-4 py-2">
+                        <Link href={`/applications/${issue.applicationId}`} className="text-blue-600 hover:text-blue-800">
+                          {issue.participantName || issue.applicationId}
+                        </Link>
+                        <div className="text-xs text-gray-500">{issue.email || 'No email'}</div>
+                        <div className="text-xs text-gray-500">Submitted {formatDateTime(issue.submissionDate)}</div>
+                        {issue.contactId && <div className="text-xs text-gray-500">Contact {issue.contactId}</div>}
+                      </td>
+                      <td className="px-4 py-2">
+                        <span className={`inline-flex rounded-full px-2 text-xs font-semibold leading-5 ${
+                          issue.linkStatus === 'ambiguous' ? 'bg-yellow-100 text-yellow-800' : 'bg-red-100 text-red-800'
+                        }`}>
+                          {issue.linkStatus}
+                        </span>
+                        {issue.error && <div className="text-xs text-gray-600 mt-1">{issue.error}</div>}
+                        <div className="text-xs text-gray-400 mt-1">Checked {formatDateTime(issue.checkedAt)}</div>
+                      </td>
+                      <td className="px-4 py-2">
+                        {issue.candidates.length === 0 ? (
+                          <span className="text-xs text-gray-400 italic">None</span>
+                        ) : (
+                          <ul className="space-y-1">
+                            {issue.candidates.map(candidate => (
+                              <li key={candidate.id} className="flex items-center justify-between gap-4">
+                                <div className="text-xs">
+                                  <div className="font-medium text-gray-700">{candidate.name || `Deal ${candidate.id}`}</div>
+                                  <div className="text-gray-500">
+                                    {candidate.id} · created {formatDateTime(candidate.createdAt)}
+                                    {candidate.applicationId && <> · br_application_id {candidate.applicationId}</>}
+                                  </div>
+                                </div>
+                                <button
+                                  onClick={() => repair(issue.applicationId, 'link', candidate.id)}
+                                  disabled={busy}
+                                  className="text-blue-600 hover:text-blue-800 disabled:opacity-50 whitespace-nowrap"
+                                >
+                                  Link
+                                </button>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 space-y-2">
+                        <div className="flex gap-2">
+                          <input
+                            type="text"
+                            value={dealInput}
+                            onChange={(e) => setDealInputs({ ...dealInputs, [issue.applicationId]: e.target.value })}
+                            placeholder="Deal ID"
+                            className="p-1 border rounded w-32"
+                          />
+                          <button
+                            onClick={() => repair(issue.applicationId, 'link', dealInput)}
+                            disabled={busy || !dealInput.trim()}
+                            className="px-2 py-1 rounded bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+                          >
+                            Link
+                          </button>
+                        </div>
+                        <div className="flex gap-4 text-xs">
+                          <button
+                            onClick={() => repair(issue.applicationId, 'retry')}
+                            disabled={busy}
+                            className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                          >
+                            {working === issue.applicationId ? 'Working...' : 'Look again'}
+                          </button>
+                          {issue.linkStatus === 'missing' && issue.contactId && (
+                            <button
+                              onClick={() => repair(issue.applicationId, 'create')}
+                              disabled={busy}
+                              className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                            >
+                              Create deal
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white shadow-md rounded px-8 pt-6 pb-8 mb-6">
+        <h2 className="text-xl font-semibold mb-2">Deals Without an Application</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          These deals changed stage in HubSpot but are not linked to an application and have no
+          <span className="font-mono"> br_application_id</span>, so the changes were ignored. Enter the application the deal
+          belongs to; linking pushes the application&apos;s current status to the deal rather than replaying these changes.
+        </p>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : unlinkedDeals.length === 0 ? (
+          <p className="text-sm text-gray-500 italic">No stage changes have come in for unlinked deals.</p>
+        ) : (
+          <div className="overflow-x-auto shadow rounded-lg">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Deal</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Latest stage</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Ignored changes</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Link to application</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {unlinkedDeals.map(deal => {
+                  const applicationInput = (applicationInputs[deal.dealId] || '').trim();
+                  return (
+                    <tr key={deal.dealId} className="align-top">
+                      <td className="px-4 py-2 font-mono">{deal.dealId}</td>
+                      <td className="px-4 py-2">
+                        <div className="font-mono text-xs">{deal.lastStage || '—'}</div>
+                        <div className="text-xs text-gray-400 mt-1">{formatDateTime(deal.lastEventAt)}</div>
+                      </td>
+                      <td className="px-4 py-2">{deal.eventCount}</td>
+                      <td className="px-4 py-2">
+                        <div className="flex gap-2">
+                          <input
+                            type="text"
+                            value={applicationInputs[deal.dealId] || ''}
+                            onChange={(e) => setApplicationInputs({ ...applicationInputs, [deal.dealId]: e.target.value })}
+                            placeholder="Application ID"
+                            className="p-1 border rounded w-72"
+                          />
+                          <button
+                            onClick={() => repair(applicationInput, 'link', deal.dealId)}
+                            disabled={working !== null || !applicationInput}
+                            className="px-2 py-1 rounded bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+                          >
+                            {working !== null && working === applicationInput ? 'Working...' : 'Link'}
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import axios from 'axios';
+import { HUBSPOT_MAPPING_KEYS, HubSpotMappingKey, hubspotMappingKeyOf } from '@/lib/hubspot-status-mapping';
+import {
+  HubSpotPipeline,
+  HubSpotPropertyOption,
+  HubSpotStatusMapping,
+  HubSpotStatusMappingInput
+} from '@/types/hubspotSync';
+
+const errorMessage = (err: unknown, fallback: string) =>
+  (axios.isAxiosError(err) ? err.response?.data?.error : null) || fallback;
+
+type MappingRow = Pick<HubSpotStatusMappingInput, 'pipelineId' | 'stageId' | 'statusPropertyValue' | 'syncFromHubSpot'>;
+
+const EMPTY_ROW: MappingRow = { pipelineId: '', stageId: '', statusPropertyValue: '', syncFromHubSpot: false };
+
+const keyOf = (key: HubSpotMappingKey) => hubspotMappingKeyOf(key.status, key.closedReason, key.rejectedType);
+
+const toRows = (mappings: HubSpotStatusMapping[]): Record<string, MappingRow> =>
+  Object.fromEntries(mappings.map(mapping => [
+    hubspotMappingKeyOf(mapping.status, mapping.closed_reason, mapping.rejected_type),
+    {
+      pipelineId: mapping.pipeline_id,
+      stageId: mapping.stage_id,
+      statusPropertyValue: mapping.status_property_value,
+      syncFromHubSpot: mapping.sync_from_hubspot
+    }
+  ]));
+
+const isComplete = (row?: MappingRow) => !!row?.pipelineId && !!row.stageId && !!row.statusPropertyValue;
+
+export default function HubSpotStatusMappingPage() {
+  const [rows, setRows] = useState<Record<string, MappingRow>>({});
+  const [pipelines, setPipelines] = useState<HubSpotPipeline[]>([]);
+  const [statusOptions, setStatusOptions] = useState<HubSpotPropertyOption[]>([]);
+  const [catalogError, setCatalogError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadMapping = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await axios.get('/api/hubspot/status-mapping');
+      setRows(toRows(response.data.mappings || []));
+      setPipelines(response.data.pipelines || []);
+      setStatusOptions(response.data.statusOptions || []);
+      setCatalogError(response.data.catalogError || null);
+      setError(null);
+    } catch (err) {
+      console.error('Error loading HubSpot status mapping:', err);
+      setError(errorMessage(err, 'Failed to load the HubSpot status mapping.'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadMapping();
+  }, [loadMapping]);
+
+  const updateRow = (key: string, changes: Partial<MappingRow>) => {
+    const row = { ...EMPTY_ROW, ...rows[key], ...changes };
+    // A stage belongs to one pipeline, so changing the pipeline clears it
+    if (changes.pipelineId !== undefined && changes.pipelineId !== rows[key]?.pipelineId) row.stageId = '';
+    setRows({ ...rows, [key]: row });
+  };
+
+  const saveMapping = async () => {
+    const mappings: HubSpotStatusMappingInput[] = HUBSPOT_MAPPING_KEYS
+      .filter(key => rows[keyOf(key)])
+      .map(key => ({
+        status: key.status,
+        closedReason: key.closedReason,
+        rejectedType: key.rejectedType,
+        ...rows[keyOf(key)]
+      }));
+
+    try {
+      setSaving(true);
+      setError(null);
+      const response = await axios.put('/api/hubspot/status-mapping', { mappings });
+      setRows(toRows(response.data.mappings || []));
+      setNotice('Mapping saved. It applies to the next status sync of each application.');
+    } catch (err) {
+      console.error('Error saving HubSpot status mapping:', err);
+      setError(errorMessage(err, 'Failed to save the HubSpot status mapping.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const unmappedCount = HUBSPOT_MAPPING_KEYS.filter(key => !isComplete(rows[keyOf(key)])).length;
+  const optionValues = new Set(statusOptions.map(option => option.value));
+
+  return (
+    <div className="container mx-auto px-4 py-8 w-full">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">HubSpot Status Mapping</h1>
+        <div className="space-x-4">
+          <Link href="/admin/hubspot/sync" className="text-blue-500 hover:text-blue-700">
+            Sync Report
+          </Link>
+          <Link href="/admin" className="text-blue-500 hover:text-blue-700">
+            &larr; Back to Admin
+          </Link>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4" role="alert">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {catalogError && (
+        <div className="bg-yellow-100 border border-yellow-400 text-yellow-800 px-4 py-3 rounded mb-4" role="alert">
+          <p>HubSpot could not be reached, so the mapping cannot be edited right now: {catalogError}</p>
+        </div>
+      )}
+
+      {notice && (
+        <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded mb-4 flex justify-between">
+          <p>{notice}</p>
+          <button onClick={() => setNotice(null)} className="text-sm">Dismiss</button>
+        </div>
+      )}
+
+      <div className="bg-white shadow-md rounded px-8 pt-6 pb-8 mb-6">
+        <p className="text-sm text-gray-600 mb-4">
+          Choose the deal stage and <span className="font-mono">application_status</span> value each application
+          status is pushed to HubSpot as. Tick &ldquo;Sync from HubSpot&rdquo; on at most one status per stage to let
+          moving a deal into that stage in HubSpot change the application&apos;s status.
+        </p>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading mapping...</p>
+        ) : (
+          <>
+            {unmappedCount > 0 && (
+              <p className="text-sm text-yellow-700 mb-4">
+                {unmappedCount} status{unmappedCount === 1 ? ' is' : 'es are'} not mapped and will not be synced to HubSpot.
+              </p>
+            )}
+
+            <div className="overflow-x-auto shadow rounded-lg mb-4">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Application status</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Pipeline</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Deal stage</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">application_status</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sync from HubSpot</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {HUBSPOT_MAPPING_KEYS.map(mappingKey => {
+                    const key = keyOf(mappingKey);
+                    const row = { ...EMPTY_ROW, ...rows[key] };
+                    const pipeline = pipelines.find(p => p.id === row.pipelineId);
+                    const stageMissing = row.stageId && pipeline && !pipeline.stages.some(s => s.id === row.stageId);
+                    const disabled = !!catalogError;
+                    return (
+                      <tr key={key} className={isComplete(row) ? '' : 'bg-yellow-50'}>
+                        <td className="px-4 py-2 font-medium text-gray-700">{mappingKey.label}</td>
+                        <td className="px-4 py-2">
+                          <select
+                            value={row.pipelineId}
+                            disabled={disabled}
+                            onChange={(e) => updateRow(key, { pipelineId: e.target.value })}
+                            className="p-2 border rounded w-full"
+                          >
+                            <option value="">Select a pipeline</option>
+                            {row.pipelineId && !pipeline && (
+                              <option value={row.pipelineId}>Not in HubSpot ({row.pipelineId})</option>
+                            )}
+                            {pipelines.map(p => (
+                              <option key={p.id} value={p.id}>{p.label}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-4 py-2">
+                          <select
+                            value={row.stageId}
+                            disabled={disabled || !row.pipelineId}
+                            onChange={(e) => updateRow(key, { stageId: e.target.value })}
+                            className="p-2 border rounded w-full"
+                          >
+                            <option value="">Select a stage</option>
+                            {(stageMissing || (row.stageId && !pipeline)) && (
+                              <option value={row.stageId}>Not in HubSpot ({row.stageId})</option>
+                            )}
+                            {pipeline?.stages.map(stage => (
+                              <option key={stage.id} value={stage.id}>{stage.label}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-4 py-2">
+                          <select
+                            value={row.statusPropertyValue}
+                            disabled={disabled}
+                            onChange={(e) => updateRow(key, { statusPropertyValue: e.target.value })}
+                            className="p-2 border rounded w-full"
+                          >
+                            <option value="">Select a value</option>
+                            {row.statusPropertyValue && !optionValues.has(row.statusPropertyValue) && (
+                              <option value={row.statusPropertyValue}>Not in HubSpot ({row.statusPropertyValue})</option>
+                            )}
+                            {statusOptions.map(option => (
+                              <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-4 py-2 text-center">
+                          <input
+                            type="checkbox"
+                            checked={row.syncFromHubSpot}
+                            disabled={disabled}
+                            onChange={(e) => updateRow(key, { syncFromHubSpot: e.target.checked })}
+                          />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <button
+              onClick={saveMapping}
+              disabled={saving || !!catalogError}
+              className="px-4 py-2 rounded bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Mapping'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
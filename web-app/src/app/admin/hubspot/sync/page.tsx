@@ -0,0 +1,294 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import axios from 'axios';
+import {
+  HubSpotDriftField,
+  HubSpotPushResult,
+  HubSpotReconciliationRun,
+  HubSpotSyncEvent
+} from '@/types/hubspotSync';
+
+const errorMessage = (err: unknown, fallback: string) =>
+  (axios.isAxiosError(err) ? err.response?.data?.error : null) || fallback;
+
+const formatDateTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+const driftFieldLabels: Record<HubSpotDriftField, string> = {
+  deal: 'Deal',
+  status: 'application_status',
+  stage: 'Deal stage',
+  score: 'application_score',
+  screener: 'screeners_name'
+};
+
+const resultStyles: Record<HubSpotPushResult, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  succeeded: 'bg-green-100 text-green-800',
+  skipped: 'bg-gray-100 text-gray-700',
+  failed: 'bg-red-100 text-red-800'
+};
+
+export default function HubSpotSyncReportPage() {
+  const [run, setRun] = useState<HubSpotReconciliationRun | null>(null);
+  const [events, setEvents] = useState<HubSpotSyncEvent[]>([]);
+  const [resultFilter, setResultFilter] = useState<HubSpotPushResult | ''>('failed');
+  const [loading, setLoading] = useState(true);
+  const [starting, setStarting] = useState(false);
+  const [pushing, setPushing] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [runResponse, eventsResponse] = await Promise.all([
+        axios.get('/api/hubspot/reconciliation'),
+        axios.get('/api/hubspot/sync-events', { params: resultFilter ? { result: resultFilter } : {} })
+      ]);
+      setRun(runResponse.data.run || null);
+      setEvents(eventsResponse.data.events || []);
+      setError(null);
+    } catch (err) {
+      console.error('Error loading HubSpot sync report:', err);
+      setError(errorMessage(err, 'Failed to load the HubSpot sync report.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [resultFilter]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const startRun = async () => {
+    try {
+      setStarting(true);
+      setError(null);
+      await axios.post('/api/hubspot/reconciliation');
+      setNotice('Reconciliation started. Refresh in a few minutes to see the results.');
+      await loadReport();
+    } catch (err) {
+      console.error('Error starting HubSpot reconciliation:', err);
+      setError(errorMessage(err, 'Failed to start the reconciliation.'));
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const pushAgain = async (applicationId: string) => {
+    try {
+      setPushing(applicationId);
+      setError(null);
+      await axios.post('/api/hubspot/sync-events', { applicationId });
+      setNotice('Push queued. It runs with the next job worker pass.');
+    } catch (err) {
+      console.error('Error queueing HubSpot push:', err);
+      setError(errorMessage(err, 'Failed to queue the push.'));
+    } finally {
+      setPushing(null);
+    }
+  };
+
+  const runInProgress = run?.status === 'pending' || run?.status === 'running';
+
+  return (
+    <div className="container mx-auto px-4 py-8 w-full">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">HubSpot Sync Report</h1>
+        <div className="space-x-4">
+          <Link href="/admin/hubspot/links" className="text-blue-500 hover:text-blue-700">
+            Deal Links
+          </Link>
+          <Link href="/admin/hubspot" className="text-blue-500 hover:text-blue-700">
+            &larr; Back to HubSpot Status Mapping
+          </Link>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4" role="alert">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {notice && (
+        <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded mb-4 flex justify-between">
+          <p>{notice}</p>
+          <button onClick={() => setNotice(null)} className="text-sm">Dismiss</button>
+        </div>
+      )}
+
+      <div className="bg-white shadow-md rounded px-8 pt-6 pb-8 mb-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Reconciliation</h2>
+          <button
+            onClick={startRun}
+            disabled={starting || runInProgress}
+            className="px-4 py-2 rounded bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+          >
+            {runInProgress ? 'Running...' : starting ? 'Starting...' : 'Run Now'}
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Each night every open application, and every application closed in the last 30 days, is compared with its
+          HubSpot deal. Differences are listed below; pushing again overwrites the deal with the app&apos;s values.
+        </p>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : !run ? (
+          <p className="text-sm text-gray-500 italic">No reconciliation has run yet.</p>
+        ) : (
+          <>
+            <div className="text-sm text-gray-700 mb-4">
+              <span className="font-medium capitalize">{run.status}</span> · started {formatDateTime(run.created_at)}
+              {run.completed_at && <> · finished {formatDateTime(run.completed_at)}</>}
+              {' · '}{run.checked_count} checked · {run.drift_count} differences · {run.error_count} errors
+              {run.last_error && <div className="text-red-600 mt-1">Last error: {run.last_error}</div>}
+            </div>
+
+            {run.drift.length === 0 ? (
+              <p className="text-sm text-gray-500 italic">
+                {run.status === 'completed' ? 'Everything matches HubSpot.' : 'No differences found so far.'}
+              </p>
+            ) : (
+              <div className="overflow-x-auto shadow rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Application</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Field</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expected</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">In HubSpot</th>
+                      <th className="px-4 py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {run.drift.map((item, index) => (
+                      <tr key={`${item.applicationId}-${item.field}-${index}`}>
+                        <td className="px-4 py-2">
+                          <Link href={`/applications/${item.applicationId}`} className="text-blue-600 hover:text-blue-800">
+                            {item.participantName || item.applicationId}
+                          </Link>
+                          {item.dealId && <div className="text-xs text-gray-500">Deal {item.dealId}</div>}
+                        </td>
+                        <td className="px-4 py-2 font-mono text-xs">{driftFieldLabels[item.field]}</td>
+                        <td className="px-4 py-2 text-gray-700">{item.expected ?? <span className="italic text-gray-400">empty</span>}</td>
+                        <td className="px-4 py-2 text-gray-700">{item.actual ?? <span className="italic text-gray-400">empty</span>}</td>
+                        <td className="px-4 py-2 text-right">
+                          {item.field === 'deal' ? (
+                            <Link href="/admin/hubspot/links" className="text-blue-600 hover:text-blue-800">
+                              Repair link
+                            </Link>
+                          ) : (
+                            <button
+                              onClick={() => pushAgain(item.applicationId)}
+                              disabled={pushing !== null}
+                              className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                            >
+                              {pushing === item.applicationId ? 'Queueing...' : 'Push again'}
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <div className="bg-white shadow-md rounded px-8 pt-6 pb-8 mb-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Recent Pushes</h2>
+          <select
+            value={resultFilter}
+            onChange={(e) => setResultFilter(e.target.value as HubSpotPushResult | '')}
+            className="p-2 border rounded"
+          >
+            <option value="failed">Failed</option>
+            <option value="pending">Retrying</option>
+            <option value="succeeded">Succeeded</option>
+            <option value="skipped">Skipped</option>
+            <option value="">All</option>
+          </select>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Failed pushes are retried automatically with backoff; a push is marked failed once it runs out of attempts.
+        </p>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-gray-500 italic">No pushes to show.</p>
+        ) : (
+          <div className="overflow-x-auto shadow rounded-lg">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Application</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Push</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Result</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Details</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {events.map(event => (
+                  <tr key={event.id}>
+                    <td className="px-4 py-2 text-gray-500 whitespace-nowrap">{formatDateTime(event.last_attempt_at || event.created_at)}</td>
+                    <td className="px-4 py-2">
+                      {event.application_id ? (
+                        <Link href={`/applications/${event.application_id}`} className="text-blue-600 hover:text-blue-800">
+                          {event.participant_name || event.application_id}
+                        </Link>
+                      ) : '—'}
+                      {event.deal_id && <div className="text-xs text-gray-500">Deal {event.deal_id}</div>}
+                    </td>
+                    <td className="px-4 py-2 text-gray-700 capitalize">{event.operation}</td>
+                    <td className="px-4 py-2">
+                      <span className={`inline-flex rounded-full px-2 text-xs font-semibold leading-5 ${resultStyles[event.result]}`}>
+                        {event.result}
+                      </span>
+                      <div className="text-xs text-gray-500">
+                        attempt {event.attempts} of {event.max_attempts}
+                      </div>
+                    </td>
+                    <td className="px-4 py-2 text-xs text-gray-600 max-w-md">
+                      {event.error && (
+                        <div className="text-red-600 break-words">
+                          {event.error_status === 403 ? 'Missing HubSpot scopes: ' : ''}{event.error}
+                        </div>
+                      )}
+                      {event.payload && (
+                        <div className="font-mono break-words">
+                          {Object.entries(event.payload).map(([key, value]) => `${key}=${value ?? ''}`).join(', ')}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      {event.application_id && event.result === 'failed' && (
+                        <button
+                          onClick={() => pushAgain(event.application_id!)}
+                          disabled={pushing !== null}
+                          className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                        >
+                          {pushing === event.application_id ? 'Queueing...' : 'Retry'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -19,12 +19,26 @@ export default function AdminDashboard() {
       icon: '👤',
       roles: [UserRole.PROGRAM_OPERATIONS_ADMINISTRATOR, UserRole.SCREENER_LEAD]
     },
+    {
+      title: 'Retreats',
+      description: 'Manage retreats, capacity, facilitators and rosters',
+      link: '/admin/retreats',
+      icon: '🏕️',
+      roles: [UserRole.PROGRAM_OPERATIONS_ADMINISTRATOR, UserRole.PROGRAM_OPERATIONS_MANAGER, UserRole.SCREENER_LEAD]
+    },
     {
       title: 'Typeform Integration',
       description: 'Manage application forms and scoring configuration',
       link: '/admin/typeform',
       icon: '📋',
       roles: [UserRole.PROGRAM_OPERATIONS_ADMINISTRATOR, UserRole.PROGRAM_OPERATIONS_MANAGER]
+    },
+    {
+      title: 'HubSpot Integration',
+      description: 'Map statuses to HubSpot deal stages, review sync failures and drift, and repair deal links',
+      link: '/admin/hubspot',
+      icon: '🔗',
+      roles: [UserRole.PROGRAM_OPERATIONS_ADMINISTRATOR, UserRole.PROGRAM_OPERATIONS_MANAGER]
     }
   ];
   
@@ -0,0 +1,149 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import Card from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import RetreatForm, { RetreatFormPayload } from '@/components/retreats/RetreatForm';
+import { Retreat } from '@/types/retreat';
+
+export default function EditRetreatPage() {
+  const params = useParams();
+  const router = useRouter();
+  const [retreat, setRetreat] = useState<Retreat | null>(null);
+  const [facilitators, setFacilitators] = useState<{ id: string; name: string }[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadRetreat = async () => {
+      if (!params.id) return;
+      setIsLoading(true);
+
+      try {
+        const response = await fetch(`/api/retreats/${params.id}`, { cache: 'no-store' });
+        const data = await response.json();
+        if (!response.ok) {
+          setError(data.error || 'Failed to load retreat');
+        } else {
+          setRetreat(data.retreat);
+          setFacilitators(data.facilitators);
+        }
+      } catch {
+        setError('An unexpected error occurred');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadRetreat();
+  }, [params.id]);
+
+  const handleSubmit = async (payload: RetreatFormPayload) => {
+    setError(null);
+    setMessage(null);
+    setIsSaving(true);
+
+    try {
+      const response = await fetch(`/api/retreats/${params.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to update retreat');
+      } else {
+        setRetreat(data.retreat);
+        setMessage('Retreat updated');
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm('Delete this retreat? This cannot be undone.')) return;
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/retreats/${params.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to delete retreat');
+      } else {
+        router.push('/admin/retreats');
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <p className="text-gray-500">Loading retreat...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <div className="mb-6 flex justify-between items-center">
+        <div className="flex items-center">
+          <Link href="/admin/retreats" className="text-blue-600 hover:text-blue-800 mr-4">
+            ← Back to Retreats
+          </Link>
+          <h1 className="text-2xl font-semibold text-gray-900">
+            {retreat ? `Edit ${retreat.name}` : 'Edit Retreat'}
+          </h1>
+        </div>
+        {retreat && (
+          <div className="flex space-x-3">
+            <Link href={`/admin/retreats/${retreat.id}/roster`}>
+              <Button variant="outline">View Roster</Button>
+            </Link>
+            <Button variant="danger" onClick={handleDelete}>Delete</Button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md border border-red-200">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="mb-4 p-3 bg-green-50 text-green-700 rounded-md border border-green-200">
+          {message}
+        </div>
+      )}
+
+      {retreat && (
+        <Card>
+          <Card.Content>
+            <p className="mb-4 text-sm text-gray-500">
+              {retreat.confirmed_count ?? 0} of {retreat.capacity} places confirmed
+              {(retreat.waitlist_count ?? 0) > 0 && `, ${retreat.waitlist_count} on the waitlist`}
+            </p>
+            <RetreatForm
+              key={retreat.updated_at}
+              retreat={retreat}
+              facilitators={facilitators}
+              submitLabel={isSaving ? 'Saving...' : 'Save Changes'}
+              isSubmitting={isSaving}
+              onSubmit={handleSubmit}
+            />
+          </Card.Content>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { APPLICATION_STATUS_LABELS } from '@/lib/application-status-machine';
+import { RETREAT_STATUS_COLORS, RETREAT_STATUS_LABELS } from '@/components/retreats/RetreatForm';
+import { ApplicationStatus } from '@/types/application';
+import { Retreat, RetreatAssignmentStatus, RetreatRosterEntry } from '@/types/retreat';
+
+const assignmentStatusColors: Record<RetreatAssignmentStatus, string> = {
+  confirmed: 'bg-green-100 text-green-800',
+  waitlisted: 'bg-yellow-100 text-yellow-800',
+  withdrawn: 'bg-gray-100 text-gray-600',
+};
+
+const formatScreeningStatus = (status?: string | null) =>
+  status ? status.charAt(0) + status.slice(1).toLowerCase() : 'Not started';
+
+export default function RetreatRosterPage() {
+  const params = useParams();
+  const [retreat, setRetreat] = useState<Retreat | null>(null);
+  const [roster, setRoster] = useState<RetreatRosterEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showWithdrawn, setShowWithdrawn] = useState(false);
+
+  const loadRoster = useCallback(async () => {
+    if (!params.id) return;
+
+    try {
+      const response = await fetch(`/api/retreats/${params.id}/roster`, { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to load roster');
+      } else {
+        setRetreat(data.retreat);
+        setRoster(data.roster);
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [params.id]);
+
+  useEffect(() => {
+    loadRoster();
+  }, [loadRoster]);
+
+  const handleWithdraw = async (entry: RetreatRosterEntry) => {
+    if (!confirm(`Withdraw ${entry.participant_name} from this retreat?`)) return;
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/retreats/${params.id}/assignments/${entry.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to withdraw participant');
+        return;
+      }
+      await loadRoster();
+    } catch {
+      setError('An unexpected error occurred');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <p className="text-gray-500">Loading roster...</p>
+      </div>
+    );
+  }
+
+  const visibleRoster = roster.filter(entry => showWithdrawn || entry.status !== 'withdrawn');
+
+  return (
+    <div className="p-6">
+      <div className="mb-6 flex items-center">
+        <Link href="/admin/retreats" className="text-blue-600 hover:text-blue-800 mr-4">
+          ← Back to Retreats
+        </Link>
+        <h1 className="text-2xl font-semibold text-gray-900">
+          {retreat ? `${retreat.name} Roster` : 'Roster'}
+        </h1>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md border border-red-200">
+          {error}
+        </div>
+      )}
+
+      {retreat && (
+        <div className="mb-6 bg-white rounded-md shadow p-4 flex flex-wrap items-center gap-6 text-sm text-gray-700">
+          <span>{retreat.location}</span>
+          <span>
+            {new Date(`${retreat.start_date}T00:00:00`).toLocaleDateString()} – {new Date(`${retreat.end_date}T00:00:00`).toLocaleDateString()}
+          </span>
+          <span>{retreat.confirmed_count ?? 0} / {retreat.capacity} confirmed</span>
+          <span>{retreat.waitlist_count ?? 0} waitlisted</span>
+          <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${RETREAT_STATUS_COLORS[retreat.status]}`}>
+            {RETREAT_STATUS_LABELS[retreat.status]}
+          </span>
+          {retreat.facilitators && retreat.facilitators.length > 0 && (
+            <span>Facilitators: {retreat.facilitators.map(f => f.name).join(', ')}</span>
+          )}
+        </div>
+      )}
+
+      <div className="mb-3 flex justify-end">
+        <label className="flex items-center text-sm text-gray-600">
+          <input
+            type="checkbox"
+            className="mr-2"
+            checked={showWithdrawn}
+            onChange={(e) => setShowWithdrawn(e.target.checked)}
+          />
+          Show withdrawn
+        </label>
+      </div>
+
+      <div className="bg-white rounded-md shadow overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Participant
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Place
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Application Status
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Screening
+              </th>
+              <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {visibleRoster.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">
+                  No participants assigned
+                </td>
+              </tr>
+            ) : (
+              visibleRoster.map((entry) => (
+                <tr key={entry.id}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{entry.participant_name}</div>
+                    <div className="text-sm text-gray-500">{entry.participant_email}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${assignmentStatusColors[entry.status]}`}>
+                      {entry.status === 'waitlisted'
+                        ? `Waitlist #${entry.waitlist_position}`
+                        : entry.status.charAt(0).toUpperCase() + entry.status.slice(1)}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {APPLICATION_STATUS_LABELS[entry.application_status as ApplicationStatus] || entry.application_status}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {formatScreeningStatus(entry.screening_status)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-4">
+                    <Link
+                      href={`/screenings/${entry.application_id}`}
+                      className="text-indigo-600 hover:text-indigo-900"
+                    >
+                      View
+                    </Link>
+                    {entry.status !== 'withdrawn' && (
+                      <button
+                        onClick={() => handleWithdraw(entry)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        Withdraw
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
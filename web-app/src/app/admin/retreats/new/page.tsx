@@ -0,0 +1,83 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import Card from '@/components/ui/Card';
+import RetreatForm, { RetreatFormPayload } from '@/components/retreats/RetreatForm';
+
+export default function NewRetreatPage() {
+  const router = useRouter();
+  const [facilitators, setFacilitators] = useState<{ id: string; name: string }[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadFacilitators = async () => {
+      try {
+        const response = await fetch('/api/retreats/facilitators', { cache: 'no-store' });
+        const data = await response.json();
+        if (response.ok) {
+          setFacilitators(data.facilitators);
+        }
+      } catch (err) {
+        console.error('Error loading facilitators:', err);
+      }
+    };
+
+    loadFacilitators();
+  }, []);
+
+  const handleSubmit = async (payload: RetreatFormPayload) => {
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/retreats', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to create retreat');
+      } else {
+        // Success - redirect back to retreats list
+        router.push('/admin/retreats');
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <div className="mb-6 flex items-center">
+        <Link href="/admin/retreats" className="text-blue-600 hover:text-blue-800 mr-4">
+          ← Back to Retreats
+        </Link>
+        <h1 className="text-2xl font-semibold text-gray-900">Create New Retreat</h1>
+      </div>
+
+      <Card>
+        <Card.Content>
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md border border-red-200">
+              {error}
+            </div>
+          )}
+
+          <RetreatForm
+            facilitators={facilitators}
+            submitLabel={isLoading ? 'Creating...' : 'Create Retreat'}
+            isSubmitting={isLoading}
+            onSubmit={handleSubmit}
+          />
+        </Card.Content>
+      </Card>
+    </div>
+  );
+}
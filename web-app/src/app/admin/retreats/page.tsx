@@ -0,0 +1,150 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/Button';
+import { RETREAT_STATUS_COLORS, RETREAT_STATUS_LABELS } from '@/components/retreats/RetreatForm';
+import { Retreat } from '@/types/retreat';
+
+const formatDateRange = (start: string, end: string) => {
+  const format = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+  return start === end ? format(start) : `${format(start)} – ${format(end)}`;
+};
+
+export default function RetreatsPage() {
+  const [retreats, setRetreats] = useState<Retreat[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load retreats on initial render
+  useEffect(() => {
+    const loadRetreats = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch('/api/retreats', { cache: 'no-store' });
+        const data = await response.json();
+        if (!response.ok) {
+          setError(data.error || 'Failed to load retreats');
+        } else {
+          setRetreats(data.retreats);
+        }
+      } catch {
+        setError('An unexpected error occurred');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadRetreats();
+  }, []);
+
+  return (
+    <div className="p-6">
+      <div className="mb-6 flex justify-between items-center">
+        <h1 className="text-2xl font-semibold text-gray-900">Retreats</h1>
+        <Link href="/admin/retreats/new">
+          <Button>
+            <span className="mr-2">+</span> New Retreat
+          </Button>
+        </Link>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md border border-red-200">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="animate-pulse space-y-4">
+          {[...Array(5)].map((_, i) => (
+            <div key={i} className="bg-white p-4 rounded-md shadow">
+              <div className="h-4 bg-gray-200 rounded w-1/4 mb-2"></div>
+              <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="bg-white rounded-md shadow overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Retreat
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Dates
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Places
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Facilitators
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {retreats.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No retreats found
+                  </td>
+                </tr>
+              ) : (
+                retreats.map((retreat) => (
+                  <tr key={retreat.id}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{retreat.name}</div>
+                      <div className="text-sm text-gray-500">{retreat.location}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatDateRange(retreat.start_date, retreat.end_date)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {retreat.confirmed_count ?? 0} / {retreat.capacity}
+                      {(retreat.waitlist_count ?? 0) > 0 && (
+                        <span className="ml-2 text-xs text-yellow-700">+{retreat.waitlist_count} waitlisted</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {retreat.facilitators && retreat.facilitators.length > 0
+                        ? retreat.facilitators.map(f => f.name).join(', ')
+                        : '—'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${RETREAT_STATUS_COLORS[retreat.status]}`}>
+                        {RETREAT_STATUS_LABELS[retreat.status]}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-4">
+                      <Link
+                        href={`/admin/retreats/${retreat.id}/roster`}
+                        className="text-indigo-600 hover:text-indigo-900"
+                      >
+                        Roster
+                      </Link>
+                      <Link
+                        href={`/admin/retreats/${retreat.id}`}
+                        className="text-indigo-600 hover:text-indigo-900"
+                      >
+                        Edit
+                      </Link>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+'use client';
+
+import React, { useCallback, useEffect, useState, use } from 'react';
+import Link from 'next/link';
+import axios from 'axios';
+import { TypeformImportOutcome, TypeformResponseImport } from '@/types/typeformImport';
+
+const formatDate = (isoDate: string) =>
+  new Date(isoDate).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const importStatusClasses: Record<string, string> = {
+  pending: 'bg-gray-100 text-gray-800',
+  running: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const outcomeClasses: Record<TypeformImportOutcome, string> = {
+  imported: 'text-green-700',
+  skipped: 'text-gray-500',
+  failed: 'text-red-600',
+};
+
+// How often to refresh while an import is still paging through responses
+const POLL_INTERVAL_MS = 5000;
+
+const errorMessage = (err: unknown, fallback: string) =>
+  (axios.isAxiosError(err) ? err.response?.data?.error : null) || fallback;
+
+const isActive = (responseImport: TypeformResponseImport) =>
+  responseImport.status === 'pending' || responseImport.status === 'running';
+
+export default function TypeformResponseImports({ params }: { params: Promise<{ formId: string }> }) {
+  const { formId } = use(params);
+
+  const [imports, setImports] = useState<TypeformResponseImport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const [submittedFrom, setSubmittedFrom] = useState('');
+  const [submittedTo, setSubmittedTo] = useState('');
+  const [starting, setStarting] = useState(false);
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<TypeformResponseImport | null>(null);
+  const [outcomeFilter, setOutcomeFilter] = useState<TypeformImportOutcome | ''>('');
+
+  const loadImports = useCallback(async () => {
+    try {
+      const response = await axios.get(`/api/typeform/forms/${formId}/imports`);
+      setImports(response.data.imports || []);
+      setError(null);
+    } catch (err) {
+      console.error('Error loading response imports:', err);
+      setError(errorMessage(err, 'Failed to load imports.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [formId]);
+
+  const loadSelected = useCallback(async () => {
+    if (!selectedId) {
+      setSelected(null);
+      return;
+    }
+    try {
+      const response = await axios.get(`/api/typeform/forms/${formId}/imports/${selectedId}`);
+      setSelected(response.data.import);
+    } catch (err) {
+      console.error('Error loading import results:', err);
+      setError(errorMessage(err, 'Failed to load import results.'));
+    }
+  }, [formId, selectedId]);
+
+  useEffect(() => {
+    loadImports();
+  }, [loadImports]);
+
+  useEffect(() => {
+    loadSelected();
+  }, [loadSelected]);
+
+  // Keep following progress until every import has finished
+  const hasActiveImport = imports.some(isActive);
+  useEffect(() => {
+    if (!hasActiveImport) return;
+    const timer = setInterval(() => {
+      loadImports();
+      loadSelected();
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasActiveImport, loadImports, loadSelected]);
+
+  const startImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const scope = submittedFrom || submittedTo
+      ? `responses submitted from ${submittedFrom || 'the start'} to ${submittedTo || 'today'}`
+      : 'every response to this form';
+    if (!window.confirm(`Import ${scope} from Typeform? Responses that already have an application are skipped.`)) return;
+
+    try {
+      setStarting(true);
+      setError(null);
+      const response = await axios.post(`/api/typeform/forms/${formId}/imports`, { submittedFrom, submittedTo });
+      setNotice('Import started. Responses are imported in the background; progress updates below.');
+      setSelectedId(response.data.import.id);
+      await loadImports();
+    } catch (err) {
+      console.error('Error starting import:', err);
+      setError(errorMessage(err, 'Failed to start the import.'));
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const results = (selected?.results || []).filter(result => !outcomeFilter || result.outcome === outcomeFilter);
+
+  return (
+    <div className="container mx-auto px-4 py-8 w-full">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Import Typeform Responses</h1>
+        <Link href="/admin/typeform" className="text-blue-500 hover:text-blue-700">
+          &larr; Back to Typeform Management
+        </Link>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4" role="alert">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {notice && (
+        <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded mb-4 flex justify-between">
+          <p>{notice}</p>
+          <button onClick={() => setNotice(null)} className="text-sm">Dismiss</button>
+        </div>
+      )}
+
+      <div className="bg-white shadow-md rounded px-8 pt-6 pb-8 mb-6">
+        <h2 className="text-xl font-semibold mb-2">Start Import</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Fetches completed responses for form <span className="font-mono">{formId}</span> from Typeform and creates
+          applications for any the webhook missed. Imported applications are processed and scored like live submissions.
+        </p>
+
+        <form onSubmit={startImport} className="space-y-4 text-sm">
+          <div className="flex flex-wrap gap-4">
+            <div>
+              <label className="block text-gray-700 mb-1" htmlFor="submittedFrom">Submitted from</label>
+              <input
+                id="submittedFrom"
+                type="date"
+                value={submittedFrom}
+                onChange={(e) => setSubmittedFrom(e.target.value)}
+                className="p-2 border rounded"
+              />
+            </div>
+            <div>
+              <label className="block text-gray-700 mb-1" htmlFor="submittedTo">Submitted to</label>
+              <input
+                id="submittedTo"
+                type="date"
+                value={submittedTo}
+                onChange={(e) => setSubmittedTo(e.target.value)}
+                className="p-2 border rounded"
+              />
+            </div>
+          </div>
+
+          <button
+            type="submit"
+            disabled={starting}
+            className="px-4 py-2 rounded bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+          >
+            {starting ? 'Starting...' : 'Start Import'}
+          </button>
+        </form>
+      </div>
+
+      <div className="bg-white shadow-md rounded px-8 pt-6 pb-8 mb-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Recent Imports</h2>
+          <button
+            onClick={loadImports}
+            disabled={loading}
+            className="text-sm text-blue-500 hover:text-blue-700 disabled:opacity-50"
+          >
+            {loading ? 'Refreshing...' : 'Refresh'}
+          </button>
+        </div>
+
+        {loading && imports.length === 0 ? (
+          <p className="text-sm text-gray-500">Loading imports...</p>
+        ) : imports.length === 0 ? (
+          <p className="text-sm text-gray-500 italic">No imports yet.</p>
+        ) : (
+          <div className="overflow-x-auto shadow rounded-lg">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Started</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Range</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Progress</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {imports.map(responseImport => {
+                  const processed = responseImport.imported_count + responseImport.skipped_count + responseImport.failed_count;
+                  return (
+                    <tr key={responseImport.id} className={responseImport.id === selectedId ? 'bg-blue-50' : ''}>
+                      <td className="px-4 py-2 text-gray-500 whitespace-nowrap">{formatDate(responseImport.created_at)}</td>
+                      <td className="px-4 py-2 text-gray-600">
+                        {responseImport.submitted_from || responseImport.submitted_to
+                          ? `${responseImport.submitted_from?.slice(0, 10) || '…'} to ${responseImport.submitted_to?.slice(0, 10) || '…'}`
+                          : 'All responses'}
+                      </td>
+                      <td className="px-4 py-2">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${importStatusClasses[responseImport.status]}`}>
+                          {responseImport.status}
+                        </span>
+                        {responseImport.last_error && (
+                          <div className="text-xs text-red-600 mt-1">{responseImport.last_error}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-gray-700 whitespace-nowrap">
+                        {responseImport.total_count === null ? '—' : `${processed} / ${responseImport.total_count} checked`}
+                        <div className="text-xs">
+                          <span className="text-green-700">{responseImport.imported_count} imported</span>
+                          <span className="ml-2 text-gray-500">{responseImport.skipped_count} skipped</span>
+                          {responseImport.failed_count > 0 && (
+                            <span className="ml-2 text-red-600">{responseImport.failed_count} failed</span>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        <button
+                          onClick={() => setSelectedId(responseImport.id)}
+                          className="text-blue-500 hover:text-blue-700"
+                        >
+                          Results
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {selected && (
+        <div className="bg-white shadow-md rounded px-8 pt-6 pb-8 mb-6">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-semibold">Results · {formatDate(selected.created_at)}</h2>
+            <select
+              value={outcomeFilter}
+              onChange={(e) => setOutcomeFilter(e.target.value as TypeformImportOutcome | '')}
+              className="p-2 border rounded text-sm"
+            >
+              <option value="">All outcomes</option>
+              <option value="imported">Imported</option>
+              <option value="skipped">Skipped</option>
+              <option value="failed">Failed</option>
+            </select>
+          </div>
+
+          {results.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">
+              {isActive(selected) ? 'No responses checked yet.' : 'No responses to show.'}
+            </p>
+          ) : (
+            <div className="overflow-x-auto shadow rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Response</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Submitted</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Outcome</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Application</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {results.map(result => (
+                    <tr key={result.token}>
+                      <td className="px-4 py-2 font-mono text-xs text-gray-700">{result.token}</td>
+                      <td className="px-4 py-2 text-gray-500 whitespace-nowrap">
+                        {result.submittedAt ? formatDate(result.submittedAt) : '—'}
+                      </td>
+                      <td className="px-4 py-2">
+                        <span className={`font-medium ${outcomeClasses[result.outcome]}`}>{result.outcome}</span>
+                        {result.reason && <div className="text-xs text-gray-500">{result.reason}</div>}
+                      </td>
+                      <td className="px-4 py-2">
+                        {result.applicationId ? (
+                          <Link href={`/applications/${result.applicationId}`} className="text-blue-500 hover:text-blue-700">
+                            View
+                          </Link>
+                        ) : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
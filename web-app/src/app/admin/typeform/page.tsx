@@ -25,7 +25,6 @@ export default function TypeformManagement() {
   const [checking, setChecking] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [message, setMessage] = useState<string | null>(null);
-  const [syncingForm, setSyncingForm] = useState<string | null>(null);
   const [deletingForm, setDeletingForm] = useState<string | null>(null);
   const [formIdInput, setFormIdInput] = useState<string>(''); // Empty by default
   const [existingForm, setExistingForm] = useState<{id: string; title: string} | null>(null);
@@ -70,23 +69,9 @@ export default function TypeformManagement() {
     }
   };
 
-  // Sync a form to the database
-  const syncForm = async (formId: string) => {
-    try {
-      setSyncingForm(formId);
-      setError(null);
-      await axios.post(`/api/typeform/forms/${formId}/sync`);
-      // Refetch forms to update the updated_at timestamp and any other changes
-      await fetchForms();
-      setMessage('Form synced successfully');
-      setTimeout(() => setMessage(null), 3000);
-    } catch (err: any) {
-      setError(err.response?.data?.error || 'Failed to sync form');
-      console.error('Error syncing form:', err);
-      setTimeout(() => setError(null), 5000);
-    } finally {
-      setSyncingForm(null);
-    }
+  // Review what a sync would change (and where scoring rules move) before applying it
+  const syncForm = (formId: string) => {
+    router.push(`/admin/typeform/sync/${formId}`);
   };
 
   // Check if a form already exists before adding it
@@ -183,6 +168,16 @@ export default function TypeformManagement() {
     router.push(`/admin/typeform/scoring/${formId}`);
   };
   
+  // Navigate to the historical response import for a specific form
+  const importResponses = (formId: string) => {
+    router.push(`/admin/typeform/imports/${formId}`);
+  };
+  
+  // Navigate to the participant field mapping for a specific form
+  const mapParticipantFields = (formId: string) => {
+    router.push(`/admin/typeform/participant-mapping/${formId}`);
+  };
+  
   // Delete a form from the database (admin only)
   const deleteForm = async (formId: string) => {
     if (!isAdmin) {
@@ -294,20 +289,9 @@ export default function TypeformManagement() {
                 <div className="flex space-x-2 mt-1">
                   <button
                     onClick={() => syncForm(existingForm.id)}
-                    disabled={syncingForm === existingForm.id}
                     className="bg-green-500 hover:bg-green-700 text-white text-xs font-medium py-1 px-2 rounded flex items-center"
                   >
-                    {syncingForm === existingForm.id ? (
-                      <>
-                        <svg className="animate-spin -ml-1 mr-2 h-3 w-3 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                        </svg>
-                        Syncing...
-                      </>
-                    ) : (
-                      <>Sync Form</>
-                    )}
+                    Sync Form
                   </button>
                   <button
                     onClick={() => configureScoring(existingForm.id)}
@@ -342,7 +326,7 @@ export default function TypeformManagement() {
           </button>
         </div>
         
-        {loading && !syncingForm ? (
+        {loading ? (
           <div className="py-8 text-center">
             <p className="text-gray-600">Loading forms...</p>
           </div>
@@ -391,25 +375,12 @@ export default function TypeformManagement() {
                         <div className="flex space-x-2">
                           <button
                             onClick={() => syncForm(form.id)}
-                            disabled={syncingForm === form.id}
                             className="bg-green-500 hover:bg-green-700 text-white font-bold py-1 px-2 rounded text-xs flex items-center"
                           >
-                            {syncingForm === form.id ? (
-                              <>
-                                <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                                </svg>
-                                Syncing...
-                              </>
-                            ) : (
-                              <>
-                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-                                </svg>
-                                Sync
-                              </>
-                            )}
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                            </svg>
+                            Sync
                           </button>
                           <button
                             onClick={() => configureScoring(form.id)}
@@ -420,6 +391,24 @@ export default function TypeformManagement() {
                             </svg>
                             Scoring
                           </button>
+                          <button
+                            onClick={() => importResponses(form.id)}
+                            className="bg-indigo-500 hover:bg-indigo-700 text-white font-bold py-1 px-2 rounded text-xs flex items-center"
+                          >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                            </svg>
+                            Import
+                          </button>
+                          <button
+                            onClick={() => mapParticipantFields(form.id)}
+                            className="bg-purple-500 hover:bg-purple-700 text-white font-bold py-1 px-2 rounded text-xs flex items-center"
+                          >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+                            </svg>
+                            Participant Fields
+                          </button>
                           {/* Always show delete button for testing */}
                             <button
                               onClick={() => deleteForm(form.id)}
@@ -0,0 +1,164 @@
+'use client';
+
+import React, { useCallback, useEffect, useState, use } from 'react';
+import Link from 'next/link';
+import axios from 'axios';
+import { PARTICIPANT_ATTRIBUTES } from '@/lib/participant-attributes';
+import {
+  MappableFormField,
+  ParticipantAttribute,
+  ParticipantFieldMapping,
+  ParticipantFieldMappingInput
+} from '@/types/participantMapping';
+
+const errorMessage = (err: unknown, fallback: string) =>
+  (axios.isAxiosError(err) ? err.response?.data?.error : null) || fallback;
+
+// Selected Typeform field ID per attribute; '' means unmapped
+type MappingSelection = Partial<Record<ParticipantAttribute, string>>;
+
+const toSelection = (mappings: ParticipantFieldMapping[]): MappingSelection =>
+  Object.fromEntries(mappings.map(mapping => [mapping.attribute, mapping.field_id]));
+
+export default function ParticipantFieldMappingPage({ params }: { params: Promise<{ formId: string }> }) {
+  const { formId } = use(params);
+
+  const [fields, setFields] = useState<MappableFormField[]>([]);
+  const [selection, setSelection] = useState<MappingSelection>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadMapping = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await axios.get(`/api/typeform/forms/${formId}/participant-mapping`);
+      setFields(response.data.fields || []);
+      setSelection(toSelection(response.data.mappings || []));
+      setError(null);
+    } catch (err) {
+      console.error('Error loading participant field mapping:', err);
+      setError(errorMessage(err, 'Failed to load the participant field mapping.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [formId]);
+
+  useEffect(() => {
+    loadMapping();
+  }, [loadMapping]);
+
+  const saveMapping = async () => {
+    const mappings: ParticipantFieldMappingInput[] = PARTICIPANT_ATTRIBUTES
+      .filter(attribute => selection[attribute.key])
+      .map(attribute => ({ attribute: attribute.key, fieldId: selection[attribute.key] as string }));
+
+    try {
+      setSaving(true);
+      setError(null);
+      const response = await axios.put(`/api/typeform/forms/${formId}/participant-mapping`, { mappings });
+      setSelection(toSelection(response.data.mappings || []));
+      setNotice('Mapping saved. It applies to applications received from now on.');
+    } catch (err) {
+      console.error('Error saving participant field mapping:', err);
+      setError(errorMessage(err, 'Failed to save the participant field mapping.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const fieldsById = new Map(fields.map(field => [field.fieldId, field]));
+
+  return (
+    <div className="container mx-auto px-4 py-8 w-full">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Participant Field Mapping</h1>
+        <Link href="/admin/typeform" className="text-blue-500 hover:text-blue-700">
+          &larr; Back to Typeform Management
+        </Link>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4" role="alert">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {notice && (
+        <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded mb-4 flex justify-between">
+          <p>{notice}</p>
+          <button onClick={() => setNotice(null)} className="text-sm">Dismiss</button>
+        </div>
+      )}
+
+      <div className="bg-white shadow-md rounded px-8 pt-6 pb-8 mb-6">
+        <p className="text-sm text-gray-600 mb-4">
+          Choose which question on form <span className="font-mono">{formId}</span> supplies each participant detail.
+          Email, name, phone and date of birth are detected automatically when left unmapped; the remaining details
+          are only recorded when mapped. Answers that are not a valid email, phone number or date are ignored.
+        </p>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading fields...</p>
+        ) : fields.length === 0 ? (
+          <p className="text-sm text-gray-500 italic">This form has no synced fields. Sync the form first.</p>
+        ) : (
+          <>
+            <div className="overflow-x-auto shadow rounded-lg mb-4">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Participant detail</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Form field</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {PARTICIPANT_ATTRIBUTES.map(attribute => {
+                    const selectedFieldId = selection[attribute.key] || '';
+                    const missingField = selectedFieldId && !fieldsById.has(selectedFieldId);
+                    return (
+                      <tr key={attribute.key}>
+                        <td className="px-4 py-2 text-gray-700">
+                          <div className="font-medium">{attribute.label}</div>
+                          {attribute.description && <div className="text-xs text-gray-500">{attribute.description}</div>}
+                        </td>
+                        <td className="px-4 py-2">
+                          <select
+                            value={selectedFieldId}
+                            onChange={(e) => setSelection({ ...selection, [attribute.key]: e.target.value })}
+                            className="p-2 border rounded w-full max-w-xl"
+                          >
+                            <option value="">
+                              {attribute.storage === 'column' ? 'Detect automatically' : 'Not recorded'}
+                            </option>
+                            {missingField && (
+                              <option value={selectedFieldId}>Field no longer on the form ({selectedFieldId})</option>
+                            )}
+                            {fields.map(field => (
+                              <option key={field.fieldId} value={field.fieldId}>
+                                {field.title} ({field.type}{field.ref ? ` · ${field.ref}` : ''})
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <button
+              onClick={saveMapping}
+              disabled={saving}
+              className="px-4 py-2 rounded bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Mapping'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
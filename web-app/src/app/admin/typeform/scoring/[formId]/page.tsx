@@ -4,6 +4,11 @@ import React, { useState, useEffect, useMemo, use } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import axios from 'axios';
+import ConditionalRulesEditor from '@/components/scoring/ConditionalRulesEditor';
+import CompoundRulesSection, { CompoundRuleField } from '@/components/scoring/CompoundRulesSection';
+import ScoringPreviewPanel from '@/components/scoring/ScoringPreviewPanel';
+import { ScoringCriteria, hasConditions, parseCriteria } from '@/lib/scoring-criteria';
+import { DraftScoringRule, RuleSetPublishResult, ScoringRuleSetVersion } from '@/types/scoring';
 
 interface TypeformField {
   id: string;
@@ -44,12 +49,25 @@ interface ScoringRule {
   is_active: boolean;
 }
 
+// Conditional rules (e.g. "rating ≤ 3") sit alongside a field's base score and only apply to matching answers
+const isConditionalRule = (rule: ScoringRule) => hasConditions(parseCriteria(rule.criteria));
+
+// Field types scored by their choices or yes/no answers rather than by conditions
+const NON_CONDITIONAL_FIELD_TYPES = ['group', 'multiple_choice', 'yes_no'];
+
+const flattenFields = (fieldList: TypeformField[]): TypeformField[] =>
+  fieldList.flatMap(field => [field, ...flattenFields(field.children || [])]);
+
+const sameRule = (a: ScoringRule, b: ScoringRule) =>
+  a.score_value === b.score_value && JSON.stringify(a.criteria || {}) === JSON.stringify(b.criteria || {});
+
 export default function ScoringConfiguration({ params }: { params: Promise<{ formId: string }> }) {
   const router = useRouter();
   const resolvedParams = use(params);
   const formId = resolvedParams.formId;
   
   const [expandedField, setExpandedField] = useState<string | null>(null);
+  const [conditionsField, setConditionsField] = useState<string | null>(null);
   const [formTitle, setFormTitle] = useState<string>('');
   const [fields, setFields] = useState<TypeformField[]>([]);
   const [choices, setChoices] = useState<TypeformChoice[]>([]);
@@ -57,6 +75,12 @@ export default function ScoringConfiguration({ params }: { params: Promise<{ for
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [hideNotApplicable, setHideNotApplicable] = useState(false);
+  // Rules as they were when the draft was started; null when edits save immediately
+  const [publishedRules, setPublishedRules] = useState<ScoringRule[] | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+  const [publishing, setPublishing] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const isDraft = publishedRules !== null;
 
   useEffect(() => {
     const loadFormData = async () => {
@@ -170,15 +194,16 @@ export default function ScoringConfiguration({ params }: { params: Promise<{ for
       }
     };
     
-    if (!loading && fields.length > 0 && existingRules.length > 0) {
+    // While drafting, rules are only saved on publish
+    if (!loading && !publishedRules && fields.length > 0 && existingRules.length > 0) {
       setupAutoNAFields();
     }
-  }, [fields, existingRules, loading]);
+  }, [fields, existingRules, loading, publishedRules]);
 
   const fieldScores = useMemo(() => {
     const scores = new Map<string, 'red' | 'yellow' | 'green' | 'na'>();
     existingRules.forEach(rule => {
-      if (rule.target_type === 'field') {
+      if (rule.target_type === 'field' && !isConditionalRule(rule)) {
         scores.set(rule.target_id, rule.score_value);
       }
     });
@@ -264,7 +289,10 @@ export default function ScoringConfiguration({ params }: { params: Promise<{ for
     const allRows: React.ReactNode[] = [];
 
     fieldsToRender.forEach((field) => {
-      const existingFieldRule = existingRules.find(r => r.target_type === 'field' && r.target_id === field.id);
+      const existingFieldRule = existingRules.find(r => r.target_type === 'field' && r.target_id === field.id && !isConditionalRule(r));
+      const conditionalRules = existingRules.filter(r => r.target_type === 'field' && r.target_id === field.id && isConditionalRule(r));
+      const supportsConditions = !NON_CONDITIONAL_FIELD_TYPES.includes(field.field_type);
+      const showConditions = conditionsField === field.id;
       const currentFieldScore = existingFieldRule?.score_value || 'Not Set'; 
       const isExpanded = expandedField === field.id;
       const choicesForField = choices.filter(choice => choice.field_version_id === field.id); 
@@ -345,10 +373,39 @@ export default function ScoringConfiguration({ params }: { params: Promise<{ for
                 {isExpanded ? 'Collapse' : 'Expand'} Choices
               </button>
             )}
+            {supportsConditions && (
+              <button
+                onClick={() => setConditionsField(showConditions ? null : field.id)}
+                className="ml-2 text-blue-600 hover:text-blue-900"
+              >
+                Conditions{conditionalRules.length > 0 ? ` (${conditionalRules.length})` : ''}
+              </button>
+            )}
           </td>
         </tr>
       );
 
+      if (showConditions && supportsConditions) {
+        allRows.push(
+          <tr key={`${field.id}-conditions`} className="bg-blue-50">
+            <td colSpan={5} className="px-6 py-4">
+              <div style={{ marginLeft: `${(indentLevel + 1) * 20}px` }}>
+                <ConditionalRulesEditor
+                  fieldType={field.field_type}
+                  rules={conditionalRules.map(rule => ({
+                    id: rule.id,
+                    score_value: rule.score_value,
+                    criteria: parseCriteria(rule.criteria) || {},
+                  }))}
+                  onSave={(ruleId, scoreValue, criteria) => saveConditionalRule(field.id, ruleId, scoreValue, criteria)}
+                  onRemove={clearFieldScoring}
+                />
+              </div>
+            </td>
+          </tr>
+        );
+      }
+
       // Only show yes_no options when the field is expanded
       if (isExpanded && field.field_type === 'yes_no') {
         const yesNoOptions = [
@@ -487,6 +544,94 @@ export default function ScoringConfiguration({ params }: { params: Promise<{ for
     return allRows.length > 0 ? allRows : []; 
   };
 
+  // Saves a rule change straight away, or leaves it in the draft; returns the saved rule's ID
+  const persistRule = async (payload: Record<string, unknown>): Promise<string | null> => {
+    if (isDraft) return null;
+    const response = await axios.post('/api/typeform/scoring', payload);
+    return response.data.ruleId;
+  };
+
+  const persistRuleRemoval = async (ruleId: string) => {
+    if (isDraft) return;
+    await axios.delete(`/api/typeform/scoring?ruleId=${ruleId}`);
+  };
+
+  const draftRules = useMemo((): DraftScoringRule[] =>
+    existingRules
+      .filter(rule => rule.target_type === 'field' || rule.target_type === 'choice')
+      .map(rule => ({
+        id: rule.id.startsWith('temp-') ? undefined : rule.id,
+        target_type: rule.target_type,
+        target_id: rule.target_id,
+        score_value: rule.score_value,
+        criteria: rule.criteria || {}
+      })),
+  [existingRules]);
+
+  const draftChangeCount = useMemo(() => {
+    if (!publishedRules) return 0;
+    const publishedById = new Map(publishedRules.map(rule => [rule.id, rule]));
+    const draftIds = new Set(existingRules.map(rule => rule.id));
+    const addedOrChanged = existingRules.filter(rule => {
+      const published = publishedById.get(rule.id);
+      return !published || !sameRule(published, rule);
+    }).length;
+    const removed = publishedRules.filter(rule => !draftIds.has(rule.id)).length;
+    return addedOrChanged + removed;
+  }, [existingRules, publishedRules]);
+
+  const startDraft = () => {
+    setPublishedRules(existingRules);
+    setNotice(null);
+    setError(null);
+  };
+
+  const discardDraft = () => {
+    if (draftChangeCount > 0 && !window.confirm('Discard all draft changes?')) return;
+    if (publishedRules) setExistingRules(publishedRules);
+    setPublishedRules(null);
+    setShowPreview(false);
+  };
+
+  const publishDraft = async () => {
+    const versionName = window.prompt(
+      `Publish ${draftChangeCount} rule change(s)? They take effect for all future scoring.\n\nName this rule-set version:`,
+      `Published ${new Date().toISOString().slice(0, 10)}`
+    );
+    if (versionName === null) return;
+
+    try {
+      setPublishing(true);
+      setError(null);
+      const response = await axios.put(`/api/typeform/forms/${formId}/rule-set`, {
+        rules: draftRules,
+        name: versionName.trim() || undefined
+      });
+      const result: RuleSetPublishResult & { version?: ScoringRuleSetVersion } = response.data;
+
+      const fieldIds = flattenFields(fields).map(field => field.id).join(',');
+      const choiceIds = choices.map(choice => choice.id).join(',');
+      const [fieldScoringResponse, choiceScoringResponse] = await Promise.all([
+        axios.get(`/api/typeform/scoring?targetType=field&targetIds=${fieldIds}`),
+        axios.get(`/api/typeform/scoring?targetType=choice&targetIds=${choiceIds}`)
+      ]);
+      setExistingRules([...(fieldScoringResponse.data.rules || []), ...(choiceScoringResponse.data.rules || [])]);
+
+      setPublishedRules(null);
+      setShowPreview(false);
+      setNotice(
+        `Draft published${result.version ? ` as version ${result.version.version_number}` : ''}: ` +
+        `${result.created} created, ${result.updated} updated, ${result.removed} removed.`
+      );
+    } catch (error) {
+      console.error('Error publishing draft rules:', error);
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : null;
+      setError(message || 'Failed to publish the draft. Please try again.');
+    } finally {
+      setPublishing(false);
+    }
+  };
+
   const saveFieldScoring = async (fieldVersionId: string, scoringValue: string, criteria?: any) => {
     // Use a functional update to ensure we're working with the latest state
     let tempRuleId = `temp-${Date.now()}`;
@@ -541,8 +686,7 @@ export default function ScoringConfiguration({ params }: { params: Promise<{ for
         criteria: criteria || {} 
       };
 
-      const response = await axios.post('/api/typeform/scoring', payload);
-      const realRuleId = response.data.ruleId;
+      const realRuleId = await persistRule(payload);
 
       if (realRuleId && tempRuleId.startsWith('temp-')) { 
         // Replace temporary ID with real ID from server
@@ -560,6 +704,49 @@ export default function ScoringConfiguration({ params }: { params: Promise<{ for
     }
   };
 
+  const saveConditionalRule = async (
+    fieldVersionId: string,
+    ruleId: string | null,
+    scoreValue: 'red' | 'yellow' | 'green' | 'na',
+    criteria: ScoringCriteria
+  ) => {
+    try {
+      const savedRuleId = await persistRule({
+        targetType: 'field',
+        targetId: fieldVersionId,
+        scoreValue,
+        criteria,
+        ruleId: ruleId || undefined
+      }) || ruleId || `temp-${Date.now()}`;
+      const now = new Date().toISOString();
+
+      setExistingRules(prevRules => {
+        const existing = prevRules.find(rule => rule.id === savedRuleId);
+        if (existing) {
+          return prevRules.map(rule =>
+            rule.id === savedRuleId ? { ...rule, score_value: scoreValue, criteria, updated_at: now } : rule
+          );
+        }
+        return [...prevRules, {
+          id: savedRuleId,
+          target_type: 'field',
+          target_id: fieldVersionId,
+          score_value: scoreValue,
+          criteria,
+          created_by: null,
+          created_at: now,
+          updated_at: now,
+          is_active: true
+        }];
+      });
+      setError(null);
+    } catch (error) {
+      console.error('Error saving conditional rule:', error);
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : null;
+      throw new Error(message || 'Failed to save conditional rule. Please try again.');
+    }
+  };
+
   const clearFieldScoring = async (ruleId: string) => {
     // Store original rules for error handling
     const originalRules = [...existingRules]; 
@@ -570,7 +757,7 @@ export default function ScoringConfiguration({ params }: { params: Promise<{ for
     try {
       // Only call API if this isn't a temporary ID that hasn't been saved to the database yet
       if (!ruleId.startsWith('temp-') && !ruleId.startsWith('temp-batch-')) {
-        await axios.delete(`/api/typeform/scoring?ruleId=${ruleId}`);
+        await persistRuleRemoval(ruleId);
       }
       // Clear any error state
       setError(null);
@@ -592,7 +779,7 @@ export default function ScoringConfiguration({ params }: { params: Promise<{ for
     try {
       // Only call API if this isn't a temporary ID that hasn't been saved to the database yet
       if (!ruleId.startsWith('temp-') && !ruleId.startsWith('temp-batch-')) {
-        await axios.delete(`/api/typeform/scoring?ruleId=${ruleId}`);
+        await persistRuleRemoval(ruleId);
       }
       // Clear any error state
       setError(null);
@@ -649,8 +836,7 @@ export default function ScoringConfiguration({ params }: { params: Promise<{ for
         criteria: {} // Choices don't use criteria
       };
 
-      const response = await axios.post('/api/typeform/scoring', payload);
-      const realRuleId = response.data.ruleId;
+      const realRuleId = await persistRule(payload);
 
       // If API returned a real ruleId (likely means insert succeeded), update the temp rule's ID
       if (realRuleId) {
@@ -721,13 +907,28 @@ export default function ScoringConfiguration({ params }: { params: Promise<{ for
     }
   };
   
+  // Compound rules address answers by field ref, so only fields with a ref can take part
+  const compoundRuleFields = useMemo(() => {
+    return flattenFields(fields)
+      .filter(field => field.field_ref && field.field_type !== 'group')
+      .map((field): CompoundRuleField => ({ ref: field.field_ref as string, title: field.field_title, type: field.field_type }));
+  }, [fields]);
+
   return (
     <div className="container mx-auto px-4 py-8 w-full">
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold">Scoring Configuration: {formTitle}</h1>
-        <Link href="/admin/typeform" className="text-blue-500 hover:text-blue-700">
-          &larr; Back to Forms
-        </Link>
+        <div className="flex items-center gap-4">
+          <Link href={`/admin/typeform/scoring/${formId}/risk`} className="text-blue-500 hover:text-blue-700">
+            Risk Score
+          </Link>
+          <Link href={`/admin/typeform/scoring/${formId}/versions`} className="text-blue-500 hover:text-blue-700">
+            Versions &amp; Rescoring
+          </Link>
+          <Link href="/admin/typeform" className="text-blue-500 hover:text-blue-700">
+            &larr; Back to Forms
+          </Link>
+        </div>
       </div>
       
       <div className="mb-4 flex items-center">
@@ -743,11 +944,58 @@ export default function ScoringConfiguration({ params }: { params: Promise<{ for
         </label>
       </div>
       
+      {!loading && (isDraft ? (
+        <div className="mb-4 p-3 bg-yellow-50 border border-yellow-300 rounded flex flex-wrap items-center gap-3 text-sm">
+          <span className="text-yellow-900">
+            <strong>Draft:</strong> {draftChangeCount} unpublished change{draftChangeCount === 1 ? '' : 's'}.
+            Field and choice scores are not live until published; compound rules still save immediately.
+          </span>
+          <div className="ml-auto flex items-center gap-2">
+            <button
+              onClick={() => setShowPreview(true)}
+              className="px-3 py-1 rounded border border-blue-600 text-blue-600 hover:bg-blue-50"
+            >
+              Preview Impact
+            </button>
+            <button
+              onClick={publishDraft}
+              disabled={publishing || draftChangeCount === 0}
+              className="px-3 py-1 rounded bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+            >
+              {publishing ? 'Publishing...' : 'Publish'}
+            </button>
+            <button onClick={discardDraft} disabled={publishing} className="px-3 py-1 text-gray-600 hover:text-gray-900">
+              Discard
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="mb-4 flex items-center gap-3 text-sm">
+          <button
+            onClick={startDraft}
+            className="px-3 py-1 rounded border border-blue-600 text-blue-600 hover:bg-blue-50"
+          >
+            Edit as Draft
+          </button>
+          <span className="text-gray-500">Stage changes and preview their impact on recent applications before publishing.</span>
+        </div>
+      ))}
+
+      {notice && (
+        <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded mb-4">
+          <p>{notice}</p>
+        </div>
+      )}
+
       {error && (
         <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4" role="alert">
           <p>{error}</p>
         </div>
       )}
+
+      {isDraft && showPreview && (
+        <ScoringPreviewPanel formId={formId} rules={draftRules} onClose={() => setShowPreview(false)} />
+      )}
       
       {loading ? (
         <p>Loading form fields...</p>
@@ -785,6 +1033,8 @@ export default function ScoringConfiguration({ params }: { params: Promise<{ for
           )}
         </div>
       )}
+
+      {!loading && <CompoundRulesSection formId={formId} fields={compoundRuleFields} />}
     </div>
   );
 }
@@ -0,0 +1,327 @@
+'use client';
+
+import React, { useCallback, useEffect, useState, use } from 'react';
+import Link from 'next/link';
+import axios from 'axios';
+import { validateRiskSettings } from '@/lib/risk-score';
+import { RiskBand, RiskCategory, RiskSettings, WeightedRule } from '@/types/scoring';
+
+const colorClasses: Record<string, string> = {
+  red: 'bg-red-100 text-red-800',
+  yellow: 'bg-yellow-100 text-yellow-800',
+  green: 'bg-green-100 text-green-800',
+};
+
+const errorMessage = (err: unknown, fallback: string) =>
+  (axios.isAxiosError(err) ? err.response?.data?.error : null) || fallback;
+
+export default function RiskScoreSettings({ params }: { params: Promise<{ formId: string }> }) {
+  const { formId } = use(params);
+
+  const [settings, setSettings] = useState<RiskSettings | null>(null);
+  const [categories, setCategories] = useState<RiskCategory[]>([]);
+  const [rules, setRules] = useState<WeightedRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [savingRuleId, setSavingRuleId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await axios.get(`/api/typeform/forms/${formId}/risk-settings`);
+      setSettings(response.data.settings);
+      setCategories(response.data.categories || []);
+      setRules(response.data.rules || []);
+      setError(null);
+    } catch (err) {
+      console.error('Error loading risk settings:', err);
+      setError(errorMessage(err, 'Failed to load risk settings.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [formId]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const updateBand = (index: number, changes: Partial<RiskBand>) => {
+    if (!settings) return;
+    setSettings({
+      ...settings,
+      bands: settings.bands.map((band, i) => (i === index ? { ...band, ...changes } : band))
+    });
+  };
+
+  const setCategoryWeight = (fieldId: string, value: string) => {
+    if (!settings) return;
+    const categoryWeights = { ...settings.categoryWeights };
+    if (value === '') delete categoryWeights[fieldId];
+    else categoryWeights[fieldId] = parseFloat(value);
+    setSettings({ ...settings, categoryWeights });
+  };
+
+  const saveSettings = async () => {
+    if (!settings) return;
+    const validationError = validateRiskSettings(settings);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      const response = await axios.put(`/api/typeform/forms/${formId}/risk-settings`, { settings });
+      setSettings(response.data.settings);
+      setNotice('Risk settings saved. Stored scores update when applications are next scored or rescored.');
+    } catch (err) {
+      console.error('Error saving risk settings:', err);
+      setError(errorMessage(err, 'Failed to save risk settings.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveRuleWeight = async (rule: WeightedRule, value: string) => {
+    const weight = parseFloat(value);
+    if (isNaN(weight) || weight < 0) {
+      setError('Rule weights must be numbers of 0 or more');
+      return;
+    }
+    if (weight === rule.weight) return;
+
+    try {
+      setSavingRuleId(rule.id);
+      setError(null);
+      await axios.patch('/api/typeform/scoring', { ruleId: rule.id, weight });
+      setRules(current => current.map(r => (r.id === rule.id ? { ...r, weight } : r)));
+    } catch (err) {
+      console.error('Error saving rule weight:', err);
+      setError(errorMessage(err, 'Failed to save the rule weight.'));
+    } finally {
+      setSavingRuleId(null);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 w-full">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Risk Score Settings</h1>
+        <div className="flex items-center gap-4">
+          <Link href={`/admin/typeform/scoring/${formId}/versions`} className="text-blue-500 hover:text-blue-700">
+            Versions &amp; Rescoring
+          </Link>
+          <Link href={`/admin/typeform/scoring/${formId}`} className="text-blue-500 hover:text-blue-700">
+            &larr; Back to Scoring
+          </Link>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-6">
+        Each matched rule adds its colour&apos;s points, multiplied by the rule&apos;s weight and its question group&apos;s weight.
+        The total is scaled so the maximum points give a risk score of 100, and the score picks the recommendation band.
+      </p>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4" role="alert">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {notice && (
+        <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded mb-4 flex justify-between">
+          <p>{notice}</p>
+          <button onClick={() => setNotice(null)} className="text-sm">Dismiss</button>
+        </div>
+      )}
+
+      {loading && !settings ? (
+        <p className="text-sm text-gray-500">Loading risk settings...</p>
+      ) : settings && (
+        <>
+          <div className="bg-white shadow-md rounded px-8 pt-6 pb-8 mb-6 space-y-6 text-sm">
+            <div>
+              <h2 className="text-xl font-semibold mb-3">Points and Scale</h2>
+              <div className="flex flex-wrap items-end gap-4">
+                {(['red', 'yellow', 'green'] as const).map(color => (
+                  <div key={color}>
+                    <label className="block text-gray-700 mb-1 capitalize" htmlFor={`points-${color}`}>{color} points</label>
+                    <input
+                      id={`points-${color}`}
+                      type="number"
+                      step="any"
+                      value={settings.colorPoints[color]}
+                      onChange={(e) => setSettings({
+                        ...settings,
+                        colorPoints: { ...settings.colorPoints, [color]: parseFloat(e.target.value) }
+                      })}
+                      className="p-2 border rounded w-28"
+                    />
+                  </div>
+                ))}
+                <div>
+                  <label className="block text-gray-700 mb-1" htmlFor="maxPoints">Points for a score of 100</label>
+                  <input
+                    id="maxPoints"
+                    type="number"
+                    min={1}
+                    step="any"
+                    value={settings.maxPoints}
+                    onChange={(e) => setSettings({ ...settings, maxPoints: parseFloat(e.target.value) })}
+                    className="p-2 border rounded w-32"
+                  />
+                </div>
+              </div>
+              <p className="mt-2 text-xs text-gray-500">Negative green points let protective answers lower the score.</p>
+            </div>
+
+            <div>
+              <h2 className="text-xl font-semibold mb-3">Recommendation Bands</h2>
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead>
+                  <tr>
+                    <th className="py-2 pr-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Key</th>
+                    <th className="py-2 pr-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Label</th>
+                    <th className="py-2 pr-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">From score</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {settings.bands.map((band, index) => (
+                    <tr key={index}>
+                      <td className="py-2 pr-4">
+                        <input
+                          type="text"
+                          value={band.key}
+                          onChange={(e) => updateBand(index, { key: e.target.value })}
+                          className="p-1 border rounded w-32"
+                        />
+                      </td>
+                      <td className="py-2 pr-4">
+                        <input
+                          type="text"
+                          value={band.label}
+                          onChange={(e) => updateBand(index, { label: e.target.value })}
+                          className="p-1 border rounded w-48"
+                        />
+                      </td>
+                      <td className="py-2 pr-4">
+                        <input
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={band.minScore}
+                          onChange={(e) => updateBand(index, { minScore: parseInt(e.target.value, 10) })}
+                          className="p-1 border rounded w-20"
+                        />
+                      </td>
+                      <td className="py-2">
+                        <button
+                          onClick={() => setSettings({ ...settings, bands: settings.bands.filter((_, i) => i !== index) })}
+                          disabled={settings.bands.length === 1}
+                          className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <button
+                onClick={() => setSettings({ ...settings, bands: [...settings.bands, { key: '', label: '', minScore: 100 }] })}
+                className="mt-2 text-blue-500 hover:text-blue-700"
+              >
+                + Add band
+              </button>
+            </div>
+
+            <div>
+              <h2 className="text-xl font-semibold mb-3">Question Group Weights</h2>
+              {categories.length === 0 ? (
+                <p className="text-gray-500 italic">This form has no question groups.</p>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {categories.map(category => (
+                    <label key={category.fieldId} className="flex items-center justify-between gap-4 text-gray-700">
+                      <span className="truncate">{category.title}</span>
+                      <input
+                        type="number"
+                        min={0}
+                        step="any"
+                        placeholder="1"
+                        value={settings.categoryWeights[category.fieldId] ?? ''}
+                        onChange={(e) => setCategoryWeight(category.fieldId, e.target.value)}
+                        className="p-1 border rounded w-20"
+                      />
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <button
+              onClick={saveSettings}
+              disabled={saving}
+              className="px-4 py-2 rounded bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Settings'}
+            </button>
+          </div>
+
+          <div className="bg-white shadow-md rounded px-8 pt-6 pb-8 mb-6">
+            <h2 className="text-xl font-semibold mb-2">Rule Weights</h2>
+            <p className="text-sm text-gray-600 mb-4">Weights are saved when you leave the field. A weight of 0 leaves the rule out of the risk score.</p>
+
+            {rules.length === 0 ? (
+              <p className="text-sm text-gray-500 italic">No scoring rules configured.</p>
+            ) : (
+              <div className="overflow-x-auto shadow rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Question</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rule</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Score</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Weight</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {rules.map(rule => (
+                      <tr key={rule.id}>
+                        <td className="px-4 py-2 text-gray-900">
+                          {rule.label}
+                          {rule.target_type === 'application' && <span className="ml-2 text-xs text-gray-500">(compound)</span>}
+                        </td>
+                        <td className="px-4 py-2 text-gray-600">{rule.description}</td>
+                        <td className="px-4 py-2">
+                          <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${colorClasses[rule.score_value] || ''}`}>
+                            {rule.score_value}
+                          </span>
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="number"
+                            min={0}
+                            step="any"
+                            defaultValue={rule.weight}
+                            onBlur={(e) => saveRuleWeight(rule, e.target.value)}
+                            disabled={savingRuleId === rule.id}
+                            className="p-1 border rounded w-20"
+                          />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,361 @@
+'use client';
+
+import React, { useCallback, useEffect, useState, use } from 'react';
+import Link from 'next/link';
+import axios from 'axios';
+import { APPLICATION_STATUS_LABELS } from '@/lib/application-status-machine';
+import { ApplicationStatus } from '@/types/application';
+import { RescoreFilters, ScoringRescoreRun, ScoringRuleSetVersion } from '@/types/scoring';
+
+const formatDate = (isoDate: string) =>
+  new Date(isoDate).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const runStatusClasses: Record<string, string> = {
+  queuing: 'bg-gray-100 text-gray-800',
+  running: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+};
+
+const errorMessage = (err: unknown, fallback: string) =>
+  (axios.isAxiosError(err) ? err.response?.data?.error : null) || fallback;
+
+export default function ScoringVersions({ params }: { params: Promise<{ formId: string }> }) {
+  const { formId } = use(params);
+
+  const [versions, setVersions] = useState<ScoringRuleSetVersion[]>([]);
+  const [runs, setRuns] = useState<ScoringRescoreRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const [versionName, setVersionName] = useState('');
+  const [versionNotes, setVersionNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const [rescoreVersionId, setRescoreVersionId] = useState('');
+  const [statuses, setStatuses] = useState<ApplicationStatus[]>([]);
+  const [submittedFrom, setSubmittedFrom] = useState('');
+  const [submittedTo, setSubmittedTo] = useState('');
+  const [starting, setStarting] = useState(false);
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [versionsResponse, runsResponse] = await Promise.all([
+        axios.get(`/api/typeform/forms/${formId}/rule-set/versions`),
+        axios.get(`/api/typeform/forms/${formId}/rule-set/rescores`)
+      ]);
+      const loadedVersions: ScoringRuleSetVersion[] = versionsResponse.data.versions || [];
+      setVersions(loadedVersions);
+      setRuns(runsResponse.data.runs || []);
+      setRescoreVersionId(current => current || loadedVersions[0]?.id || '');
+      setError(null);
+    } catch (err) {
+      console.error('Error loading rule-set versions:', err);
+      setError(errorMessage(err, 'Failed to load rule-set versions.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [formId]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const saveVersion = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      setError(null);
+      const response = await axios.post(`/api/typeform/forms/${formId}/rule-set/versions`, {
+        name: versionName,
+        notes: versionNotes
+      });
+      const version: ScoringRuleSetVersion = response.data.version;
+      setVersionName('');
+      setVersionNotes('');
+      setNotice(`Current rules saved as version ${version.version_number}.`);
+      await loadData();
+    } catch (err) {
+      console.error('Error saving rule-set version:', err);
+      setError(errorMessage(err, 'Failed to save the version.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleStatus = (status: ApplicationStatus) => {
+    setStatuses(current =>
+      current.includes(status) ? current.filter(s => s !== status) : [...current, status]
+    );
+  };
+
+  const startRescore = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const version = versions.find(v => v.id === rescoreVersionId);
+    if (!version) return;
+
+    const filters: RescoreFilters = {};
+    if (statuses.length > 0) filters.statuses = statuses;
+    if (submittedFrom) filters.submittedFrom = submittedFrom;
+    if (submittedTo) filters.submittedTo = submittedTo;
+
+    const scope = Object.keys(filters).length > 0 ? 'the matching applications' : 'every application on this form';
+    if (!window.confirm(`Rescore ${scope} with version ${version.version_number} (${version.name})?`)) return;
+
+    try {
+      setStarting(true);
+      setError(null);
+      await axios.post(`/api/typeform/forms/${formId}/rule-set/rescores`, { versionId: rescoreVersionId, filters });
+      setNotice('Rescore started. Applications are rescored in the background; refresh to follow progress.');
+      await loadData();
+    } catch (err) {
+      console.error('Error starting rescore:', err);
+      setError(errorMessage(err, 'Failed to start the rescore.'));
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 w-full">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Rule-Set Versions &amp; Rescoring</h1>
+        <Link href={`/admin/typeform/scoring/${formId}`} className="text-blue-500 hover:text-blue-700">
+          &larr; Back to Scoring
+        </Link>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4" role="alert">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {notice && (
+        <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded mb-4 flex justify-between">
+          <p>{notice}</p>
+          <button onClick={() => setNotice(null)} className="text-sm">Dismiss</button>
+        </div>
+      )}
+
+      <div className="bg-white shadow-md rounded px-8 pt-6 pb-8 mb-6">
+        <h2 className="text-xl font-semibold mb-4">Versions</h2>
+
+        <form onSubmit={saveVersion} className="flex flex-wrap items-end gap-2 mb-6 text-sm">
+          <div>
+            <label className="block text-gray-700 mb-1" htmlFor="versionName">Name</label>
+            <input
+              id="versionName"
+              type="text"
+              value={versionName}
+              onChange={(e) => setVersionName(e.target.value)}
+              className="p-2 border rounded w-64"
+              placeholder="e.g. Spring intake rules"
+              required
+            />
+          </div>
+          <div className="flex-1 min-w-[16rem]">
+            <label className="block text-gray-700 mb-1" htmlFor="versionNotes">Notes</label>
+            <input
+              id="versionNotes"
+              type="text"
+              value={versionNotes}
+              onChange={(e) => setVersionNotes(e.target.value)}
+              className="p-2 border rounded w-full"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={saving || !versionName.trim()}
+            className="px-4 py-2 rounded bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Current Rules as Version'}
+          </button>
+        </form>
+
+        {loading && versions.length === 0 ? (
+          <p className="text-sm text-gray-500">Loading versions...</p>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-gray-500 italic">
+            No versions yet. A version is saved whenever a draft is published or applications are scored.
+          </p>
+        ) : (
+          <div className="overflow-x-auto shadow rounded-lg">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Version</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rules</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Applications</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Created</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {versions.map((version, index) => (
+                  <tr key={version.id}>
+                    <td className="px-4 py-2 font-medium text-gray-900">
+                      v{version.version_number}
+                      {index === 0 && <span className="ml-2 text-xs text-blue-600">latest</span>}
+                    </td>
+                    <td className="px-4 py-2">
+                      <div className="text-gray-900">{version.name}</div>
+                      {version.notes && <div className="text-xs text-gray-500">{version.notes}</div>}
+                    </td>
+                    <td className="px-4 py-2 text-gray-700">{version.rules.length}</td>
+                    <td className="px-4 py-2 text-gray-700">{version.applications_count ?? 0}</td>
+                    <td className="px-4 py-2 text-gray-500 whitespace-nowrap">{formatDate(version.created_at)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white shadow-md rounded px-8 pt-6 pb-8 mb-6">
+        <h2 className="text-xl font-semibold mb-2">Rescore Applications</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Recalculates stored scores with the chosen version. Previous scores are kept in each application&apos;s score history.
+        </p>
+
+        <form onSubmit={startRescore} className="space-y-4 text-sm">
+          <div>
+            <label className="block text-gray-700 mb-1" htmlFor="rescoreVersion">Version</label>
+            <select
+              id="rescoreVersion"
+              value={rescoreVersionId}
+              onChange={(e) => setRescoreVersionId(e.target.value)}
+              className="p-2 border rounded w-80"
+            >
+              {versions.map(version => (
+                <option key={version.id} value={version.id}>
+                  v{version.version_number} · {version.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <span className="block text-gray-700 mb-1">Statuses (all when none selected)</span>
+            <div className="flex flex-wrap gap-x-4 gap-y-1">
+              {(Object.keys(APPLICATION_STATUS_LABELS) as ApplicationStatus[]).map(status => (
+                <label key={status} className="flex items-center text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={statuses.includes(status)}
+                    onChange={() => toggleStatus(status)}
+                    className="mr-1"
+                  />
+                  {APPLICATION_STATUS_LABELS[status]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-4">
+            <div>
+              <label className="block text-gray-700 mb-1" htmlFor="submittedFrom">Submitted from</label>
+              <input
+                id="submittedFrom"
+                type="date"
+                value={submittedFrom}
+                onChange={(e) => setSubmittedFrom(e.target.value)}
+                className="p-2 border rounded"
+              />
+            </div>
+            <div>
+              <label className="block text-gray-700 mb-1" htmlFor="submittedTo">Submitted to</label>
+              <input
+                id="submittedTo"
+                type="date"
+                value={submittedTo}
+                onChange={(e) => setSubmittedTo(e.target.value)}
+                className="p-2 border rounded"
+              />
+            </div>
+          </div>
+
+          <button
+            type="submit"
+            disabled={starting || !rescoreVersionId}
+            className="px-4 py-2 rounded bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+          >
+            {starting ? 'Starting...' : 'Start Rescore'}
+          </button>
+        </form>
+      </div>
+
+      <div className="bg-white shadow-md rounded px-8 pt-6 pb-8 mb-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold">Recent Rescore Runs</h2>
+          <button
+            onClick={loadData}
+            disabled={loading}
+            className="text-sm text-blue-500 hover:text-blue-700 disabled:opacity-50"
+          >
+            {loading ? 'Refreshing...' : 'Refresh'}
+          </button>
+        </div>
+
+        {runs.length === 0 ? (
+          <p className="text-sm text-gray-500 italic">No rescore runs yet.</p>
+        ) : (
+          <div className="overflow-x-auto shadow rounded-lg">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Started</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Version</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Filters</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Progress</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {runs.map(run => (
+                  <tr key={run.id}>
+                    <td className="px-4 py-2 text-gray-500 whitespace-nowrap">{formatDate(run.created_at)}</td>
+                    <td className="px-4 py-2 text-gray-900">
+                      {run.version ? `v${run.version.version_number} · ${run.version.name}` : '—'}
+                    </td>
+                    <td className="px-4 py-2 text-gray-600">
+                      {run.filters.statuses?.length
+                        ? run.filters.statuses.map(status => APPLICATION_STATUS_LABELS[status] || status).join(', ')
+                        : 'All statuses'}
+                      {(run.filters.submittedFrom || run.filters.submittedTo) && (
+                        <div className="text-xs text-gray-500">
+                          {run.filters.submittedFrom || '…'} to {run.filters.submittedTo || '…'}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-2">
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${runStatusClasses[run.status || 'queuing']}`}>
+                        {run.status || 'queuing'}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-gray-700 whitespace-nowrap">
+                      {run.total_count === null
+                        ? '—'
+                        : `${run.succeeded_count ?? 0} / ${run.total_count} rescored`}
+                      {(run.failed_count ?? 0) > 0 && (
+                        <span className="ml-2 text-red-600">{run.failed_count} failed</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
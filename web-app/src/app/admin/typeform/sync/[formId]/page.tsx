@@ -0,0 +1,292 @@
+'use client';
+
+import React, { useCallback, useEffect, useState, use } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import axios from 'axios';
+import {
+  ChoiceChangeKind,
+  FieldChangeKind,
+  FormSchemaDiff,
+  RuleMigrationDecision,
+  RuleMigrationResult,
+} from '@/types/formSchemaDiff';
+
+const changeClasses: Record<FieldChangeKind | ChoiceChangeKind, string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  retitled: 'bg-blue-100 text-blue-800',
+  retyped: 'bg-orange-100 text-orange-800',
+  moved: 'bg-purple-100 text-purple-800',
+  modified: 'bg-gray-100 text-gray-800',
+  relabeled: 'bg-blue-100 text-blue-800',
+};
+
+const scoreClasses: Record<string, string> = {
+  red: 'bg-red-100 text-red-800',
+  yellow: 'bg-yellow-100 text-yellow-800',
+  green: 'bg-green-100 text-green-800',
+  na: 'bg-gray-100 text-gray-800',
+};
+
+const errorMessage = (err: unknown, fallback: string) =>
+  (axios.isAxiosError(err) ? err.response?.data?.error : null) || fallback;
+
+// Select value for a migration target; empty leaves the rule on the retired version
+const targetKey = (fieldId: string | null, choiceId?: string | null) =>
+  fieldId ? (choiceId ? `${fieldId}::${choiceId}` : fieldId) : '';
+
+function ChangeBadges({ changes }: { changes: (FieldChangeKind | ChoiceChangeKind)[] }) {
+  return (
+    <>
+      {changes.map(change => (
+        <span key={change} className={`mr-1 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${changeClasses[change]}`}>
+          {change}
+        </span>
+      ))}
+    </>
+  );
+}
+
+export default function TypeformSyncReview({ params }: { params: Promise<{ formId: string }> }) {
+  const { formId } = use(params);
+  const router = useRouter();
+
+  const [diff, setDiff] = useState<FormSchemaDiff | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<RuleMigrationResult | null>(null);
+
+  const loadDiff = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await axios.get(`/api/typeform/forms/${formId}/sync`);
+      const loaded: FormSchemaDiff = response.data.diff;
+      setDiff(loaded);
+      setMapping(Object.fromEntries(
+        loaded.ruleMigrations.map(proposal => [proposal.ruleId, targetKey(proposal.toFieldId, proposal.toChoiceId)])
+      ));
+      setError(null);
+    } catch (err) {
+      console.error('Error previewing sync:', err);
+      setError(errorMessage(err, 'Failed to compare the form with Typeform.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [formId]);
+
+  useEffect(() => {
+    loadDiff();
+  }, [loadDiff]);
+
+  const applySync = async () => {
+    if (!diff) return;
+    const ruleMigrations: RuleMigrationDecision[] = diff.ruleMigrations.map(proposal => {
+      const [toFieldId, toChoiceId] = (mapping[proposal.ruleId] || '').split('::');
+      return { ruleId: proposal.ruleId, toFieldId: toFieldId || null, toChoiceId: toChoiceId || null };
+    });
+
+    try {
+      setSyncing(true);
+      setError(null);
+      const response = await axios.post(`/api/typeform/forms/${formId}/sync`, { ruleMigrations });
+      setResult(response.data.ruleMigrations);
+      await loadDiff();
+    } catch (err) {
+      console.error('Error syncing form:', err);
+      setError(errorMessage(err, 'Failed to sync the form.'));
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 w-full">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Review Sync{diff ? `: ${diff.formTitle}` : ''}</h1>
+        <Link href="/admin/typeform" className="text-blue-500 hover:text-blue-700">
+          &larr; Back to Typeform Management
+        </Link>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4" role="alert">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {result && (
+        <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded mb-4">
+          <div className="flex justify-between">
+            <p>Form synced. {result.migrated} scoring rule{result.migrated === 1 ? '' : 's'} carried over to the new versions.</p>
+            <button onClick={() => router.push('/admin/typeform')} className="text-sm">Done</button>
+          </div>
+          {result.skipped.length > 0 && (
+            <ul className="mt-2 text-sm list-disc list-inside">
+              {result.skipped.map(skipped => (
+                <li key={skipped.ruleId}>Rule {skipped.ruleId.slice(0, 8)}: {skipped.reason}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {loading && !diff ? (
+        <p className="text-gray-600">Comparing with Typeform...</p>
+      ) : diff && (
+        <>
+          <div className="bg-white shadow-md rounded px-8 pt-6 pb-8 mb-6">
+            <h2 className="text-xl font-semibold mb-2">Field &amp; Choice Changes</h2>
+            {!diff.hasChanges ? (
+              <p className="text-sm text-gray-500 italic">The form matches Typeform. Nothing will change.</p>
+            ) : diff.fields.length === 0 ? (
+              <p className="text-sm text-gray-500 italic">Only the form title changed.</p>
+            ) : (
+              <div className="overflow-x-auto shadow rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Field</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Changes</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Before</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">After</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {diff.fields.map(field => (
+                      <React.Fragment key={`${field.fieldId}-${field.oldFieldVersionId || 'new'}`}>
+                        <tr>
+                          <td className="px-4 py-2" style={{ paddingLeft: `${1 + field.level * 1.5}rem` }}>
+                            <div className="font-medium text-gray-900">{field.newTitle || field.oldTitle}</div>
+                            <div className="text-xs text-gray-500 font-mono">{field.ref || field.fieldId}</div>
+                          </td>
+                          <td className="px-4 py-2">
+                            <ChangeBadges changes={field.changes} />
+                            {field.createsNewVersion && field.oldFieldVersionId && (
+                              <div className="text-xs text-gray-500 mt-1">New version; current one is retired</div>
+                            )}
+                          </td>
+                          <td className="px-4 py-2 text-gray-600">
+                            {field.oldTitle ? <>{field.oldTitle} <span className="text-xs text-gray-400">({field.oldType})</span></> : '—'}
+                          </td>
+                          <td className="px-4 py-2 text-gray-900">
+                            {field.newTitle ? <>{field.newTitle} <span className="text-xs text-gray-400">({field.newType})</span></> : '—'}
+                          </td>
+                        </tr>
+                        {field.choices.map(choice => (
+                          <tr key={`${field.fieldId}-${choice.choiceId}`} className="bg-gray-50">
+                            <td className="px-4 py-1 text-xs text-gray-500" style={{ paddingLeft: `${2.5 + field.level * 1.5}rem` }}>
+                              choice <span className="font-mono">{choice.ref || choice.choiceId}</span>
+                            </td>
+                            <td className="px-4 py-1"><ChangeBadges changes={choice.changes} /></td>
+                            <td className="px-4 py-1 text-gray-600">{choice.oldLabel ?? '—'}</td>
+                            <td className="px-4 py-1 text-gray-900">{choice.newLabel ?? '—'}</td>
+                          </tr>
+                        ))}
+                      </React.Fragment>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {diff.ruleMigrations.length > 0 && (
+            <div className="bg-white shadow-md rounded px-8 pt-6 pb-8 mb-6">
+              <h2 className="text-xl font-semibold mb-2">Scoring Rules to Carry Over</h2>
+              <p className="text-sm text-gray-600 mb-4">
+                These rules are on field or choice versions the sync retires and would stop applying to new applications.
+                Each is matched to its new field or choice by ref. Confirm or change the target; rules left unmapped stay
+                on the retired version only.
+              </p>
+              <div className="overflow-x-auto shadow rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rule</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Currently on</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Move to</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Matched by</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {diff.ruleMigrations.map(proposal => (
+                      <tr key={proposal.ruleId}>
+                        <td className="px-4 py-2">
+                          <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${scoreClasses[proposal.scoreValue]}`}>
+                            {proposal.scoreValue}
+                          </span>
+                          <span className="ml-2 text-xs text-gray-500">{proposal.targetType} rule</span>
+                        </td>
+                        <td className="px-4 py-2 text-gray-700">{proposal.fromLabel}</td>
+                        <td className="px-4 py-2">
+                          <select
+                            value={mapping[proposal.ruleId] || ''}
+                            onChange={(e) => setMapping(current => ({ ...current, [proposal.ruleId]: e.target.value }))}
+                            className="p-1 border rounded w-72"
+                          >
+                            <option value="">Don&apos;t carry over</option>
+                            {diff.targets.map(target => proposal.targetType === 'field' ? (
+                              <option key={target.fieldId} value={targetKey(target.fieldId)}>
+                                {target.title}
+                              </option>
+                            ) : target.choices.length > 0 && (
+                              <optgroup key={target.fieldId} label={target.title}>
+                                {target.choices.map(choice => (
+                                  <option key={choice.choiceId} value={targetKey(target.fieldId, choice.choiceId)}>
+                                    {choice.label}
+                                  </option>
+                                ))}
+                              </optgroup>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-4 py-2 text-xs text-gray-500">
+                          {mapping[proposal.ruleId] !== targetKey(proposal.toFieldId, proposal.toChoiceId)
+                            ? 'changed by you'
+                            : proposal.matchedBy || 'no match'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {diff.compoundRuleWarnings.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-300 text-yellow-800 px-4 py-3 rounded mb-6 text-sm">
+              <p className="font-medium mb-1">Compound rules reading fields that will no longer exist:</p>
+              <ul className="list-disc list-inside">
+                {diff.compoundRuleWarnings.map(warning => (
+                  <li key={warning.ruleId}>
+                    Rule {warning.ruleId.slice(0, 8)}: {warning.missingRefs.join(', ')}
+                  </li>
+                ))}
+              </ul>
+              <p className="mt-1">Update them on the form&apos;s scoring page after syncing.</p>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => router.push('/admin/typeform')}
+              className="px-4 py-2 rounded border border-gray-300 text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={applySync}
+              disabled={syncing || loading}
+              className="px-4 py-2 rounded bg-green-600 hover:bg-green-700 text-white disabled:opacity-50"
+            >
+              {syncing ? 'Syncing...' : diff.hasChanges ? 'Apply Sync' : 'Sync Anyway'}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -55,6 +55,7 @@ export default function EditUserPage() {
         UserRole.SCREENER,
         UserRole.SCREENER_LEAD,
         UserRole.FACILITATOR,
+        UserRole.MEDICAL_REVIEWER,
         UserRole.PROGRAM_OPERATIONS_MANAGER,
         UserRole.PROGRAM_OPERATIONS_ADMINISTRATOR
       ];
@@ -65,6 +66,7 @@ export default function EditUserPage() {
         UserRole.SCREENER,
         UserRole.SCREENER_LEAD,
         UserRole.FACILITATOR,
+        UserRole.MEDICAL_REVIEWER,
         UserRole.PROGRAM_OPERATIONS_MANAGER
       ];
     } 
@@ -359,6 +361,8 @@ export default function EditUserPage() {
                       <option value={UserRole.SCREENER_LEAD}>Screener Lead</option>}
                     {getAvailableRoles().includes(UserRole.FACILITATOR) && 
                       <option value={UserRole.FACILITATOR}>Facilitator</option>}
+                    {getAvailableRoles().includes(UserRole.MEDICAL_REVIEWER) && 
+                      <option value={UserRole.MEDICAL_REVIEWER}>Medical Reviewer</option>}
                     {getAvailableRoles().includes(UserRole.PROGRAM_OPERATIONS_MANAGER) && 
                       <option value={UserRole.PROGRAM_OPERATIONS_MANAGER}>Program Operations Manager</option>}
                     {getAvailableRoles().includes(UserRole.PROGRAM_OPERATIONS_ADMINISTRATOR) && 
@@ -374,6 +378,7 @@ export default function EditUserPage() {
                           case UserRole.SCREENER: return 'Screener';
                           case UserRole.SCREENER_LEAD: return 'Screener Lead';
                           case UserRole.FACILITATOR: return 'Facilitator';
+                          case UserRole.MEDICAL_REVIEWER: return 'Medical Reviewer';
                           case UserRole.PROGRAM_OPERATIONS_MANAGER: return 'Program Operations Manager';
                           case UserRole.PROGRAM_OPERATIONS_ADMINISTRATOR: return 'Administrator';
                           default: return formData.role;
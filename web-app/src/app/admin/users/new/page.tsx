@@ -57,6 +57,7 @@ export default function NewUserPage() {
         UserRole.SCREENER,
         UserRole.SCREENER_LEAD,
         UserRole.FACILITATOR,
+        UserRole.MEDICAL_REVIEWER,
         UserRole.PROGRAM_OPERATIONS_MANAGER,
         UserRole.PROGRAM_OPERATIONS_ADMINISTRATOR
       ];
@@ -67,6 +68,7 @@ export default function NewUserPage() {
         UserRole.SCREENER,
         UserRole.SCREENER_LEAD,
         UserRole.FACILITATOR,
+        UserRole.MEDICAL_REVIEWER,
         UserRole.PROGRAM_OPERATIONS_MANAGER
       ];
     } 
@@ -188,6 +190,8 @@ export default function NewUserPage() {
                   <option value={UserRole.SCREENER_LEAD}>Screener Lead</option>}
                 {getAvailableRoles().includes(UserRole.FACILITATOR) && 
                   <option value={UserRole.FACILITATOR}>Facilitator</option>}
+                {getAvailableRoles().includes(UserRole.MEDICAL_REVIEWER) && 
+                  <option value={UserRole.MEDICAL_REVIEWER}>Medical Reviewer</option>}
                 {getAvailableRoles().includes(UserRole.PROGRAM_OPERATIONS_MANAGER) && 
                   <option value={UserRole.PROGRAM_OPERATIONS_MANAGER}>Program Operations Manager</option>}
                 {getAvailableRoles().includes(UserRole.PROGRAM_OPERATIONS_ADMINISTRATOR) && 
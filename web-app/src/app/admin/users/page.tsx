@@ -16,6 +16,8 @@ const getRoleDisplayName = (role: UserRole): string => {
       return 'Screener';
     case UserRole.FACILITATOR:
       return 'Facilitator';
+    case UserRole.MEDICAL_REVIEWER:
+      return 'Medical Reviewer';
     case UserRole.PROGRAM_OPERATIONS_MANAGER:
       return 'Program Operations Manager';
     case UserRole.PROGRAM_OPERATIONS_ADMINISTRATOR:
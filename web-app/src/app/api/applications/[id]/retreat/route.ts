@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAdminRole } from '@/lib/server-auth';
+import { retreatService } from '@/services/retreatService';
+
+/**
+ * GET handler for an application's current retreat assignment and the open retreats it could join
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const authResult = await validateAdminRole();
+    if (!authResult.success) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const [assignment, openRetreats] = await Promise.all([
+      retreatService.getActiveAssignmentForApplication(id),
+      retreatService.listRetreats({ status: 'open' }),
+    ]);
+
+    return NextResponse.json({ assignment, openRetreats });
+  } catch (error) {
+    console.error('Error getting application retreat:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
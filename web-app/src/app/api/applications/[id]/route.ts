@@ -1,9 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { applicationService } from '@/services/applicationService';
-import HubSpotService from '@/services/hubspotService';
-import { createAdminClient } from '@/lib/server-auth';
+import { syncHubSpotStatusNow } from '@/services/jobHandlers';
 import { validateAdminRole } from '@/lib/server-auth';
 import { ApplicationStatus } from '@/types/application';
+import { APPLICATION_STATUS_LABELS, validateStatusTransition } from '@/lib/application-status-machine';
 
 /**
  * GET handler to retrieve a single application by ID
@@ -78,39 +78,44 @@ export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id
       );
     }
 
-    // Validate status value
-    const validStatuses: ApplicationStatus[] = [
-      'pending',
-      'new',
-      'screening_scheduled',
-      'screening_no_show',
-      'invited_to_reschedule',
-      'secondary_screening',
-      'medical_review_required',
-      'conditionally_approved',
-      'screening_in_process',
-      'closed'
-    ];
-    
-    console.log(`Validating status value: "${data.status}"`);
-    console.log(`Valid statuses:`, validStatuses);
-    
     // Convert to string to ensure proper comparison if status is coming as a different type
     const statusString = String(data.status);
-    
-    if (!validStatuses.includes(statusString as ApplicationStatus)) {
+
+    if (!Object.prototype.hasOwnProperty.call(APPLICATION_STATUS_LABELS, statusString)) {
       console.error(`[${new Date().toISOString()}] ERROR: Invalid status value: ${statusString}`);
       return NextResponse.json(
         { error: `Invalid status value: ${statusString}` },
         { status: 400 }
       );
     }
-    
-    console.log(`Status validation passed: "${statusString}" is valid`);
+
+    // Enforce the status state machine (legal edge + guards such as closed reason or submitted screening)
+    const currentState = await applicationService.getStatusTransitionState(id);
+    if (!currentState) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+
+    const transition = validateStatusTransition(currentState.status, statusString, {
+      ...currentState.context,
+      // Values sent with this request take precedence over the stored ones
+      ...(data.closed_reason ? { closedReason: data.closed_reason, rejectedType: data.rejected_type || null } : {}),
+      actorRole: authResult.userRole,
+    });
+
+    if (!transition.allowed) {
+      console.warn(`[${new Date().toISOString()}] Rejected status transition ${currentState.status} -> ${statusString} for application ${id}: ${transition.error}`);
+      return NextResponse.json(
+        { error: transition.error, currentStatus: currentState.status },
+        { status: 409 }
+      );
+    }
+
+    console.log(`Status transition ${currentState.status} -> ${statusString} allowed`);
 
     try {
       // Update application status
       console.log(`Calling applicationService.updateApplicationStatus with status: ${statusString}`);
+      const audit = { source: 'ui' as const, actorId: authResult.userId };
       // If closing, include closed_reason
       if (statusString === 'closed' && data.closed_reason) {
         await applicationService.updateApplicationStatus(
@@ -118,80 +123,22 @@ export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id
           statusString as ApplicationStatus,
           normalizedAssignedTo,
           data.closed_reason,
-          data.rejected_type
+          data.rejected_type,
+          audit
         );
       } else {
         await applicationService.updateApplicationStatus(
           id,
           statusString as ApplicationStatus,
-          normalizedAssignedTo
+          normalizedAssignedTo,
+          undefined,
+          undefined,
+          audit
         );
       }
       console.log('Application status updated successfully in database');
 
-      // Synchronous (awaited) HubSpot sync with short timeout for Vercel reliability
-      try {
-        const hubspotTask = (async () => {
-          const admin = createAdminClient();
-          const { data: appRow } = await admin
-            .from('applications')
-            .select('participant_id, status, closed_reason, rejected_type')
-            .eq('id', id)
-            .maybeSingle();
-          if (!appRow?.participant_id) return;
-          const { data: participant } = await admin
-            .from('participants')
-            .select('email')
-            .eq('id', appRow.participant_id)
-            .maybeSingle();
-          const email = participant?.email;
-          if (!email) return;
-          const contactId = await HubSpotService.findContactIdByEmail(email);
-          if (!contactId) return;
-          const dealId = await HubSpotService.findMostRecentDealIdForContact(contactId);
-          if (!dealId) return;
-          const mergedStatus = HubSpotService.mapStatusToClosedApplicationStatusProperty(
-            appRow.status,
-            appRow.closed_reason,
-            appRow.rejected_type
-          );
-          console.log('[HubSpot] Merged application_status (status change):', mergedStatus, 'from DB fields:', {
-            status: appRow.status,
-            closed_reason: appRow.closed_reason,
-            rejected_type: appRow.rejected_type,
-          });
-          if (mergedStatus) {
-            try {
-              await HubSpotService.updateApplicationProperties(dealId, { status: mergedStatus });
-            } catch (e: any) {
-              if (e?.status === 403) console.warn('HubSpot status update skipped (missing scopes).'); else throw e;
-            }
-          }
-          const stage = HubSpotService.getStageForStatus(appRow.status, appRow.closed_reason, appRow.rejected_type);
-          console.log('[HubSpot] Computed stage for status change:', stage, 'from DB fields:', {
-            status: appRow.status,
-            closed_reason: appRow.closed_reason,
-            rejected_type: appRow.rejected_type,
-          });
-          if (stage) {
-            try {
-              console.log('[HubSpot] Updating deal stage (status change):', stage, 'for dealId:', dealId);
-              await HubSpotService.updateDealStage(dealId, stage.pipeline, stage.stage);
-              console.log('[HubSpot] Deal stage update successful');
-            } catch (e: any) {
-              console.error('[HubSpot] Deal stage update failed:', e);
-              if (e?.status === 403) console.warn('HubSpot stage update skipped (missing scopes).'); else throw e;
-            }
-          } else {
-            console.log('[HubSpot] No stage mapping found for status:', appRow.status);
-          }
-        })();
-        // Cap the HubSpot sync to ~4 seconds to keep API snappy
-        const timeout = new Promise<void>((resolve) => setTimeout(resolve, 4000));
-        await Promise.race([hubspotTask, timeout]);
-      } catch (e) {
-        console.warn('HubSpot sync (status change) encountered an error:', e);
-      }
+      await syncHubSpotStatusNow(id, 'status change');
 
       return NextResponse.json({ success: true, status: statusString });
     } catch (updateError) {
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { scoringRuleSetService } from '@/services/scoringRuleSetService';
+import { validateAdminRole } from '@/lib/server-auth';
+
+/**
+ * GET handler to retrieve every score written for an application (newest first)
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    // Validate admin or screener access
+    const authResult = await validateAdminRole();
+    if (!authResult.success) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const history = await scoringRuleSetService.getScoreHistory(id);
+
+    return NextResponse.json({ history });
+  } catch (error) {
+    console.error(`Error getting application score history:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,17 +1,10 @@
 import {checkCronAuth} from '@/middleware/cronAuth';
 import {applicationService} from '@/services/applicationService';
-import {scoringService} from "@/services/scoringService";
+import {jobQueueService} from '@/services/jobQueueService';
+import {runJobNow} from '@/services/jobHandlers';
 import {SavedTypeFormApplication} from "@/types/application";
-import {createClient} from "@supabase/supabase-js";
 import {NextRequest, NextResponse} from 'next/server';
 
-
-// Initialize Supabase client with service role for admin operations
-const supabaseAdmin = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
-  process.env.SUPABASE_SERVICE_ROLE_KEY || ''
-);
-
 /**
  * POST handler to try and re-process an application
  */
@@ -36,45 +29,23 @@ export async function POST(req: NextRequest) {
 
     console.log(`Found existing application with ID: ${existingApplication.id} for token: ${applicationRequest.typeform_response_id}. Will continue processing.`);
 
-    try {
-      await applicationService.processAnswersForApplication(existingApplication);
-      console.log(`Re-processed application ${applicationRequest.typeform_response_id} answers, now continuing with scoring.`);
-    } catch (e) {
-      console.error(`[Reprocess] processAnswers failed once, retrying...`, e);
-      await new Promise(res => setTimeout(res, 1000));
-      await applicationService.processAnswersForApplication(existingApplication);
-      console.log(`[Reprocess] processAnswers retry succeeded.`);
-    }
+    const job = await jobQueueService.enqueue('application.process', {applicationId: existingApplication.id}, {
+      dedupeKey: `application.process:${existingApplication.id}`
+    });
+    const run = await runJobNow(job.id);
 
-    let result;
-    try {
-      result = await scoringService.calculateApplicationScore(
-        existingApplication.id
-      );
-    } catch (e) {
-      console.error(`[Reprocess] calculateApplicationScore failed once, retrying...`, e);
-      await new Promise(res => setTimeout(res, 1000));
-      result = await scoringService.calculateApplicationScore(
-        existingApplication.id
+    if (!run || run.status !== 'succeeded') {
+      console.warn(`[Reprocess] Application ${existingApplication.id} not processed inline (${run ? run.error : 'already claimed'}); left to job ${job.id}.`);
+      return NextResponse.json(
+        {applicationId: existingApplication.id, jobId: job.id, status: run?.status || 'pending', error: run?.error},
+        {status: 202}
       );
-      console.log(`[Reprocess] scoring retry succeeded.`);
     }
 
-    const score = result.totalScore;
+    const score = (run.result as { totalScore?: number } | undefined)?.totalScore;
     // The application score and counts are already updated in calculateApplicationScore
-    // No need to update again here
     console.log(`Application processed successfully. ID: ${existingApplication.id}, Score: ${score}`);
 
-    try {
-      await supabaseAdmin
-        .from('processing_locks')
-        .delete()
-        .eq('lock_id', `typeform_${existingApplication.typeform_response_id}`);
-    } catch (error) {
-      console.error(`Error releasing processing lock: ${error}`);
-      // Non-critical error, just log it
-    }
-
     return NextResponse.json(
       { applicationId: existingApplication.id, score }
     );
@@ -24,6 +24,7 @@ export async function GET(req: NextRequest) {
     const maxScore = searchParams.get('maxScore') 
       ? parseInt(searchParams.get('maxScore') as string) 
       : undefined;
+    const riskBand = searchParams.get('riskBand') || undefined;
     const assignedTo = searchParams.get('assignedTo') || undefined;
     const isScreening = searchParams.get('screening') === 'true';
 
@@ -43,6 +44,7 @@ export async function GET(req: NextRequest) {
       status,
       minScore,
       maxScore,
+      riskBand,
       assignedTo,
       isScreening,
       closedReason,
@@ -0,0 +1,23 @@
+import {checkCronAuth} from '@/middleware/cronAuth';
+import {hubspotReconciliationService} from '@/services/hubspotReconciliationService';
+import {NextRequest, NextResponse} from 'next/server';
+
+/**
+ * GET handler for the nightly HubSpot reconciliation; the run itself is paged through the job queue
+ */
+export async function GET(req: NextRequest) {
+  // Use middleware for CRON_SECURE_KEY auth
+  const authResult = checkCronAuth(req);
+  if (authResult) return authResult;
+
+  try {
+    const run = await hubspotReconciliationService.startRun(null);
+    return NextResponse.json({runId: run.id, status: run.status});
+  } catch (error) {
+    console.error('[HubSpot Reconciliation] Failed to start nightly run:', error);
+    return NextResponse.json(
+      {error: error instanceof Error ? error.message : 'Unknown error'},
+      {status: 500}
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import {checkCronAuth} from '@/middleware/cronAuth';
+import {jobHandlers} from '@/services/jobHandlers';
+import {jobQueueService} from '@/services/jobQueueService';
+import {JobRunResult} from '@/types/job';
+import {NextRequest, NextResponse} from 'next/server';
+
+// Stop claiming new batches once this much of the function's time is used
+const TIME_BUDGET_MS = 45000;
+const BATCH_SIZE = 5;
+
+export const maxDuration = 60;
+
+/**
+ * GET handler for the job worker: requeues stale jobs, then drains due jobs in batches
+ */
+export async function GET(req: NextRequest) {
+  // Use middleware for CRON_SECURE_KEY auth
+  const authResult = checkCronAuth(req);
+  if (authResult) return authResult;
+
+  const startTime = Date.now();
+  const results: JobRunResult[] = [];
+
+  try {
+    const requeued = await jobQueueService.requeueStaleJobs();
+    if (requeued > 0) {
+      console.log(`[Jobs] Requeued ${requeued} stale jobs`);
+    }
+
+    while (Date.now() - startTime < TIME_BUDGET_MS) {
+      const batch = await jobQueueService.processBatch(jobHandlers, BATCH_SIZE);
+      results.push(...batch);
+      if (batch.length === 0) break;
+    }
+
+    const summary = {
+      requeued,
+      processed: results.length,
+      succeeded: results.filter(r => r.status === 'succeeded').length,
+      retrying: results.filter(r => r.status === 'pending').length,
+      dead: results.filter(r => r.status === 'dead').length,
+    };
+    console.log('[Jobs] Worker run finished:', summary);
+
+    return NextResponse.json({...summary, results});
+  } catch (error) {
+    console.error('[Jobs] Worker run failed:', error);
+    return NextResponse.json(
+      {error: error instanceof Error ? error.message : 'Unknown error', processed: results.length},
+      {status: 500}
+    );
+  }
+}
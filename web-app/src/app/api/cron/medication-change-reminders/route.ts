@@ -0,0 +1,24 @@
+import {checkCronAuth} from '@/middleware/cronAuth';
+import {medicationChangeService} from '@/services/medicationChangeService';
+import {NextRequest, NextResponse} from 'next/server';
+
+/**
+ * GET handler for the daily medication change reminder sweep
+ */
+export async function GET(req: NextRequest) {
+  // Use middleware for CRON_SECURE_KEY auth
+  const authResult = checkCronAuth(req);
+  if (authResult) return authResult;
+
+  try {
+    const summary = await medicationChangeService.sendDueReminders();
+    console.log('[Medication Change] Reminder sweep finished:', summary);
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('[Medication Change] Reminder sweep failed:', error);
+    return NextResponse.json(
+      {error: error instanceof Error ? error.message : 'Unknown error'},
+      {status: 500}
+    );
+  }
+}
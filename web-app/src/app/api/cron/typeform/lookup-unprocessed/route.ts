@@ -1,8 +1,9 @@
 import {applicationService} from '@/services/applicationService';
+import {jobQueueService} from '@/services/jobQueueService';
 import {SavedTypeFormApplication} from "@/types/application";
 import {NextResponse} from 'next/server';
 
-const PROCESS_APPLICATION_ENDPOINT = `${process.env.NEXT_PUBLIC_BASE_URL || ''}/api/applications/re-process`;
+const LOOKUP_LIMIT = 200;
 
 export async function GET() {
   // Find applications with a lock older than 3 minutes and unprocessed answers
@@ -10,7 +11,7 @@ export async function GET() {
   let applications: Array<SavedTypeFormApplication> = [];
   try {
     // You may want to adjust this query logic as per your schema
-    applications = await applicationService.getUnprocessedApplications(threeMinutesAgo);
+    applications = await applicationService.getUnprocessedApplications(threeMinutesAgo, LOOKUP_LIMIT);
   } catch (err) {
     return NextResponse.json({
       error: 'Failed to fetch applications',
@@ -20,26 +21,24 @@ export async function GET() {
 
   console.log(`Found ${applications.length} unprocessed applications to re-process.`);
 
-  // Call /api/cron/process-application for each application (fire-and-forget)
-  const pendingApplications: string[] = applications.map(app => {
-    console.log(`Will queue Re-processing of application ${app.id} with response ID ${app.typeform_response_id}`);
-    fetch(
-      PROCESS_APPLICATION_ENDPOINT,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'authorization': `Bearer ${process.env.CRON_SECURE_KEY}`,
-        },
-        body: JSON.stringify({typeform_response_id: app.typeform_response_id}),
-      }).then(r => {
-      if (!r.ok) {
-        console.error(`Failed to process application ${app.id}: ${r.statusText}`);
-      }
-    });
-
-    return app.typeform_response_id;
-  });
+  // Queue each application; the job worker (/api/cron/jobs) processes and retries them
+  const pendingApplications: string[] = [];
+  const failedApplications: string[] = [];
+  for (const app of applications) {
+    try {
+      await jobQueueService.enqueue('application.process', {applicationId: app.id}, {
+        dedupeKey: `application.process:${app.id}`
+      });
+      pendingApplications.push(app.typeform_response_id);
+    } catch (err) {
+      console.error(`Failed to queue re-processing of application ${app.id}:`, err);
+      failedApplications.push(app.typeform_response_id);
+    }
+  }
 
-  return NextResponse.json({count: pendingApplications.length, pending: pendingApplications});
+  return NextResponse.json({
+    count: pendingApplications.length,
+    pending: pendingApplications,
+    failed: failedApplications
+  }, {status: failedApplications.length > 0 ? 500 : 200});
 }
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { hubspotDealLinkService } from '@/services/hubspotDealLinkService';
+import { validateServerSession } from '@/lib/server-auth';
+
+const ACTIONS = ['retry', 'link', 'create'] as const;
+
+/**
+ * GET /api/hubspot/deal-links
+ * Returns applications whose HubSpot deal is missing or ambiguous, and deals whose
+ * stage changes matched no application
+ */
+export async function GET() {
+  try {
+    const authResult = await validateServerSession([
+      'PROGRAM_OPERATIONS_ADMINISTRATOR',
+      'PROGRAM_OPERATIONS_MANAGER'
+    ]);
+
+    if (!authResult.authorized) {
+      return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const [issues, unlinkedDeals] = await Promise.all([
+      hubspotDealLinkService.listIssues(),
+      hubspotDealLinkService.listUnlinkedDeals(),
+    ]);
+    return NextResponse.json({ issues, unlinkedDeals });
+  } catch (error) {
+    console.error('[API GET /api/hubspot/deal-links] Error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/hubspot/deal-links
+ * Repairs an application's HubSpot deal link
+ * Request body:
+ *   - applicationId: the application to repair
+ *   - action: retry (look for the deal again), link (link dealId) or create (create a new deal)
+ *   - dealId: the deal to link, for the link action
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const authResult = await validateServerSession([
+      'PROGRAM_OPERATIONS_ADMINISTRATOR',
+      'PROGRAM_OPERATIONS_MANAGER'
+    ]);
+
+    if (!authResult.authorized) {
+      return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { applicationId, action, dealId } = await req.json();
+    if (typeof applicationId !== 'string' || !applicationId) {
+      return NextResponse.json({ error: 'applicationId is required' }, { status: 400 });
+    }
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json({ error: `action must be one of ${ACTIONS.join(', ')}` }, { status: 400 });
+    }
+    if (action === 'link' && (typeof dealId !== 'string' || !dealId.trim())) {
+      return NextResponse.json({ error: 'dealId is required to link a deal' }, { status: 400 });
+    }
+
+    const userId = authResult.userId || null;
+    const link = action === 'link'
+      ? await hubspotDealLinkService.linkDeal(applicationId, dealId.trim(), userId)
+      : action === 'create'
+        ? await hubspotDealLinkService.createDeal(applicationId, userId)
+        : await hubspotDealLinkService.retryLink(applicationId);
+
+    return NextResponse.json({ link });
+  } catch (error) {
+    console.error('[API POST /api/hubspot/deal-links] Error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });
+  }
+}
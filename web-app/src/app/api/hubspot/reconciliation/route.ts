@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { hubspotReconciliationService } from '@/services/hubspotReconciliationService';
+import { validateServerSession } from '@/lib/server-auth';
+
+/**
+ * GET /api/hubspot/reconciliation
+ * Returns the most recent reconciliation run with its drift
+ */
+export async function GET() {
+  try {
+    const authResult = await validateServerSession([
+      'PROGRAM_OPERATIONS_ADMINISTRATOR',
+      'PROGRAM_OPERATIONS_MANAGER'
+    ]);
+
+    if (!authResult.authorized) {
+      return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const run = await hubspotReconciliationService.getLatestRun();
+    return NextResponse.json({ run });
+  } catch (error) {
+    console.error('[API GET /api/hubspot/reconciliation] Error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/hubspot/reconciliation
+ * Starts a reconciliation run now, or returns the one already in progress
+ */
+export async function POST() {
+  try {
+    const authResult = await validateServerSession([
+      'PROGRAM_OPERATIONS_ADMINISTRATOR',
+      'PROGRAM_OPERATIONS_MANAGER'
+    ]);
+
+    if (!authResult.authorized) {
+      return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const run = await hubspotReconciliationService.startRun(authResult.userId || null);
+    return NextResponse.json({ run }, { status: 202 });
+  } catch (error) {
+    console.error('[API POST /api/hubspot/reconciliation] Error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });
+  }
+}
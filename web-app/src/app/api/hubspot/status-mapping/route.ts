@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { hubspotStatusMappingService } from '@/services/hubspotStatusMappingService';
+import { validateServerSession } from '@/lib/server-auth';
+import { HubSpotMappingCatalog, HubSpotStatusMappingInput } from '@/types/hubspotSync';
+
+/**
+ * GET /api/hubspot/status-mapping
+ * Returns the saved status mappings and the live HubSpot pipelines and application_status options.
+ * The mappings are still returned when HubSpot cannot be reached, with catalogError set.
+ */
+export async function GET() {
+  try {
+    const authResult = await validateServerSession([
+      'PROGRAM_OPERATIONS_ADMINISTRATOR',
+      'PROGRAM_OPERATIONS_MANAGER'
+    ]);
+
+    if (!authResult.authorized) {
+      return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const mappings = await hubspotStatusMappingService.getMappings();
+
+    let catalog: HubSpotMappingCatalog = { pipelines: [], statusOptions: [] };
+    let catalogError: string | null = null;
+    try {
+      catalog = await hubspotStatusMappingService.getCatalog();
+    } catch (error) {
+      console.warn('[API GET /api/hubspot/status-mapping] HubSpot catalog unavailable:', error);
+      catalogError = error instanceof Error ? error.message : 'Failed to load pipelines from HubSpot';
+    }
+
+    return NextResponse.json({ mappings, ...catalog, catalogError });
+  } catch (error) {
+    console.error('[API GET /api/hubspot/status-mapping] Error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/hubspot/status-mapping
+ * Replaces the whole status mapping after validating it against HubSpot
+ * Request body:
+ *   - mappings: [{ status, closedReason, rejectedType, pipelineId, stageId, statusPropertyValue, syncFromHubSpot }],
+ *     one per status / closed reason / rejected type; none may be left out
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    const authResult = await validateServerSession([
+      'PROGRAM_OPERATIONS_ADMINISTRATOR',
+      'PROGRAM_OPERATIONS_MANAGER'
+    ]);
+
+    if (!authResult.authorized) {
+      return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { mappings } = await req.json();
+
+    let catalog: HubSpotMappingCatalog;
+    try {
+      catalog = await hubspotStatusMappingService.getCatalog();
+    } catch (error) {
+      console.error('[API PUT /api/hubspot/status-mapping] HubSpot catalog unavailable:', error);
+      return NextResponse.json({ error: 'Could not load pipelines from HubSpot to validate the mapping' }, { status: 502 });
+    }
+
+    const validationError = hubspotStatusMappingService.validateMappings(mappings, catalog);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const saved = await hubspotStatusMappingService.saveMappings(
+      mappings as HubSpotStatusMappingInput[],
+      authResult.userId || null
+    );
+    return NextResponse.json({ mappings: saved });
+  } catch (error) {
+    console.error('[API PUT /api/hubspot/status-mapping] Error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { hubspotSyncEventService } from '@/services/hubspotSyncEventService';
+import { validateServerSession } from '@/lib/server-auth';
+import { HubSpotPushResult } from '@/types/hubspotSync';
+
+const RESULTS: HubSpotPushResult[] = ['pending', 'succeeded', 'skipped', 'failed'];
+
+/**
+ * GET /api/hubspot/sync-events
+ * Returns the most recent pushes to HubSpot
+ * Query parameters:
+ *   - result: only pushes with this result (pending, succeeded, skipped, failed)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const authResult = await validateServerSession([
+      'PROGRAM_OPERATIONS_ADMINISTRATOR',
+      'PROGRAM_OPERATIONS_MANAGER'
+    ]);
+
+    if (!authResult.authorized) {
+      return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = req.nextUrl.searchParams.get('result');
+    if (result && !RESULTS.includes(result as HubSpotPushResult)) {
+      return NextResponse.json({ error: `Unknown result: ${result}` }, { status: 400 });
+    }
+
+    const events = await hubspotSyncEventService.listEvents((result as HubSpotPushResult) || undefined);
+    return NextResponse.json({ events });
+  } catch (error) {
+    console.error('[API GET /api/hubspot/sync-events] Error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/hubspot/sync-events
+ * Queues a fresh push of an application's status, score and screener to HubSpot
+ * Request body:
+ *   - applicationId: the application to push
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const authResult = await validateServerSession([
+      'PROGRAM_OPERATIONS_ADMINISTRATOR',
+      'PROGRAM_OPERATIONS_MANAGER'
+    ]);
+
+    if (!authResult.authorized) {
+      return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { applicationId } = await req.json();
+    if (typeof applicationId !== 'string' || !applicationId) {
+      return NextResponse.json({ error: 'applicationId is required' }, { status: 400 });
+    }
+
+    await hubspotSyncEventService.requeuePush(applicationId);
+    return NextResponse.json({ queued: true });
+  } catch (error) {
+    console.error('[API POST /api/hubspot/sync-events] Error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient, getSessionUserId } from '@/lib/server-auth';
+import { applicationService } from '@/services/applicationService';
+import { MEDICAL_REVIEW_DECISION_STATUS, medicalReviewService } from '@/services/medicalReviewService';
+import { notificationService } from '@/services/notificationService';
+import { syncHubSpotStatusNow } from '@/services/jobHandlers';
+import { validateStatusTransition } from '@/lib/application-status-machine';
+import { MedicalReviewDecision } from '@/types/medicalReview';
+
+const DECISION_LABELS: Record<MedicalReviewDecision, string> = {
+  clear: 'cleared',
+  require_medication_change: 'requires a medication change',
+  decline: 'declined',
+};
+
+/**
+ * POST handler to record a medical reviewer's decision and move the application on
+ * Body: { decision: 'clear' | 'require_medication_change' | 'decline', notes?, rejected_type? }
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const data = await req.json();
+    const decision = data.decision as MedicalReviewDecision;
+    if (!Object.prototype.hasOwnProperty.call(MEDICAL_REVIEW_DECISION_STATUS, decision)) {
+      return NextResponse.json({ error: `Invalid decision: ${data.decision}` }, { status: 400 });
+    }
+    const notes = typeof data.notes === 'string' ? data.notes.trim() : '';
+    const rejectedType = data.rejected_type === 'Temporary' || data.rejected_type === 'Permanent' ? data.rejected_type : null;
+    if (decision !== 'clear' && !notes) {
+      return NextResponse.json({ error: 'Notes are required when not clearing the applicant' }, { status: 400 });
+    }
+
+    const reviewCase = await medicalReviewService.getCaseById(id);
+    if (!reviewCase) {
+      return NextResponse.json({ error: 'Medical review not found' }, { status: 404 });
+    }
+    const userRole = await medicalReviewService.getUserRole(userId);
+    if (!medicalReviewService.canAccessCase(reviewCase, userId, userRole)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    if (reviewCase.status !== 'open') {
+      return NextResponse.json({ error: 'This medical review has already been decided', case: reviewCase }, { status: 409 });
+    }
+
+    // Check the resulting status change before recording anything
+    const applicationId = reviewCase.application_id;
+    const nextStatus = MEDICAL_REVIEW_DECISION_STATUS[decision];
+    const closedReason = decision === 'decline' ? 'Rejected' : undefined;
+    const currentState = await applicationService.getStatusTransitionState(applicationId);
+    if (!currentState) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+    const transition = validateStatusTransition(currentState.status, nextStatus, {
+      ...currentState.context,
+      medicalReviewCleared: decision === 'clear',
+      ...(closedReason ? { closedReason, rejectedType } : {}),
+      actorRole: userRole,
+    });
+    if (!transition.allowed) {
+      return NextResponse.json(
+        { error: transition.error, currentStatus: currentState.status },
+        { status: 409 }
+      );
+    }
+
+    const decided = await medicalReviewService.recordDecision(id, { decision, notes, rejectedType }, userId);
+    if (!decided) {
+      return NextResponse.json({ error: 'This medical review has already been decided' }, { status: 409 });
+    }
+
+    try {
+      await applicationService.updateApplicationStatus(
+        applicationId,
+        nextStatus,
+        undefined,
+        closedReason,
+        closedReason ? rejectedType || undefined : undefined,
+        { source: 'ui', actorId: userId, note: `Medical review ${DECISION_LABELS[decision]}` }
+      );
+    } catch (updateError) {
+      // Never leave the case decided while the application waits in pending_medical_review
+      await medicalReviewService.reopenCase(decided);
+      throw updateError;
+    }
+
+    // Let the referring screener and the assigned screener know
+    const { data: application } = await createAdminClient()
+      .from('applications')
+      .select('assigned_to')
+      .eq('id', applicationId)
+      .maybeSingle();
+    const recipients = [reviewCase.opened_by, application?.assigned_to].filter((r): r is string => !!r && r !== userId);
+    await notificationService.notifyUsers(recipients, {
+      type: 'medical_review_decided',
+      title: 'Medical review decided',
+      message: `${reviewCase.participant_name || 'An applicant'}'s medical review ${DECISION_LABELS[decision]}.`,
+      link: `/screenings/${applicationId}`,
+      applicationId,
+      metadata: { caseId: id, decision },
+    });
+
+    await syncHubSpotStatusNow(applicationId, 'medical review decision');
+
+    return NextResponse.json({ success: true, status: nextStatus, case: { ...reviewCase, ...decided } });
+  } catch (error) {
+    console.error('Error recording medical review decision:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to record decision' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient, getSessionUserId } from '@/lib/server-auth';
+import { medicalReviewService } from '@/services/medicalReviewService';
+
+/**
+ * GET handler to retrieve a medical review case with the applicant's basic details
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const reviewCase = await medicalReviewService.getCaseById(id);
+    if (!reviewCase) {
+      return NextResponse.json({ error: 'Medical review not found' }, { status: 404 });
+    }
+
+    const userRole = await medicalReviewService.getUserRole(userId);
+    if (!medicalReviewService.canAccessCase(reviewCase, userId, userRole)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { data: application } = await createAdminClient()
+      .from('applications')
+      .select('id, status, participants(first_name, last_name, email, date_of_birth)')
+      .eq('id', reviewCase.application_id)
+      .maybeSingle();
+
+    return NextResponse.json({ case: reviewCase, application });
+  } catch (error) {
+    console.error('Error getting medical review case:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '@/lib/server-auth';
+import { medicalReviewService } from '@/services/medicalReviewService';
+import { MedicalReviewStatus } from '@/types/medicalReview';
+
+const STATUS_FILTERS: (MedicalReviewStatus | 'all')[] = ['open', 'cleared', 'medication_change_required', 'declined', 'all'];
+
+/**
+ * GET handler to list medical review cases
+ * Query params: status (default open, or all), scope=all to see every reviewer's cases (supervisors only)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const userRole = await medicalReviewService.getUserRole(userId);
+
+    const searchParams = req.nextUrl.searchParams;
+    const statusParam = (searchParams.get('status') || 'open') as MedicalReviewStatus | 'all';
+    if (!STATUS_FILTERS.includes(statusParam)) {
+      return NextResponse.json({ error: `Invalid status filter: ${statusParam}` }, { status: 400 });
+    }
+
+    const allReviewers = searchParams.get('scope') === 'all' && medicalReviewService.isSupervisor(userRole);
+    const cases = await medicalReviewService.listCases({
+      reviewerId: allReviewers ? undefined : userId,
+      status: statusParam,
+    });
+
+    return NextResponse.json({ cases, canViewAll: medicalReviewService.isSupervisor(userRole) });
+  } catch (error) {
+    console.error('Error listing medical review cases:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
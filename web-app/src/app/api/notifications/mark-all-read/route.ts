@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { getSessionUserId } from '@/lib/server-auth';
+import { notificationService } from '@/services/notificationService';
+
+/**
+ * POST handler to mark all of the current user's notifications as read
+ */
+export async function POST() {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const updated = await notificationService.markAllAsRead(userId);
+    return NextResponse.json({ success: true, updated });
+  } catch (error) {
+    console.error('Error marking all notifications as read:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
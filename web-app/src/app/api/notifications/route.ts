@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId } from '@/lib/server-auth';
+import { notificationService } from '@/services/notificationService';
+
+/**
+ * GET handler to list the current user's notifications
+ * Query params: unread=true to only return unread, limit (default 20, max 100)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const searchParams = req.nextUrl.searchParams;
+    const unreadOnly = searchParams.get('unread') === 'true';
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), 100);
+
+    const { notifications, unreadCount } = await notificationService.getNotificationsForUser(userId, {
+      unreadOnly,
+      limit,
+    });
+
+    return NextResponse.json({ notifications, unreadCount });
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { participantMergeService } from '@/services/participantMergeService';
+import { validateServerSession } from '@/lib/server-auth';
+
+/**
+ * GET /api/participants/duplicates
+ * Lists pairs of participants that are probably the same person, best matches first
+ * Query parameters:
+ *   - limit: (optional) maximum number of pairs, default 100
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const authResult = await validateServerSession([
+      'PROGRAM_OPERATIONS_ADMINISTRATOR',
+      'PROGRAM_OPERATIONS_MANAGER'
+    ]);
+
+    if (!authResult.authorized) {
+      return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const limit = parseInt(req.nextUrl.searchParams.get('limit') || '100', 10);
+    const candidates = await participantMergeService.findDuplicateCandidates(
+      Math.max(1, Math.min(500, isNaN(limit) ? 100 : limit))
+    );
+    return NextResponse.json({ candidates });
+  } catch (error) {
+    console.error('[API GET /api/participants/duplicates] Error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { participantMergeService } from '@/services/participantMergeService';
+import { validateServerSession } from '@/lib/server-auth';
+
+/**
+ * GET /api/participants/merges
+ * Lists the most recent participant merges
+ */
+export async function GET() {
+  try {
+    const authResult = await validateServerSession([
+      'PROGRAM_OPERATIONS_ADMINISTRATOR',
+      'PROGRAM_OPERATIONS_MANAGER'
+    ]);
+
+    if (!authResult.authorized) {
+      return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const merges = await participantMergeService.listMerges();
+    return NextResponse.json({ merges });
+  } catch (error) {
+    console.error('[API GET /api/participants/merges] Error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/participants/merges
+ * Merges a duplicate participant into the participant that is kept
+ * Request body:
+ *   - survivorId: the participant that is kept
+ *   - duplicateId: the participant whose applications, screenings and meetings move to the survivor
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const authResult = await validateServerSession([
+      'PROGRAM_OPERATIONS_ADMINISTRATOR',
+      'PROGRAM_OPERATIONS_MANAGER'
+    ]);
+
+    if (!authResult.authorized) {
+      return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { survivorId, duplicateId } = await req.json();
+    if (typeof survivorId !== 'string' || typeof duplicateId !== 'string' || !survivorId || !duplicateId) {
+      return NextResponse.json({ error: 'survivorId and duplicateId are required' }, { status: 400 });
+    }
+    if (survivorId === duplicateId) {
+      return NextResponse.json({ error: 'A participant cannot be merged into itself' }, { status: 400 });
+    }
+
+    const merge = await participantMergeService.mergeParticipants(survivorId, duplicateId, authResult.userId || null);
+    return NextResponse.json({ merge }, { status: 201 });
+  } catch (error) {
+    console.error('[API POST /api/participants/merges] Error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });
+  }
+}
@@ -28,9 +28,11 @@ export async function GET(req: NextRequest) {
     const pageSize = parseInt(searchParams.get('pageSize') || '10', 10);
 
     // Base query
+    // Merged duplicates are only kept for history
     let query = supabaseAdmin
       .from('participants')
-      .select('*', { count: 'exact' });
+      .select('*', { count: 'exact' })
+      .is('merged_into_id', null);
 
     // Apply filters
     if (status === 'active') {
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAdminRole } from '@/lib/server-auth';
+import { retreatService } from '@/services/retreatService';
+
+/**
+ * DELETE handler to withdraw an assignment; the next waitlisted application takes a freed place
+ */
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string; assignmentId: string }> }) {
+  try {
+    const authResult = await validateAdminRole();
+    if (!authResult.success) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, assignmentId } = await params;
+    const assignment = await retreatService.getAssignmentById(assignmentId);
+    if (!assignment || assignment.retreat_id !== id) {
+      return NextResponse.json({ error: 'Assignment not found' }, { status: 404 });
+    }
+
+    const withdrawn = await retreatService.withdrawAssignment(assignmentId);
+    if (!withdrawn) {
+      return NextResponse.json({ error: 'Assignment has already been withdrawn' }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: true, assignment: withdrawn });
+  } catch (error) {
+    console.error('Error withdrawing retreat assignment:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to withdraw assignment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { applicationService } from '@/services/applicationService';
+import { validateAdminRole } from '@/lib/server-auth';
+import { RETREAT_ELIGIBLE_STATUSES, retreatService } from '@/services/retreatService';
+import { APPLICATION_STATUS_LABELS } from '@/lib/application-status-machine';
+
+/**
+ * POST handler to assign an application to a retreat
+ * Body: { application_id }
+ * The assignment is confirmed while places remain, otherwise the application joins the waitlist.
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const authResult = await validateAdminRole();
+    if (!authResult.success) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const data = await req.json();
+    if (!data.application_id || typeof data.application_id !== 'string') {
+      return NextResponse.json({ error: 'application_id is required' }, { status: 400 });
+    }
+
+    const retreat = await retreatService.getRetreatById(id);
+    if (!retreat) {
+      return NextResponse.json({ error: 'Retreat not found' }, { status: 404 });
+    }
+    if (retreat.status !== 'open') {
+      return NextResponse.json({ error: 'Applications can only be assigned to open retreats' }, { status: 409 });
+    }
+
+    const currentState = await applicationService.getStatusTransitionState(data.application_id);
+    if (!currentState) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+    if (!RETREAT_ELIGIBLE_STATUSES.includes(currentState.status)) {
+      const allowed = RETREAT_ELIGIBLE_STATUSES.map(s => APPLICATION_STATUS_LABELS[s]).join(' or ');
+      return NextResponse.json(
+        { error: `Only applications that are ${allowed} can be assigned to a retreat`, currentStatus: currentState.status },
+        { status: 409 }
+      );
+    }
+
+    try {
+      const assignment = await retreatService.assignApplication(id, data.application_id, authResult.userId);
+      return NextResponse.json({ success: true, assignment }, { status: 201 });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('already assigned')) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error assigning application to retreat:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to assign retreat' },
+      { status: 500 }
+    );
+  }
+}
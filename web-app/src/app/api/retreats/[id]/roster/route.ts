@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAdminRole } from '@/lib/server-auth';
+import { retreatService } from '@/services/retreatService';
+
+/**
+ * GET handler for a retreat's roster: confirmed participants, the waitlist in order, and withdrawals
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const authResult = await validateAdminRole();
+    if (!authResult.success) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const retreat = await retreatService.getRetreatById(id);
+    if (!retreat) {
+      return NextResponse.json({ error: 'Retreat not found' }, { status: 404 });
+    }
+
+    const roster = await retreatService.getRoster(id);
+    return NextResponse.json({ retreat, roster });
+  } catch (error) {
+    console.error('Error getting retreat roster:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
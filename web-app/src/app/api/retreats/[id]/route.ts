@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAdminRole } from '@/lib/server-auth';
+import { retreatService } from '@/services/retreatService';
+
+/**
+ * GET handler for a retreat, with the facilitators that can be assigned to it
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const authResult = await validateAdminRole();
+    if (!authResult.success) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const [retreat, facilitators] = await Promise.all([
+      retreatService.getRetreatById(id),
+      retreatService.getFacilitators(),
+    ]);
+    if (!retreat) {
+      return NextResponse.json({ error: 'Retreat not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ retreat, facilitators });
+  } catch (error) {
+    console.error('Error getting retreat:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH handler to update a retreat. Raising capacity promotes from the waitlist.
+ */
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const authResult = await validateAdminRole();
+    if (!authResult.success) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const existing = await retreatService.getRetreatById(id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Retreat not found' }, { status: 404 });
+    }
+
+    const input = retreatService.parseRetreatInput(await req.json());
+    // Validate date order against the stored dates when only one is changing
+    const validationError = retreatService.validateRetreatInput({
+      ...input,
+      start_date: input.start_date ?? existing.start_date,
+      end_date: input.end_date ?? existing.end_date,
+    }, true);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const retreat = await retreatService.updateRetreat(id, input);
+    return NextResponse.json({ success: true, retreat });
+  } catch (error) {
+    console.error('Error updating retreat:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update retreat' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE handler for a retreat nobody has been assigned to.
+ * Retreats with assignments must be cancelled instead so the roster history is kept.
+ */
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const authResult = await validateAdminRole();
+    if (!authResult.success) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const existing = await retreatService.getRetreatById(id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Retreat not found' }, { status: 404 });
+    }
+
+    const deleted = await retreatService.deleteRetreat(id);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'This retreat has assignments and cannot be deleted. Cancel it instead.' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting retreat:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete retreat' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { validateAdminRole } from '@/lib/server-auth';
+import { retreatService } from '@/services/retreatService';
+
+/**
+ * GET handler for the active facilitators that can lead a retreat
+ */
+export async function GET() {
+  try {
+    const authResult = await validateAdminRole();
+    if (!authResult.success) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const facilitators = await retreatService.getFacilitators();
+    return NextResponse.json({ facilitators });
+  } catch (error) {
+    console.error('Error listing facilitators:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
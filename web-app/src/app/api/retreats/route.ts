@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAdminRole } from '@/lib/server-auth';
+import { RETREAT_STATUSES, retreatService } from '@/services/retreatService';
+import { RetreatInput, RetreatStatus } from '@/types/retreat';
+
+/**
+ * GET handler to list retreats
+ * Query params: status, upcoming (only retreats starting within this many days)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const authResult = await validateAdminRole();
+    if (!authResult.success) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const searchParams = req.nextUrl.searchParams;
+    const status = searchParams.get('status') as RetreatStatus | null;
+    if (status && !RETREAT_STATUSES.includes(status)) {
+      return NextResponse.json({ error: `Invalid status filter: ${status}` }, { status: 400 });
+    }
+    const upcoming = searchParams.get('upcoming');
+    const upcomingDays = upcoming !== null ? parseInt(upcoming, 10) : undefined;
+    if (upcomingDays !== undefined && (isNaN(upcomingDays) || upcomingDays < 0)) {
+      return NextResponse.json({ error: 'upcoming must be a number of days' }, { status: 400 });
+    }
+
+    const retreats = await retreatService.listRetreats({ status: status || undefined, upcomingDays });
+    return NextResponse.json({ retreats });
+  } catch (error) {
+    console.error('Error listing retreats:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler to create a retreat
+ * Body: { name, location, start_date, end_date, capacity, price_cents?, currency?, status?, facilitator_ids?, description? }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const authResult = await validateAdminRole();
+    if (!authResult.success) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const input = retreatService.parseRetreatInput(await req.json());
+    const validationError = retreatService.validateRetreatInput(input);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const retreat = await retreatService.createRetreat(input as RetreatInput, authResult.userId);
+    return NextResponse.json({ success: true, retreat }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating retreat:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create retreat' },
+      { status: 500 }
+    );
+  }
+}
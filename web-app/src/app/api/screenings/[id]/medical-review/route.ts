@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { applicationService } from '@/services/applicationService';
+import { medicalReviewService } from '@/services/medicalReviewService';
+import { notificationService } from '@/services/notificationService';
+import { syncHubSpotStatusNow } from '@/services/jobHandlers';
+import { validateAdminRole } from '@/lib/server-auth';
+import { validateStatusTransition } from '@/lib/application-status-machine';
+
+// Accept a list or newline/comma separated text; drop blanks and duplicates
+const toList = (value: unknown): string[] => {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[\n,]/) : [];
+  return Array.from(new Set(items.map(item => String(item).trim()).filter(Boolean)));
+};
+
+/**
+ * GET handler returning what the referral form needs: the latest case,
+ * the available reviewers and the application's flagged answers
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const authResult = await validateAdminRole();
+    if (!authResult.success) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const [reviewCase, reviewers, flaggedResponses] = await Promise.all([
+      medicalReviewService.getLatestCaseForApplication(id),
+      medicalReviewService.getReviewers(),
+      medicalReviewService.getFlaggedResponses(id),
+    ]);
+
+    return NextResponse.json({ case: reviewCase, reviewers, flaggedResponses });
+  } catch (error) {
+    console.error('Error getting medical review details:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler to open a medical review case, notify the reviewer
+ * and move the application to pending_medical_review
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const authResult = await validateAdminRole();
+    if (!authResult.success) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const data = await req.json();
+
+    const reviewerId = typeof data.reviewer_id === 'string' ? data.reviewer_id : '';
+    const medications = toList(data.medications);
+    const conditions = toList(data.conditions);
+    if (!reviewerId) {
+      return NextResponse.json({ error: 'A medical reviewer is required' }, { status: 400 });
+    }
+    if (medications.length === 0 && conditions.length === 0) {
+      return NextResponse.json({ error: 'List at least one medication or condition for review' }, { status: 400 });
+    }
+
+    const reviewers = await medicalReviewService.getReviewers();
+    const reviewer = reviewers.find(r => r.id === reviewerId);
+    if (!reviewer) {
+      return NextResponse.json({ error: 'Selected user is not an active medical reviewer' }, { status: 400 });
+    }
+
+    const currentState = await applicationService.getStatusTransitionState(id);
+    if (!currentState) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+    const transition = validateStatusTransition(currentState.status, 'pending_medical_review', {
+      ...currentState.context,
+      actorRole: authResult.userRole,
+    });
+    if (!transition.allowed) {
+      return NextResponse.json(
+        { error: transition.error, currentStatus: currentState.status },
+        { status: 409 }
+      );
+    }
+
+    let reviewCase;
+    try {
+      reviewCase = await medicalReviewService.openCase(id, {
+        reviewerId,
+        medications,
+        conditions,
+        referralNotes: typeof data.notes === 'string' ? data.notes.trim() : null,
+      }, authResult.userId);
+    } catch (openError) {
+      const message = openError instanceof Error ? openError.message : 'Failed to open medical review';
+      const status = message.includes('already has an open medical review') ? 409 : 500;
+      return NextResponse.json({ error: message }, { status });
+    }
+
+    await applicationService.updateApplicationStatus(id, 'pending_medical_review', undefined, undefined, undefined, {
+      source: 'ui',
+      actorId: authResult.userId,
+      note: `Referred to ${reviewer.name} for medical review`,
+    });
+
+    const resolvedCase = (await medicalReviewService.getCaseById(reviewCase.id)) || reviewCase;
+    await notificationService.notifyUsers([reviewerId], {
+      type: 'medical_review_assigned',
+      title: 'Medical review assigned',
+      message: `${resolvedCase.participant_name || 'An applicant'} has been referred to you for medical review.`,
+      link: `/medical-reviews/${reviewCase.id}`,
+      applicationId: id,
+      metadata: { caseId: reviewCase.id },
+    });
+
+    await syncHubSpotStatusNow(id, 'medical review referral');
+
+    return NextResponse.json({ success: true, status: 'pending_medical_review', case: resolvedCase });
+  } catch (error) {
+    console.error('Error opening medical review:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to open medical review' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { applicationService } from '@/services/applicationService';
+import { medicationChangeService } from '@/services/medicationChangeService';
+import { syncHubSpotStatusNow } from '@/services/jobHandlers';
+import { validateAdminRole } from '@/lib/server-auth';
+import { validateStatusTransition } from '@/lib/application-status-machine';
+
+/**
+ * POST handler to record prescriber confirmation for a plan.
+ * Once no active plans remain, the application moves back into screening.
+ * Body: { prescriber_name, notes? }
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string; planId: string }> }) {
+  try {
+    const authResult = await validateAdminRole();
+    if (!authResult.success) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, planId } = await params;
+    const data = await req.json();
+    const prescriberName = typeof data.prescriber_name === 'string' ? data.prescriber_name.trim() : '';
+    if (!prescriberName) {
+      return NextResponse.json({ error: 'Prescriber name is required' }, { status: 400 });
+    }
+
+    const plan = await medicationChangeService.getPlanById(planId);
+    if (!plan || plan.application_id !== id) {
+      return NextResponse.json({ error: 'Medication change plan not found' }, { status: 404 });
+    }
+
+    const confirmed = await medicationChangeService.confirmPlan(planId, {
+      prescriberName,
+      notes: typeof data.notes === 'string' ? data.notes : null,
+    }, authResult.userId || null);
+    if (!confirmed) {
+      return NextResponse.json({ error: `Plan is already ${plan.status}` }, { status: 409 });
+    }
+
+    // Return to screening when this was the last outstanding plan
+    const remaining = await medicationChangeService.countActivePlans(id);
+    const currentState = await applicationService.getStatusTransitionState(id);
+    let status = currentState?.status || null;
+
+    if (remaining === 0 && currentState?.status === 'pending_medication_change') {
+      const transition = validateStatusTransition(currentState.status, 'screening_in_process', {
+        ...currentState.context,
+        actorRole: authResult.userRole,
+      });
+      if (transition.allowed) {
+        await applicationService.updateApplicationStatus(id, 'screening_in_process', undefined, undefined, undefined, {
+          source: 'ui',
+          actorId: authResult.userId,
+          note: `Medication change confirmed by ${prescriberName}`,
+        });
+        status = 'screening_in_process';
+
+        await syncHubSpotStatusNow(id, 'medication change confirmed');
+      } else {
+        console.warn(`Medication change confirmed but application ${id} cannot return to screening: ${transition.error}`);
+      }
+    }
+
+    return NextResponse.json({ success: true, plan: confirmed, remainingActivePlans: remaining, status });
+  } catch (error) {
+    console.error('Error confirming medication change plan:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to confirm medication change plan' },
+      { status: 500 }
+    );
+  }
+}
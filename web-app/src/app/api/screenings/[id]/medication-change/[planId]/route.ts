@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { medicationChangeService } from '@/services/medicationChangeService';
+import { validateAdminRole } from '@/lib/server-auth';
+
+/**
+ * DELETE handler to cancel an active medication change plan (kept for the record)
+ */
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string; planId: string }> }) {
+  try {
+    const authResult = await validateAdminRole();
+    if (!authResult.success) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, planId } = await params;
+    const plan = await medicationChangeService.getPlanById(planId);
+    if (!plan || plan.application_id !== id) {
+      return NextResponse.json({ error: 'Medication change plan not found' }, { status: 404 });
+    }
+
+    const cancelled = await medicationChangeService.cancelPlan(planId);
+    if (!cancelled) {
+      return NextResponse.json({ error: `Plan is already ${plan.status}` }, { status: 409 });
+    }
+    return NextResponse.json({ success: true, plan: cancelled });
+  } catch (error) {
+    console.error('Error cancelling medication change plan:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to cancel medication change plan' },
+      { status: 500 }
+    );
+  }
+}
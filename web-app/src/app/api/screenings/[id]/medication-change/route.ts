@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { applicationService } from '@/services/applicationService';
+import { medicalReviewService } from '@/services/medicalReviewService';
+import { medicationChangeService } from '@/services/medicationChangeService';
+import { validateAdminRole } from '@/lib/server-auth';
+
+/**
+ * GET handler to list an application's medication change plans,
+ * with the medications from the latest medical review as suggestions
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const authResult = await validateAdminRole();
+    if (!authResult.success) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const [plans, reviewCase] = await Promise.all([
+      medicationChangeService.listPlans(id),
+      medicalReviewService.getLatestCaseForApplication(id),
+    ]);
+
+    return NextResponse.json({ plans, suggestedMedications: reviewCase?.medications || [] });
+  } catch (error) {
+    console.error('Error getting medication change plans:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler to add a medication change plan
+ * Body: { medication, washout_days, last_dose_date (YYYY-MM-DD), prescriber_name? }
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const authResult = await validateAdminRole();
+    if (!authResult.success) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const data = await req.json();
+    const input = {
+      medication: typeof data.medication === 'string' ? data.medication : '',
+      washoutDays: Number(data.washout_days),
+      lastDoseDate: typeof data.last_dose_date === 'string' ? data.last_dose_date : '',
+      prescriberName: typeof data.prescriber_name === 'string' ? data.prescriber_name : null,
+    };
+
+    const validationError = medicationChangeService.validatePlanInput(input);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const currentState = await applicationService.getStatusTransitionState(id);
+    if (!currentState) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+    if (currentState.status !== 'pending_medication_change') {
+      return NextResponse.json(
+        { error: 'Medication change plans can only be added while the application is Pending Medication Change', currentStatus: currentState.status },
+        { status: 409 }
+      );
+    }
+
+    const plan = await medicationChangeService.createPlan(id, input, authResult.userId);
+    return NextResponse.json({ success: true, plan }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating medication change plan:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create medication change plan' },
+      { status: 500 }
+    );
+  }
+}
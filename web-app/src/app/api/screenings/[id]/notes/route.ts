@@ -2,8 +2,11 @@ import { NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { createServerClient } from '@supabase/ssr';
 import { createClient } from '@supabase/supabase-js';
-import { ScreeningNoteValues } from '@/types/application';
-import HubSpotService from '@/services/hubspotService';
+import { ApplicationStatus, ScreeningNoteValues } from '@/types/application';
+import { applicationService } from '@/services/applicationService';
+import { syncHubSpotStatusNow } from '@/services/jobHandlers';
+import { getUserRole } from '@/lib/server-auth';
+import { validateStatusTransition } from '@/lib/application-status-machine';
 
 export async function POST(req: Request, context: { params: { id: string } }): Promise<NextResponse> {
   // Extract application ID by properly awaiting params
@@ -100,6 +103,37 @@ export async function POST(req: Request, context: { params: { id: string } }): P
     const participantId = applicationData.participant_id;
     let currentApplicationStatus = applicationData.status;
 
+    // Submitting moves the application to screening_in_process when the status state machine allows it
+    // from the current status; otherwise only the notes are saved. An explicit status on a plain save is
+    // checked like PATCH /api/applications/[id] and rejected before anything is saved.
+    const requestedStatus = submitted
+      ? 'screening_in_process'
+      : (typeof application_status === 'string' && application_status ? application_status : null);
+    let statusChangeAllowed = false;
+    if (requestedStatus) {
+      const currentState = await applicationService.getStatusTransitionState(applicationId);
+      if (!currentState) {
+        return NextResponse.json({ error: `Application with ID ${applicationId} not found in the database.` }, { status: 404 });
+      }
+
+      const transition = validateStatusTransition(currentState.status, requestedStatus, {
+        ...currentState.context,
+        // This request submits the notes the decision guards look for
+        screeningSubmitted: currentState.context.screeningSubmitted || !!submitted,
+        actorRole: await getUserRole(user.id),
+      });
+      statusChangeAllowed = transition.allowed;
+      if (!transition.allowed && submitted) {
+        console.log(`Notes submitted for application ${applicationId} in ${currentState.status}; leaving the status unchanged`);
+      } else if (!transition.allowed) {
+        console.warn(`Rejected status transition ${currentState.status} -> ${requestedStatus} from notes save for application ${applicationId}: ${transition.error}`);
+        return NextResponse.json(
+          { error: transition.error, currentStatus: currentState.status },
+          { status: 409 }
+        );
+      }
+    }
+
     // Prepare data for upsert into screenings table
     console.log('Preparing screening data for upsert with applicationId:', applicationId, 'participant:', participantId, 'submitted:', submitted);
     
@@ -345,8 +379,8 @@ export async function POST(req: Request, context: { params: { id: string } }): P
 
     // Persist application status on submit
     try {
-      if (submitted) {
-        // On submit, set DB status to 'screening_in_process' regardless of UI 'closed'
+      if (submitted && statusChangeAllowed) {
+        // On submit, set DB status to 'screening_in_process' (checked against the state machine above)
         const { error: appStatusError } = await supabaseAdmin
           .from('applications')
           .update({ status: 'screening_in_process', updated_at: new Date().toISOString() })
@@ -354,9 +388,16 @@ export async function POST(req: Request, context: { params: { id: string } }): P
         if (appStatusError) {
           console.error('Failed to persist screening_in_process status from notes submit:', appStatusError);
         } else {
+          if (currentApplicationStatus !== 'screening_in_process') {
+            await applicationService.recordStatusChange(applicationId, currentApplicationStatus, 'screening_in_process', {
+              source: 'ui',
+              actorId: user.id,
+              note: 'Screening notes submitted'
+            });
+          }
           currentApplicationStatus = 'screening_in_process';
         }
-      } else if (application_status && typeof application_status === 'string') {
+      } else if (!submitted && statusChangeAllowed && application_status && typeof application_status === 'string') {
         // Non-submit flows can still propagate an explicit application_status
         const { error: appStatusError } = await supabaseAdmin
           .from('applications')
@@ -365,6 +406,12 @@ export async function POST(req: Request, context: { params: { id: string } }): P
         if (appStatusError) {
           console.error('Failed to persist application_status from notes save:', appStatusError);
         } else {
+          if (currentApplicationStatus !== application_status) {
+            await applicationService.recordStatusChange(applicationId, currentApplicationStatus, application_status as ApplicationStatus, {
+              source: 'ui',
+              actorId: user.id
+            });
+          }
           currentApplicationStatus = application_status;
         }
       }
@@ -373,95 +420,46 @@ export async function POST(req: Request, context: { params: { id: string } }): P
     }
 
     // Only perform HubSpot sync on submit (not drafts)
-    if (submitted) try {
-      const hubspotTask = (async () => {
-        const { data: appRow } = await supabaseAdmin
-          .from('applications')
-          .select('participant_id, status, closed_reason, rejected_type, red_count, yellow_count, green_count')
-          .eq('id', applicationId)
-          .maybeSingle();
-        if (!appRow?.participant_id) return;
-        const { data: participant } = await supabaseAdmin
-          .from('participants')
-          .select('email')
-          .eq('id', appRow.participant_id)
-          .maybeSingle();
-        const email = participant?.email;
-        if (!email) return;
-        const contactId = await HubSpotService.findContactIdByEmail(email);
-        if (!contactId) return;
-        const dealId = await HubSpotService.findMostRecentDealIdForContact(contactId);
-        if (!dealId) return;
-
-        const mergedStatus = HubSpotService.mapStatusToClosedApplicationStatusProperty(
-          appRow.status,
-          appRow.closed_reason,
-          appRow.rejected_type
-        );
-
-        // Curate screener notes if submitting and changed
-        let curatedNotes: string | null = null;
-        if (submitted && notesChanged) {
-          try {
-            const n = (screeningUpsertData?.notes || {}) as any;
-            const textSections: Array<{ label: string; value: any }> = [
-              { label: 'Initial Screening Summary', value: n.initialScreeningSummary },
-              { label: 'Secondary Screening Summary', value: n.secondaryScreeningSummary },
-              { label: 'Additional Information', value: n.generalNotes },
-              { label: 'Desired Retreat', value: n.desiredRetreat },
-              { label: 'Meds / Health History', value: n.medsHealthHistory },
-              { label: 'Support System', value: n.supportSystem },
-              { label: 'Intention', value: n.intention },
-              { label: 'Psych History', value: n.psychHistory },
-              { label: 'Psychedelic Experience', value: n.psychedelicExperience },
-              { label: 'Psych Observations & Background', value: n.psychObservation },
-              { label: 'Supportive Habits', value: n.supportiveHabits },
-            ];
-            const hasAnyText = textSections.some(s => s.value != null && String(s.value).trim().length > 0);
-            const scholarshipValue = typeof n.scholarshipNeeded === 'boolean' ? (n.scholarshipNeeded ? 'Yes' : 'No') : undefined;
-            if (!hasAnyText && scholarshipValue === 'No') {
-              curatedNotes = 'No screener notes available yet.';
-            } else {
-              const parts: string[] = [];
-              for (const s of textSections) {
-                if (s.value != null && String(s.value).trim().length > 0) {
-                  parts.push(`${s.label}:\n${String(s.value).trim()}`);
-                }
-              }
-              if (scholarshipValue && (scholarshipValue === 'Yes' || parts.length > 0)) {
-                parts.push(`Scholarship Needed:\n${scholarshipValue}`);
+    if (submitted) {
+      // Curate screener notes if submitting and changed
+      let curatedNotes: string | null | undefined = undefined;
+      if (notesChanged) {
+        curatedNotes = null;
+        try {
+          const n = (screeningUpsertData?.notes || {}) as any;
+          const textSections: Array<{ label: string; value: any }> = [
+            { label: 'Initial Screening Summary', value: n.initialScreeningSummary },
+            { label: 'Secondary Screening Summary', value: n.secondaryScreeningSummary },
+            { label: 'Additional Information', value: n.generalNotes },
+            { label: 'Desired Retreat', value: n.desiredRetreat },
+            { label: 'Meds / Health History', value: n.medsHealthHistory },
+            { label: 'Support System', value: n.supportSystem },
+            { label: 'Intention', value: n.intention },
+            { label: 'Psych History', value: n.psychHistory },
+            { label: 'Psychedelic Experience', value: n.psychedelicExperience },
+            { label: 'Psych Observations & Background', value: n.psychObservation },
+            { label: 'Supportive Habits', value: n.supportiveHabits },
+          ];
+          const hasAnyText = textSections.some(s => s.value != null && String(s.value).trim().length > 0);
+          const scholarshipValue = typeof n.scholarshipNeeded === 'boolean' ? (n.scholarshipNeeded ? 'Yes' : 'No') : undefined;
+          if (!hasAnyText && scholarshipValue === 'No') {
+            curatedNotes = 'No screener notes available yet.';
+          } else {
+            const parts: string[] = [];
+            for (const s of textSections) {
+              if (s.value != null && String(s.value).trim().length > 0) {
+                parts.push(`${s.label}:\n${String(s.value).trim()}`);
               }
-              curatedNotes = parts.length > 0 ? parts.join('\n\n') : 'No screener notes available yet.';
             }
-          } catch {}
-        }
-
-        // Update status and notes
-        try {
-          const props: any = {};
-          if (mergedStatus) props.status = mergedStatus;
-          if (submitted && notesChanged) props.notes = curatedNotes;
-          if (Object.keys(props).length > 0) {
-            await HubSpotService.updateApplicationProperties(dealId, props);
+            if (scholarshipValue && (scholarshipValue === 'Yes' || parts.length > 0)) {
+              parts.push(`Scholarship Needed:\n${scholarshipValue}`);
+            }
+            curatedNotes = parts.length > 0 ? parts.join('\n\n') : 'No screener notes available yet.';
           }
-        } catch (e: any) {
-          if (e?.status === 403) console.warn('HubSpot submit update skipped (missing scopes).'); else throw e;
-        }
+        } catch {}
+      }
 
-        // Update deal stage
-        const stage = HubSpotService.getStageForStatus(appRow.status, appRow.closed_reason, appRow.rejected_type);
-        if (stage) {
-          try {
-            await HubSpotService.updateDealStage(dealId, stage.pipeline, stage.stage);
-          } catch (e: any) {
-            if (e?.status === 403) console.warn('HubSpot stage update skipped (missing scopes).'); else throw e;
-          }
-        }
-      })();
-      const timeout = new Promise<void>((resolve) => setTimeout(resolve, 4000));
-      await Promise.race([hubspotTask, timeout]);
-    } catch (e) {
-      console.warn('HubSpot sync after submit failed:', e);
+      await syncHubSpotStatusNow(applicationId, 'screening notes submitted', curatedNotes);
     }
 
     return NextResponse.json({
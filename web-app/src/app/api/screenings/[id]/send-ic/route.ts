@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { applicationService } from '@/services/applicationService';
+import { esignatureService } from '@/services/esignatureService';
+import { syncHubSpotStatusNow } from '@/services/jobHandlers';
+import { validateAdminRole } from '@/lib/server-auth';
+import { validateStatusTransition } from '@/lib/application-status-machine';
+import { InformedConsentEnvelope } from '@/types/esignature';
+
+// Envelope fields the dashboard shows; the rendered document and raw callback stay server-side
+const toEnvelopeSummary = (envelope: InformedConsentEnvelope) => ({
+  id: envelope.id,
+  provider: envelope.provider,
+  envelope_id: envelope.envelope_id,
+  status: envelope.status,
+  recipient_email: envelope.recipient_email,
+  sent_at: envelope.sent_at,
+  completed_at: envelope.completed_at,
+});
+
+/**
+ * GET handler to retrieve the latest informed consent envelope for an application
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const authResult = await validateAdminRole();
+    if (!authResult.success) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const envelope = await esignatureService.getLatestEnvelope(id);
+    return NextResponse.json({ envelope: envelope ? toEnvelopeSummary(envelope) : null });
+  } catch (error) {
+    console.error('Error getting informed consent envelope:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler to send the informed consent document and move the application to pending_ic
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const authResult = await validateAdminRole();
+    if (!authResult.success) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const application = await applicationService.getApplicationById(id);
+    if (!application) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+    if (!application.participants) {
+      return NextResponse.json({ error: 'Application has no participant' }, { status: 422 });
+    }
+
+    // Check the transition before sending anything so an illegal request never reaches the participant
+    const currentState = await applicationService.getStatusTransitionState(id);
+    if (!currentState) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+    const transition = validateStatusTransition(currentState.status, 'pending_ic', {
+      ...currentState.context,
+      actorRole: authResult.userRole,
+    });
+    if (!transition.allowed) {
+      console.warn(`Refusing to send informed consent for application ${id}: ${transition.error}`);
+      return NextResponse.json(
+        { error: transition.error, currentStatus: currentState.status },
+        { status: 409 }
+      );
+    }
+
+    const envelope = await esignatureService.sendInformedConsent(id, application.participants, authResult.userId);
+
+    await applicationService.updateApplicationStatus(id, 'pending_ic', undefined, undefined, undefined, {
+      source: 'ui',
+      actorId: authResult.userId,
+      note: `Informed consent sent (${envelope.provider} envelope ${envelope.envelope_id})`,
+    });
+
+    await syncHubSpotStatusNow(id, 'informed consent sent');
+
+    return NextResponse.json({
+      success: true,
+      status: 'pending_ic',
+      envelope: toEnvelopeSummary(envelope),
+    });
+  } catch (error) {
+    console.error('Error sending informed consent:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to send informed consent' },
+      { status: 500 }
+    );
+  }
+}
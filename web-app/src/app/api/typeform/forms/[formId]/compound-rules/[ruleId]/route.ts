@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { typeformService } from '@/services/typeformService';
+import { validateServerSession } from '@/lib/server-auth';
+import { CompoundRuleCriteria, validateCompoundRuleCriteria } from '@/lib/scoring-criteria';
+
+/**
+ * PATCH /api/typeform/forms/[formId]/compound-rules/[ruleId]
+ * Replaces a compound rule's score and criteria
+ * Request body: { scoreValue, criteria: { name, expression } }
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ formId: string; ruleId: string }> }
+) {
+  try {
+    const { formId, ruleId } = await params;
+    const authResult = await validateServerSession([
+      'PROGRAM_OPERATIONS_ADMINISTRATOR',
+      'PROGRAM_OPERATIONS_MANAGER'
+    ]);
+
+    if (!authResult.authorized) {
+      return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { scoreValue, criteria } = await req.json();
+
+    if (!['red', 'yellow', 'green', 'na'].includes(scoreValue)) {
+      return NextResponse.json({ error: 'Invalid score value' }, { status: 400 });
+    }
+
+    const fields = await typeformService.getFormFieldVersions(formId);
+    const knownRefs = fields.map(field => field.field_ref).filter((ref): ref is string => !!ref);
+    const criteriaError = validateCompoundRuleCriteria(criteria, knownRefs);
+    if (criteriaError) {
+      return NextResponse.json({ error: criteriaError }, { status: 400 });
+    }
+
+    const rule = await typeformService.updateCompoundRule(
+      formId,
+      ruleId,
+      scoreValue,
+      { ...criteria, name: criteria.name.trim() } as CompoundRuleCriteria
+    );
+
+    if (!rule) {
+      return NextResponse.json({ error: 'Compound rule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ rule });
+  } catch (error) {
+    console.error('[API PATCH /api/typeform/forms/[formId]/compound-rules/[ruleId]] Error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/typeform/forms/[formId]/compound-rules/[ruleId]
+ * Deactivates a compound rule
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ formId: string; ruleId: string }> }
+) {
+  try {
+    const { formId, ruleId } = await params;
+    const authResult = await validateServerSession([
+      'PROGRAM_OPERATIONS_ADMINISTRATOR',
+      'PROGRAM_OPERATIONS_MANAGER'
+    ]);
+
+    if (!authResult.authorized) {
+      return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const deleted = await typeformService.deleteCompoundRule(formId, ruleId);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Compound rule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[API DELETE /api/typeform/forms/[formId]/compound-rules/[ruleId]] Error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });
+  }
+}
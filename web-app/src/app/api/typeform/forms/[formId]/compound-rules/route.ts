@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { typeformService } from '@/services/typeformService';
+import { validateServerSession } from '@/lib/server-auth';
+import { CompoundRuleCriteria, validateCompoundRuleCriteria } from '@/lib/scoring-criteria';
+
+/**
+ * GET /api/typeform/forms/[formId]/compound-rules
+ * Lists the form's compound (application-level) scoring rules
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ formId: string }> }
+) {
+  try {
+    const { formId } = await params;
+    const authResult = await validateServerSession();
+
+    if (!authResult.authenticated) {
+      return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const rules = await typeformService.getCompoundRules(formId);
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error('[API GET /api/typeform/forms/[formId]/compound-rules] Error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/typeform/forms/[formId]/compound-rules
+ * Creates a compound rule
+ * Request body:
+ *   - scoreValue: 'red' | 'yellow' | 'green' | 'na'
+ *   - criteria: { name, expression }, e.g.
+ *     { name: 'Young and on SSRIs', expression: { all: [{ field: 'dob', criteria: { operator: 'lt', value: 25, transform: 'age' } }, ...] } }
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ formId: string }> }
+) {
+  try {
+    const { formId } = await params;
+    const authResult = await validateServerSession([
+      'PROGRAM_OPERATIONS_ADMINISTRATOR',
+      'PROGRAM_OPERATIONS_MANAGER'
+    ]);
+
+    if (!authResult.authorized) {
+      return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { scoreValue, criteria } = await req.json();
+
+    if (!['red', 'yellow', 'green', 'na'].includes(scoreValue)) {
+      return NextResponse.json({ error: 'Invalid score value' }, { status: 400 });
+    }
+
+    const fields = await typeformService.getFormFieldVersions(formId);
+    const knownRefs = fields.map(field => field.field_ref).filter((ref): ref is string => !!ref);
+    const criteriaError = validateCompoundRuleCriteria(criteria, knownRefs);
+    if (criteriaError) {
+      return NextResponse.json({ error: criteriaError }, { status: 400 });
+    }
+
+    const rule = await typeformService.createCompoundRule(
+      formId,
+      scoreValue,
+      { ...criteria, name: criteria.name.trim() } as CompoundRuleCriteria,
+      authResult.userId || ''
+    );
+
+    return NextResponse.json({ rule }, { status: 201 });
+  } catch (error) {
+    console.error('[API POST /api/typeform/forms/[formId]/compound-rules] Error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { typeformImportService } from '@/services/typeformImportService';
+import { validateServerSession } from '@/lib/server-auth';
+
+/**
+ * GET /api/typeform/forms/[formId]/imports/[importId]
+ * Gets a response import with what happened to each response
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ formId: string; importId: string }> }
+) {
+  try {
+    const { formId, importId } = await params;
+    const authResult = await validateServerSession([
+      'PROGRAM_OPERATIONS_ADMINISTRATOR',
+      'PROGRAM_OPERATIONS_MANAGER'
+    ]);
+
+    if (!authResult.authorized) {
+      return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const responseImport = await typeformImportService.getImport(formId, importId);
+    if (!responseImport) {
+      return NextResponse.json({ error: 'Import not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ import: responseImport });
+  } catch (error) {
+    console.error('[API GET /api/typeform/forms/[formId]/imports/[importId]] Error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });
+  }
+}
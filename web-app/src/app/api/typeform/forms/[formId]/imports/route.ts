@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { typeformImportService } from '@/services/typeformImportService';
+import { validateServerSession } from '@/lib/server-auth';
+import { TypeformImportRange } from '@/types/typeformImport';
+
+/**
+ * GET /api/typeform/forms/[formId]/imports
+ * Lists the form's recent response imports with their progress
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ formId: string }> }
+) {
+  try {
+    const { formId } = await params;
+    const authResult = await validateServerSession([
+      'PROGRAM_OPERATIONS_ADMINISTRATOR',
+      'PROGRAM_OPERATIONS_MANAGER'
+    ]);
+
+    if (!authResult.authorized) {
+      return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const imports = await typeformImportService.listImports(formId);
+    return NextResponse.json({ imports });
+  } catch (error) {
+    console.error('[API GET /api/typeform/forms/[formId]/imports] Error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/typeform/forms/[formId]/imports
+ * Starts a background import of the form's responses from the Typeform Responses API
+ * Request body:
+ *   - submittedFrom: (optional) first submission date to import (YYYY-MM-DD)
+ *   - submittedTo: (optional) last submission date to import (YYYY-MM-DD), inclusive
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ formId: string }> }
+) {
+  try {
+    const { formId } = await params;
+    const authResult = await validateServerSession([
+      'PROGRAM_OPERATIONS_ADMINISTRATOR',
+      'PROGRAM_OPERATIONS_MANAGER'
+    ]);
+
+    if (!authResult.authorized) {
+      return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { submittedFrom, submittedTo } = await req.json();
+    const range: TypeformImportRange = {
+      ...(submittedFrom ? { submittedFrom } : {}),
+      ...(submittedTo ? { submittedTo } : {})
+    };
+
+    const rangeError = typeformImportService.validateRange(range);
+    if (rangeError) {
+      return NextResponse.json({ error: rangeError }, { status: 400 });
+    }
+
+    const responseImport = await typeformImportService.startImport(formId, range, authResult.userId || null);
+    return NextResponse.json({ import: responseImport }, { status: 202 });
+  } catch (error) {
+    console.error('[API POST /api/typeform/forms/[formId]/imports] Error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { participantFieldMappingService } from '@/services/participantFieldMappingService';
+import { validateServerSession } from '@/lib/server-auth';
+import { ParticipantFieldMappingInput } from '@/types/participantMapping';
+
+/**
+ * GET /api/typeform/forms/[formId]/participant-mapping
+ * Returns the form's participant field mappings and the fields that can be mapped
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ formId: string }> }
+) {
+  try {
+    const { formId } = await params;
+    const authResult = await validateServerSession([
+      'PROGRAM_OPERATIONS_ADMINISTRATOR',
+      'PROGRAM_OPERATIONS_MANAGER'
+    ]);
+
+    if (!authResult.authorized) {
+      return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const [mappings, fields] = await Promise.all([
+      participantFieldMappingService.getMappings(formId),
+      participantFieldMappingService.getMappableFields(formId)
+    ]);
+    return NextResponse.json({ mappings, fields });
+  } catch (error) {
+    console.error('[API GET /api/typeform/forms/[formId]/participant-mapping] Error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/typeform/forms/[formId]/participant-mapping
+ * Replaces the form's participant field mappings
+ * Request body:
+ *   - mappings: [{ attribute, fieldId }]; attributes left out fall back to automatic detection
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ formId: string }> }
+) {
+  try {
+    const { formId } = await params;
+    const authResult = await validateServerSession([
+      'PROGRAM_OPERATIONS_ADMINISTRATOR',
+      'PROGRAM_OPERATIONS_MANAGER'
+    ]);
+
+    if (!authResult.authorized) {
+      return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { mappings } = await req.json();
+    const fields = await participantFieldMappingService.getMappableFields(formId);
+
+    const validationError = participantFieldMappingService.validateMappings(mappings, fields);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const saved = await participantFieldMappingService.saveMappings(
+      formId,
+      mappings as ParticipantFieldMappingInput[],
+      fields,
+      authResult.userId || null
+    );
+    return NextResponse.json({ mappings: saved });
+  } catch (error) {
+    console.error('[API PUT /api/typeform/forms/[formId]/participant-mapping] Error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { typeformService } from '@/services/typeformService';
+import { riskScoringService } from '@/services/riskScoringService';
+import { validateServerSession } from '@/lib/server-auth';
+import { validateRiskSettings } from '@/lib/risk-score';
+import { RiskSettings } from '@/types/scoring';
+
+/**
+ * GET /api/typeform/forms/[formId]/risk-settings
+ * Gets the form's risk score settings, its question groups and its rules with their weights
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ formId: string }> }
+) {
+  try {
+    const { formId } = await params;
+    const authResult = await validateServerSession([
+      'PROGRAM_OPERATIONS_ADMINISTRATOR',
+      'PROGRAM_OPERATIONS_MANAGER'
+    ]);
+
+    if (!authResult.authorized) {
+      return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const dbFormId = await typeformService.resolveDbFormId(formId);
+    const [settings, categories, rules] = await Promise.all([
+      riskScoringService.getSettings(dbFormId),
+      riskScoringService.getCategories(dbFormId),
+      riskScoringService.getWeightedRules(dbFormId)
+    ]);
+
+    return NextResponse.json({ settings, categories, rules });
+  } catch (error) {
+    console.error('[API GET /api/typeform/forms/[formId]/risk-settings] Error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/typeform/forms/[formId]/risk-settings
+ * Saves the form's risk score settings. Stored scores change when applications are next scored or rescored.
+ * Request body:
+ *   - settings: { colorPoints, categoryWeights, maxPoints, bands }
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ formId: string }> }
+) {
+  try {
+    const { formId } = await params;
+    const authResult = await validateServerSession([
+      'PROGRAM_OPERATIONS_ADMINISTRATOR',
+      'PROGRAM_OPERATIONS_MANAGER'
+    ]);
+
+    if (!authResult.authorized) {
+      return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { settings } = await req.json();
+    if (!settings || typeof settings !== 'object') {
+      return NextResponse.json({ error: 'Settings are required' }, { status: 400 });
+    }
+
+    const validationError = validateRiskSettings(settings as RiskSettings);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const dbFormId = await typeformService.resolveDbFormId(formId);
+    const saved = await riskScoringService.saveSettings(dbFormId, settings as RiskSettings, authResult.userId || null);
+    return NextResponse.json({ settings: saved });
+  } catch (error) {
+    console.error('[API PUT /api/typeform/forms/[formId]/risk-settings] Error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { typeformService } from '@/services/typeformService';
+import { scoringService } from '@/services/scoringService';
+import { validateServerSession } from '@/lib/server-auth';
+import { DraftScoringRule } from '@/types/scoring';
+
+const DEFAULT_SAMPLE_SIZE = 20;
+const MAX_SAMPLE_SIZE = 100;
+
+// Each sampled application is scored twice
+export const maxDuration = 60;
+
+/**
+ * POST /api/typeform/forms/[formId]/rule-set/preview
+ * Dry-runs a draft rule set against the form's most recent applications and
+ * returns, per applicant, how counts, colour and individual answers would change
+ * Request body:
+ *   - rules: DraftScoringRule[]
+ *   - limit: (optional) number of applications to sample, default 20, max 100
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ formId: string }> }
+) {
+  try {
+    const { formId } = await params;
+    const authResult = await validateServerSession([
+      'PROGRAM_OPERATIONS_ADMINISTRATOR',
+      'PROGRAM_OPERATIONS_MANAGER'
+    ]);
+
+    if (!authResult.authorized) {
+      return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { rules, limit } = await req.json();
+    const sampleSize = Math.min(Math.max(parseInt(limit, 10) || DEFAULT_SAMPLE_SIZE, 1), MAX_SAMPLE_SIZE);
+
+    const scope = await typeformService.getFormRuleScope(formId);
+    const validationError = typeformService.validateDraftRuleSet(rules, scope);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const preview = await scoringService.previewRuleSet(scope, rules as DraftScoringRule[], sampleSize);
+    return NextResponse.json(preview);
+  } catch (error) {
+    console.error('[API POST /api/typeform/forms/[formId]/rule-set/preview] Error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { scoringRuleSetService } from '@/services/scoringRuleSetService';
+import { validateServerSession } from '@/lib/server-auth';
+import { RescoreFilters } from '@/types/scoring';
+
+/**
+ * GET /api/typeform/forms/[formId]/rule-set/rescores
+ * Lists the form's recent rescore runs with their progress
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ formId: string }> }
+) {
+  try {
+    const { formId } = await params;
+    const authResult = await validateServerSession([
+      'PROGRAM_OPERATIONS_ADMINISTRATOR',
+      'PROGRAM_OPERATIONS_MANAGER'
+    ]);
+
+    if (!authResult.authorized) {
+      return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const runs = await scoringRuleSetService.listRescoreRuns(formId);
+    return NextResponse.json({ runs });
+  } catch (error) {
+    console.error('[API GET /api/typeform/forms/[formId]/rule-set/rescores] Error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/typeform/forms/[formId]/rule-set/rescores
+ * Starts a background rescore of the form's applications against a version
+ * Request body:
+ *   - versionId: rule-set version to score with
+ *   - filters: (optional) { statuses?, submittedFrom?, submittedTo? }; all applications when omitted
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ formId: string }> }
+) {
+  try {
+    const { formId } = await params;
+    const authResult = await validateServerSession([
+      'PROGRAM_OPERATIONS_ADMINISTRATOR',
+      'PROGRAM_OPERATIONS_MANAGER'
+    ]);
+
+    if (!authResult.authorized) {
+      return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { versionId, filters = {} } = await req.json();
+    if (!versionId) {
+      return NextResponse.json({ error: 'Version is required' }, { status: 400 });
+    }
+
+    const filterError = scoringRuleSetService.validateRescoreFilters(filters as RescoreFilters);
+    if (filterError) {
+      return NextResponse.json({ error: filterError }, { status: 400 });
+    }
+
+    const run = await scoringRuleSetService.startRescore(formId, versionId, filters as RescoreFilters, authResult.userId || null);
+    if (!run) {
+      return NextResponse.json({ error: 'Version not found for this form' }, { status: 404 });
+    }
+
+    return NextResponse.json({ run }, { status: 202 });
+  } catch (error) {
+    console.error('[API POST /api/typeform/forms/[formId]/rule-set/rescores] Error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { typeformService } from '@/services/typeformService';
+import { scoringRuleSetService } from '@/services/scoringRuleSetService';
+import { validateServerSession } from '@/lib/server-auth';
+import { DraftScoringRule } from '@/types/scoring';
+
+/**
+ * PUT /api/typeform/forms/[formId]/rule-set
+ * Publishes a draft rule set, replacing the form's field and choice rules,
+ * and records the result as a new rule-set version
+ * Request body:
+ *   - rules: DraftScoringRule[]; rules that edit a saved rule keep its id
+ *   - name: (optional) version name
+ *   - notes: (optional) version notes
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ formId: string }> }
+) {
+  try {
+    const { formId } = await params;
+    const authResult = await validateServerSession([
+      'PROGRAM_OPERATIONS_ADMINISTRATOR',
+      'PROGRAM_OPERATIONS_MANAGER'
+    ]);
+
+    if (!authResult.authorized) {
+      return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { rules, name, notes } = await req.json();
+
+    const scope = await typeformService.getFormRuleScope(formId);
+    const validationError = typeformService.validateDraftRuleSet(rules, scope);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const result = await typeformService.publishRuleSet(scope, rules as DraftScoringRule[], authResult.userId || '');
+    const version = await scoringRuleSetService.createVersion(
+      scope.dbFormId,
+      typeof name === 'string' && name.trim() ? name.trim() : `Published ${new Date().toISOString().slice(0, 10)}`,
+      typeof notes === 'string' && notes.trim() ? notes.trim() : null,
+      authResult.userId || null
+    );
+
+    return NextResponse.json({ ...result, version });
+  } catch (error) {
+    console.error('[API PUT /api/typeform/forms/[formId]/rule-set] Error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });
+  }
+}
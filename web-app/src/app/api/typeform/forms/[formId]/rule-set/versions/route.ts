@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { typeformService } from '@/services/typeformService';
+import { scoringRuleSetService } from '@/services/scoringRuleSetService';
+import { validateServerSession } from '@/lib/server-auth';
+
+/**
+ * GET /api/typeform/forms/[formId]/rule-set/versions
+ * Lists the form's rule-set versions, newest first
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ formId: string }> }
+) {
+  try {
+    const { formId } = await params;
+    const authResult = await validateServerSession([
+      'PROGRAM_OPERATIONS_ADMINISTRATOR',
+      'PROGRAM_OPERATIONS_MANAGER'
+    ]);
+
+    if (!authResult.authorized) {
+      return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const versions = await scoringRuleSetService.listVersions(formId);
+    return NextResponse.json({ versions });
+  } catch (error) {
+    console.error('[API GET /api/typeform/forms/[formId]/rule-set/versions] Error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/typeform/forms/[formId]/rule-set/versions
+ * Snapshots the form's current rules as a new version
+ * Request body:
+ *   - name: version name
+ *   - notes: (optional) version notes
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ formId: string }> }
+) {
+  try {
+    const { formId } = await params;
+    const authResult = await validateServerSession([
+      'PROGRAM_OPERATIONS_ADMINISTRATOR',
+      'PROGRAM_OPERATIONS_MANAGER'
+    ]);
+
+    if (!authResult.authorized) {
+      return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { name, notes } = await req.json();
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'Version name is required' }, { status: 400 });
+    }
+
+    const dbFormId = await typeformService.resolveDbFormId(formId);
+    const version = await scoringRuleSetService.createVersion(
+      dbFormId,
+      name.trim(),
+      typeof notes === 'string' && notes.trim() ? notes.trim() : null,
+      authResult.userId || null
+    );
+
+    return NextResponse.json({ version }, { status: 201 });
+  } catch (error) {
+    console.error('[API POST /api/typeform/forms/[formId]/rule-set/versions] Error:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,11 +1,44 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { typeformService } from '@/services/typeformService';
+import { typeformSchemaDiffService } from '@/services/typeformSchemaDiffService';
 import { validateServerSession } from '@/lib/server-auth';
-import { UserRole } from '@/types/user';
+import { RuleMigrationDecision } from '@/types/formSchemaDiff';
+
+/**
+ * GET /api/typeform/forms/[formId]/sync
+ * Previews a sync: the field and choice changes it would make, and where the scoring rules
+ * on retired versions are proposed to move
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ formId: string }> }
+) {
+  const { formId } = await params;
+
+  try {
+    const authResult = await validateServerSession([
+      'PROGRAM_OPERATIONS_ADMINISTRATOR',
+      'PROGRAM_OPERATIONS_MANAGER'
+    ]);
+
+    if (!authResult.authorized) {
+      return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const diff = await typeformSchemaDiffService.previewSync(formId);
+    return NextResponse.json({ diff });
+  } catch (error) {
+    console.error(`Error in GET /api/typeform/forms/${formId}/sync:`, error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });
+  }
+}
 
 /**
  * POST /api/typeform/forms/[formId]/sync
  * Triggers a manual sync of a specific form
+ * Request body (optional):
+ *   - ruleMigrations: confirmed [{ ruleId, toFieldId, toChoiceId? }] from the preview; the rules are
+ *     copied onto the new field/choice versions once the sync has run
  */
 export async function POST(
   req: NextRequest,
@@ -25,10 +58,17 @@ export async function POST(
     if (!authResult.authorized) {
       return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
+
+    const body = await req.json().catch(() => ({}));
+    const ruleMigrations: RuleMigrationDecision[] = body?.ruleMigrations || [];
+    if (!Array.isArray(ruleMigrations) || ruleMigrations.some(decision => !decision?.ruleId)) {
+      return NextResponse.json({ error: 'ruleMigrations must be a list of { ruleId, toFieldId, toChoiceId }' }, { status: 400 });
+    }
     
     // Sync form
     const dbFormId = await typeformService.syncForm(formId);
-    return NextResponse.json({ success: true, dbFormId });
+    const migrationResult = await typeformSchemaDiffService.applyRuleMigrations(dbFormId, ruleMigrations, authResult.userId || null);
+    return NextResponse.json({ success: true, dbFormId, ruleMigrations: migrationResult });
   } catch (error: any) {
     console.error(`Error in POST /api/typeform/forms/${formId}/sync:`, error);
     return NextResponse.json({ error: error.message || 'Internal server error' }, { status: 500 });
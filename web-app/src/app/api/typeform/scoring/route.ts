@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { typeformService } from '@/services/typeformService';
 import { validateServerSession } from '@/lib/server-auth';
 import { UserRole } from '@/types/user';
+import { parseCriteria, validateCriteria } from '@/lib/scoring-criteria';
 
 /**
  * GET /api/typeform/scoring
@@ -55,7 +56,8 @@ export async function GET(req: NextRequest) {
  *   - targetType: 'field' | 'choice'
  *   - targetId: target ID
  *   - scoreValue: 'red' | 'yellow' | 'green'
- *   - criteria: (optional) criteria object
+ *   - criteria: (optional) criteria object, e.g. { operator: 'lt', value: 21, transform: 'age' }
+ *   - ruleId: (optional) existing rule to update in place, for editing a rule's criteria
  */
 export async function POST(req: NextRequest) {
   try {
@@ -71,19 +73,37 @@ export async function POST(req: NextRequest) {
 
     // Parse request body
     const body = await req.json();
-    const { targetType, targetId, scoreValue, criteria = {} } = body;
+    const { targetType, targetId, scoreValue, criteria = {}, ruleId: existingRuleId } = body;
 
     if (!targetType || !targetId || !scoreValue || !['field', 'choice'].includes(targetType) || !['red', 'yellow', 'green', 'na'].includes(scoreValue)) {
       return NextResponse.json({ error: 'Invalid parameters' }, { status: 400 });
     }
 
+    const parsedCriteria = parseCriteria(criteria);
+    if (parsedCriteria === null) {
+      return NextResponse.json({ error: 'Criteria must be an object' }, { status: 400 });
+    }
+    const criteriaError = validateCriteria(parsedCriteria);
+    if (criteriaError) {
+      return NextResponse.json({ error: criteriaError }, { status: 400 });
+    }
+
+    if (existingRuleId) {
+      const updatedRuleId = await typeformService.updateScoringRule(
+        existingRuleId,
+        scoreValue as 'red' | 'yellow' | 'green' | 'na',
+        parsedCriteria
+      );
+      return NextResponse.json({ ruleId: updatedRuleId });
+    }
+
     // Set scoring rule
     const ruleId = await typeformService.setScoringRule(
       targetType as 'field' | 'choice',
       targetId,
       scoreValue as 'red' | 'yellow' | 'green' | 'na',
       authResult.userId || '',
-      criteria
+      parsedCriteria
     );
 
     return NextResponse.json({ ruleId });
@@ -143,3 +163,38 @@ export async function DELETE(req: NextRequest) {
     return NextResponse.json({ error: error.message || 'Internal server error' }, { status: 500 });
   }
 }
+
+/**
+ * PATCH /api/typeform/scoring
+ * Sets how much a rule counts towards the risk score
+ * Request body:
+ *   - ruleId: rule to update
+ *   - weight: multiplier on the rule's colour points, 0 or more (1 is the default)
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    const authResult = await validateServerSession([
+      'PROGRAM_OPERATIONS_ADMINISTRATOR',
+      'PROGRAM_OPERATIONS_MANAGER'
+    ]);
+
+    if (!authResult.authorized) {
+      return authResult.response || NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { ruleId, weight } = await req.json();
+    if (!ruleId || typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+      return NextResponse.json({ error: 'A rule ID and a weight of 0 or more are required' }, { status: 400 });
+    }
+
+    const updatedRuleId = await typeformService.updateScoringRuleWeight(ruleId, weight);
+    if (!updatedRuleId) {
+      return NextResponse.json({ error: 'Scoring rule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ ruleId: updatedRuleId, weight });
+  } catch (error) {
+    console.error('Error in PATCH /api/typeform/scoring:', error);
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Internal server error' }, { status: 500 });
+  }
+}
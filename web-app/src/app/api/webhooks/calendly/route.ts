@@ -1,11 +1,65 @@
 import { NextRequest, NextResponse } from "next/server";
 import supabaseAdmin from "./supabaseAdmin";
 import { applicationService } from "@/services/applicationService";
+import { computeHmacSha256, getRotatingSecrets, safeCompare } from "@/lib/webhook-signature";
+
+// Calendly recommends rejecting deliveries signed more than a few minutes ago
+const DEFAULT_TOLERANCE_SECONDS = 180;
+
+/**
+ * Verify the Calendly-Webhook-Signature header (`t=<unix seconds>,v1=<hex digest>`)
+ * https://developer.calendly.com/api-docs/4c305798a61d3-webhook-signatures
+ * @param header Value of the Calendly-Webhook-Signature header
+ * @param rawBody The exact request body the signature was computed over
+ * @returns null when valid, otherwise the reason for rejecting the delivery
+ */
+function verifyCalendlyWebhook(header: string | null, rawBody: string): string | null {
+  const keys = getRotatingSecrets("CALENDLY_WEBHOOK_SIGNING_KEY");
+
+  // Without a signing key we cannot verify anything; only tolerate that outside production
+  if (keys.length === 0) {
+    if (process.env.NODE_ENV === "production") {
+      return "Webhook signing key not configured";
+    }
+    console.warn("[Calendly Webhook] Signature verification not configured");
+    return null;
+  }
+
+  if (!header) return "Missing webhook signature";
+
+  const parts = header.split(",").reduce((acc, part) => {
+    const [key, ...rest] = part.split("=");
+    if (key && rest.length > 0) acc[key.trim()] = rest.join("=").trim();
+    return acc;
+  }, {} as Record<string, string>);
+  const timestamp = parseInt(parts.t || "", 10);
+  const signature = parts.v1;
+  if (!timestamp || !signature) return "Malformed webhook signature";
+
+  const toleranceSeconds =
+    parseInt(process.env.CALENDLY_WEBHOOK_TOLERANCE_SECONDS || "", 10) || DEFAULT_TOLERANCE_SECONDS;
+  const ageSeconds = Math.floor(Date.now() / 1000) - timestamp;
+  if (Math.abs(ageSeconds) > toleranceSeconds) {
+    return `Webhook timestamp outside tolerance (${ageSeconds}s old)`;
+  }
+
+  const signedPayload = `${timestamp}.${rawBody}`;
+  const valid = keys.some((key) => safeCompare(signature, computeHmacSha256(key, signedPayload, "hex")));
+  return valid ? null : "Invalid webhook signature";
+}
 
 // POST /api/webhooks/calendly
 export async function POST(req: NextRequest) {
   try {
-    const payload = await req.json();
+    // Read the raw body once: the signature is computed over the exact bytes sent
+    const rawBody = await req.text();
+    const verificationError = verifyCalendlyWebhook(req.headers.get("calendly-webhook-signature"), rawBody);
+    if (verificationError) {
+      console.error("[Calendly Webhook] Rejected delivery:", verificationError);
+      return NextResponse.json({ error: verificationError }, { status: 401 });
+    }
+
+    const payload = JSON.parse(rawBody);
     console.log(
       "[Calendly Webhook] Payload received:",
       JSON.stringify(payload, null, 2)
@@ -31,6 +85,28 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ ignored: true });
     }
 
+    // Deliveries are idempotent by event URI: Calendly retries (including the ones we trigger
+    // with 500s below) must not produce a second meeting row
+    const eventUri: string | null = scheduledEvent?.uri || (typeof eventData?.event === "string" ? eventData.event : null);
+    if (eventUri) {
+      const { data: existingMeeting, error: existingError } = await supabaseAdmin
+        .from("calendly_screening_meetings")
+        .select("id, application_id")
+        .eq("calendly_event_uri", eventUri)
+        .eq("calendly_event_type", eventType)
+        .limit(1)
+        .maybeSingle();
+
+      if (existingError) {
+        console.warn("[Calendly Webhook] Failed checking for an existing delivery:", existingError);
+      } else if (existingMeeting) {
+        console.log(`[Calendly Webhook] Duplicate delivery for ${eventUri}, meeting ${existingMeeting.id} already recorded`);
+        return NextResponse.json({ received: true, duplicate: true });
+      }
+    } else {
+      console.warn("[Calendly Webhook] No event URI in payload; delivery cannot be de-duplicated");
+    }
+
     // 2. Extract invitee email
     if (!inviteeEmail) {
       console.warn("[Calendly Webhook] No invitee email found, skipping.");
@@ -106,6 +182,7 @@ export async function POST(req: NextRequest) {
 
     const insertData = {
       calendly_event_type: eventType,
+      calendly_event_uri: eventUri,
       calendly_payload: payload,
       application_id: applicationId,
       participant_id: participantId,
@@ -147,13 +224,21 @@ export async function POST(req: NextRequest) {
       .insert([insertData]);
       
     if (insertError) {
+      // A concurrent retry of the same delivery won the race
+      if (insertError.code === "23505") {
+        console.log(`[Calendly Webhook] Duplicate delivery for ${eventUri} detected on insert`);
+        return NextResponse.json({ received: true, duplicate: true });
+      }
       console.error("[Calendly Webhook] Error inserting meeting:", insertError);
       return NextResponse.json({ error: "DB insert error" }, { status: 500 });
     }
 
     // 6. Update application status to screening_scheduled so it appears in Screenings list
     try {
-      await applicationService.updateApplicationStatus(applicationId, "screening_scheduled");
+      await applicationService.updateApplicationStatus(applicationId, "screening_scheduled", undefined, undefined, undefined, {
+        source: "webhook",
+        note: `Calendly ${eventType}`,
+      });
       console.log(`[Calendly Webhook] Updated application ${applicationId} status to screening_scheduled`);
       
       // Store HubSpot hints so post-scoring HubSpot sync can mirror UI immediately
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { applicationService } from "@/services/applicationService";
+import { esignatureService } from "@/services/esignatureService";
+import { jobQueueService } from "@/services/jobQueueService";
+import { validateStatusTransition } from "@/lib/application-status-machine";
+import { computeHmacSha256, getRotatingSecrets, safeCompare } from "@/lib/webhook-signature";
+import { ApplicationStatus } from "@/types/application";
+import { EnvelopeEvent } from "@/types/esignature";
+
+// Where a pending_ic application goes when its envelope reaches each final state
+const NEXT_STATUS: Record<EnvelopeEvent["status"], ApplicationStatus> = {
+  completed: "screening_completed",
+  // Back to conditionally approved so the document can be sent again
+  declined: "conditionally_approved",
+  voided: "conditionally_approved",
+};
+
+/**
+ * Verify the X-ESignature-Signature header (hex HMAC-SHA256 of the raw body)
+ * @returns null when valid, otherwise the reason for rejecting the callback
+ */
+function verifyESignatureCallback(header: string | null, rawBody: string): string | null {
+  const secrets = getRotatingSecrets("ESIGNATURE_WEBHOOK_SECRET");
+
+  // Without a secret we cannot verify anything; only tolerate that outside production
+  if (secrets.length === 0) {
+    if (process.env.NODE_ENV === "production") {
+      return "Webhook secret not configured";
+    }
+    console.warn("[E-Signature Webhook] Signature verification not configured");
+    return null;
+  }
+
+  if (!header) return "Missing webhook signature";
+  const signature = header.replace(/^sha256=/, "");
+  const valid = secrets.some((secret) => safeCompare(signature, computeHmacSha256(secret, rawBody, "hex")));
+  return valid ? null : "Invalid webhook signature";
+}
+
+// POST /api/webhooks/esignature
+export async function POST(req: NextRequest) {
+  try {
+    const rawBody = await req.text();
+    const verificationError = verifyESignatureCallback(req.headers.get("x-esignature-signature"), rawBody);
+    if (verificationError) {
+      console.error("[E-Signature Webhook] Rejected callback:", verificationError);
+      return NextResponse.json({ error: verificationError }, { status: 401 });
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const event = esignatureService.getProvider().parseCallback(payload);
+    if (!event) {
+      // Providers also send intermediate events (delivered, viewed, ...) that we do not track
+      console.log("[E-Signature Webhook] Ignoring callback without a tracked envelope event");
+      return NextResponse.json({ message: "Ignored: not a tracked envelope event" }, { status: 200 });
+    }
+
+    const result = await esignatureService.recordEnvelopeEvent(event, payload);
+    if (!result) {
+      console.warn(`[E-Signature Webhook] Unknown envelope ${event.envelopeId}`);
+      return NextResponse.json({ error: "Unknown envelope" }, { status: 404 });
+    }
+    if (!result.changed) {
+      // Replayed delivery or the envelope was already closed
+      console.log(`[E-Signature Webhook] Envelope ${event.envelopeId} already ${result.envelope.status}; nothing to do`);
+      return NextResponse.json({ message: "Already processed", status: result.envelope.status }, { status: 200 });
+    }
+
+    const applicationId = result.envelope.application_id;
+    const nextStatus = NEXT_STATUS[event.status];
+    const currentState = await applicationService.getStatusTransitionState(applicationId);
+
+    // Only advance applications still waiting on this consent; anything else was moved on by hand
+    if (!currentState || currentState.status !== "pending_ic") {
+      console.log(
+        `[E-Signature Webhook] Envelope ${event.envelopeId} ${event.status}, application ${applicationId} is ${currentState?.status ?? "missing"}; status left unchanged`
+      );
+      return NextResponse.json({ message: "Envelope recorded; status unchanged" }, { status: 200 });
+    }
+
+    const transition = validateStatusTransition(currentState.status, nextStatus, currentState.context);
+    if (!transition.allowed) {
+      console.warn(`[E-Signature Webhook] Cannot move application ${applicationId} to ${nextStatus}: ${transition.error}`);
+      return NextResponse.json({ message: "Envelope recorded; status unchanged" }, { status: 200 });
+    }
+
+    await applicationService.updateApplicationStatus(applicationId, nextStatus, undefined, undefined, undefined, {
+      source: "webhook",
+      note: `Informed consent ${event.status} (envelope ${event.envelopeId})`,
+    });
+
+    try {
+      await jobQueueService.enqueue("hubspot.sync_status", { applicationId });
+    } catch (e) {
+      console.warn("[E-Signature Webhook] HubSpot sync could not be queued:", e);
+    }
+
+    console.log(`[E-Signature Webhook] Application ${applicationId} moved to ${nextStatus}`);
+    return NextResponse.json({ success: true, status: nextStatus }, { status: 200 });
+  } catch (error) {
+    console.error("[E-Signature Webhook] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
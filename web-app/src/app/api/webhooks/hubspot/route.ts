@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { hubspotInboundService } from "@/services/hubspotInboundService";
+import { computeHmacSha256, getRotatingSecrets, safeCompare } from "@/lib/webhook-signature";
+
+// HubSpot rejects v3 signatures older than five minutes, and so do we
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+/**
+ * Verify the X-HubSpot-Signature-v3 header: base64 HMAC-SHA256, keyed with the app's client
+ * secret, over method + URI + body + X-HubSpot-Request-Timestamp (epoch milliseconds)
+ * https://developers.hubspot.com/docs/api/webhooks/validating-requests
+ * @param req The incoming request (for the signed URI and headers)
+ * @param rawBody The exact request body the signature was computed over
+ * @returns null when valid, otherwise the reason for rejecting the delivery
+ */
+function verifyHubSpotWebhook(req: NextRequest, rawBody: string): string | null {
+  const secrets = getRotatingSecrets("HUBSPOT_WEBHOOK_SECRET");
+
+  // Without a secret we cannot verify anything; only tolerate that outside production
+  if (secrets.length === 0) {
+    if (process.env.NODE_ENV === "production") {
+      return "Webhook secret not configured";
+    }
+    console.warn("[HubSpot Webhook] Signature verification not configured");
+    return null;
+  }
+
+  const signature = req.headers.get("x-hubspot-signature-v3");
+  const timestampHeader = req.headers.get("x-hubspot-request-timestamp");
+  if (!signature || !timestampHeader) return "Missing webhook signature";
+
+  const timestamp = parseInt(timestampHeader, 10);
+  if (!timestamp) return "Malformed webhook timestamp";
+
+  const toleranceSeconds =
+    parseInt(process.env.HUBSPOT_WEBHOOK_TOLERANCE_SECONDS || "", 10) || DEFAULT_TOLERANCE_SECONDS;
+  const ageSeconds = Math.floor((Date.now() - timestamp) / 1000);
+  if (Math.abs(ageSeconds) > toleranceSeconds) {
+    return `Webhook timestamp outside tolerance (${ageSeconds}s old)`;
+  }
+
+  // HubSpot signs the public URL it called; behind a proxy req.url may differ, so it can be pinned
+  const uri = process.env.HUBSPOT_WEBHOOK_URL || req.url;
+  const signedPayload = `${req.method}${uri}${rawBody}${timestampHeader}`;
+  const valid = secrets.some((secret) => safeCompare(signature, computeHmacSha256(secret, signedPayload, "base64")));
+  return valid ? null : "Invalid webhook signature";
+}
+
+// POST /api/webhooks/hubspot
+export async function POST(req: NextRequest) {
+  try {
+    // Read the raw body once: the signature is computed over the exact bytes sent
+    const rawBody = await req.text();
+    const verificationError = verifyHubSpotWebhook(req, rawBody);
+    if (verificationError) {
+      console.error("[HubSpot Webhook] Rejected delivery:", verificationError);
+      return NextResponse.json({ error: verificationError }, { status: 401 });
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const events = hubspotInboundService.parseEvents(payload);
+    if (!events) {
+      return NextResponse.json({ error: "Expected an array of HubSpot events" }, { status: 400 });
+    }
+
+    // Events are only recorded here; jobs apply them so HubSpot gets a quick response
+    const { recorded, queued } = await hubspotInboundService.recordEvents(events);
+    console.log(`[HubSpot Webhook] ${events.length} event(s) received, ${recorded} new, ${queued} queued`);
+
+    return NextResponse.json({ received: events.length, recorded, queued });
+  } catch (error) {
+    console.error("[HubSpot Webhook] Error:", error);
+    // A 5xx makes HubSpot retry; already recorded events are skipped on the retry
+    return NextResponse.json({ error: "Failed to process webhook" }, { status: 500 });
+  }
+}
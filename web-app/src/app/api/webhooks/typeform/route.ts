@@ -1,7 +1,9 @@
 import {applicationService} from '@/services/applicationService';
-import {scoringService} from '@/services/scoringService';
+import {jobQueueService} from '@/services/jobQueueService';
+import {runJobNow} from '@/services/jobHandlers';
 import HubSpotService from '@/services/hubspotService';
 import {Application, TypeformWebhook} from '@/types/application';
+import {computeHmacSha256, getRotatingSecrets, safeCompare} from '@/lib/webhook-signature';
 import {createClient} from '@supabase/supabase-js';
 import crypto from 'crypto';
 import {NextRequest, NextResponse} from 'next/server';
@@ -15,27 +17,34 @@ const supabaseAdmin = createClient(
 
 /**
  * Verify Typeform webhook signature for authentication
- * @param request The incoming request
+ * https://developer.typeform.com/webhooks/secure-your-webhooks/
+ * @param signature Value of the Typeform-Signature header (`sha256=<base64 digest>`)
+ * @param rawBody The exact request body the signature was computed over
  * @returns Boolean indicating if the signature is valid
  */
-const verifyTypeformWebhook = (request: NextRequest): boolean => {
+const verifyTypeformWebhook = (signature: string | null, rawBody: string): boolean => {
   try {
-    // For initial implementation, validation is simplified
-    // In production, implement proper signature verification with your webhook secret
-    // https://developer.typeform.com/webhooks/secure-your-webhooks/
+    const secrets = getRotatingSecrets('TYPEFORM_WEBHOOK_SECRET');
 
-    const signature = request.headers.get('typeform-signature');
-
-    // If signature validation is not set up yet, accept the webhook
-    if (!process.env.TYPEFORM_WEBHOOK_SECRET || !signature) {
+    // Without a secret we cannot verify anything; only tolerate that outside production
+    if (secrets.length === 0) {
+      if (process.env.NODE_ENV === 'production') {
+        console.error('TYPEFORM_WEBHOOK_SECRET is not configured; rejecting webhook');
+        return false;
+      }
       console.warn('Typeform webhook signature verification not configured');
       return true;
     }
 
-    // Implementation would validate the signature against the request body
-    // using HMAC SHA256 and the webhook secret
+    if (!signature || !signature.startsWith('sha256=')) {
+      console.error('Typeform webhook is missing a sha256 signature');
+      return false;
+    }
 
-    return true; // Todo: implement actual verification
+    // Accept the current secret, or the previous one while a rotation overlap window is open
+    return secrets.some(secret =>
+      safeCompare(signature, `sha256=${computeHmacSha256(secret, rawBody, 'base64')}`)
+    );
   } catch (error) {
     console.error('Error verifying Typeform webhook signature:', error);
     return false;
@@ -49,8 +58,11 @@ const verifyTypeformWebhook = (request: NextRequest): boolean => {
  */
 export async function POST(req: NextRequest) {
   try {
+    // Read the raw body once: the signature is computed over the exact bytes sent
+    const rawBody = await req.text();
+
     // Verify webhook authenticity
-    if (!verifyTypeformWebhook(req)) {
+    if (!verifyTypeformWebhook(req.headers.get('typeform-signature'), rawBody)) {
       console.error('Invalid Typeform webhook signature');
       return NextResponse.json(
         {error: 'Invalid webhook signature'},
@@ -62,7 +74,7 @@ export async function POST(req: NextRequest) {
     const processTrackingId = crypto.randomUUID();
 
     // Parse the webhook data
-    const data: TypeformWebhook = await req.json();
+    const data: TypeformWebhook = JSON.parse(rawBody);
 
     const token = data.form_response.token;
     const lockId = `typeform_${token}`;
@@ -169,78 +181,33 @@ export async function POST(req: NextRequest) {
         }, { status: 202 });
       }
 
-      // Decide whether to process answers (skip if field responses already exist)
-      let shouldProcessAnswers = true;
-      try {
-        const { count: existingResponses } = await supabaseAdmin
-          .from('application_field_responses')
-          .select('id', { count: 'exact', head: true })
-          .eq('application_id', application.id);
-        if ((existingResponses || 0) > 0) {
-          shouldProcessAnswers = false;
-          console.log(`[Typeform Webhook] Detected ${existingResponses} existing field responses for application ${application.id}. Skipping re-processing.`);
-        }
-      } catch (e) {
-        console.warn(`[Typeform Webhook] Failed to check existing field responses for ${application.id}. Will attempt processing once.`, e);
-      }
-
-      if (shouldProcessAnswers) {
-        // Process answers inline (reliable) with a retry
-        try {
-          await applicationService.processAnswersForApplication(application);
-          console.log(`[Typeform Webhook] Answers processed for application ${application.id}, proceeding to scoring.`);
-        } catch (e) {
-          console.error(`[Typeform Webhook] processAnswers failed once for ${application.id}, retrying...`, e);
-          await new Promise(res => setTimeout(res, 750));
-          await applicationService.processAnswersForApplication(application);
-          console.log(`[Typeform Webhook] processAnswers retry succeeded for ${application.id}.`);
-        }
-      } else {
-        console.log(`[Typeform Webhook] Skipping answers processing and proceeding directly to scoring for application ${application.id}.`);
-      }
-
-      // Score inline with a retry
-      let scoreResult: { totalScore: number } = { totalScore: 0 };
-      let shouldScore = true;
-      try {
-        // If we did not process answers just now, check if a score already exists; if yes, skip scoring
-        if (!shouldProcessAnswers) {
-          const { data: scoreRow } = await supabaseAdmin
-            .from('applications')
-            .select('calculated_score')
-            .eq('id', application.id)
-            .maybeSingle();
-          if (scoreRow?.calculated_score != null) {
-            shouldScore = false;
-            console.log(`[Typeform Webhook] Existing score detected for application ${application.id}. Skipping scoring.`);
-          }
-        }
-      } catch (e) {
-        console.warn(`[Typeform Webhook] Failed to check existing score for ${application.id}. Will attempt scoring.`, e);
-      }
+      // Queue processing durably, then run it inline so the response reflects the outcome.
+      // If this attempt fails or the function times out, the job worker retries it.
+      const job = await jobQueueService.enqueue('application.process', {applicationId: application.id}, {
+        dedupeKey: `application.process:${application.id}`
+      });
+      const run = await runJobNow(job.id);
 
-      if (shouldScore) {
-        try {
-          scoreResult = await scoringService.calculateApplicationScore(application.id);
-        } catch (e) {
-          console.error(`[Typeform Webhook] calculateApplicationScore failed once for ${application.id}, retrying...`, e);
-          await new Promise(res => setTimeout(res, 750));
-          scoreResult = await scoringService.calculateApplicationScore(application.id);
-          console.log(`[Typeform Webhook] scoring retry succeeded for ${application.id}.`);
-        }
-      } else {
-        console.log(`[Typeform Webhook] Using existing score; no scoring performed for application ${application.id}.`);
+      if (!run || run.status !== 'succeeded') {
+        console.warn(`[Typeform Webhook] Processing for application ${application.id} did not complete inline (${run ? run.error : 'already claimed'}); left to job ${job.id}.`);
+        return NextResponse.json({
+          status: 'queued',
+          message: 'Webhook received; processing will be retried',
+          tracking_id: processTrackingId,
+          application_id: application.id,
+          job_id: job.id,
+        }, {status: 202});
       }
 
-      console.log(`[Typeform Webhook] Completed processing and scoring. Application ${application.id}, Score: ${scoreResult.totalScore}`);
+      const totalScore = (run.result as { totalScore?: number } | undefined)?.totalScore ?? 0;
+      console.log(`[Typeform Webhook] Completed processing and scoring. Application ${application.id}, Score: ${totalScore}`);
 
-      // Return success response (after HubSpot sync)
       return NextResponse.json({
         status: 'success',
         message: 'Webhook processed successfully',
         tracking_id: processTrackingId,
         application_id: application.id,
-        score: scoreResult.totalScore,
+        score: totalScore,
       });
 
     } catch (error) {
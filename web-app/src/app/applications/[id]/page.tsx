@@ -4,6 +4,10 @@ import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { ApplicationStatus, ScoreValue } from '@/types/application';
 import ClosedReasonModal, { ClosedReason } from '@/components/ui/ClosedReasonModal';
+import StatusTimeline from '@/components/applications/StatusTimeline';
+import ScoreHistory from '@/components/applications/ScoreHistory';
+import ScoreTrace from '@/components/applications/ScoreTrace';
+import RiskScoreBadge from '@/components/applications/RiskScoreBadge';
 
 // Score badge component
 const ScoreBadge = ({ score }: { score: ScoreValue | undefined }) => {
@@ -325,6 +329,9 @@ export default function ApplicationDetailPage({ params }: { params: { id: string
                   <span className="text-gray-400">/</span>
                   <span className="text-green-600 font-semibold">{application.green_count ?? 0}</span>
                 </span>
+                <span className="ml-2">
+                  <RiskScoreBadge riskScore={application.risk_score} riskBand={application.risk_band} />
+                </span>
               </dd>
             </div>
             <div className="sm:col-span-1">
@@ -343,6 +350,36 @@ export default function ApplicationDetailPage({ params }: { params: { id: string
         </div>
       </div>
       
+      {/* Status history */}
+      <div className="bg-white shadow overflow-hidden sm:rounded-lg mb-8">
+        <div className="px-4 py-5 sm:px-6">
+          <h3 className="text-lg leading-6 font-medium text-gray-900">
+            Status History
+          </h3>
+        </div>
+        <div className="border-t border-gray-200 px-4 py-5 sm:px-6">
+          <StatusTimeline
+            applicationId={application.id}
+            refreshKey={`${application.status}:${application.closed_reason || ''}`}
+          />
+        </div>
+      </div>
+
+      {/* Score history */}
+      <div className="bg-white shadow overflow-hidden sm:rounded-lg mb-8">
+        <div className="px-4 py-5 sm:px-6">
+          <h3 className="text-lg leading-6 font-medium text-gray-900">
+            Score History
+          </h3>
+          <p className="mt-1 max-w-2xl text-sm text-gray-500">
+            Every score calculated for this application and the rule-set version used.
+          </p>
+        </div>
+        <div className="border-t border-gray-200 px-4 py-5 sm:px-6">
+          <ScoreHistory applicationId={application.id} />
+        </div>
+      </div>
+
       {/* No duplicate debug panel needed here */}
       
       {/* Application responses */}
@@ -480,8 +517,9 @@ export default function ApplicationDetailPage({ params }: { params: { id: string
                             {/* Use display_value, fallback to response_value, or fallback to empty */}
                             {response.display_value || response.response_value || '-'}
                           </td>
-                          <td className="px-6 py-3 whitespace-nowrap text-sm">
+                          <td className="px-6 py-3 whitespace-normal text-sm">
                             <ScoreBadge score={response.score as ScoreValue} />
+                            <ScoreTrace score={response.score as ScoreValue} trace={response.score_trace} />
                           </td>
                         </tr>
                       );
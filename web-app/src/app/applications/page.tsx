@@ -5,6 +5,7 @@ import { useSearchParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { Application } from '@/types/application';
 import Pagination from '@/components/Pagination';
+import RiskScoreBadge from '@/components/applications/RiskScoreBadge';
 
 const APPLICATIONS_FILTER_KEY = 'applications_status_filter';
 
@@ -508,6 +509,9 @@ export default function ApplicationsPage() {
                             <span className="text-gray-400">/</span>
                             <span className="text-green-600 font-semibold">{application.green_count ?? 0}</span>
                           </span>
+                          <div className="mt-1">
+                            <RiskScoreBadge riskScore={application.risk_score} riskBand={application.risk_band} />
+                          </div>
                         </td>
                         <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
                           {(() => {
@@ -1,11 +1,41 @@
 "use client";
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import Card, { CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/Card';
-import { Button } from '@/components/ui/Button';
+import { Button, LinkButton } from '@/components/ui/Button';
+import { Retreat } from '@/types/retreat';
+
+const formatRetreatDates = (retreat: Retreat) => {
+  const format = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'long', day: 'numeric', year: 'numeric' });
+  return retreat.start_date === retreat.end_date
+    ? format(retreat.start_date)
+    : `${format(retreat.start_date)} – ${format(retreat.end_date)}`;
+};
 
 export default function DashboardPage() {
+  const [upcomingRetreats, setUpcomingRetreats] = useState<Retreat[]>([]);
+  const [retreatsLoading, setRetreatsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadUpcomingRetreats = async () => {
+      try {
+        const response = await fetch('/api/retreats?upcoming=30', { cache: 'no-store' });
+        const data = await response.json();
+        if (response.ok) {
+          setUpcomingRetreats(data.retreats);
+        }
+      } catch (err) {
+        console.error('Error loading upcoming retreats:', err);
+      } finally {
+        setRetreatsLoading(false);
+      }
+    };
+
+    loadUpcomingRetreats();
+  }, []);
+
   return (
     <DashboardLayout>
       <div className="mb-6">
@@ -66,21 +96,29 @@ export default function DashboardPage() {
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              {upcomingRetreats.map((item, index) => (
-                <div key={index} className="flex items-center justify-between border-b border-gray-100 pb-4 last:border-0 last:pb-0">
-                  <div>
-                    <p className="font-medium">{item.name}</p>
-                    <p className="text-sm text-gray-500">{item.date} • {item.participants} participants</p>
+              {retreatsLoading ? (
+                <p className="text-sm text-gray-500">Loading retreats...</p>
+              ) : upcomingRetreats.length === 0 ? (
+                <p className="text-sm text-gray-500">No retreats in the next 30 days</p>
+              ) : (
+                upcomingRetreats.map((retreat) => (
+                  <div key={retreat.id} className="flex items-center justify-between border-b border-gray-100 pb-4 last:border-0 last:pb-0">
+                    <div>
+                      <p className="font-medium">{retreat.name}</p>
+                      <p className="text-sm text-gray-500">
+                        {formatRetreatDates(retreat)} • {retreat.confirmed_count ?? 0}/{retreat.capacity} participants
+                      </p>
+                    </div>
+                    <LinkButton href={`/admin/retreats/${retreat.id}/roster`} variant="outline" size="sm">
+                      Details
+                    </LinkButton>
                   </div>
-                  <Button variant="outline" size="sm">
-                    Details
-                  </Button>
-                </div>
-              ))}
+                ))
+              )}
             </div>
           </CardContent>
           <CardFooter>
-            <Button variant="secondary" fullWidth>View All Retreats</Button>
+            <LinkButton href="/admin/retreats" variant="secondary" fullWidth>View All Retreats</LinkButton>
           </CardFooter>
         </Card>
       </div>
@@ -103,8 +141,3 @@ const pendingScreenings = [
   { name: 'Sarah Wilson', appliedDate: 'April 16, 2025' },
 ];
 
-const upcomingRetreats = [
-  { name: 'Costa Rica Retreat', date: 'April 22-28, 2025', participants: 15 },
-  { name: 'Mexico Retreat', date: 'May 5-12, 2025', participants: 12 },
-  { name: 'Jamaica Retreat', date: 'May 18-24, 2025', participants: 18 },
-];
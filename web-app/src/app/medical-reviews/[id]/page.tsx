@@ -0,0 +1,290 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { APPLICATION_STATUS_LABELS } from '@/lib/application-status-machine';
+import { ApplicationStatus } from '@/types/application';
+import { MedicalReviewCase, MedicalReviewDecision } from '@/types/medicalReview';
+
+interface ApplicationSummary {
+  id: string;
+  status: ApplicationStatus;
+  participants?: {
+    first_name: string;
+    last_name: string;
+    email: string;
+    date_of_birth?: string | null;
+  } | null;
+}
+
+const decisionOptions: { value: MedicalReviewDecision; label: string; description: string }[] = [
+  { value: 'clear', label: 'Clear', description: 'Medically cleared; the application moves to Conditionally Approved.' },
+  { value: 'require_medication_change', label: 'Require medication change', description: 'The applicant must change or taper medication before continuing.' },
+  { value: 'decline', label: 'Decline', description: 'Not medically suitable; the application is closed as Rejected.' },
+];
+
+const decisionLabels: Record<MedicalReviewDecision, string> = {
+  clear: 'Cleared',
+  require_medication_change: 'Medication change required',
+  decline: 'Declined',
+};
+
+export default function MedicalReviewCasePage() {
+  const params = useParams();
+  const router = useRouter();
+  const [reviewCase, setReviewCase] = useState<MedicalReviewCase | null>(null);
+  const [application, setApplication] = useState<ApplicationSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [decision, setDecision] = useState<MedicalReviewDecision | ''>('');
+  const [notes, setNotes] = useState('');
+  const [rejectedType, setRejectedType] = useState<'Temporary' | 'Permanent'>('Temporary');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchCase() {
+      if (!params.id) return;
+
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/medical-reviews/${params.id}`, { cache: 'no-store' });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch medical review');
+        }
+        setReviewCase(data.case);
+        setApplication(data.application);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+        console.error('Error fetching medical review:', err);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchCase();
+  }, [params.id]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!decision) return;
+
+    try {
+      setIsSubmitting(true);
+      setSubmitError(null);
+      const response = await fetch(`/api/medical-reviews/${params.id}/decision`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          decision,
+          notes,
+          rejected_type: decision === 'decline' ? rejectedType : undefined,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to record decision');
+      }
+      setReviewCase(data.case);
+      setApplication((prev) => prev ? { ...prev, status: data.status } : prev);
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Failed to record decision');
+      console.error('Error recording medical review decision:', err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-8 flex justify-center">
+        <p className="text-gray-500">Loading medical review...</p>
+      </div>
+    );
+  }
+
+  if (error || !reviewCase) {
+    return (
+      <div className="p-8">
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          <p>Error: {error || 'Medical review not found'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const participant = application?.participants;
+
+  return (
+    <div className="p-8">
+      <div className="mb-6">
+        <button
+          onClick={() => router.push('/medical-reviews')}
+          className="text-indigo-600 hover:text-indigo-900"
+        >
+          ← Back to Medical Reviews
+        </button>
+      </div>
+
+      <div className="bg-white shadow overflow-hidden sm:rounded-lg mb-6">
+        <div className="px-4 py-5 sm:px-6">
+          <h2 className="text-lg leading-6 font-medium text-gray-900">
+            Medical Review – {reviewCase.participant_name || 'Unknown participant'}
+          </h2>
+          <p className="mt-1 max-w-2xl text-sm text-gray-500">
+            Referred {new Date(reviewCase.created_at).toLocaleString()} · Reviewer: {reviewCase.reviewer_name || 'Unknown'}
+          </p>
+        </div>
+
+        <div className="border-t border-gray-200 px-4 py-5 sm:px-6 space-y-6">
+          <div>
+            <h3 className="text-md font-medium text-gray-900">Participant Information</h3>
+            <p className="text-sm text-gray-600 mt-1">{participant?.first_name} {participant?.last_name}</p>
+            <p className="text-sm text-gray-600">{participant?.email}</p>
+            {participant?.date_of_birth && (
+              <p className="text-sm text-gray-600">Date of birth: {participant.date_of_birth}</p>
+            )}
+            {application && (
+              <p className="text-sm text-gray-600">
+                Application status: {APPLICATION_STATUS_LABELS[application.status] || application.status}
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+            <div>
+              <h3 className="text-md font-medium text-gray-900">Medications</h3>
+              {reviewCase.medications.length > 0 ? (
+                <ul className="mt-1 list-disc list-inside text-sm text-gray-700">
+                  {reviewCase.medications.map((medication) => <li key={medication}>{medication}</li>)}
+                </ul>
+              ) : (
+                <p className="mt-1 text-sm text-gray-500 italic">None listed</p>
+              )}
+            </div>
+            <div>
+              <h3 className="text-md font-medium text-gray-900">Conditions</h3>
+              {reviewCase.conditions.length > 0 ? (
+                <ul className="mt-1 list-disc list-inside text-sm text-gray-700">
+                  {reviewCase.conditions.map((condition) => <li key={condition}>{condition}</li>)}
+                </ul>
+              ) : (
+                <p className="mt-1 text-sm text-gray-500 italic">None listed</p>
+              )}
+            </div>
+          </div>
+
+          {reviewCase.referral_notes && (
+            <div>
+              <h3 className="text-md font-medium text-gray-900">Screener Notes</h3>
+              <p className="mt-1 text-sm text-gray-700 whitespace-pre-wrap">{reviewCase.referral_notes}</p>
+            </div>
+          )}
+
+          {reviewCase.triggering_responses.length > 0 && (
+            <div>
+              <h3 className="text-md font-medium text-gray-900">Flagged Answers</h3>
+              <ul className="mt-1 space-y-1">
+                {reviewCase.triggering_responses.map((response, index) => (
+                  <li key={index} className="text-sm text-gray-700">
+                    <span className={`inline-block w-2 h-2 rounded-full mr-2 ${response.score === 'red' ? 'bg-red-500' : 'bg-yellow-400'}`} />
+                    <span className="font-medium">{response.field_title}:</span> {response.response_value}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+        <div className="px-4 py-5 sm:px-6">
+          <h2 className="text-lg leading-6 font-medium text-gray-900">Decision</h2>
+        </div>
+        <div className="border-t border-gray-200 px-4 py-5 sm:px-6">
+          {reviewCase.status !== 'open' ? (
+            <div className="space-y-1">
+              <p className="text-sm text-gray-900">
+                <span className="font-medium">{reviewCase.decision ? decisionLabels[reviewCase.decision] : reviewCase.status}</span>
+                {reviewCase.decided_at && <span className="text-gray-500"> · {new Date(reviewCase.decided_at).toLocaleString()}</span>}
+              </p>
+              {reviewCase.decision_notes && (
+                <p className="text-sm text-gray-700 whitespace-pre-wrap">{reviewCase.decision_notes}</p>
+              )}
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <fieldset className="space-y-3">
+                {decisionOptions.map((option) => (
+                  <label key={option.value} className="flex items-start">
+                    <input
+                      type="radio"
+                      name="decision"
+                      value={option.value}
+                      checked={decision === option.value}
+                      onChange={() => setDecision(option.value)}
+                      className="mt-1 mr-3"
+                    />
+                    <span>
+                      <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                      <span className="block text-xs text-gray-500">{option.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </fieldset>
+
+              {decision === 'decline' && (
+                <div>
+                  <label htmlFor="rejected-type" className="block text-sm font-medium text-gray-700">Rejection type</label>
+                  <select
+                    id="rejected-type"
+                    value={rejectedType}
+                    onChange={(e) => setRejectedType(e.target.value as 'Temporary' | 'Permanent')}
+                    className="mt-1 block w-48 rounded-md border-gray-300 shadow-sm sm:text-sm h-10 px-3"
+                  >
+                    <option value="Temporary">Temporary</option>
+                    <option value="Permanent">Permanent</option>
+                  </select>
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="decision-notes" className="block text-sm font-medium text-gray-700">
+                  Notes{decision && decision !== 'clear' ? ' (required)' : ''}
+                </label>
+                <textarea
+                  id="decision-notes"
+                  rows={4}
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  className="mt-1 block w-full rounded-md border border-gray-300 shadow-sm sm:text-sm p-2"
+                />
+              </div>
+
+              {submitError && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+                  <p>Error: {submitError}</p>
+                </div>
+              )}
+
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  disabled={isSubmitting || !decision || (decision !== 'clear' && !notes.trim())}
+                  className={`inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white ${
+                    isSubmitting || !decision || (decision !== 'clear' && !notes.trim())
+                      ? 'bg-gray-400 cursor-not-allowed'
+                      : 'bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500'
+                  }`}
+                >
+                  {isSubmitting ? 'Saving...' : 'Record Decision'}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
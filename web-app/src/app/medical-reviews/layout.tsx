@@ -0,0 +1,49 @@
+"use client";
+
+import React, { useEffect } from 'react';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { useAuth } from '@/context/AuthContext';
+import { UserRole } from '@/types/user';
+import { useRouter } from 'next/navigation';
+
+// Roles that can access the medical review queue
+const allowedRoles = [
+  UserRole.MEDICAL_REVIEWER,
+  UserRole.SCREENER_LEAD,
+  UserRole.PROGRAM_OPERATIONS_MANAGER,
+  UserRole.PROGRAM_OPERATIONS_ADMINISTRATOR
+];
+
+export default function MedicalReviewsLayout({ children }: { children: React.ReactNode }) {
+  const { userProfile, isLoading } = useAuth();
+  const router = useRouter();
+
+  // Redirect users without a medical review role
+  useEffect(() => {
+    if (!userProfile) return;
+    if (!allowedRoles.includes(userProfile.role)) {
+      router.push('/dashboard');
+    }
+  }, [userProfile, router]);
+
+  // Show loading state while checking permissions
+  if (isLoading || !userProfile) {
+    return (
+      <DashboardLayout>
+        <div className="p-6">
+          <div className="animate-pulse flex space-x-4">
+            <div className="flex-1 space-y-6 py-1">
+              <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+              <div className="space-y-3">
+                <div className="h-4 bg-gray-200 rounded"></div>
+                <div className="h-4 bg-gray-200 rounded w-5/6"></div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return <DashboardLayout>{children}</DashboardLayout>;
+}
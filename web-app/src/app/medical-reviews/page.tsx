@@ -0,0 +1,177 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { MedicalReviewCase, MedicalReviewStatus } from '@/types/medicalReview';
+
+const statusLabels: Record<MedicalReviewStatus, string> = {
+  open: 'Open',
+  cleared: 'Cleared',
+  medication_change_required: 'Medication Change Required',
+  declined: 'Declined',
+};
+
+const statusBadgeColors: Record<MedicalReviewStatus, string> = {
+  open: 'bg-orange-100 text-orange-800',
+  cleared: 'bg-green-100 text-green-800',
+  medication_change_required: 'bg-yellow-100 text-yellow-800',
+  declined: 'bg-red-100 text-red-800',
+};
+
+const formatDate = (isoDate: string) =>
+  new Date(isoDate).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+export default function MedicalReviewQueuePage() {
+  const [cases, setCases] = useState<MedicalReviewCase[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<MedicalReviewStatus | 'all'>('open');
+  const [showAll, setShowAll] = useState(false);
+  const [canViewAll, setCanViewAll] = useState(false);
+
+  useEffect(() => {
+    async function fetchCases() {
+      try {
+        setLoading(true);
+        const query = new URLSearchParams({ status: statusFilter });
+        if (showAll) query.set('scope', 'all');
+        const response = await fetch(`/api/medical-reviews?${query.toString()}`, { cache: 'no-store' });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch medical reviews');
+        }
+        setCases(data.cases || []);
+        setCanViewAll(!!data.canViewAll);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+        console.error('Error fetching medical reviews:', err);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchCases();
+  }, [statusFilter, showAll]);
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8 py-8">
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-xl font-semibold text-gray-900">Medical Reviews</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Applications referred for medical review, oldest first.
+          </p>
+        </div>
+      </div>
+
+      <div className="mt-4 flex items-center space-x-6">
+        <div>
+          <label htmlFor="status-filter" className="sr-only">Status</label>
+          <select
+            id="status-filter"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as MedicalReviewStatus | 'all')}
+            className="block h-9 pl-2 pr-8 py-1 text-sm border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 rounded-md"
+          >
+            <option value="open">Open</option>
+            <option value="cleared">Cleared</option>
+            <option value="medication_change_required">Medication Change Required</option>
+            <option value="declined">Declined</option>
+            <option value="all">All</option>
+          </select>
+        </div>
+        {canViewAll && (
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showAll}
+              onChange={(e) => setShowAll(e.target.checked)}
+              className="mr-2 rounded border-gray-300"
+            />
+            All reviewers
+          </label>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="mt-6 text-center">
+          <p className="text-gray-500">Loading medical reviews...</p>
+        </div>
+      ) : error ? (
+        <div className="mt-6 text-center">
+          <p className="text-red-500">{error}</p>
+        </div>
+      ) : (
+        <div className="mt-6 flex flex-col">
+          <div className="-my-2 -mx-4 overflow-x-auto sm:-mx-6 lg:-mx-8">
+            <div className="inline-block min-w-full py-2 align-middle md:px-6 lg:px-8">
+              <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
+                <table className="min-w-full divide-y divide-gray-300">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900 sm:pl-6">
+                        Participant Name
+                      </th>
+                      <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                        Medications / Conditions
+                      </th>
+                      <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                        Status
+                      </th>
+                      <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                        Reviewer
+                      </th>
+                      <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                        Referred
+                      </th>
+                      <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                        Next Action
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 bg-white">
+                    {cases.length === 0 ? (
+                      <tr>
+                        <td colSpan={6} className="py-4 text-center text-sm text-gray-500">
+                          No medical reviews found
+                        </td>
+                      </tr>
+                    ) : (
+                      cases.map((reviewCase) => (
+                        <tr key={reviewCase.id}>
+                          <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-gray-900 sm:pl-6">
+                            {reviewCase.participant_name || 'Unknown'}
+                          </td>
+                          <td className="px-3 py-4 text-sm text-gray-500">
+                            {[...reviewCase.medications, ...reviewCase.conditions].join(', ')}
+                          </td>
+                          <td className="whitespace-nowrap px-3 py-4 text-sm">
+                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusBadgeColors[reviewCase.status]}`}>
+                              {statusLabels[reviewCase.status]}
+                            </span>
+                          </td>
+                          <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                            {reviewCase.reviewer_name || 'Unknown'}
+                          </td>
+                          <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                            {formatDate(reviewCase.created_at)}
+                          </td>
+                          <td className="whitespace-nowrap px-3 py-4 text-sm">
+                            <Link href={`/medical-reviews/${reviewCase.id}`} className="text-indigo-600 hover:text-indigo-900">
+                              {reviewCase.status === 'open' ? 'Review' : 'View'}
+                            </Link>
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
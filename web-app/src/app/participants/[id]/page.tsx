@@ -4,6 +4,10 @@ import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useParams, useRouter } from 'next/navigation';
 import { Participant } from '@/types/application';
+import { PARTICIPANT_ATTRIBUTES } from '@/lib/participant-attributes';
+
+// Profile details captured from mapped form fields, in catalog order
+const PROFILE_ATTRIBUTES = PARTICIPANT_ATTRIBUTES.filter(attribute => attribute.storage === 'profile');
 
 export default function ParticipantDetailsPage() {
   const params = useParams();
@@ -43,6 +47,8 @@ export default function ParticipantDetailsPage() {
     }
   }, [participantId]);
   
+  const profile: Record<string, string | undefined> = participant?.profile || {};
+  
   // Format date in a readable format
   const formatDate = (dateString: string) => {
     if (!dateString) return 'Not available';
@@ -115,6 +121,15 @@ export default function ParticipantDetailsPage() {
                   {participant.is_active ? 'Active' : 'Inactive'}
                 </span>
               </div>
+              {participant.merged_into_id && (
+                <p className="mt-2 text-sm text-gray-700">
+                  Merged into{' '}
+                  <Link href={`/participants/${participant.merged_into_id}`} className="text-indigo-600 hover:text-indigo-500">
+                    another participant
+                  </Link>
+                  {participant.merged_at && ` on ${formatDate(participant.merged_at)}`}. Its applications are listed there.
+                </p>
+              )}
             </div>
             
             {/* Participant details */}
@@ -147,6 +162,22 @@ export default function ParticipantDetailsPage() {
                         )}
                       </dd>
                     </div>
+                    {participant.date_of_birth && (
+                      <div className="py-4 sm:py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
+                        <dt className="text-sm font-medium text-gray-500">Date of Birth</dt>
+                        <dd className="mt-1 text-sm text-gray-900 sm:mt-0 sm:col-span-2">
+                          {participant.date_of_birth}
+                        </dd>
+                      </div>
+                    )}
+                    {PROFILE_ATTRIBUTES.filter(attribute => profile[attribute.key]).map(attribute => (
+                      <div key={attribute.key} className="py-4 sm:py-5 sm:grid sm:grid-cols-3 sm:gap-4 sm:px-6">
+                        <dt className="text-sm font-medium text-gray-500">{attribute.label}</dt>
+                        <dd className="mt-1 text-sm text-gray-900 sm:mt-0 sm:col-span-2">
+                          {profile[attribute.key]}
+                        </dd>
+                      </div>
+                    ))}
                   </dl>
                 </div>
               </div>
@@ -0,0 +1,273 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import {
+  DuplicateCandidate,
+  DuplicateCandidateParticipant,
+  DuplicateMatchReason,
+  HubSpotContactMergeAction,
+  ParticipantMerge
+} from '@/types/participantMerge';
+
+const reasonLabels: Record<DuplicateMatchReason, string> = {
+  same_phone: 'Same phone',
+  same_date_of_birth: 'Same date of birth',
+  same_name: 'Same name',
+  similar_name: 'Similar name',
+  similar_email: 'Similar email'
+};
+
+const hubspotActionLabels: Record<HubSpotContactMergeAction, string> = {
+  none: 'No HubSpot contact',
+  kept: 'Kept survivor’s contact',
+  adopted: 'Took over duplicate’s contact',
+  conflict: 'Both had contacts; merge them in HubSpot'
+};
+
+const pairKey = (candidate: DuplicateCandidate) =>
+  `${candidate.participants[0].id}|${candidate.participants[1].id}`;
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+
+function ParticipantSummary({ participant }: { participant: DuplicateCandidateParticipant }) {
+  return (
+    <dl className="text-sm space-y-1">
+      <div className="font-medium text-gray-900">
+        <Link href={`/participants/${participant.id}`} className="text-indigo-600 hover:text-indigo-500">
+          {participant.first_name} {participant.last_name}
+        </Link>
+      </div>
+      <div className="text-gray-700">{participant.email}</div>
+      <div className="text-gray-500">{participant.phone || 'No phone'} · {participant.date_of_birth || 'No date of birth'}</div>
+      <div className="text-gray-500">
+        {participant.application_count} application{participant.application_count === 1 ? '' : 's'} · created {formatDate(participant.created_at)}
+      </div>
+      {participant.hubspot_contact_id && (
+        <div className="text-gray-500">HubSpot contact {participant.hubspot_contact_id}</div>
+      )}
+    </dl>
+  );
+}
+
+export default function ParticipantDuplicatesPage() {
+  const [candidates, setCandidates] = useState<DuplicateCandidate[]>([]);
+  const [merges, setMerges] = useState<ParticipantMerge[]>([]);
+  const [survivors, setSurvivors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [mergingPair, setMergingPair] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadMerges = useCallback(async () => {
+    const response = await fetch('/api/participants/merges', { cache: 'no-store' });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || 'Failed to load recent merges');
+    setMerges(data.merges || []);
+  }, []);
+
+  const loadCandidates = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch('/api/participants/duplicates', { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to find duplicate participants');
+      setCandidates(data.candidates || []);
+      await loadMerges();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      console.error('Error loading duplicate participants:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [loadMerges]);
+
+  useEffect(() => {
+    loadCandidates();
+  }, [loadCandidates]);
+
+  const mergePair = async (candidate: DuplicateCandidate) => {
+    const key = pairKey(candidate);
+    // The older record is kept unless the admin picked the other one
+    const survivorId = survivors[key] || candidate.participants[0].id;
+    const survivor = candidate.participants.find(p => p.id === survivorId)!;
+    const duplicate = candidate.participants.find(p => p.id !== survivorId)!;
+
+    if (!window.confirm(
+      `Merge ${duplicate.first_name} ${duplicate.last_name} (${duplicate.email}) into ` +
+      `${survivor.first_name} ${survivor.last_name} (${survivor.email})? ` +
+      'Applications, screenings and meetings move to the kept participant. This cannot be undone from the app.'
+    )) return;
+
+    try {
+      setMergingPair(key);
+      setError(null);
+      const response = await fetch('/api/participants/merges', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ survivorId, duplicateId: duplicate.id })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to merge participants');
+
+      // Any other pair that includes the merged record is moot now
+      setCandidates(candidates.filter(c => !c.participants.some(p => p.id === duplicate.id)));
+      setNotice(`Merged ${duplicate.email} into ${survivor.email}.`);
+      await loadMerges();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      console.error('Error merging participants:', err);
+    } finally {
+      setMergingPair(null);
+    }
+  };
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8 py-8">
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-xl font-semibold text-gray-900">Duplicate Participants</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Participants that look like the same person, matched on phone, date of birth, name and email.
+            Merging keeps one record and moves the other&apos;s applications, screenings and meetings to it.
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+          <Link href="/participants" className="text-sm text-indigo-600 hover:text-indigo-500">
+            &larr; Back to participants
+          </Link>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-4 rounded-md bg-red-50 p-4 text-sm text-red-700" role="alert">{error}</div>
+      )}
+
+      {notice && (
+        <div className="mt-4 rounded-md bg-green-50 p-4 text-sm text-green-700 flex justify-between">
+          <span>{notice}</span>
+          <button onClick={() => setNotice(null)} className="text-sm">Dismiss</button>
+        </div>
+      )}
+
+      <div className="mt-6 space-y-4">
+        {loading ? (
+          <p className="text-sm text-gray-500">Looking for duplicates...</p>
+        ) : candidates.length === 0 ? (
+          <p className="text-sm text-gray-500 italic">No likely duplicates found.</p>
+        ) : (
+          candidates.map(candidate => {
+            const key = pairKey(candidate);
+            const survivorId = survivors[key] || candidate.participants[0].id;
+            return (
+              <div key={key} className="bg-white shadow sm:rounded-lg px-4 py-5 sm:px-6">
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                  <span className="text-sm font-semibold text-gray-900">Match score {candidate.score}</span>
+                  {candidate.reasons.map(reason => (
+                    <span key={reason} className="inline-flex rounded-full px-2 text-xs font-semibold leading-5 bg-yellow-100 text-yellow-800">
+                      {reasonLabels[reason]}
+                    </span>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                  {candidate.participants.map(participant => (
+                    <label
+                      key={participant.id}
+                      className={`flex items-start gap-3 rounded-md border p-3 cursor-pointer ${
+                        participant.id === survivorId ? 'border-indigo-500 bg-indigo-50' : 'border-gray-200'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name={`survivor-${key}`}
+                        className="mt-1"
+                        checked={participant.id === survivorId}
+                        onChange={() => setSurvivors({ ...survivors, [key]: participant.id })}
+                      />
+                      <div>
+                        <div className="text-xs font-medium uppercase text-gray-500 mb-1">
+                          {participant.id === survivorId ? 'Keep' : 'Merge into the kept record'}
+                        </div>
+                        <ParticipantSummary participant={participant} />
+                      </div>
+                    </label>
+                  ))}
+                </div>
+
+                <div className="mt-4 flex justify-end">
+                  <button
+                    type="button"
+                    disabled={mergingPair !== null}
+                    onClick={() => mergePair(candidate)}
+                    className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                  >
+                    {mergingPair === key ? 'Merging...' : 'Merge'}
+                  </button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <div className="mt-10">
+        <h2 className="text-lg font-medium text-gray-900">Recent Merges</h2>
+        {merges.length === 0 ? (
+          <p className="mt-2 text-sm text-gray-500 italic">No merges yet.</p>
+        ) : (
+          <div className="mt-4 overflow-x-auto shadow ring-1 ring-black ring-opacity-5 md:rounded-lg">
+            <table className="min-w-full divide-y divide-gray-300 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-semibold text-gray-900">Merged</th>
+                  <th className="px-4 py-2 text-left font-semibold text-gray-900">Duplicate</th>
+                  <th className="px-4 py-2 text-left font-semibold text-gray-900">Kept</th>
+                  <th className="px-4 py-2 text-left font-semibold text-gray-900">Moved</th>
+                  <th className="px-4 py-2 text-left font-semibold text-gray-900">HubSpot</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 bg-white">
+                {merges.map(merge => (
+                  <tr key={merge.id}>
+                    <td className="px-4 py-2 text-gray-500 whitespace-nowrap">
+                      {formatDate(merge.created_at)}
+                      {merge.merged_by_name && <div className="text-xs">by {merge.merged_by_name}</div>}
+                    </td>
+                    <td className="px-4 py-2 text-gray-700">
+                      {merge.merged_snapshot.first_name} {merge.merged_snapshot.last_name}
+                      <div className="text-xs text-gray-500">{merge.merged_snapshot.email}</div>
+                    </td>
+                    <td className="px-4 py-2">
+                      <Link href={`/participants/${merge.survivor_id}`} className="text-indigo-600 hover:text-indigo-500">
+                        View
+                      </Link>
+                    </td>
+                    <td className="px-4 py-2 text-gray-500 text-xs">
+                      {Object.entries(merge.reparented_counts)
+                        .filter(([, count]) => count > 0)
+                        .map(([table, count]) => `${count} ${table.replace(/_/g, ' ')}`)
+                        .join(', ') || 'Nothing'}
+                    </td>
+                    <td className={`px-4 py-2 text-xs ${merge.hubspot_contact_action === 'conflict' ? 'text-red-600' : 'text-gray-500'}`}>
+                      {hubspotActionLabels[merge.hubspot_contact_action]}
+                      {merge.hubspot_contact_action === 'conflict' && merge.merged_hubspot_contact_id && (
+                        <div>Duplicate&apos;s contact: {merge.merged_hubspot_contact_id}</div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
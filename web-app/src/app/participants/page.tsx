@@ -87,6 +87,14 @@ export default function ParticipantsPage() {
             A list of all program participants with their contact information and status.
           </p>
         </div>
+        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+          <Link
+            href="/participants/duplicates"
+            className="inline-flex items-center justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+          >
+            Find duplicates
+          </Link>
+        </div>
       </div>
       
       {/* Filters */}
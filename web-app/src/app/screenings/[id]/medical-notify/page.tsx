@@ -3,6 +3,13 @@
 import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { Application } from '@/types/application';
+import { MedicalReviewCase, MedicalReviewTriggerResponse } from '@/types/medicalReview';
+
+interface Reviewer {
+  id: string;
+  name: string;
+  email: string;
+}
 
 export default function MedicalNotifyPage() {
   const params = useParams();
@@ -12,6 +19,14 @@ export default function MedicalNotifyPage() {
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [success, setSuccess] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [reviewers, setReviewers] = useState<Reviewer[]>([]);
+  const [flaggedResponses, setFlaggedResponses] = useState<MedicalReviewTriggerResponse[]>([]);
+  const [reviewCase, setReviewCase] = useState<MedicalReviewCase | null>(null);
+  const [reviewerId, setReviewerId] = useState('');
+  const [medications, setMedications] = useState('');
+  const [conditions, setConditions] = useState('');
+  const [notes, setNotes] = useState('');
 
   useEffect(() => {
     async function fetchScreeningDetails() {
@@ -27,6 +42,14 @@ export default function MedicalNotifyPage() {
 
         const data = await response.json();
         setApplication(data.application);
+
+        const reviewResponse = await fetch(`/api/screenings/${params.id}/medical-review`);
+        if (reviewResponse.ok) {
+          const reviewData = await reviewResponse.json();
+          setReviewers(reviewData.reviewers || []);
+          setFlaggedResponses(reviewData.flaggedResponses || []);
+          setReviewCase(reviewData.case);
+        }
       } catch (err) {
         setError(err instanceof Error ? err.message : 'An unknown error occurred');
         console.error('Error fetching screening details:', err);
@@ -43,14 +66,20 @@ export default function MedicalNotifyPage() {
     
     try {
       setIsSubmitting(true);
-      
-      // This would be a real API call in production
-      // Simulating API call with setTimeout
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // In a real implementation, this would update the application status
-      // to 'pending_medical_review' via the API
-      
+      setSubmitError(null);
+
+      const response = await fetch(`/api/screenings/${params.id}/medical-review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reviewer_id: reviewerId, medications, conditions, notes }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to notify medical team');
+      }
+
+      setReviewCase(data.case);
+      setApplication({ ...application, status: data.status });
       setSuccess(true);
       
       // Redirect back to the screening page after a short delay
@@ -59,7 +88,7 @@ export default function MedicalNotifyPage() {
       }, 2000);
       
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to notify medical team');
+      setSubmitError(err instanceof Error ? err.message : 'Failed to notify medical team');
       console.error('Error notifying medical team:', err);
     } finally {
       setIsSubmitting(false);
@@ -132,27 +161,87 @@ export default function MedicalNotifyPage() {
             </div>
           </div>
           
-          <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4 mb-6">
-            <div className="flex">
-              <div className="flex-shrink-0">
-                <svg className="h-5 w-5 text-yellow-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
-                  <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
-                </svg>
-              </div>
-              <div className="ml-3">
-                <p className="text-sm text-yellow-700">
-                  <strong>Note:</strong> This is a placeholder page. In the full implementation, this would trigger an automated notification to the medical team and update the application status to "Pending Medical Review".
-                </p>
-              </div>
+          {reviewCase?.status === 'open' && !success && (
+            <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4 mb-6">
+              <p className="text-sm text-yellow-700">
+                This application already has an open medical review assigned to {reviewCase.reviewer_name || 'a reviewer'}.
+              </p>
+            </div>
+          )}
+
+          {flaggedResponses.length > 0 && (
+            <div className="mb-6">
+              <h3 className="text-md font-medium text-gray-900">Flagged Answers</h3>
+              <p className="text-xs text-gray-500 mb-2">These answers will be attached to the medical review.</p>
+              <ul className="space-y-1">
+                {flaggedResponses.map((response, index) => (
+                  <li key={index} className="text-sm text-gray-700">
+                    <span className={`inline-block w-2 h-2 rounded-full mr-2 ${response.score === 'red' ? 'bg-red-500' : 'bg-yellow-400'}`} />
+                    <span className="font-medium">{response.field_title}:</span> {response.response_value}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="space-y-4 mb-6">
+            <div>
+              <label htmlFor="reviewer" className="block text-sm font-medium text-gray-700">Medical Reviewer</label>
+              <select
+                id="reviewer"
+                value={reviewerId}
+                onChange={(e) => setReviewerId(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-orange-500 focus:ring-orange-500 sm:text-sm h-10 px-3"
+              >
+                <option value="">Select a reviewer...</option>
+                {reviewers.map((reviewer) => (
+                  <option key={reviewer.id} value={reviewer.id}>{reviewer.name}</option>
+                ))}
+              </select>
+              {reviewers.length === 0 && (
+                <p className="mt-1 text-xs text-gray-500">No active users have the Medical Reviewer role.</p>
+              )}
+            </div>
+            <div>
+              <label htmlFor="medications" className="block text-sm font-medium text-gray-700">Medications</label>
+              <textarea
+                id="medications"
+                rows={3}
+                value={medications}
+                onChange={(e) => setMedications(e.target.value)}
+                placeholder="One per line"
+                className="mt-1 block w-full rounded-md border border-gray-300 shadow-sm focus:border-orange-500 focus:ring-orange-500 sm:text-sm p-2"
+              />
+            </div>
+            <div>
+              <label htmlFor="conditions" className="block text-sm font-medium text-gray-700">Conditions</label>
+              <textarea
+                id="conditions"
+                rows={3}
+                value={conditions}
+                onChange={(e) => setConditions(e.target.value)}
+                placeholder="One per line"
+                className="mt-1 block w-full rounded-md border border-gray-300 shadow-sm focus:border-orange-500 focus:ring-orange-500 sm:text-sm p-2"
+              />
+            </div>
+            <div>
+              <label htmlFor="notes" className="block text-sm font-medium text-gray-700">Notes for the reviewer</label>
+              <textarea
+                id="notes"
+                rows={3}
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                className="mt-1 block w-full rounded-md border border-gray-300 shadow-sm focus:border-orange-500 focus:ring-orange-500 sm:text-sm p-2"
+              />
             </div>
           </div>
-          
+
           <div className="flex justify-end">
             <button
               onClick={handleNotifyMedical}
-              disabled={isSubmitting || success}
+              disabled={isSubmitting || success || !reviewerId}
               className={`inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white ${
-                isSubmitting || success
+                isSubmitting || success || !reviewerId
                   ? 'bg-gray-400 cursor-not-allowed'
                   : 'bg-orange-600 hover:bg-orange-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-orange-500'
               }`}
@@ -163,15 +252,17 @@ export default function MedicalNotifyPage() {
           
           {success && (
             <div className="mt-4 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded">
-              <p>Success! Medical team has been notified and the status has been updated to "Pending Medical Review".</p>
+              <p>Success! {reviewCase?.reviewer_name || 'The medical reviewer'} has been notified and the status has been updated to &quot;Pending Medical Review&quot;.</p>
+            </div>
+          )}
+
+          {submitError && (
+            <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+              <p>Error: {submitError}</p>
             </div>
           )}
         </div>
       </div>
-      
-      <div className="bg-gray-50 p-4 rounded-md text-center text-gray-500 text-sm italic">
-        Notifying Medical automation to come
-      </div>
     </div>
   );
 }
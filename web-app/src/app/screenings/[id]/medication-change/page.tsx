@@ -1,17 +1,50 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useParams, useRouter } from 'next/navigation';
-import { Application } from '@/types/application';
+import { Application, MedicationChangePlan, MedicationChangePlanStatus } from '@/types/application';
+
+const planStatusStyles: Record<MedicationChangePlanStatus, string> = {
+  active: 'bg-blue-100 text-blue-800',
+  confirmed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
 
 export default function MedicationChangePage() {
   const params = useParams();
   const router = useRouter();
   const [application, setApplication] = useState<Application | null>(null);
+  const [plans, setPlans] = useState<MedicationChangePlan[]>([]);
+  const [suggestedMedications, setSuggestedMedications] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [success, setSuccess] = useState(false);
+
+  // New plan form
+  const [medication, setMedication] = useState('');
+  const [washoutDays, setWashoutDays] = useState('');
+  const [lastDoseDate, setLastDoseDate] = useState('');
+  const [prescriberName, setPrescriberName] = useState('');
+
+  // Confirmation form for one plan at a time
+  const [confirmingPlanId, setConfirmingPlanId] = useState<string | null>(null);
+  const [confirmPrescriber, setConfirmPrescriber] = useState('');
+  const [confirmNotes, setConfirmNotes] = useState('');
+
+  const fetchPlans = useCallback(async () => {
+    const response = await fetch(`/api/screenings/${params.id}/medication-change`, { cache: 'no-store' });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to fetch medication change plans');
+    }
+    setPlans(data.plans || []);
+    setSuggestedMedications(data.suggestedMedications || []);
+  }, [params.id]);
 
   useEffect(() => {
     async function fetchScreeningDetails() {
@@ -27,6 +60,7 @@ export default function MedicationChangePage() {
 
         const data = await response.json();
         setApplication(data.application);
+        await fetchPlans();
       } catch (err) {
         setError(err instanceof Error ? err.message : 'An unknown error occurred');
         console.error('Error fetching screening details:', err);
@@ -36,30 +70,97 @@ export default function MedicationChangePage() {
     }
 
     fetchScreeningDetails();
-  }, [params.id]);
+  }, [params.id, fetchPlans]);
 
-  const handleReviewMedication = async () => {
+  const handleAddPlan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsSubmitting(true);
+      setActionError(null);
+      setMessage(null);
+      const response = await fetch(`/api/screenings/${params.id}/medication-change`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          medication,
+          washout_days: washoutDays === '' ? undefined : Number(washoutDays),
+          last_dose_date: lastDoseDate,
+          prescriber_name: prescriberName,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add medication change plan');
+      }
+      setPlans((prev) => [...prev, data.plan]);
+      setMedication('');
+      setWashoutDays('');
+      setLastDoseDate('');
+      setPrescriberName('');
+      setMessage(`Plan added. Expected clear date: ${formatDate(data.plan.expected_clear_date)}.`);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to add medication change plan');
+      console.error('Error adding medication change plan:', err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const startConfirming = (plan: MedicationChangePlan) => {
+    setConfirmingPlanId(plan.id);
+    setConfirmPrescriber(plan.prescriber_name || '');
+    setConfirmNotes('');
+    setActionError(null);
+  };
+
+  const handleConfirm = async (planId: string) => {
     if (!application) return;
-    
     try {
       setIsSubmitting(true);
-      
-      // This would be a real API call in production
-      // Simulating API call with setTimeout
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // In a real implementation, this would update the application status via the API
-      
-      setSuccess(true);
-      
-      // Redirect back to the screening page after a short delay
-      setTimeout(() => {
-        router.push(`/screenings/${params.id}`);
-      }, 2000);
-      
+      setActionError(null);
+      setMessage(null);
+      const response = await fetch(`/api/screenings/${params.id}/medication-change/${planId}/confirm`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ prescriber_name: confirmPrescriber, notes: confirmNotes }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to confirm medication change');
+      }
+      setPlans((prev) => prev.map((p) => (p.id === planId ? data.plan : p)));
+      setConfirmingPlanId(null);
+      if (data.status && data.status !== application.status) {
+        setApplication({ ...application, status: data.status });
+      }
+      setMessage(
+        data.status === 'screening_in_process'
+          ? 'Confirmation recorded. All medication changes are complete and the applicant is back in screening.'
+          : `Confirmation recorded. ${data.remainingActivePlans} plan(s) still awaiting confirmation.`
+      );
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to review medication change');
-      console.error('Error reviewing medication change:', err);
+      setActionError(err instanceof Error ? err.message : 'Failed to confirm medication change');
+      console.error('Error confirming medication change:', err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (planId: string) => {
+    if (!window.confirm('Cancel this medication change plan?')) return;
+    try {
+      setIsSubmitting(true);
+      setActionError(null);
+      setMessage(null);
+      const response = await fetch(`/api/screenings/${params.id}/medication-change/${planId}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to cancel medication change plan');
+      }
+      setPlans((prev) => prev.map((p) => (p.id === planId ? data.plan : p)));
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to cancel medication change plan');
+      console.error('Error cancelling medication change plan:', err);
     } finally {
       setIsSubmitting(false);
     }
@@ -93,11 +194,13 @@ export default function MedicationChangePage() {
     );
   }
 
+  const canAddPlans = application.status === 'pending_medication_change';
+
   return (
     <div className="p-8">
       <div className="mb-6">
-        <button 
-          onClick={() => router.back()} 
+        <button
+          onClick={() => router.back()}
           className="text-indigo-600 hover:text-indigo-900"
         >
           ← Back to Screening
@@ -107,13 +210,14 @@ export default function MedicationChangePage() {
       <div className="bg-white shadow overflow-hidden sm:rounded-lg mb-6">
         <div className="px-4 py-5 sm:px-6">
           <h2 className="text-lg leading-6 font-medium text-gray-900">
-            Medication Change Review
+            Medication Change
           </h2>
           <p className="mt-1 max-w-2xl text-sm text-gray-500">
-            Review and document the participant's medication change.
+            Track each medication the participant must taper, its washout period and the prescriber&apos;s confirmation.
+            The participant returns to screening once every plan is confirmed.
           </p>
         </div>
-        
+
         <div className="border-t border-gray-200 px-4 py-5 sm:px-6">
           <div className="mb-4">
             <h3 className="text-md font-medium text-gray-900">Participant Information</h3>
@@ -121,7 +225,7 @@ export default function MedicationChangePage() {
               {application.participants?.first_name} {application.participants?.last_name}
             </p>
           </div>
-          
+
           <div className="mb-6">
             <h3 className="text-md font-medium text-gray-900">Current Status</h3>
             <div className="mt-1">
@@ -130,47 +234,189 @@ export default function MedicationChangePage() {
               </span>
             </div>
           </div>
-          
-          <div className="bg-blue-50 border-l-4 border-blue-400 p-4 mb-6">
-            <div className="flex">
-              <div className="flex-shrink-0">
-                <svg className="h-5 w-5 text-blue-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
-                  <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2h-1V9a1 1 0 00-1-1z" clipRule="evenodd" />
-                </svg>
-              </div>
-              <div className="ml-3">
-                <p className="text-sm text-blue-700">
-                  <strong>Note:</strong> This is a placeholder page. In the full implementation, this would provide a form to document medication changes and update the application status.
-                </p>
-              </div>
+
+          {message && (
+            <div className="mb-4 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded">
+              <p>{message}</p>
             </div>
-          </div>
-          
-          <div className="flex justify-end">
-            <button
-              onClick={handleReviewMedication}
-              disabled={isSubmitting || success}
-              className={`inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white ${
-                isSubmitting || success
-                  ? 'bg-gray-400 cursor-not-allowed'
-                  : 'bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500'
-              }`}
-            >
-              {isSubmitting ? 'Processing...' : success ? 'Completed!' : 'Review Medication Change'}
-            </button>
-          </div>
-          
-          {success && (
-            <div className="mt-4 bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded">
-              <p>Success! Medication change has been reviewed and documented.</p>
+          )}
+          {actionError && (
+            <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+              <p>Error: {actionError}</p>
             </div>
           )}
+
+          <div className="mb-6">
+            <h3 className="text-md font-medium text-gray-900 mb-2">Plans</h3>
+            {plans.length === 0 ? (
+              <p className="text-sm text-gray-500 italic">No medication change plans recorded yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                {plans.map((plan) => (
+                  <li key={plan.id} className="p-4">
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">
+                          {plan.medication}
+                          <span className={`ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${planStatusStyles[plan.status]}`}>
+                            {plan.status.charAt(0).toUpperCase() + plan.status.slice(1)}
+                          </span>
+                        </p>
+                        <p className="text-sm text-gray-600 mt-1">
+                          Last dose {formatDate(plan.last_dose_date)} · {plan.washout_days}-day washout · Clear on {formatDate(plan.expected_clear_date)}
+                        </p>
+                        {plan.prescriber_name && (
+                          <p className="text-sm text-gray-600">Prescriber: {plan.prescriber_name}</p>
+                        )}
+                        {plan.prescriber_confirmed_at && (
+                          <p className="text-sm text-gray-600">
+                            Confirmed {new Date(plan.prescriber_confirmed_at).toLocaleString()}
+                            {plan.confirmation_notes ? ` – ${plan.confirmation_notes}` : ''}
+                          </p>
+                        )}
+                      </div>
+                      {plan.status === 'active' && confirmingPlanId !== plan.id && (
+                        <div className="flex space-x-3">
+                          <button
+                            type="button"
+                            onClick={() => startConfirming(plan)}
+                            disabled={isSubmitting}
+                            className="text-sm text-blue-600 hover:text-blue-800"
+                          >
+                            Record Confirmation
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleCancel(plan.id)}
+                            disabled={isSubmitting}
+                            className="text-sm text-gray-500 hover:text-gray-700"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      )}
+                    </div>
+
+                    {confirmingPlanId === plan.id && (
+                      <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        <div>
+                          <label htmlFor={`prescriber-${plan.id}`} className="block text-xs font-medium text-gray-700">Confirming prescriber</label>
+                          <input
+                            id={`prescriber-${plan.id}`}
+                            type="text"
+                            value={confirmPrescriber}
+                            onChange={(e) => setConfirmPrescriber(e.target.value)}
+                            className="mt-1 block w-full rounded-md border border-gray-300 shadow-sm sm:text-sm h-9 px-2"
+                          />
+                        </div>
+                        <div>
+                          <label htmlFor={`notes-${plan.id}`} className="block text-xs font-medium text-gray-700">Notes</label>
+                          <input
+                            id={`notes-${plan.id}`}
+                            type="text"
+                            value={confirmNotes}
+                            onChange={(e) => setConfirmNotes(e.target.value)}
+                            className="mt-1 block w-full rounded-md border border-gray-300 shadow-sm sm:text-sm h-9 px-2"
+                          />
+                        </div>
+                        <div className="sm:col-span-2 flex justify-end space-x-3">
+                          <button
+                            type="button"
+                            onClick={() => setConfirmingPlanId(null)}
+                            className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+                          >
+                            Back
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleConfirm(plan.id)}
+                            disabled={isSubmitting || !confirmPrescriber.trim()}
+                            className={`px-3 py-1.5 text-sm text-white rounded-md ${
+                              isSubmitting || !confirmPrescriber.trim() ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+                            }`}
+                          >
+                            {isSubmitting ? 'Saving...' : 'Confirm Change Complete'}
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {canAddPlans ? (
+            <form onSubmit={handleAddPlan} className="border-t border-gray-200 pt-6">
+              <h3 className="text-md font-medium text-gray-900 mb-3">Add Plan</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="medication" className="block text-sm font-medium text-gray-700">Medication</label>
+                  <input
+                    id="medication"
+                    type="text"
+                    list="suggested-medications"
+                    value={medication}
+                    onChange={(e) => setMedication(e.target.value)}
+                    className="mt-1 block w-full rounded-md border border-gray-300 shadow-sm sm:text-sm h-10 px-3"
+                  />
+                  <datalist id="suggested-medications">
+                    {suggestedMedications.map((name) => <option key={name} value={name} />)}
+                  </datalist>
+                </div>
+                <div>
+                  <label htmlFor="prescriber" className="block text-sm font-medium text-gray-700">Prescriber</label>
+                  <input
+                    id="prescriber"
+                    type="text"
+                    value={prescriberName}
+                    onChange={(e) => setPrescriberName(e.target.value)}
+                    className="mt-1 block w-full rounded-md border border-gray-300 shadow-sm sm:text-sm h-10 px-3"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="last-dose" className="block text-sm font-medium text-gray-700">Last dose date</label>
+                  <input
+                    id="last-dose"
+                    type="date"
+                    value={lastDoseDate}
+                    onChange={(e) => setLastDoseDate(e.target.value)}
+                    className="mt-1 block w-full rounded-md border border-gray-300 shadow-sm sm:text-sm h-10 px-3"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="washout" className="block text-sm font-medium text-gray-700">Washout period (days)</label>
+                  <input
+                    id="washout"
+                    type="number"
+                    min={0}
+                    value={washoutDays}
+                    onChange={(e) => setWashoutDays(e.target.value)}
+                    className="mt-1 block w-full rounded-md border border-gray-300 shadow-sm sm:text-sm h-10 px-3"
+                  />
+                </div>
+              </div>
+              <div className="mt-4 flex justify-end">
+                <button
+                  type="submit"
+                  disabled={isSubmitting || !medication.trim() || !lastDoseDate || washoutDays === ''}
+                  className={`inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white ${
+                    isSubmitting || !medication.trim() || !lastDoseDate || washoutDays === ''
+                      ? 'bg-gray-400 cursor-not-allowed'
+                      : 'bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500'
+                  }`}
+                >
+                  {isSubmitting ? 'Saving...' : 'Add Plan'}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <p className="text-sm text-gray-500 italic border-t border-gray-200 pt-4">
+              New plans can only be added while the application is Pending Medication Change.
+            </p>
+          )}
         </div>
       </div>
-      
-      <div className="bg-gray-50 p-4 rounded-md text-center text-gray-500 text-sm italic">
-        Pending Medication Change automation to come
-      </div>
     </div>
   );
 }
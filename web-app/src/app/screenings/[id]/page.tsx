@@ -4,6 +4,12 @@ import React, { useState, useEffect } from 'react';
 import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { Application, ApplicationStatus, ScoreValue } from '@/types/application';
 import ClosedReasonModal from '@/components/ui/ClosedReasonModal';
+import StatusTimeline from '@/components/applications/StatusTimeline';
+import RetreatAssignmentPanel from '@/components/applications/RetreatAssignmentPanel';
+import ScoreTrace from '@/components/applications/ScoreTrace';
+import RiskScoreBadge from '@/components/applications/RiskScoreBadge';
+import { Retreat } from '@/types/retreat';
+import { APPLICATION_STATUS_LABELS, getAllowedTransitions } from '@/lib/application-status-machine';
 import { useAuth } from '@/context/AuthContext';
 
 export default function ScreeningDetailPage() {
@@ -29,6 +35,7 @@ export default function ScreeningDetailPage() {
     secondaryScreeningSummary: '',
     generalNotes: '',
     desiredRetreat: '',
+    desiredRetreatId: '',
     scholarshipNeeded: false, // Changed from scholarshipNeeds (text) to scholarshipNeeded (boolean)
     medsHealthHistory: '',
     supportSystem: '',
@@ -43,6 +50,7 @@ export default function ScreeningDetailPage() {
     secondaryScreeningSummary: '',
     generalNotes: '',
     desiredRetreat: '',
+    desiredRetreatId: '',
     scholarshipNeeded: false,
     medsHealthHistory: '',
     supportSystem: '',
@@ -57,6 +65,7 @@ export default function ScreeningDetailPage() {
   const [initialNotesSnapshot, setInitialNotesSnapshot] = useState<any>(null);
   const [notesAtPageLoad, setNotesAtPageLoad] = useState<any>(null);
   const [noteRole, setNoteRole] = useState<string>('');
+  const [openRetreats, setOpenRetreats] = useState<Retreat[]>([]);
 
   useEffect(() => {
     async function fetchScreeningDetails() {
@@ -151,6 +160,22 @@ export default function ScreeningDetailPage() {
     fetchScreeningDetails();
   }, [params.id, userProfile, searchParams]);
 
+  useEffect(() => {
+    async function fetchOpenRetreats() {
+      try {
+        const response = await fetch('/api/retreats?status=open', { cache: 'no-store' });
+        const data = await response.json();
+        if (response.ok) {
+          setOpenRetreats(data.retreats || []);
+        }
+      } catch (err) {
+        console.error('Error fetching open retreats:', err);
+      }
+    }
+
+    fetchOpenRetreats();
+  }, []);
+
   useEffect(() => {
     if (!noteRole) {
       const defaultRole = ((userProfile as any)?.role || '').toString().trim();
@@ -527,15 +552,15 @@ export default function ScreeningDetailPage() {
                     }
                   }}
                 >
-                  <option value="new">New</option>
-                  <option value="screening_scheduled">Screening Scheduled</option>
-                  <option value="screening_no_show">Screening No Show</option>
-                  <option value="invited_to_reschedule">Invited to Reschedule</option>
-                  <option value="secondary_screening">Secondary Screening</option>
-                  <option value="medical_review_required">Medical Review Required</option>
-                  <option value="conditionally_approved">Conditionally Approved</option>
-                  <option value="screening_in_process">Screening</option>
-                  <option value="closed">Closed</option>
+                  {/* Only offer the current status and the transitions the state machine allows from it */}
+                  {Array.from(new Set(
+                    [application.status, ...getAllowedTransitions(application.status)]
+                      .map((status) => status === 'screening_completed' ? 'closed' : status)
+                  )).map((status) => (
+                    <option key={status} value={status}>
+                      {APPLICATION_STATUS_LABELS[status as ApplicationStatus] || status}
+                    </option>
+                  ))}
                 </select>
                 ); })()}
                 {(selectedStatus === 'screening_completed' || selectedStatus === 'closed') && (
@@ -563,6 +588,33 @@ export default function ScreeningDetailPage() {
                     </button>
                   </div>
                 )}
+                {(application.status === 'medical_review_required' || application.status === 'pending_medication_change') && (
+                  <button
+                    type="button"
+                    className="text-xs sm:text-sm text-indigo-600 hover:text-indigo-800 underline"
+                    onClick={() => router.push(`/screenings/${application.id}/medical-notify`)}
+                  >
+                    Notify Medical Team
+                  </button>
+                )}
+                {application.status === 'pending_medication_change' && (
+                  <button
+                    type="button"
+                    className="text-xs sm:text-sm text-indigo-600 hover:text-indigo-800 underline"
+                    onClick={() => router.push(`/screenings/${application.id}/medication-change`)}
+                  >
+                    Medication Change
+                  </button>
+                )}
+                {(application.status === 'conditionally_approved' || application.status === 'pending_ic') && (
+                  <button
+                    type="button"
+                    className="text-xs sm:text-sm text-indigo-600 hover:text-indigo-800 underline"
+                    onClick={() => router.push(`/screenings/${application.id}/send-ic`)}
+                  >
+                    {application.status === 'pending_ic' ? 'Informed Consent' : 'Send Informed Consent'}
+                  </button>
+                )}
               </div>
             </div>
             <p className="text-sm text-gray-500">
@@ -594,6 +646,9 @@ export default function ScreeningDetailPage() {
                   {application.green_count || 0}
                 </span>
               </div>
+              <div className="mt-1">
+                <RiskScoreBadge riskScore={application.risk_score} riskBand={application.risk_band} />
+              </div>
               {/* Screening date removed from here as it's already shown in the participant info section */}
             </div>
       {/* Two-column layout for Application Responses and Screening Notes */}
@@ -680,6 +735,7 @@ export default function ScreeningDetailPage() {
                             >
                               {score.toUpperCase()}
                             </span>
+                            <ScoreTrace score={score} trace={response.score_trace} />
                           </div>
                         )}
                       </div>
@@ -762,15 +818,42 @@ export default function ScreeningDetailPage() {
                 <label htmlFor="desiredRetreat" className="block text-sm font-medium text-gray-700">
                   Desired Retreat
                 </label>
-                <div className="mt-1">
-                  <textarea
+                <div className="mt-1 space-y-2">
+                  {/* Pick a scheduled retreat; free text remains for anything not yet scheduled */}
+                  <select
                     id="desiredRetreat"
-                    name="desiredRetreat"
-                    rows={4}
-                    className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md p-2"
-                    value={screeningNotes.desiredRetreat}
-                    onChange={(e) => setScreeningNotes({...screeningNotes, desiredRetreat: e.target.value})}
-                  />
+                    name="desiredRetreatId"
+                    className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border border-gray-300 rounded-md h-10 px-3"
+                    value={screeningNotes.desiredRetreatId}
+                    onChange={(e) => {
+                      const retreat = openRetreats.find(r => r.id === e.target.value);
+                      setScreeningNotes({
+                        ...screeningNotes,
+                        desiredRetreatId: retreat?.id || '',
+                        desiredRetreat: retreat ? `${retreat.name} (${retreat.start_date} – ${retreat.end_date})` : '',
+                      });
+                    }}
+                  >
+                    <option value="">Other / not yet scheduled</option>
+                    {screeningNotes.desiredRetreatId && !openRetreats.some(r => r.id === screeningNotes.desiredRetreatId) && (
+                      <option value={screeningNotes.desiredRetreatId}>{screeningNotes.desiredRetreat}</option>
+                    )}
+                    {openRetreats.map((retreat) => (
+                      <option key={retreat.id} value={retreat.id}>
+                        {retreat.name} – {retreat.location} ({retreat.start_date} – {retreat.end_date})
+                      </option>
+                    ))}
+                  </select>
+                  {!screeningNotes.desiredRetreatId && (
+                    <textarea
+                      name="desiredRetreat"
+                      rows={4}
+                      placeholder="Describe the retreat the applicant is hoping for"
+                      className="shadow-sm focus:ring-indigo-500 focus:border-indigo-500 block w-full sm:text-sm border-gray-300 rounded-md p-2"
+                      value={screeningNotes.desiredRetreat}
+                      onChange={(e) => setScreeningNotes({...screeningNotes, desiredRetreat: e.target.value})}
+                    />
+                  )}
                 </div>
               </div>
               
@@ -924,6 +1007,25 @@ export default function ScreeningDetailPage() {
                 <p className="text-sm text-gray-500 italic">No actions recorded yet.</p>
               )}
             </div>
+
+            {/* Retreat Assignment */}
+            <div className="mt-8 border-t border-gray-200 pt-4">
+              <h3 className="text-md font-semibold text-gray-800 mb-3">Retreat</h3>
+              <RetreatAssignmentPanel
+                applicationId={application.id}
+                applicationStatus={application.status}
+                desiredRetreatId={screeningNotes.desiredRetreatId || undefined}
+              />
+            </div>
+
+            {/* Status History */}
+            <div className="mt-8 border-t border-gray-200 pt-4">
+              <h3 className="text-md font-semibold text-gray-800 mb-3">Status History</h3>
+              <StatusTimeline
+                applicationId={application.id}
+                refreshKey={`${application.status}:${application.closed_reason || ''}`}
+              />
+            </div>
           </div>
         </div>
       </div>
@@ -3,6 +3,9 @@
 import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { Application } from '@/types/application';
+import { InformedConsentEnvelope } from '@/types/esignature';
+
+type EnvelopeSummary = Pick<InformedConsentEnvelope, 'provider' | 'envelope_id' | 'status' | 'recipient_email' | 'sent_at'>;
 
 export default function SendICPage() {
   const params = useParams();
@@ -12,6 +15,8 @@ export default function SendICPage() {
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [success, setSuccess] = useState(false);
+  const [sendError, setSendError] = useState<string | null>(null);
+  const [envelope, setEnvelope] = useState<EnvelopeSummary | null>(null);
 
   useEffect(() => {
     async function fetchScreeningDetails() {
@@ -27,6 +32,13 @@ export default function SendICPage() {
 
         const data = await response.json();
         setApplication(data.application);
+
+        // Show the previously sent envelope, if any
+        const envelopeResponse = await fetch(`/api/screenings/${params.id}/send-ic`);
+        if (envelopeResponse.ok) {
+          const envelopeData = await envelopeResponse.json();
+          setEnvelope(envelopeData.envelope);
+        }
       } catch (err) {
         setError(err instanceof Error ? err.message : 'An unknown error occurred');
         console.error('Error fetching screening details:', err);
@@ -43,14 +55,16 @@ export default function SendICPage() {
     
     try {
       setIsSubmitting(true);
-      
-      // This would be a real API call in production
-      // Simulating API call with setTimeout
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // In a real implementation, this would trigger sending the IC document
-      // and update the application status via the API
-      
+      setSendError(null);
+
+      const response = await fetch(`/api/screenings/${params.id}/send-ic`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send IC document');
+      }
+
+      setEnvelope(data.envelope);
+      setApplication({ ...application, status: data.status });
       setSuccess(true);
       
       // Redirect back to the screening page after a short delay
@@ -59,7 +73,7 @@ export default function SendICPage() {
       }, 2000);
       
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to send IC document');
+      setSendError(err instanceof Error ? err.message : 'Failed to send IC document');
       console.error('Error sending IC document:', err);
     } finally {
       setIsSubmitting(false);
@@ -135,21 +149,18 @@ export default function SendICPage() {
             </div>
           </div>
           
-          <div className="bg-green-50 border-l-4 border-green-400 p-4 mb-6">
-            <div className="flex">
-              <div className="flex-shrink-0">
-                <svg className="h-5 w-5 text-green-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
-                  <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2h-1V9a1 1 0 00-1-1z" clipRule="evenodd" />
-                </svg>
-              </div>
-              <div className="ml-3">
-                <p className="text-sm text-green-700">
-                  <strong>Note:</strong> This is a placeholder page. In the full implementation, this would send an automated Informed Consent document to the participant via email, potentially integrate with HubSpot, and update the application status.
-                </p>
-              </div>
+          {envelope && (
+            <div className="mb-6">
+              <h3 className="text-md font-medium text-gray-900">Informed Consent Envelope</h3>
+              <p className="text-sm text-gray-600 mt-1">
+                Sent to {envelope.recipient_email} on {new Date(envelope.sent_at).toLocaleString()} via {envelope.provider}
+              </p>
+              <p className="text-sm text-gray-600">
+                Envelope <span className="font-mono">{envelope.envelope_id}</span> · {envelope.status}
+              </p>
             </div>
-          </div>
-          
+          )}
+
           <div className="flex justify-end">
             <button
               onClick={handleSendIC}
@@ -169,12 +180,14 @@ export default function SendICPage() {
               <p>Success! Informed Consent document has been sent to the participant.</p>
             </div>
           )}
+
+          {sendError && (
+            <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+              <p>Error: {sendError}</p>
+            </div>
+          )}
         </div>
       </div>
-      
-      <div className="bg-gray-50 p-4 rounded-md text-center text-gray-500 text-sm italic">
-        Send IC automation to come
-      </div>
     </div>
   );
 }
@@ -0,0 +1,175 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ApplicationStatus } from '@/types/application';
+import { Retreat, RetreatAssignment } from '@/types/retreat';
+
+interface RetreatAssignmentPanelProps {
+  applicationId: string;
+  applicationStatus: ApplicationStatus;
+  // Retreat the applicant asked for in the screening notes, preselected when assigning
+  desiredRetreatId?: string;
+}
+
+// Keep in sync with RETREAT_ELIGIBLE_STATUSES in retreatService
+const eligibleStatuses: ApplicationStatus[] = ['conditionally_approved', 'pending_ic'];
+
+const formatDates = (retreat: Retreat) =>
+  `${new Date(`${retreat.start_date}T00:00:00`).toLocaleDateString()} – ${new Date(`${retreat.end_date}T00:00:00`).toLocaleDateString()}`;
+
+const RetreatAssignmentPanel: React.FC<RetreatAssignmentPanelProps> = ({ applicationId, applicationStatus, desiredRetreatId }) => {
+  const [assignment, setAssignment] = useState<(RetreatAssignment & { retreat: Retreat | null }) | null>(null);
+  const [openRetreats, setOpenRetreats] = useState<Retreat[]>([]);
+  const [selectedRetreatId, setSelectedRetreatId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAssignment = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/applications/${applicationId}/retreat`, { cache: 'no-store' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load retreat assignment');
+      }
+      setAssignment(data.assignment);
+      setOpenRetreats(data.openRetreats || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load retreat assignment');
+    } finally {
+      setLoading(false);
+    }
+  }, [applicationId]);
+
+  useEffect(() => {
+    loadAssignment();
+  }, [loadAssignment]);
+
+  useEffect(() => {
+    if (!selectedRetreatId && desiredRetreatId && openRetreats.some(r => r.id === desiredRetreatId)) {
+      setSelectedRetreatId(desiredRetreatId);
+    }
+  }, [desiredRetreatId, openRetreats, selectedRetreatId]);
+
+  const handleAssign = async () => {
+    if (!selectedRetreatId) return;
+    try {
+      setWorking(true);
+      setError(null);
+      const response = await fetch(`/api/retreats/${selectedRetreatId}/assignments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ application_id: applicationId }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to assign retreat');
+      }
+      await loadAssignment();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to assign retreat');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!assignment || !confirm('Withdraw this applicant from the retreat?')) return;
+    try {
+      setWorking(true);
+      setError(null);
+      const response = await fetch(`/api/retreats/${assignment.retreat_id}/assignments/${assignment.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to withdraw from retreat');
+      }
+      await loadAssignment();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to withdraw from retreat');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading retreat assignment...</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      {assignment ? (
+        <div className="flex items-start justify-between">
+          <div>
+            <p className="text-sm font-medium text-gray-900">
+              {assignment.retreat ? (
+                <Link href={`/admin/retreats/${assignment.retreat_id}/roster`} className="text-indigo-600 hover:text-indigo-900">
+                  {assignment.retreat.name}
+                </Link>
+              ) : 'Unknown retreat'}
+            </p>
+            {assignment.retreat && (
+              <p className="text-sm text-gray-500">{assignment.retreat.location} · {formatDates(assignment.retreat)}</p>
+            )}
+            <span className={`mt-1 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+              assignment.status === 'confirmed' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+            }`}>
+              {assignment.status === 'confirmed' ? 'Confirmed' : 'Waitlisted'}
+            </span>
+          </div>
+          <button
+            type="button"
+            onClick={handleWithdraw}
+            disabled={working}
+            className="text-sm text-red-600 hover:text-red-900 disabled:opacity-50"
+          >
+            Withdraw
+          </button>
+        </div>
+      ) : !eligibleStatuses.includes(applicationStatus) ? (
+        <p className="text-sm text-gray-500 italic">
+          Applications can be assigned to a retreat once they are conditionally approved.
+        </p>
+      ) : openRetreats.length === 0 ? (
+        <p className="text-sm text-gray-500 italic">No retreats are open for assignment.</p>
+      ) : (
+        <div className="flex items-center space-x-3">
+          <select
+            value={selectedRetreatId}
+            onChange={(e) => setSelectedRetreatId(e.target.value)}
+            className="block w-full rounded-md border border-gray-300 shadow-sm sm:text-sm h-10 px-3"
+          >
+            <option value="">Select a retreat...</option>
+            {openRetreats.map((retreat) => {
+              const full = (retreat.confirmed_count ?? 0) >= retreat.capacity;
+              return (
+                <option key={retreat.id} value={retreat.id}>
+                  {retreat.name} ({formatDates(retreat)}) – {full ? 'full, joins waitlist' : `${retreat.capacity - (retreat.confirmed_count ?? 0)} places left`}
+                </option>
+              );
+            })}
+          </select>
+          <button
+            type="button"
+            onClick={handleAssign}
+            disabled={working || !selectedRetreatId}
+            className={`inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white ${
+              working || !selectedRetreatId ? 'bg-gray-400 cursor-not-allowed' : 'bg-indigo-600 hover:bg-indigo-700'
+            }`}
+          >
+            {working ? 'Assigning...' : 'Assign'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RetreatAssignmentPanel;
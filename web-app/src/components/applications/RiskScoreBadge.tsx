@@ -0,0 +1,27 @@
+"use client";
+
+import React from 'react';
+
+interface RiskScoreBadgeProps {
+  riskScore: number | null | undefined;
+  riskBand: string | null | undefined;
+}
+
+const formatBand = (band: string) =>
+  band.replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase());
+
+/**
+ * Weighted 0-100 risk score with its recommendation band; nothing until the application is scored
+ */
+const RiskScoreBadge: React.FC<RiskScoreBadgeProps> = ({ riskScore, riskBand }) => {
+  if (riskScore == null) return null;
+
+  return (
+    <span className="inline-flex items-center space-x-1 px-2 py-1 rounded-md bg-gray-50 text-xs" title="Risk score (0-100)">
+      <span className="font-semibold text-gray-900">{riskScore}</span>
+      {riskBand && <span className="text-gray-600">· {formatBand(riskBand)}</span>}
+    </span>
+  );
+};
+
+export default RiskScoreBadge;
@@ -0,0 +1,109 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { ApplicationScoreHistoryEntry } from '@/types/scoring';
+
+interface ScoreHistoryProps {
+  applicationId: string;
+}
+
+const formatTimestamp = (isoDate: string) =>
+  new Date(isoDate).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+/**
+ * Every score written for an application with the rule-set version that produced it, newest first
+ */
+const ScoreHistory: React.FC<ScoreHistoryProps> = ({ applicationId }) => {
+  const [history, setHistory] = useState<ApplicationScoreHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchHistory() {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/applications/${applicationId}/score-history`, { cache: 'no-store' });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load score history');
+        }
+        if (!cancelled) {
+          setHistory(data.history || []);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load score history');
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    fetchHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [applicationId]);
+
+  if (loading && history.length === 0) {
+    return <p className="text-sm text-gray-500">Loading score history...</p>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  if (history.length === 0) {
+    return <p className="text-sm text-gray-500 italic">No scores recorded yet.</p>;
+  }
+
+  return (
+    <table className="min-w-full divide-y divide-gray-200 text-sm">
+      <thead>
+        <tr>
+          <th className="py-2 pr-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Scored</th>
+          <th className="py-2 pr-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rule Set</th>
+          <th className="py-2 pr-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Red / Yellow / Green</th>
+          <th className="py-2 pr-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Score</th>
+          <th className="py-2 pr-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Risk</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {history.map((entry, index) => (
+          <tr key={entry.id} className={index === 0 ? 'font-medium' : 'text-gray-600'}>
+            <td className="py-2 pr-4 whitespace-nowrap">
+              {formatTimestamp(entry.scored_at)}
+              {index === 0 && <span className="ml-2 text-xs text-blue-600">current</span>}
+            </td>
+            <td className="py-2 pr-4">
+              {entry.version ? `v${entry.version.version_number} · ${entry.version.name}` : 'Unversioned'}
+              {entry.rescore_run_id && <span className="ml-2 text-xs text-gray-500">(rescore)</span>}
+            </td>
+            <td className="py-2 pr-4 whitespace-nowrap">
+              <span className="text-red-600 font-semibold">{entry.red_count}</span>
+              <span className="text-gray-400"> / </span>
+              <span className="text-yellow-600 font-semibold">{entry.yellow_count}</span>
+              <span className="text-gray-400"> / </span>
+              <span className="text-green-600 font-semibold">{entry.green_count}</span>
+            </td>
+            <td className="py-2 pr-4">{entry.calculated_score}</td>
+            <td className="py-2 pr-4 whitespace-nowrap">
+              {entry.risk_score == null ? '—' : `${entry.risk_score}${entry.risk_band ? ` · ${entry.risk_band}` : ''}`}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export default ScoreHistory;
@@ -0,0 +1,48 @@
+"use client";
+
+import React from 'react';
+import { ScoreValue } from '@/types/application';
+import { ScoreTraceEntry } from '@/types/scoring';
+
+interface ScoreTraceProps {
+  score: ScoreValue | undefined;
+  trace: ScoreTraceEntry[] | undefined;
+}
+
+const ruleColors: Record<ScoreValue, string> = {
+  red: 'text-red-700',
+  yellow: 'text-yellow-700',
+  green: 'text-green-700',
+  na: 'text-gray-600',
+};
+
+/**
+ * Explains a flagged answer: the rules that fired when it was scored, who created them and when
+ */
+const ScoreTrace: React.FC<ScoreTraceProps> = ({ score, trace }) => {
+  if (score !== 'red' && score !== 'yellow') return null;
+
+  if (!trace || trace.length === 0) {
+    return <p className="mt-1 text-xs text-gray-400 italic">Scored before rule tracking; rescore to see why.</p>;
+  }
+
+  // The flag comes from the rules matching the answer's colour; list those first
+  const rules = [...trace].sort((a, b) => Number(b.scoreValue === score) - Number(a.scoreValue === score));
+
+  return (
+    <ul className="mt-1 space-y-0.5 text-xs">
+      {rules.map(entry => (
+        <li key={`${entry.targetType}-${entry.ruleId}`} className="text-gray-600">
+          <span className={`font-semibold uppercase ${ruleColors[entry.scoreValue]}`}>{entry.scoreValue}</span>{' '}
+          {entry.targetType} rule: {entry.description}
+          <span className="text-gray-400">
+            {' '}· created{entry.createdByName ? ` by ${entry.createdByName}` : ''} on{' '}
+            {new Date(entry.createdAt).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default ScoreTrace;
@@ -0,0 +1,118 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { ApplicationStatus, ApplicationStatusHistoryEntry, StatusChangeSource } from '@/types/application';
+import { APPLICATION_STATUS_LABELS } from '@/lib/application-status-machine';
+
+interface StatusTimelineProps {
+  applicationId: string;
+  // Change this value (e.g. pass the current status) to reload the timeline after an update
+  refreshKey?: string;
+}
+
+const sourceLabels: Record<StatusChangeSource, string> = {
+  ui: 'Dashboard',
+  webhook: 'Webhook',
+  cron: 'Scheduled job',
+  hubspot: 'HubSpot',
+  system: 'System',
+};
+
+const statusLabel = (status: string | null) =>
+  status ? APPLICATION_STATUS_LABELS[status as ApplicationStatus] || status.replace(/_/g, ' ') : '';
+
+const formatTimestamp = (isoDate: string) =>
+  new Date(isoDate).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const StatusTimeline: React.FC<StatusTimelineProps> = ({ applicationId, refreshKey }) => {
+  const [history, setHistory] = useState<ApplicationStatusHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchHistory() {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/applications/${applicationId}/status-history`, { cache: 'no-store' });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load status history');
+        }
+        if (!cancelled) {
+          setHistory(data.history || []);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load status history');
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    fetchHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [applicationId, refreshKey]);
+
+  if (loading && history.length === 0) {
+    return <p className="text-sm text-gray-500">Loading status history...</p>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  if (history.length === 0) {
+    return <p className="text-sm text-gray-500 italic">No status changes recorded yet.</p>;
+  }
+
+  // Newest first
+  const entries = [...history].reverse();
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2">
+      {entries.map((entry) => {
+        const reason = entry.closed_reason
+          ? entry.rejected_type ? `${entry.closed_reason} (${entry.rejected_type})` : entry.closed_reason
+          : null;
+        return (
+          <li key={entry.id} className="mb-4 ml-4">
+            <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-indigo-500" />
+            <p className="text-sm text-gray-900">
+              {entry.from_status ? (
+                <>
+                  <span className="font-medium">{statusLabel(entry.from_status)}</span>
+                  {' → '}
+                  <span className="font-medium">{statusLabel(entry.to_status)}</span>
+                </>
+              ) : (
+                <span className="font-medium">{statusLabel(entry.to_status)}</span>
+              )}
+              {reason && <span className="text-gray-600"> · {reason}</span>}
+            </p>
+            <p className="text-xs text-gray-500 mt-0.5">
+              {formatTimestamp(entry.created_at)}
+              {' · '}
+              {entry.changed_by_name || sourceLabels[entry.source] || entry.source}
+              {entry.changed_by_name && ` (${sourceLabels[entry.source] || entry.source})`}
+            </p>
+            {entry.note && <p className="text-xs text-gray-500 mt-0.5">{entry.note}</p>}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default StatusTimeline;
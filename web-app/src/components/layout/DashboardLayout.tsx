@@ -2,6 +2,7 @@
 
 import React, { useState } from 'react';
 import UserMenu from '@/components/ui/UserMenu';
+import NotificationBell from '@/components/ui/NotificationBell';
 import Link from 'next/link';
 import Image from 'next/image';
 import { usePathname } from 'next/navigation';
@@ -20,9 +21,11 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
     { name: 'Screenings', href: '/screenings' },
     { name: 'Applications', href: '/applications' },
     { name: 'Participants', href: '/participants' },
+    { name: 'Medical Reviews', href: '/medical-reviews' },
     { name: 'Admin', href: '/admin', 
       subItems: [
         { name: 'Users', href: '/admin/users' },
+        { name: 'Retreats', href: '/admin/retreats' },
         { name: 'Typeform', href: '/admin/typeform' }
       ] 
     },
@@ -154,11 +157,7 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
             </button>
           </div>
           <div className="ml-auto flex items-center space-x-4">
-            <button className="text-gray-500 hover:text-gray-700">
-              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
-                <path strokeLinecap="round" strokeLinejoin="round" d="M14.857 17.082a23.848 23.848 0 0 0 5.454-1.31A8.967 8.967 0 0 1 18 9.75V9A6 6 0 0 0 6 9v.75a8.967 8.967 0 0 1-2.312 6.022c1.733.64 3.56 1.085 5.455 1.31m5.714 0a24.255 24.255 0 0 1-5.714 0m5.714 0a3 3 0 1 1-5.714 0" />
-              </svg>
-            </button>
+            <NotificationBell />
             {/* User menu in header - more visible */}
             <div className="ml-4">
               <UserMenu />
@@ -0,0 +1,198 @@
+"use client";
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/Button';
+import { Retreat, RetreatStatus } from '@/types/retreat';
+
+export const RETREAT_STATUS_LABELS: Record<RetreatStatus, string> = {
+  draft: 'Draft',
+  open: 'Open',
+  closed: 'Closed',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+export const RETREAT_STATUS_COLORS: Record<RetreatStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  open: 'bg-green-100 text-green-800',
+  closed: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-blue-100 text-blue-800',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+export interface RetreatFormPayload {
+  name: string;
+  location: string;
+  start_date: string;
+  end_date: string;
+  capacity: number;
+  price_cents: number | null;
+  currency: string;
+  status: RetreatStatus;
+  facilitator_ids: string[];
+  description: string | null;
+}
+
+interface RetreatFormProps {
+  retreat?: Retreat | null;
+  facilitators: { id: string; name: string }[];
+  submitLabel: string;
+  isSubmitting: boolean;
+  onSubmit: (payload: RetreatFormPayload) => void;
+}
+
+const inputClassName = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm h-10 px-3';
+
+// Create/edit form shared by the new and edit retreat pages
+export default function RetreatForm({ retreat, facilitators, submitLabel, isSubmitting, onSubmit }: RetreatFormProps) {
+  const [formData, setFormData] = useState({
+    name: retreat?.name || '',
+    location: retreat?.location || '',
+    startDate: retreat?.start_date || '',
+    endDate: retreat?.end_date || '',
+    capacity: retreat ? String(retreat.capacity) : '',
+    price: retreat?.price_cents != null ? (retreat.price_cents / 100).toFixed(2) : '',
+    currency: retreat?.currency || 'USD',
+    status: retreat?.status || 'draft' as RetreatStatus,
+    description: retreat?.description || '',
+  });
+  const [facilitatorIds, setFacilitatorIds] = useState<string[]>(retreat?.facilitator_ids || []);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const toggleFacilitator = (id: string) => {
+    setFacilitatorIds(prev => prev.includes(id) ? prev.filter(f => f !== id) : [...prev, id]);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({
+      name: formData.name,
+      location: formData.location,
+      start_date: formData.startDate,
+      end_date: formData.endDate,
+      capacity: parseInt(formData.capacity, 10),
+      price_cents: formData.price.trim() ? Math.round(parseFloat(formData.price) * 100) : null,
+      currency: formData.currency,
+      status: formData.status,
+      facilitator_ids: facilitatorIds,
+      description: formData.description.trim() || null,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="name" className="block text-sm font-medium text-gray-700">
+            Name <span className="text-red-500">*</span>
+          </label>
+          <input id="name" name="name" type="text" required className={inputClassName} value={formData.name} onChange={handleChange} />
+        </div>
+        <div>
+          <label htmlFor="location" className="block text-sm font-medium text-gray-700">
+            Location <span className="text-red-500">*</span>
+          </label>
+          <input id="location" name="location" type="text" required className={inputClassName} value={formData.location} onChange={handleChange} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="startDate" className="block text-sm font-medium text-gray-700">
+            Start Date <span className="text-red-500">*</span>
+          </label>
+          <input id="startDate" name="startDate" type="date" required className={inputClassName} value={formData.startDate} onChange={handleChange} />
+        </div>
+        <div>
+          <label htmlFor="endDate" className="block text-sm font-medium text-gray-700">
+            End Date <span className="text-red-500">*</span>
+          </label>
+          <input id="endDate" name="endDate" type="date" required className={inputClassName} value={formData.endDate} onChange={handleChange} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="capacity" className="block text-sm font-medium text-gray-700">
+            Capacity <span className="text-red-500">*</span>
+          </label>
+          <input id="capacity" name="capacity" type="number" min={0} step={1} required className={inputClassName} value={formData.capacity} onChange={handleChange} />
+          {retreat && (
+            <p className="mt-1 text-xs text-gray-500">
+              Raising capacity confirms applicants from the waitlist
+            </p>
+          )}
+        </div>
+        <div>
+          <label htmlFor="price" className="block text-sm font-medium text-gray-700">Price</label>
+          <input id="price" name="price" type="number" min={0} step="0.01" className={inputClassName} value={formData.price} onChange={handleChange} />
+        </div>
+        <div>
+          <label htmlFor="currency" className="block text-sm font-medium text-gray-700">Currency</label>
+          <input id="currency" name="currency" type="text" maxLength={3} className={inputClassName} value={formData.currency} onChange={handleChange} />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="status" className="block text-sm font-medium text-gray-700">Status</label>
+        <select id="status" name="status" className={inputClassName} value={formData.status} onChange={handleChange}>
+          {(Object.keys(RETREAT_STATUS_LABELS) as RetreatStatus[]).map(status => (
+            <option key={status} value={status}>{RETREAT_STATUS_LABELS[status]}</option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-gray-500">
+          Only open retreats accept new assignments
+        </p>
+      </div>
+
+      <div>
+        <span className="block text-sm font-medium text-gray-700">Facilitators</span>
+        {facilitators.length === 0 ? (
+          <p className="mt-1 text-sm text-gray-500 italic">No active facilitators</p>
+        ) : (
+          <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-2">
+            {facilitators.map(facilitator => (
+              <label key={facilitator.id} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  className="mr-2"
+                  checked={facilitatorIds.includes(facilitator.id)}
+                  onChange={() => toggleFacilitator(facilitator.id)}
+                />
+                {facilitator.name}
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="description" className="block text-sm font-medium text-gray-700">Description</label>
+        <textarea
+          id="description"
+          name="description"
+          rows={4}
+          className="mt-1 block w-full rounded-md border border-gray-300 shadow-sm sm:text-sm p-2"
+          value={formData.description}
+          onChange={handleChange}
+        />
+      </div>
+
+      <div className="flex justify-end space-x-3 pt-4">
+        <Link href="/admin/retreats">
+          <Button type="button" variant="outline" disabled={isSubmitting}>
+            Cancel
+          </Button>
+        </Link>
+        <Button type="submit" isLoading={isSubmitting} disabled={isSubmitting}>
+          {submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,401 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import axios from 'axios';
+import {
+  CompoundExpression,
+  CompoundRuleCriteria,
+  describeExpression,
+  validateCompoundRuleCriteria,
+} from '@/lib/scoring-criteria';
+import CriteriaInputs, { CriteriaDraft, criteriaToDraft, draftToCriteria, emptyCriteriaDraft } from '@/components/scoring/CriteriaInputs';
+
+type RuleScore = 'red' | 'yellow' | 'green' | 'na';
+
+export interface CompoundRuleField {
+  ref: string;
+  title: string;
+  type: string;
+}
+
+interface CompoundRule {
+  id: string;
+  score_value: RuleScore;
+  criteria: CompoundRuleCriteria;
+}
+
+interface CompoundRulesSectionProps {
+  formId: string;
+  // Fields with a ref, in form order
+  fields: CompoundRuleField[];
+}
+
+interface ConditionDraft {
+  field: string;
+  negate: boolean;
+  criteria: CriteriaDraft;
+}
+
+interface RuleDraft {
+  ruleId: string | null;
+  name: string;
+  scoreValue: RuleScore;
+  combinator: 'all' | 'any';
+  conditions: ConditionDraft[];
+  // Nested expressions are edited as JSON
+  advanced: boolean;
+  json: string;
+}
+
+const scoreBadgeClasses: Record<RuleScore, string> = {
+  green: 'bg-green-100 text-green-800',
+  yellow: 'bg-yellow-100 text-yellow-800',
+  red: 'bg-red-100 text-red-800',
+  na: 'bg-gray-100 text-gray-800',
+};
+
+const inputClassName = 'p-1 border rounded text-sm';
+
+const emptyCondition = (field?: CompoundRuleField): ConditionDraft => ({
+  field: field?.ref || '',
+  negate: false,
+  criteria: emptyCriteriaDraft(field?.type),
+});
+
+const conditionsToExpression = (draft: RuleDraft): CompoundExpression => {
+  const leaves: CompoundExpression[] = draft.conditions.map(condition => {
+    const leaf: CompoundExpression = { field: condition.field, criteria: draftToCriteria(condition.criteria) };
+    return condition.negate ? { not: leaf } : leaf;
+  });
+  return draft.combinator === 'all' ? { all: leaves } : { any: leaves };
+};
+
+// Flat AND/OR lists of (optionally negated) conditions open in the builder; anything nested opens as JSON
+const expressionToConditions = (
+  expression: CompoundExpression,
+  fieldTypes: Record<string, string>
+): Pick<RuleDraft, 'combinator' | 'conditions'> | null => {
+  const toCondition = (node: CompoundExpression): ConditionDraft | null => {
+    const negate = 'not' in node;
+    const leaf = 'not' in node ? node.not : node;
+    if (!('field' in leaf)) return null;
+    return { field: leaf.field, negate, criteria: criteriaToDraft(leaf.criteria, fieldTypes[leaf.field]) };
+  };
+
+  const combinator = 'any' in expression ? 'any' : 'all';
+  const children = 'all' in expression ? expression.all : 'any' in expression ? expression.any : [expression];
+  const conditions = children.map(toCondition);
+  if (conditions.some(condition => condition === null)) return null;
+  return { combinator, conditions: conditions as ConditionDraft[] };
+};
+
+/**
+ * Application-level rules that combine answers to several fields,
+ * e.g. "age < 25 AND medications contains SSRI → red". A matching rule adds one count of its score.
+ */
+export default function CompoundRulesSection({ formId, fields }: CompoundRulesSectionProps) {
+  const [rules, setRules] = useState<CompoundRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fieldTitles = Object.fromEntries(fields.map(field => [field.ref, field.title]));
+  const fieldTypes = Object.fromEntries(fields.map(field => [field.ref, field.type]));
+
+  useEffect(() => {
+    const loadRules = async () => {
+      try {
+        setLoading(true);
+        const response = await axios.get(`/api/typeform/forms/${formId}/compound-rules`);
+        setRules(response.data.rules || []);
+      } catch (err) {
+        console.error('Error loading compound rules:', err);
+        setError('Failed to load compound rules.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRules();
+  }, [formId]);
+
+  const startNewRule = () => {
+    setDraft({
+      ruleId: null,
+      name: '',
+      scoreValue: 'red',
+      combinator: 'all',
+      conditions: [emptyCondition(fields[0])],
+      advanced: false,
+      json: '',
+    });
+    setError(null);
+  };
+
+  const startEditRule = (rule: CompoundRule) => {
+    const builder = expressionToConditions(rule.criteria.expression, fieldTypes);
+    setDraft({
+      ruleId: rule.id,
+      name: rule.criteria.name,
+      scoreValue: rule.score_value,
+      combinator: builder?.combinator || 'all',
+      conditions: builder?.conditions || [],
+      advanced: !builder,
+      json: JSON.stringify(rule.criteria.expression, null, 2),
+    });
+    setError(null);
+  };
+
+  const toggleAdvanced = () => {
+    if (!draft) return;
+    if (!draft.advanced) {
+      setDraft({ ...draft, advanced: true, json: JSON.stringify(conditionsToExpression(draft), null, 2) });
+      return;
+    }
+
+    try {
+      const builder = expressionToConditions(JSON.parse(draft.json), fieldTypes);
+      if (!builder) {
+        setError('This expression is nested and can only be edited as JSON.');
+        return;
+      }
+      setDraft({ ...draft, ...builder, advanced: false });
+      setError(null);
+    } catch {
+      setError('Expression is not valid JSON.');
+    }
+  };
+
+  const updateCondition = (index: number, condition: ConditionDraft) => {
+    if (!draft) return;
+    setDraft({ ...draft, conditions: draft.conditions.map((c, i) => (i === index ? condition : c)) });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    let expression: CompoundExpression;
+    if (draft.advanced) {
+      try {
+        expression = JSON.parse(draft.json);
+      } catch {
+        setError('Expression is not valid JSON.');
+        return;
+      }
+    } else {
+      expression = conditionsToExpression(draft);
+    }
+
+    const criteria: CompoundRuleCriteria = { name: draft.name.trim(), expression };
+    const validationError = validateCompoundRuleCriteria(criteria, fields.map(field => field.ref));
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      const payload = { scoreValue: draft.scoreValue, criteria };
+      if (draft.ruleId) {
+        const response = await axios.patch(`/api/typeform/forms/${formId}/compound-rules/${draft.ruleId}`, payload);
+        setRules(prevRules => prevRules.map(rule => (rule.id === draft.ruleId ? response.data.rule : rule)));
+      } else {
+        const response = await axios.post(`/api/typeform/forms/${formId}/compound-rules`, payload);
+        setRules(prevRules => [...prevRules, response.data.rule]);
+      }
+      setDraft(null);
+    } catch (err) {
+      console.error('Error saving compound rule:', err);
+      const message = axios.isAxiosError(err) ? err.response?.data?.error : null;
+      setError(message || 'Failed to save compound rule. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (ruleId: string) => {
+    if (!window.confirm('Remove this compound rule?')) return;
+
+    try {
+      await axios.delete(`/api/typeform/forms/${formId}/compound-rules/${ruleId}`);
+      setRules(prevRules => prevRules.filter(rule => rule.id !== ruleId));
+      setError(null);
+    } catch (err) {
+      console.error('Error removing compound rule:', err);
+      setError('Failed to remove compound rule. Please try again.');
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-md rounded px-8 pt-6 pb-8 mt-6">
+      <h2 className="text-xl font-semibold mb-1">Compound Rules</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Rules that combine answers to several fields. Each matching rule adds one count of its score to the application.
+      </p>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4" role="alert">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading compound rules...</p>
+      ) : rules.length === 0 ? (
+        <p className="text-sm text-gray-500 italic mb-4">No compound rules yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 mb-4">
+          {rules.map(rule => (
+            <li key={rule.id} className="py-3 flex items-start justify-between">
+              <div>
+                <div className="font-medium text-gray-900">{rule.criteria.name}</div>
+                <div className="text-sm text-gray-600">If {describeExpression(rule.criteria.expression, fieldTitles)}</div>
+              </div>
+              <div className="flex items-center whitespace-nowrap ml-4">
+                <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${scoreBadgeClasses[rule.score_value]}`}>
+                  {rule.score_value === 'na' ? 'N/A' : rule.score_value}
+                </span>
+                <button onClick={() => startEditRule(rule)} className="ml-4 text-sm text-blue-600 hover:text-blue-900">
+                  Edit
+                </button>
+                <button onClick={() => handleRemove(rule.id)} className="ml-3 text-sm text-red-600 hover:text-red-900">
+                  Remove
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {draft ? (
+        <div className="border rounded p-4 bg-gray-50 space-y-3 text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Rule name"
+              className={`${inputClassName} w-72`}
+            />
+            <span className="text-gray-700">scores</span>
+            <select
+              value={draft.scoreValue}
+              onChange={(e) => setDraft({ ...draft, scoreValue: e.target.value as RuleScore })}
+              className={`${inputClassName} ${scoreBadgeClasses[draft.scoreValue]}`}
+            >
+              <option value="green">Green</option>
+              <option value="yellow">Yellow</option>
+              <option value="red">Red</option>
+              <option value="na">N/A</option>
+            </select>
+            <button onClick={toggleAdvanced} className="ml-auto text-blue-600 hover:text-blue-900">
+              {draft.advanced ? 'Use builder' : 'Advanced (JSON)'}
+            </button>
+          </div>
+
+          {draft.advanced ? (
+            <div>
+              <textarea
+                value={draft.json}
+                onChange={(e) => setDraft({ ...draft, json: e.target.value })}
+                rows={10}
+                className="w-full p-2 border rounded font-mono text-xs"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Combine {'{ "all": [...] }'}, {'{ "any": [...] }'} and {'{ "not": ... }'} around conditions of the form{' '}
+                {'{ "field": "<field ref>", "criteria": { "operator": "lt", "value": 25 } }'}.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="text-gray-700">Match</span>
+                <select
+                  value={draft.combinator}
+                  onChange={(e) => setDraft({ ...draft, combinator: e.target.value as 'all' | 'any' })}
+                  className={inputClassName}
+                >
+                  <option value="all">all</option>
+                  <option value="any">any</option>
+                </select>
+                <span className="text-gray-700">of these conditions:</span>
+              </div>
+
+              {draft.conditions.map((condition, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2 pl-4">
+                  <select
+                    value={condition.field}
+                    onChange={(e) => updateCondition(index, {
+                      ...condition,
+                      field: e.target.value,
+                      criteria: emptyCriteriaDraft(fieldTypes[e.target.value]),
+                    })}
+                    className={`${inputClassName} max-w-xs`}
+                  >
+                    {fields.map(field => (
+                      <option key={field.ref} value={field.ref}>{field.title}</option>
+                    ))}
+                  </select>
+                  <label className="flex items-center text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={condition.negate}
+                      onChange={(e) => updateCondition(index, { ...condition, negate: e.target.checked })}
+                      className="mr-1"
+                    />
+                    not
+                  </label>
+                  <CriteriaInputs
+                    draft={condition.criteria}
+                    onChange={(criteria) => updateCondition(index, { ...condition, criteria })}
+                    fieldType={fieldTypes[condition.field]}
+                  />
+                  {draft.conditions.length > 1 && (
+                    <button
+                      onClick={() => setDraft({ ...draft, conditions: draft.conditions.filter((_, i) => i !== index) })}
+                      className="text-red-600 hover:text-red-900"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+              ))}
+
+              <button
+                onClick={() => setDraft({ ...draft, conditions: [...draft.conditions, emptyCondition(fields[0])] })}
+                className="pl-4 text-blue-600 hover:text-blue-900"
+              >
+                + Add condition
+              </button>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-3 py-1 rounded bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Rule'}
+            </button>
+            <button
+              onClick={() => { setDraft(null); setError(null); }}
+              className="px-3 py-1 text-gray-600 hover:text-gray-900"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={startNewRule}
+          disabled={fields.length === 0}
+          className="text-sm text-blue-600 hover:text-blue-900 disabled:text-gray-400"
+        >
+          + Add compound rule
+        </button>
+      )}
+    </div>
+  );
+}
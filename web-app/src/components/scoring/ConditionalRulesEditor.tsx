@@ -0,0 +1,157 @@
+"use client";
+
+import React, { useState } from 'react';
+import { ScoringCriteria, describeCriteria, validateCriteria } from '@/lib/scoring-criteria';
+import CriteriaInputs, { CriteriaDraft, criteriaToDraft, draftToCriteria, emptyCriteriaDraft } from '@/components/scoring/CriteriaInputs';
+
+type RuleScore = 'red' | 'yellow' | 'green' | 'na';
+
+export interface ConditionalRule {
+  id: string;
+  score_value: RuleScore;
+  criteria: ScoringCriteria;
+}
+
+interface ConditionalRulesEditorProps {
+  fieldType: string;
+  rules: ConditionalRule[];
+  // Create (ruleId null) or update a rule; rejects with a message on failure
+  onSave: (ruleId: string | null, scoreValue: RuleScore, criteria: ScoringCriteria) => Promise<void>;
+  onRemove: (ruleId: string) => void;
+}
+
+interface DraftRule {
+  ruleId: string | null;
+  criteria: CriteriaDraft;
+  scoreValue: RuleScore;
+}
+
+const scoreBadgeClasses: Record<RuleScore, string> = {
+  green: 'bg-green-100 text-green-800',
+  yellow: 'bg-yellow-100 text-yellow-800',
+  red: 'bg-red-100 text-red-800',
+  na: 'bg-gray-100 text-gray-800',
+};
+
+const emptyDraft = (fieldType: string): DraftRule => ({
+  ruleId: null,
+  criteria: emptyCriteriaDraft(fieldType),
+  scoreValue: 'red',
+});
+
+const ruleToDraft = (rule: ConditionalRule, fieldType: string): DraftRule => ({
+  ruleId: rule.id,
+  criteria: criteriaToDraft(rule.criteria, fieldType),
+  scoreValue: rule.score_value,
+});
+
+/**
+ * Lists a field's conditional rules (e.g. "age < 21 → red") and edits them.
+ * Conditional rules only count when the answer matches; the field's base score still applies to every answer.
+ */
+export default function ConditionalRulesEditor({ fieldType, rules, onSave, onRemove }: ConditionalRulesEditorProps) {
+  const [draft, setDraft] = useState<DraftRule | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const criteria = draftToCriteria(draft.criteria);
+    const validationError = validateCriteria(criteria);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await onSave(draft.ruleId, draft.scoreValue, criteria);
+      setDraft(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClassName = 'p-1 border rounded text-sm';
+
+  return (
+    <div className="space-y-3">
+      {rules.length === 0 ? (
+        <p className="text-sm text-gray-500 italic">No conditional rules. Add one to score only matching answers.</p>
+      ) : (
+        <ul className="space-y-1">
+          {rules.map(rule => (
+            <li key={rule.id} className="flex items-center text-sm">
+              <span className="text-gray-900 mr-2">{describeCriteria(rule.criteria)}</span>
+              <span className="text-gray-400 mr-2">→</span>
+              <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${scoreBadgeClasses[rule.score_value]}`}>
+                {rule.score_value === 'na' ? 'N/A' : rule.score_value}
+              </span>
+              <button
+                onClick={() => { setDraft(ruleToDraft(rule, fieldType)); setError(null); }}
+                className="ml-4 text-blue-600 hover:text-blue-900"
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => onRemove(rule.id)}
+                className="ml-3 text-red-600 hover:text-red-900"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {draft ? (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-gray-700">If {draft.criteria.age ? 'age' : 'answer'}</span>
+          <CriteriaInputs
+            draft={draft.criteria}
+            onChange={(criteria) => setDraft({ ...draft, criteria })}
+            fieldType={fieldType}
+          />
+
+          <span className="text-gray-700">then</span>
+          <select
+            value={draft.scoreValue}
+            onChange={(e) => setDraft({ ...draft, scoreValue: e.target.value as RuleScore })}
+            className={`${inputClassName} ${scoreBadgeClasses[draft.scoreValue]}`}
+          >
+            <option value="green">Green</option>
+            <option value="yellow">Yellow</option>
+            <option value="red">Red</option>
+            <option value="na">N/A</option>
+          </select>
+
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="ml-2 px-3 py-1 rounded bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Rule'}
+          </button>
+          <button
+            onClick={() => { setDraft(null); setError(null); }}
+            className="px-3 py-1 text-gray-600 hover:text-gray-900"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={() => { setDraft(emptyDraft(fieldType)); setError(null); }}
+          className="text-sm text-blue-600 hover:text-blue-900"
+        >
+          + Add conditional rule
+        </button>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import React from 'react';
+import { CRITERIA_OPERATOR_LABELS, CriteriaOperator, ScoringCriteria } from '@/lib/scoring-criteria';
+
+// Form state for one condition; converted to ScoringCriteria on save
+export interface CriteriaDraft {
+  operator: CriteriaOperator;
+  value: string;
+  min: string;
+  max: string;
+  values: string;
+  age: boolean;
+}
+
+export const emptyCriteriaDraft = (fieldType?: string): CriteriaDraft => ({
+  operator: fieldType === 'date' ? 'lt' : fieldType === 'number' || fieldType === 'rating' || fieldType === 'opinion_scale' ? 'lte' : 'contains',
+  value: '',
+  min: '',
+  max: '',
+  values: '',
+  age: false,
+});
+
+// Keep numbers as numbers so they compare numerically after a JSON round trip
+const toOperand = (value: string): string | number => {
+  const trimmed = value.trim();
+  return trimmed !== '' && isFinite(Number(trimmed)) ? Number(trimmed) : trimmed;
+};
+
+export const draftToCriteria = (draft: CriteriaDraft): ScoringCriteria => {
+  const criteria: ScoringCriteria = { operator: draft.operator };
+  if (draft.operator === 'between') {
+    criteria.min = toOperand(draft.min);
+    criteria.max = toOperand(draft.max);
+  } else if (draft.operator === 'in' || draft.operator === 'not_in') {
+    criteria.values = draft.values.split(',').map(v => v.trim()).filter(Boolean);
+  } else {
+    criteria.value = draft.operator === 'regex' || draft.operator === 'contains' ? draft.value : toOperand(draft.value);
+  }
+  if (draft.age) criteria.transform = 'age';
+  return criteria;
+};
+
+export const criteriaToDraft = (criteria: ScoringCriteria, fieldType?: string): CriteriaDraft => ({
+  ...emptyCriteriaDraft(fieldType),
+  operator: criteria.operator || 'eq',
+  value: criteria.value !== undefined ? String(criteria.value) : criteria.answer || '',
+  min: criteria.min !== undefined ? String(criteria.min) : '',
+  max: criteria.max !== undefined ? String(criteria.max) : '',
+  values: (criteria.values || []).join(', '),
+  age: criteria.transform === 'age',
+});
+
+interface CriteriaInputsProps {
+  draft: CriteriaDraft;
+  onChange: (draft: CriteriaDraft) => void;
+  // Offers the date-of-birth option for date fields
+  fieldType?: string;
+}
+
+const inputClassName = 'p-1 border rounded text-sm';
+
+/**
+ * Operator and operand inputs for one condition, laid out inline
+ */
+export default function CriteriaInputs({ draft, onChange, fieldType }: CriteriaInputsProps) {
+  return (
+    <>
+      <select
+        value={draft.operator}
+        onChange={(e) => onChange({ ...draft, operator: e.target.value as CriteriaOperator })}
+        className={inputClassName}
+      >
+        {(Object.keys(CRITERIA_OPERATOR_LABELS) as CriteriaOperator[]).map(operator => (
+          <option key={operator} value={operator}>{CRITERIA_OPERATOR_LABELS[operator]}</option>
+        ))}
+      </select>
+
+      {draft.operator === 'between' ? (
+        <>
+          <input value={draft.min} onChange={(e) => onChange({ ...draft, min: e.target.value })} placeholder="from" className={`${inputClassName} w-28`} />
+          <span className="text-gray-700">and</span>
+          <input value={draft.max} onChange={(e) => onChange({ ...draft, max: e.target.value })} placeholder="to" className={`${inputClassName} w-28`} />
+        </>
+      ) : draft.operator === 'in' || draft.operator === 'not_in' ? (
+        <input
+          value={draft.values}
+          onChange={(e) => onChange({ ...draft, values: e.target.value })}
+          placeholder="comma-separated options"
+          className={`${inputClassName} w-64`}
+        />
+      ) : (
+        <input
+          value={draft.value}
+          onChange={(e) => onChange({ ...draft, value: e.target.value })}
+          placeholder={draft.operator === 'regex' ? 'pattern' : 'value'}
+          className={`${inputClassName} w-40`}
+        />
+      )}
+
+      {(fieldType === 'date' || draft.age) && (
+        <label className="flex items-center text-gray-700 ml-2">
+          <input
+            type="checkbox"
+            checked={draft.age}
+            onChange={(e) => onChange({ ...draft, age: e.target.checked })}
+            className="mr-1"
+          />
+          Answer is a date of birth (compare age in years)
+        </label>
+      )}
+    </>
+  );
+}
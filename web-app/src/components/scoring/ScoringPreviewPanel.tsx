@@ -0,0 +1,180 @@
+"use client";
+
+import React, { useState } from 'react';
+import axios from 'axios';
+import { ApplicationScoreColor, DraftScoringRule, ScoreTotals, ScoringPreviewResult } from '@/types/scoring';
+import { ScoreValue } from '@/types/application';
+
+interface ScoringPreviewPanelProps {
+  formId: string;
+  rules: DraftScoringRule[];
+  onClose: () => void;
+}
+
+const colorBadgeClasses: Record<ApplicationScoreColor | ScoreValue, string> = {
+  green: 'bg-green-100 text-green-800',
+  yellow: 'bg-yellow-100 text-yellow-800',
+  red: 'bg-red-100 text-red-800',
+  na: 'bg-gray-100 text-gray-800',
+  none: 'bg-gray-100 text-gray-800',
+};
+
+const ScoreBadge = ({ value }: { value: ApplicationScoreColor | ScoreValue }) => (
+  <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${colorBadgeClasses[value]}`}>
+    {value === 'na' ? 'N/A' : value}
+  </span>
+);
+
+const Totals = ({ totals }: { totals: ScoreTotals }) => (
+  <div className="flex items-center gap-2">
+    <ScoreBadge value={totals.color} />
+    <span className="text-red-600 font-semibold">{totals.redCount}</span>
+    <span className="text-yellow-600 font-semibold">{totals.yellowCount}</span>
+    <span className="text-green-600 font-semibold">{totals.greenCount}</span>
+    <span className="text-gray-500">({totals.totalScore})</span>
+  </div>
+);
+
+/**
+ * Runs the draft rule set against recent applications without saving anything
+ * and shows, per applicant, what would change
+ */
+export default function ScoringPreviewPanel({ formId, rules, onClose }: ScoringPreviewPanelProps) {
+  const [limit, setLimit] = useState(20);
+  const [preview, setPreview] = useState<ScoringPreviewResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [changedOnly, setChangedOnly] = useState(true);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const runPreview = async () => {
+    try {
+      setRunning(true);
+      setError(null);
+      const response = await axios.post(`/api/typeform/forms/${formId}/rule-set/preview`, { rules, limit });
+      setPreview(response.data);
+    } catch (err) {
+      console.error('Error previewing rule set:', err);
+      const message = axios.isAxiosError(err) ? err.response?.data?.error : null;
+      setError(message || 'Failed to preview the draft. Please try again.');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const rows = (preview?.applications || []).filter(
+    application => !changedOnly || application.countsChanged || application.responseChanges.length > 0
+  );
+
+  return (
+    <div className="bg-white shadow-md rounded px-8 pt-6 pb-8 mb-6 border border-blue-200">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">Draft Impact Preview</h2>
+        <button onClick={onClose} className="text-sm text-gray-600 hover:text-gray-900">Close</button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm mb-4">
+        <span className="text-gray-700">Score the last</span>
+        <input
+          type="number"
+          min={1}
+          max={100}
+          value={limit}
+          onChange={(e) => setLimit(parseInt(e.target.value, 10) || 1)}
+          className="p-1 border rounded w-20"
+        />
+        <span className="text-gray-700">applications with the current and draft rules</span>
+        <button
+          onClick={runPreview}
+          disabled={running}
+          className="ml-2 px-3 py-1 rounded bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+        >
+          {running ? 'Running...' : 'Run Preview'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4" role="alert">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {preview && (
+        <>
+          <div className="flex items-center justify-between mb-3 text-sm">
+            <p className="text-gray-700">
+              {preview.changedCount} of {preview.sampleSize} applications would change;{' '}
+              {preview.colorChangedCount} would change colour.
+            </p>
+            <label className="flex items-center text-gray-700">
+              <input
+                type="checkbox"
+                checked={changedOnly}
+                onChange={(e) => setChangedOnly(e.target.checked)}
+                className="mr-2"
+              />
+              Changed only
+            </label>
+          </div>
+
+          {rows.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">No applications would change.</p>
+          ) : (
+            <div className="overflow-x-auto shadow rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Applicant</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Submitted</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Current (R/Y/G)</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Draft (R/Y/G)</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Answers Changed</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {rows.map(application => (
+                    <React.Fragment key={application.applicationId}>
+                      <tr
+                        onClick={() => setExpanded(expanded === application.applicationId ? null : application.applicationId)}
+                        className={`cursor-pointer hover:bg-gray-50 ${application.colorChanged ? 'bg-yellow-50' : ''}`}
+                      >
+                        <td className="px-4 py-2 text-gray-900">{application.applicantName}</td>
+                        <td className="px-4 py-2 text-gray-500">
+                          {application.submissionDate ? new Date(application.submissionDate).toLocaleDateString() : '—'}
+                        </td>
+                        <td className="px-4 py-2"><Totals totals={application.current} /></td>
+                        <td className="px-4 py-2"><Totals totals={application.proposed} /></td>
+                        <td className="px-4 py-2 text-gray-700">{application.responseChanges.length}</td>
+                      </tr>
+                      {expanded === application.applicationId && (
+                        <tr>
+                          <td colSpan={5} className="px-8 py-3 bg-gray-50">
+                            {application.responseChanges.length === 0 ? (
+                              <p className="text-gray-500 italic">Answer colours are unchanged; only the number of matching rules differs.</p>
+                            ) : (
+                              <ul className="space-y-1">
+                                {application.responseChanges.map(change => (
+                                  <li key={change.responseId} className="flex items-center gap-2">
+                                    <span className="font-medium text-gray-900">{change.fieldTitle}:</span>
+                                    <span className="text-gray-600 truncate max-w-xs">{change.answer || '(blank)'}</span>
+                                    <ScoreBadge value={change.currentScore} />
+                                    <span className="text-gray-400">→</span>
+                                    <ScoreBadge value={change.proposedScore} />
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -14,6 +14,8 @@ const getRoleDisplayName = (role: UserRole): string => {
       return 'Screener';
     case 'FACILITATOR':
       return 'Facilitator';
+    case 'MEDICAL_REVIEWER':
+      return 'Medical Reviewer';
     case 'PROGRAM_OPERATIONS_MANAGER':
       return 'Program Operations Manager';
     case 'PROGRAM_OPERATIONS_ADMINISTRATOR':
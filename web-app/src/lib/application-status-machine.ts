@@ -0,0 +1,205 @@
+import { ApplicationStatus } from '@/types/application';
+
+/**
+ * Declarative application status state machine.
+ * Shared by the PATCH /api/applications/[id] handler (enforcement) and the
+ * screening page (which only offers legal next statuses). Must stay free of server-only imports.
+ */
+
+// Facts a guard may need to decide whether a transition is allowed
+export interface TransitionContext {
+  // Closed reason / rejected type supplied with the request, or already stored on the application
+  closedReason?: string | null;
+  rejectedType?: string | null;
+  // At least one screening note has been submitted for the application
+  screeningSubmitted?: boolean;
+  // A medical reviewer has cleared the applicant
+  medicalReviewCleared?: boolean;
+  // Role of the user making the change
+  actorRole?: string | null;
+}
+
+// Returns an error message when the transition must be refused, otherwise null
+type TransitionGuard = (context: TransitionContext) => string | null;
+
+export interface TransitionResult {
+  allowed: boolean;
+  error?: string;
+}
+
+export const APPLICATION_STATUS_LABELS: Record<ApplicationStatus, string> = {
+  new: 'New',
+  pending: 'Pending',
+  screening_scheduled: 'Screening Scheduled',
+  screening_no_show: 'Screening No Show',
+  invited_to_reschedule: 'Invited to Reschedule',
+  secondary_screening: 'Secondary Screening',
+  medical_review_required: 'Medical Review Required',
+  pending_medical_review: 'Pending Medical Review',
+  pending_medication_change: 'Pending Medication Change',
+  pending_ic: 'Pending IC',
+  conditionally_approved: 'Conditionally Approved',
+  screening_in_process: 'Screening',
+  screening_completed: 'Screening Completed',
+  closed: 'Closed',
+};
+
+const requireClosedReason: TransitionGuard = ({ closedReason, rejectedType }) => {
+  if (!closedReason) return 'A closed reason is required to close an application';
+  if (closedReason === 'Rejected' && !rejectedType) return 'A rejected type (Temporary or Permanent) is required when rejecting';
+  return null;
+};
+
+const requireSubmittedScreening: TransitionGuard = ({ screeningSubmitted }) =>
+  screeningSubmitted ? null : 'Screening notes must be submitted before making this decision';
+
+const requireMedicalClearance: TransitionGuard = ({ medicalReviewCleared }) =>
+  medicalReviewCleared ? null : 'The medical review must be cleared first';
+
+const requireProgramOperations: TransitionGuard = ({ actorRole }) =>
+  actorRole === 'PROGRAM_OPERATIONS_ADMINISTRATOR' || actorRole === 'PROGRAM_OPERATIONS_MANAGER'
+    ? null
+    : 'Only program operations can reopen a closed application';
+
+// Allowed edges out of each status, with the guards that must pass for each edge.
+// Staying in the same status is always allowed (e.g. editing a closed reason) but still runs the target's guards.
+const TRANSITIONS: Record<ApplicationStatus, Partial<Record<ApplicationStatus, TransitionGuard[]>>> = {
+  new: {
+    pending: [],
+    screening_scheduled: [],
+    invited_to_reschedule: [],
+    screening_in_process: [],
+    closed: [requireClosedReason],
+  },
+  pending: {
+    new: [],
+    screening_scheduled: [],
+    invited_to_reschedule: [],
+    screening_in_process: [],
+    closed: [requireClosedReason],
+  },
+  screening_scheduled: {
+    screening_no_show: [],
+    invited_to_reschedule: [],
+    screening_in_process: [],
+    closed: [requireClosedReason],
+  },
+  screening_no_show: {
+    invited_to_reschedule: [],
+    screening_scheduled: [],
+    screening_in_process: [],
+    closed: [requireClosedReason],
+  },
+  invited_to_reschedule: {
+    screening_scheduled: [],
+    screening_no_show: [],
+    screening_in_process: [],
+    closed: [requireClosedReason],
+  },
+  screening_in_process: {
+    secondary_screening: [requireSubmittedScreening],
+    medical_review_required: [requireSubmittedScreening],
+    conditionally_approved: [requireSubmittedScreening],
+    screening_completed: [requireSubmittedScreening],
+    closed: [requireClosedReason],
+  },
+  secondary_screening: {
+    screening_scheduled: [],
+    screening_in_process: [],
+    medical_review_required: [requireSubmittedScreening],
+    conditionally_approved: [requireSubmittedScreening],
+    closed: [requireClosedReason],
+  },
+  medical_review_required: {
+    pending_medical_review: [],
+    pending_medication_change: [],
+    conditionally_approved: [requireSubmittedScreening, requireMedicalClearance],
+    closed: [requireClosedReason],
+  },
+  pending_medical_review: {
+    medical_review_required: [],
+    pending_medication_change: [],
+    secondary_screening: [],
+    conditionally_approved: [requireSubmittedScreening, requireMedicalClearance],
+    closed: [requireClosedReason],
+  },
+  pending_medication_change: {
+    screening_in_process: [],
+    secondary_screening: [],
+    pending_medical_review: [],
+    closed: [requireClosedReason],
+  },
+  conditionally_approved: {
+    pending_ic: [],
+    medical_review_required: [],
+    closed: [requireClosedReason],
+  },
+  pending_ic: {
+    conditionally_approved: [],
+    screening_completed: [],
+    closed: [requireClosedReason],
+  },
+  screening_completed: {
+    closed: [requireClosedReason],
+  },
+  closed: {
+    screening_in_process: [requireProgramOperations],
+  },
+};
+
+// Guards that apply when re-saving the current status
+const SELF_TRANSITION_GUARDS: Partial<Record<ApplicationStatus, TransitionGuard[]>> = {
+  closed: [requireClosedReason],
+};
+
+const isKnownStatus = (status: string): status is ApplicationStatus =>
+  Object.prototype.hasOwnProperty.call(TRANSITIONS, status);
+
+/**
+ * Statuses an application may move to from `from`, not including `from` itself.
+ * Guards are not evaluated, so a listed status can still be refused by the server.
+ */
+export function getAllowedTransitions(from: ApplicationStatus | string): ApplicationStatus[] {
+  if (!isKnownStatus(from)) return [];
+  return Object.keys(TRANSITIONS[from]) as ApplicationStatus[];
+}
+
+/**
+ * Check whether an application may move from one status to another
+ * @param from Current status
+ * @param to Requested status
+ * @param context Facts needed by the edge's guards
+ * @returns allowed, or the reason the transition is refused
+ */
+export function validateStatusTransition(
+  from: ApplicationStatus | string,
+  to: ApplicationStatus | string,
+  context: TransitionContext = {}
+): TransitionResult {
+  if (!isKnownStatus(to)) {
+    return { allowed: false, error: `Invalid status value: ${to}` };
+  }
+  if (!isKnownStatus(from)) {
+    // Legacy or unexpected stored status: allow moving into the state machine
+    return { allowed: true };
+  }
+
+  let guards: TransitionGuard[] | undefined;
+  if (from === to) {
+    guards = SELF_TRANSITION_GUARDS[to] || [];
+  } else {
+    guards = TRANSITIONS[from][to];
+    if (!guards) {
+      return {
+        allowed: false,
+        error: `Cannot change status from "${APPLICATION_STATUS_LABELS[from]}" to "${APPLICATION_STATUS_LABELS[to]}"`,
+      };
+    }
+  }
+
+  for (const guard of guards) {
+    const error = guard(context);
+    if (error) return { allowed: false, error };
+  }
+  return { allowed: true };
+}
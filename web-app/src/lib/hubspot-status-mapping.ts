@@ -0,0 +1,64 @@
+import { ApplicationStatus } from '@/types/application';
+import { APPLICATION_STATUS_LABELS } from '@/lib/application-status-machine';
+
+/**
+ * The application states that need a HubSpot deal stage and application_status value.
+ * Shared by the HubSpot status mapping service (validation, lookups) and the admin mapping page.
+ * Must stay free of server-only imports.
+ */
+
+export interface HubSpotMappingKey {
+  status: ApplicationStatus;
+  closedReason: string | null;
+  rejectedType: string | null;
+  label: string;
+}
+
+// Statuses that are pushed differently depending on the closed reason and rejected type
+const STATUSES_WITH_CLOSED_REASON: ApplicationStatus[] = ['closed', 'screening_completed'];
+
+const CLOSED_REASON_VARIANTS: { closedReason: string; rejectedType: string | null }[] = [
+  { closedReason: 'Approved', rejectedType: null },
+  { closedReason: 'Unresponsive', rejectedType: null },
+  { closedReason: 'Rejected', rejectedType: 'Temporary' },
+  { closedReason: 'Rejected', rejectedType: 'Permanent' },
+];
+
+const withVariants = (status: ApplicationStatus): HubSpotMappingKey[] =>
+  CLOSED_REASON_VARIANTS.map(({ closedReason, rejectedType }) => ({
+    status,
+    closedReason,
+    rejectedType,
+    label: [APPLICATION_STATUS_LABELS[status], closedReason, rejectedType].filter(Boolean).join(' - '),
+  }));
+
+/**
+ * Every key that must be mapped, in display order. A closed application always has a closed
+ * reason; screening_completed may be set with or without one.
+ */
+export const HUBSPOT_MAPPING_KEYS: HubSpotMappingKey[] = (Object.keys(APPLICATION_STATUS_LABELS) as ApplicationStatus[])
+  .flatMap(status => {
+    const plain = { status, closedReason: null, rejectedType: null, label: APPLICATION_STATUS_LABELS[status] };
+    if (!STATUSES_WITH_CLOSED_REASON.includes(status)) return [plain];
+    return status === 'closed' ? withVariants(status) : [plain, ...withVariants(status)];
+  });
+
+const capitalize = (value: string | null | undefined): string | null => {
+  const trimmed = (value || '').trim().toLowerCase();
+  return trimmed ? trimmed.charAt(0).toUpperCase() + trimmed.slice(1) : null;
+};
+
+/**
+ * Identify the mapping for an application's fields. Closed reasons and rejected types are matched
+ * case-insensitively, and ignored for statuses that do not use them.
+ */
+export function hubspotMappingKeyOf(
+  status: string,
+  closedReason?: string | null,
+  rejectedType?: string | null
+): string {
+  if (!STATUSES_WITH_CLOSED_REASON.includes(status as ApplicationStatus)) return status;
+  const reason = capitalize(closedReason);
+  const type = reason === 'Rejected' ? capitalize(rejectedType) : null;
+  return [status, reason || '', type || ''].join('|');
+}
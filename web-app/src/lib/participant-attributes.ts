@@ -0,0 +1,89 @@
+/**
+ * Participant attributes that can be mapped from form fields, and how their answers
+ * are validated before being written to the participant. Shared by ApplicationService
+ * (extraction), the field mapping admin page and the participant details page.
+ * Must stay free of server-only imports.
+ */
+
+import {
+  ParticipantAttribute,
+  ParticipantAttributeDefinition,
+  ParticipantAttributeKind,
+  ParticipantProfile,
+  ParticipantProfileAttribute,
+} from '@/types/participantMapping';
+
+export const PARTICIPANT_ATTRIBUTES: ParticipantAttributeDefinition[] = [
+  { key: 'email', label: 'Email', kind: 'email', storage: 'column' },
+  { key: 'first_name', label: 'First name', kind: 'text', storage: 'column' },
+  { key: 'last_name', label: 'Last name', kind: 'text', storage: 'column' },
+  {
+    key: 'full_name',
+    label: 'Full name',
+    kind: 'text',
+    storage: 'column',
+    description: 'Split into first and last name when those are not mapped',
+  },
+  { key: 'phone', label: 'Phone', kind: 'phone', storage: 'column' },
+  { key: 'date_of_birth', label: 'Date of birth', kind: 'date', storage: 'column' },
+  { key: 'pronouns', label: 'Pronouns', kind: 'text', storage: 'profile' },
+  { key: 'city', label: 'City', kind: 'text', storage: 'profile' },
+  { key: 'country', label: 'Country', kind: 'text', storage: 'profile' },
+  { key: 'emergency_contact_name', label: 'Emergency contact name', kind: 'text', storage: 'profile' },
+  { key: 'emergency_contact_phone', label: 'Emergency contact phone', kind: 'phone', storage: 'profile' },
+  { key: 'emergency_contact_relationship', label: 'Emergency contact relationship', kind: 'text', storage: 'profile' },
+];
+
+const ATTRIBUTES_BY_KEY = new Map(PARTICIPANT_ATTRIBUTES.map(attribute => [attribute.key, attribute]));
+
+// Longest free-text value kept for a single attribute
+const MAX_TEXT_LENGTH = 200;
+
+export function getParticipantAttribute(key: string): ParticipantAttributeDefinition | undefined {
+  return ATTRIBUTES_BY_KEY.get(key as ParticipantAttribute);
+}
+
+export function isProfileAttribute(key: string): key is ParticipantProfileAttribute {
+  return getParticipantAttribute(key)?.storage === 'profile';
+}
+
+/**
+ * Validate and normalize an answer for an attribute of the given kind
+ * @returns The value to store, or null when the answer is not valid for the attribute
+ */
+export function normalizeAttributeValue(kind: ParticipantAttributeKind, raw: string | null | undefined): string | null {
+  const value = (raw || '').trim();
+  if (!value) return null;
+
+  switch (kind) {
+    case 'email':
+      return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value) ? value.toLowerCase() : null;
+    case 'phone': {
+      const digits = value.replace(/\D/g, '');
+      if (digits.length < 7 || digits.length > 15) return null;
+      return value.startsWith('+') ? `+${digits}` : digits;
+    }
+    case 'date': {
+      const date = value.slice(0, 10);
+      return /^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(Date.parse(`${date}T00:00:00Z`)) ? date : null;
+    }
+    case 'text':
+      return value.slice(0, MAX_TEXT_LENGTH);
+  }
+}
+
+/**
+ * Keep only known profile attributes with valid values, so a stored profile is always well-formed
+ */
+export function sanitizeParticipantProfile(raw: unknown): ParticipantProfile {
+  const profile: ParticipantProfile = {};
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return profile;
+
+  for (const [key, value] of Object.entries(raw)) {
+    const attribute = getParticipantAttribute(key);
+    if (!attribute || attribute.storage !== 'profile' || typeof value !== 'string') continue;
+    const normalized = normalizeAttributeValue(attribute.kind, value);
+    if (normalized) profile[attribute.key as ParticipantProfileAttribute] = normalized;
+  }
+  return profile;
+}
@@ -0,0 +1,137 @@
+/**
+ * Fuzzy matching of participant records that may be the same person: someone who
+ * reapplied with a different email, a typo in their email, or a nickname. Shared by
+ * ParticipantMergeService and the duplicates admin page. Must stay free of server-only
+ * imports.
+ *
+ * Pairs are only compared within blocks (same phone, same date of birth, similar name
+ * or same email domain and prefix) so the scan stays well short of comparing every pair.
+ */
+
+import { DuplicateMatchReason, ParticipantMatchFields } from '@/types/participantMerge';
+
+// Pairs scoring below this are not reported
+export const DUPLICATE_SCORE_THRESHOLD = 50;
+
+const POINTS = {
+  phone: 40,
+  dateOfBirth: 30,
+  exactName: 30,
+  similarName: 20,
+  similarEmail: 25,
+};
+
+// Defaults given when a form supplied no name or email (see ApplicationService.extractParticipantData)
+const PLACEHOLDER_NAME = 'anonymousapplicant';
+const isPlaceholderEmail = (email: string | null | undefined) => /^applicant_\d+@example\.com$/i.test(email || '');
+
+const normalizeName = (value: string | null | undefined) =>
+  (value || '').toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z]/g, '');
+
+// Last 10 digits, so "+1 (555) 010-2000" and "5550102000" match
+export const normalizePhone = (value: string | null | undefined) => {
+  const digits = (value || '').replace(/\D/g, '');
+  return digits.length >= 7 ? digits.slice(-10) : '';
+};
+
+const splitEmail = (value: string | null | undefined) => {
+  const [local = '', domain = ''] = (value || '').toLowerCase().trim().split('@');
+  return { local: local.replace(/\+.*$/, '').replace(/\./g, ''), domain };
+};
+
+/**
+ * Levenshtein edit distance
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity between 0 and 1 based on edit distance
+ */
+export function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 0 : 1 - editDistance(a, b) / longest;
+}
+
+/**
+ * Score how likely two participants are the same person
+ * @returns The score (0-100+) and why the pair matched
+ */
+export function scoreDuplicatePair(
+  a: ParticipantMatchFields,
+  b: ParticipantMatchFields
+): { score: number; reasons: DuplicateMatchReason[] } {
+  const reasons: DuplicateMatchReason[] = [];
+  let score = 0;
+
+  const phoneA = normalizePhone(a.phone);
+  if (phoneA && phoneA === normalizePhone(b.phone)) {
+    score += POINTS.phone;
+    reasons.push('same_phone');
+  }
+
+  if (a.date_of_birth && a.date_of_birth.slice(0, 10) === b.date_of_birth?.slice(0, 10)) {
+    score += POINTS.dateOfBirth;
+    reasons.push('same_date_of_birth');
+  }
+
+  const fullName = (participant: ParticipantMatchFields) => {
+    const name = normalizeName(participant.first_name) + normalizeName(participant.last_name);
+    return name === PLACEHOLDER_NAME ? '' : name;
+  };
+  const nameA = fullName(a);
+  const nameB = fullName(b);
+  const lastNameSimilarity = similarity(normalizeName(a.last_name), normalizeName(b.last_name));
+  if (nameA && nameA === nameB) {
+    score += POINTS.exactName;
+    reasons.push('same_name');
+  } else if (nameA && nameB && (similarity(nameA, nameB) >= 0.8 || lastNameSimilarity === 1)) {
+    score += POINTS.similarName;
+    reasons.push('similar_name');
+  }
+
+  const emailA = splitEmail(a.email);
+  const emailB = splitEmail(b.email);
+  const comparableEmails = !isPlaceholderEmail(a.email) && !isPlaceholderEmail(b.email);
+  if (comparableEmails && emailA.local && emailB.local && a.email.toLowerCase() !== b.email.toLowerCase()) {
+    const sameDomain = emailA.domain === emailB.domain;
+    if (emailA.local === emailB.local || (sameDomain && editDistance(emailA.local, emailB.local) <= 2)) {
+      score += POINTS.similarEmail;
+      reasons.push('similar_email');
+    }
+  }
+
+  return { score, reasons };
+}
+
+/**
+ * Keys a participant is filed under; only participants sharing a key are compared
+ */
+export function blockingKeys(participant: ParticipantMatchFields): string[] {
+  const keys: string[] = [];
+  const phone = normalizePhone(participant.phone);
+  if (phone) keys.push(`phone:${phone}`);
+  if (participant.date_of_birth) keys.push(`dob:${participant.date_of_birth.slice(0, 10)}`);
+
+  const lastName = normalizeName(participant.last_name);
+  const firstName = normalizeName(participant.first_name);
+  if (lastName && firstName + lastName !== PLACEHOLDER_NAME) keys.push(`name:${lastName.slice(0, 3)}${firstName.slice(0, 1)}`);
+
+  const email = splitEmail(participant.email);
+  if (email.local && !isPlaceholderEmail(participant.email)) keys.push(`email:${email.local.slice(0, 2)}@${email.domain}`);
+  return keys;
+}
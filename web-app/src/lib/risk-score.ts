@@ -0,0 +1,113 @@
+/**
+ * Weighted 0-100 risk score and recommendation bands.
+ * Shared by ScoringService (calculation), the HubSpot sync and the risk settings
+ * admin page. Must stay free of server-only imports.
+ *
+ * Each matched rule adds its colour's points times the rule's weight and the
+ * weight of the question group the answer sits in. The total is scaled so that
+ * maxPoints maps to 100, and clamped to 0-100.
+ */
+
+import { ScoreValue } from '@/types/application';
+import { RiskBand, RiskScoreResult, RiskSettings } from '@/types/scoring';
+
+export const DEFAULT_RISK_SETTINGS: RiskSettings = {
+  colorPoints: { red: 10, yellow: 4, green: 0 },
+  categoryWeights: {},
+  maxPoints: 50,
+  bands: [
+    { key: 'low', label: 'Low risk', minScore: 0 },
+    { key: 'review', label: 'Needs review', minScore: 30 },
+    { key: 'high', label: 'High risk', minScore: 60 },
+  ],
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Stored settings merged over the defaults, so partial or missing rows still score
+ */
+export function resolveRiskSettings(raw: Partial<RiskSettings> | null | undefined): RiskSettings {
+  if (!raw) return DEFAULT_RISK_SETTINGS;
+  return {
+    colorPoints: { ...DEFAULT_RISK_SETTINGS.colorPoints, ...(raw.colorPoints || {}) },
+    categoryWeights: raw.categoryWeights || {},
+    maxPoints: isFiniteNumber(raw.maxPoints) && raw.maxPoints > 0 ? raw.maxPoints : DEFAULT_RISK_SETTINGS.maxPoints,
+    bands: Array.isArray(raw.bands) && raw.bands.length > 0 ? raw.bands : DEFAULT_RISK_SETTINGS.bands,
+  };
+}
+
+/**
+ * Validate settings before saving
+ * @returns An error message, or null when valid
+ */
+export function validateRiskSettings(settings: RiskSettings): string | null {
+  const { colorPoints, categoryWeights, maxPoints, bands } = settings;
+  if (!colorPoints || !(['red', 'yellow', 'green'] as const).every(color => isFiniteNumber(colorPoints[color]))) {
+    return 'Points for red, yellow and green must be numbers';
+  }
+  if (!isFiniteNumber(maxPoints) || maxPoints <= 0) return 'Maximum points must be greater than 0';
+  if (!categoryWeights || typeof categoryWeights !== 'object' || Array.isArray(categoryWeights)) {
+    return 'Category weights must be an object';
+  }
+  if (Object.values(categoryWeights).some(weight => !isFiniteNumber(weight) || weight < 0)) {
+    return 'Category weights must be numbers of 0 or more';
+  }
+  if (!Array.isArray(bands) || bands.length === 0) return 'At least one band is required';
+
+  const keys = new Set<string>();
+  for (const band of bands) {
+    if (!band.key?.trim() || !band.label?.trim()) return 'Every band needs a key and a label';
+    if (keys.has(band.key)) return `Duplicate band key: ${band.key}`;
+    keys.add(band.key);
+    if (!isFiniteNumber(band.minScore) || band.minScore < 0 || band.minScore > 100) {
+      return `Band "${band.label}" must start between 0 and 100`;
+    }
+  }
+  if (!bands.some(band => band.minScore === 0)) return 'One band must start at 0';
+  return null;
+}
+
+/**
+ * Weight for answers in a question group; 1 when the group has none or the answer is ungrouped
+ */
+export function categoryWeight(settings: RiskSettings, categoryId: string | null | undefined): number {
+  if (!categoryId) return 1;
+  const weight = settings.categoryWeights[categoryId];
+  return isFiniteNumber(weight) ? weight : 1;
+}
+
+/**
+ * Risk points one matched rule adds
+ */
+export function rulePoints(
+  settings: RiskSettings,
+  scoreValue: ScoreValue,
+  ruleWeight: number | null | undefined,
+  groupWeight: number = 1
+): number {
+  if (scoreValue === 'na') return 0;
+  const weight = isFiniteNumber(ruleWeight) ? ruleWeight : 1;
+  return settings.colorPoints[scoreValue] * weight * groupWeight;
+}
+
+export function bandFor(settings: RiskSettings, riskScore: number): RiskBand {
+  const sorted = [...settings.bands].sort((a, b) => a.minScore - b.minScore);
+  return sorted.filter(band => band.minScore <= riskScore).pop() || sorted[0];
+}
+
+/**
+ * Scale summed risk points to 0-100 and pick the band
+ */
+export function riskScoreFromPoints(settings: RiskSettings, points: number): RiskScoreResult {
+  const riskScore = Math.max(0, Math.min(100, Math.round((points / settings.maxPoints) * 100)));
+  return { riskScore, riskBand: bandFor(settings, riskScore).key };
+}
+
+/**
+ * Display label for a stored band key, falling back to the key when the band was since removed
+ */
+export function bandLabel(settings: RiskSettings, key: string | null | undefined): string {
+  if (!key) return '';
+  return settings.bands.find(band => band.key === key)?.label || key;
+}
@@ -0,0 +1,369 @@
+/**
+ * Conditional scoring rule criteria, stored in scoring_rules.criteria.
+ * Shared by ScoringService (evaluation) and the scoring admin page (editing and
+ * descriptions). Must stay free of server-only imports.
+ *
+ * A rule with no conditions applies to every response, as it always has.
+ * A rule with conditions only counts when the response matches them.
+ *
+ * Application (compound) rules combine conditions on several fields, addressed by
+ * Typeform field ref, into one boolean expression.
+ */
+
+export type CriteriaOperator =
+  | 'eq'
+  | 'neq'
+  | 'lt'
+  | 'lte'
+  | 'gt'
+  | 'gte'
+  | 'between'
+  | 'in'
+  | 'not_in'
+  | 'contains'
+  | 'regex';
+
+// 'age' treats the answer as a date of birth and compares the age in whole years
+export type CriteriaTransform = 'age';
+
+export interface ScoringCriteria {
+  // Legacy yes/no criteria: matches when the answer equals this value
+  answer?: string;
+  operator?: CriteriaOperator;
+  // Operand for eq, neq, lt, lte, gt, gte, contains and regex
+  value?: string | number;
+  // Inclusive bounds for between
+  min?: string | number;
+  max?: string | number;
+  // Options for in and not_in
+  values?: string[];
+  transform?: CriteriaTransform;
+}
+
+export const CRITERIA_OPERATOR_LABELS: Record<CriteriaOperator, string> = {
+  eq: 'equals',
+  neq: 'does not equal',
+  lt: '<',
+  lte: '≤',
+  gt: '>',
+  gte: '≥',
+  between: 'between',
+  in: 'is one of',
+  not_in: 'is not one of',
+  contains: 'contains',
+  regex: 'matches pattern',
+};
+
+const COMPARISON_OPERATORS: CriteriaOperator[] = ['lt', 'lte', 'gt', 'gte', 'between'];
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}/;
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const parsed = Number(value.trim());
+  return isFinite(parsed) ? parsed : null;
+};
+
+// YYYY-MM-DD prefix of a date or timestamp string, or null
+const toIsoDate = (value: unknown): string | null => {
+  if (typeof value !== 'string' || !ISO_DATE.test(value.trim())) return null;
+  const date = value.trim().slice(0, 10);
+  return isNaN(Date.parse(`${date}T00:00:00Z`)) ? null : date;
+};
+
+/**
+ * Whole years between a date of birth and a reference date
+ */
+export function ageInYears(dateOfBirth: string, now: Date = new Date()): number | null {
+  const dob = toIsoDate(dateOfBirth);
+  if (!dob) return null;
+  const [year, month, day] = dob.split('-').map(Number);
+  let age = now.getUTCFullYear() - year;
+  const beforeBirthday = now.getUTCMonth() + 1 < month || (now.getUTCMonth() + 1 === month && now.getUTCDate() < day);
+  if (beforeBirthday) age--;
+  return age;
+}
+
+/**
+ * Criteria may be stored as a JSON string by older rules
+ * @returns The criteria, or null when it cannot be parsed
+ */
+export function parseCriteria(raw: unknown): ScoringCriteria | null {
+  if (raw === null || raw === undefined) return {};
+  if (typeof raw === 'string') {
+    if (raw.trim() === '') return {};
+    try {
+      return parseCriteria(JSON.parse(raw));
+    } catch {
+      return null;
+    }
+  }
+  return typeof raw === 'object' && !Array.isArray(raw) ? raw as ScoringCriteria : null;
+}
+
+/**
+ * Whether a rule only applies to matching responses
+ */
+export function hasConditions(criteria: ScoringCriteria | null | undefined): boolean {
+  return !!criteria && (!!criteria.operator || !!criteria.answer);
+}
+
+/**
+ * Validate criteria before saving
+ * @returns An error message, or null when valid
+ */
+export function validateCriteria(criteria: ScoringCriteria): string | null {
+  if (!criteria.operator) return null;
+
+  const { operator } = criteria;
+  if (!(operator in CRITERIA_OPERATOR_LABELS)) return `Unknown operator: ${operator}`;
+  if (criteria.transform && criteria.transform !== 'age') return `Unknown transform: ${criteria.transform}`;
+
+  const isComparable = (value: unknown) =>
+    toNumber(value) !== null || (!criteria.transform && toIsoDate(value) !== null);
+
+  if (criteria.transform === 'age' && !COMPARISON_OPERATORS.includes(operator) && operator !== 'eq' && operator !== 'neq') {
+    return 'Age can only be compared with equals, <, ≤, >, ≥ or between';
+  }
+
+  switch (operator) {
+    case 'lt':
+    case 'lte':
+    case 'gt':
+    case 'gte':
+      if (!isComparable(criteria.value)) return 'Enter a number or a date (YYYY-MM-DD) to compare against';
+      return null;
+    case 'between':
+      if (!isComparable(criteria.min) || !isComparable(criteria.max)) return 'Enter both bounds as numbers or dates (YYYY-MM-DD)';
+      return null;
+    case 'in':
+    case 'not_in':
+      if (!Array.isArray(criteria.values) || criteria.values.filter(v => String(v).trim()).length === 0) {
+        return 'Enter at least one option';
+      }
+      return null;
+    case 'regex':
+      if (typeof criteria.value !== 'string' || criteria.value === '') return 'Enter a pattern';
+      try {
+        new RegExp(criteria.value);
+      } catch {
+        return 'The pattern is not a valid regular expression';
+      }
+      return null;
+    default:
+      if (criteria.value === undefined || String(criteria.value).trim() === '') return 'Enter a value to compare against';
+      return null;
+  }
+}
+
+// Compare two operands numerically, or as dates when both are dates; null when not comparable
+const compare = (left: unknown, right: unknown): number | null => {
+  const leftNumber = toNumber(left);
+  const rightNumber = toNumber(right);
+  if (leftNumber !== null && rightNumber !== null) return leftNumber - rightNumber;
+  const leftDate = toIsoDate(left);
+  const rightDate = toIsoDate(right);
+  if (leftDate && rightDate) return leftDate.localeCompare(rightDate);
+  return null;
+};
+
+const sameValue = (left: unknown, right: unknown): boolean => {
+  const numeric = compare(left, right);
+  if (numeric !== null) return numeric === 0;
+  return String(left ?? '').trim().toLowerCase() === String(right ?? '').trim().toLowerCase();
+};
+
+/**
+ * Whether a response matches the criteria. Criteria without conditions match everything.
+ * @param criteria The rule criteria
+ * @param responseValue The stored response value
+ * @param now Reference date for age calculations
+ */
+export function evaluateCriteria(criteria: ScoringCriteria, responseValue: unknown, now: Date = new Date()): boolean {
+  if (!hasConditions(criteria)) return true;
+  if (responseValue === null || responseValue === undefined || String(responseValue).trim() === '') return false;
+
+  // Legacy yes/no criteria
+  if (!criteria.operator) {
+    return String(criteria.answer).toLowerCase() === String(responseValue).toLowerCase();
+  }
+
+  let subject: unknown = responseValue;
+  if (criteria.transform === 'age') {
+    subject = ageInYears(String(responseValue), now);
+    if (subject === null) return false;
+  }
+
+  const text = String(subject);
+  switch (criteria.operator) {
+    case 'eq':
+      return sameValue(subject, criteria.value);
+    case 'neq':
+      return !sameValue(subject, criteria.value);
+    case 'lt': {
+      const result = compare(subject, criteria.value);
+      return result !== null && result < 0;
+    }
+    case 'lte': {
+      const result = compare(subject, criteria.value);
+      return result !== null && result <= 0;
+    }
+    case 'gt': {
+      const result = compare(subject, criteria.value);
+      return result !== null && result > 0;
+    }
+    case 'gte': {
+      const result = compare(subject, criteria.value);
+      return result !== null && result >= 0;
+    }
+    case 'between': {
+      const lower = compare(subject, criteria.min);
+      const upper = compare(subject, criteria.max);
+      return lower !== null && upper !== null && lower >= 0 && upper <= 0;
+    }
+    case 'in':
+      return (criteria.values || []).some(option => sameValue(subject, option));
+    case 'not_in':
+      return !(criteria.values || []).some(option => sameValue(subject, option));
+    case 'contains':
+      return text.toLowerCase().includes(String(criteria.value ?? '').toLowerCase());
+    case 'regex':
+      try {
+        return new RegExp(String(criteria.value), 'i').test(text);
+      } catch {
+        return false;
+      }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Short human-readable description, e.g. "age < 21" or "answer between 1 and 3"
+ */
+export function describeCriteria(criteria: ScoringCriteria | null | undefined): string {
+  if (!criteria || !hasConditions(criteria)) return 'Any answer';
+  if (!criteria.operator) return `answer is "${criteria.answer}"`;
+
+  const subject = criteria.transform === 'age' ? 'age' : 'answer';
+  const label = CRITERIA_OPERATOR_LABELS[criteria.operator] || criteria.operator;
+  switch (criteria.operator) {
+    case 'between':
+      return `${subject} between ${criteria.min} and ${criteria.max}`;
+    case 'in':
+    case 'not_in':
+      return `${subject} ${label} ${(criteria.values || []).map(v => `"${v}"`).join(', ')}`;
+    case 'contains':
+    case 'regex':
+    case 'eq':
+    case 'neq':
+      return `${subject} ${label} "${criteria.value}"`;
+    default:
+      return `${subject} ${label} ${criteria.value}`;
+  }
+}
+
+// Boolean expression over answers, addressed by Typeform field ref
+export type CompoundExpression =
+  | { all: CompoundExpression[] }
+  | { any: CompoundExpression[] }
+  | { not: CompoundExpression }
+  | { field: string; criteria: ScoringCriteria };
+
+// criteria stored on an application-level rule
+export interface CompoundRuleCriteria {
+  name: string;
+  expression: CompoundExpression;
+}
+
+// Deep enough for any rule a person will write, shallow enough to keep evaluation cheap
+const MAX_EXPRESSION_DEPTH = 6;
+
+/**
+ * Every field ref an expression reads
+ */
+export function collectFieldRefs(expression: CompoundExpression): string[] {
+  if ('all' in expression) return Array.from(new Set(expression.all.flatMap(collectFieldRefs)));
+  if ('any' in expression) return Array.from(new Set(expression.any.flatMap(collectFieldRefs)));
+  if ('not' in expression) return collectFieldRefs(expression.not);
+  return [expression.field];
+}
+
+/**
+ * Validate an expression before saving
+ * @param expression The expression
+ * @param knownRefs Field refs that exist on the form; unknown refs are rejected when given
+ * @returns An error message, or null when valid
+ */
+export function validateExpression(expression: unknown, knownRefs?: string[], depth = 0): string | null {
+  if (depth > MAX_EXPRESSION_DEPTH) return `Expressions can be nested at most ${MAX_EXPRESSION_DEPTH} levels deep`;
+  if (!expression || typeof expression !== 'object' || Array.isArray(expression)) return 'Each condition must be an object';
+
+  const node = expression as Record<string, unknown>;
+  if ('all' in node || 'any' in node) {
+    const children = node.all ?? node.any;
+    if (!Array.isArray(children) || children.length === 0) return 'A group needs at least one condition';
+    for (const child of children) {
+      const error = validateExpression(child, knownRefs, depth + 1);
+      if (error) return error;
+    }
+    return null;
+  }
+  if ('not' in node) return validateExpression(node.not, knownRefs, depth + 1);
+
+  if (typeof node.field !== 'string' || !node.field) return 'Each condition needs a field';
+  if (knownRefs && !knownRefs.includes(node.field)) return `Unknown field ref: ${node.field}`;
+  const criteria = parseCriteria(node.criteria);
+  if (!criteria || !criteria.operator) return `Condition on ${node.field} needs an operator`;
+  return validateCriteria(criteria);
+}
+
+/**
+ * Validate a compound rule's criteria (name plus expression) before saving
+ * @returns An error message, or null when valid
+ */
+export function validateCompoundRuleCriteria(criteria: unknown, knownRefs?: string[]): string | null {
+  if (!criteria || typeof criteria !== 'object' || Array.isArray(criteria)) return 'Criteria must be an object';
+  const { name, expression } = criteria as Record<string, unknown>;
+  if (typeof name !== 'string' || !name.trim()) return 'Rule name is required';
+  return validateExpression(expression, knownRefs);
+}
+
+/**
+ * Evaluate an expression against an application's answers.
+ * A condition matches when any answer to its field matches (multi-select fields have several).
+ * @param expression The expression
+ * @param answersByRef Answers keyed by field ref
+ * @param now Reference date for age calculations
+ */
+export function evaluateExpression(
+  expression: CompoundExpression,
+  answersByRef: Map<string, unknown[]>,
+  now: Date = new Date()
+): boolean {
+  if ('all' in expression) return expression.all.every(child => evaluateExpression(child, answersByRef, now));
+  if ('any' in expression) return expression.any.some(child => evaluateExpression(child, answersByRef, now));
+  if ('not' in expression) return !evaluateExpression(expression.not, answersByRef, now);
+  const answers = answersByRef.get(expression.field) || [];
+  return answers.some(answer => evaluateCriteria(expression.criteria, answer, now));
+}
+
+/**
+ * Human-readable expression, e.g. "(meds contains "SSRI" AND NOT psychosis is "no")"
+ * @param fieldTitles Optional display names keyed by field ref
+ */
+export function describeExpression(expression: CompoundExpression, fieldTitles: Record<string, string> = {}): string {
+  const describeGroup = (children: CompoundExpression[], joiner: string) =>
+    children.length === 1
+      ? describeExpression(children[0], fieldTitles)
+      : `(${children.map(child => describeExpression(child, fieldTitles)).join(` ${joiner} `)})`;
+
+  if ('all' in expression) return describeGroup(expression.all, 'AND');
+  if ('any' in expression) return describeGroup(expression.any, 'OR');
+  if ('not' in expression) return `NOT ${describeExpression(expression.not, fieldTitles)}`;
+  const fieldName = fieldTitles[expression.field] || expression.field;
+  return describeCriteria(expression.criteria).replace(/^(answer|age)/, subject =>
+    subject === 'age' ? `${fieldName} (age)` : fieldName
+  );
+}
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
 import { NextResponse } from 'next/server';
 
@@ -41,90 +42,32 @@ export async function validateAdminRole() {
 }
 
 /**
- * Production-ready authentication for Next.js App Router Route Handlers
+ * Production-ready authentication for Next.js App Router Route Handlers.
+ * Authorizes the user signed in on this request against their own active profile.
  */
 export async function validateServerSession(requiredRoles?: AdminRole[]) {
   const adminClient = createAdminClient();
   
   try {
-    let userId;
-    let userRole;
-    
-    // For a proper implementation, we would extract the user session from the cookie
-    // and validate it. However, parsing cookies in Next.js App Router can be tricky.
-    
-    // For now, we'll implement a temporary solution that works in both dev and production:
-    
-    // Step 1: Try to get the current session from a logged-in user
-    // In a real app with proper middleware, we'd have the session already validated
-    
-    // TEMPORARY SOLUTION FOR DEVELOPMENT AND TESTING:
-    // This approach bypasses cookie parsing issues but should be replaced
-    // with proper session validation before going to production
-    
-    // Get user profiles to find active users
-    const { data: userProfiles, error: profileError } = await adminClient
-      .from('user_profiles')
-      .select('id, role')
-      .eq('is_active', true);
-      
-    if (profileError || !userProfiles || userProfiles.length === 0) {
-      console.error('No active users found in the system');
+    const userId = await getSessionUserId();
+    if (!userId) {
       return { 
         authenticated: false,
         authorized: false,
-        response: NextResponse.json({ error: 'Unauthorized - No active users found' }, { status: 401 })
+        response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
       };
     }
     
-    // For testing, use a user with the highest role available
-    // In production, this would be replaced with actual session-based authentication
-    const adminRoleHierarchy = [
-      'PROGRAM_OPERATIONS_ADMINISTRATOR',
-      'PROGRAM_OPERATIONS_MANAGER',
-      'SCREENER_LEAD',
-    ];
-    
-    // Try to find a user with one of the required roles if specified
-    let foundUser = null;
-    
-    if (requiredRoles && requiredRoles.length > 0) {
-      // First try to find a user with one of the required roles
-      foundUser = userProfiles.find(profile => 
-        requiredRoles.includes(profile.role as AdminRole)
-      );
-    }
-    
-    // If no specific role was required or no matching user was found,
-    // try to find a user with the highest administrative privilege
-    if (!foundUser) {
-      for (const role of adminRoleHierarchy) {
-        const adminUser = userProfiles.find(profile => profile.role === role);
-        if (adminUser) {
-          foundUser = adminUser;
-          break;
-        }
-      }
-    }
-    
-    // If still no user found, use the first active user
-    if (!foundUser && userProfiles.length > 0) {
-      foundUser = userProfiles[0];
-    }
-    
-    // At this point, if we still don't have a user, we can't proceed
-    if (!foundUser) {
-      console.error('No suitable user found for authentication');
+    const role = await getUserRole(userId);
+    if (!role) {
+      console.error(`User ${userId} has no active profile`);
       return { 
         authenticated: false,
         authorized: false,
-        response: NextResponse.json({ error: 'Unauthorized - No suitable user found' }, { status: 401 })
+        response: NextResponse.json({ error: 'Unauthorized - No active profile found' }, { status: 401 })
       };
     }
-    
-    // Use the found user for our session
-    userId = foundUser.id;
-    userRole = foundUser.role as AdminRole;
+    const userRole = role as AdminRole;
     
     // If no roles are required, just authenticate
     if (!requiredRoles || requiredRoles.length === 0) {
@@ -137,10 +80,7 @@ export async function validateServerSession(requiredRoles?: AdminRole[]) {
       };
     }
     
-    // We already have userRole from earlier in the function, so no need to fetch it again
-    
     // Check if the user's role is in the list of required roles
-    // We already have the userRole from earlier in the function
     const hasRequiredRole = requiredRoles.includes(userRole);
     
     if (!hasRequiredRole) {
@@ -170,3 +110,54 @@ export async function validateServerSession(requiredRoles?: AdminRole[]) {
     };
   }
 }
+
+/**
+ * Resolve the user signed in on this request from the Supabase auth cookies.
+ * Use this (rather than validateServerSession) when the data is per-user.
+ * @returns The user's ID, or null when there is no valid session
+ */
+export async function getSessionUserId(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '',
+    {
+      cookies: {
+        get(name: string) {
+          return cookieStore.get(name)?.value;
+        },
+        set() {
+          // Route handlers don't refresh the session here
+        },
+        remove() {
+          // Route handlers don't refresh the session here
+        },
+      },
+    }
+  );
+
+  const { data, error } = await supabase.auth.getUser();
+  if (error || !data?.user) {
+    return null;
+  }
+  return data.user.id;
+}
+
+/**
+ * Role of a user from their active profile
+ * @returns The role, or null when the user has no active profile
+ */
+export async function getUserRole(userId: string): Promise<string | null> {
+  const { data, error } = await createAdminClient()
+    .from('user_profiles')
+    .select('role')
+    .eq('id', userId)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Failed to load role for user ${userId}:`, error);
+    return null;
+  }
+  return data?.role || null;
+}
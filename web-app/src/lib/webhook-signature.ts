@@ -0,0 +1,64 @@
+import crypto from 'crypto';
+
+/**
+ * Shared helpers for verifying signed webhook deliveries
+ */
+
+const DEFAULT_OVERLAP_HOURS = 24;
+
+/**
+ * Compute an HMAC-SHA256 digest of a raw payload
+ * @param secret Signing secret
+ * @param payload Raw request body (must be the exact bytes received)
+ * @param encoding Digest encoding expected by the provider
+ */
+export function computeHmacSha256(secret: string, payload: string, encoding: 'base64' | 'hex'): string {
+  return crypto.createHmac('sha256', secret).update(payload, 'utf8').digest(encoding);
+}
+
+/**
+ * Constant-time string comparison (returns false on length mismatch)
+ */
+export function safeCompare(a: string, b: string): boolean {
+  const aBuf = Buffer.from(a, 'utf8');
+  const bBuf = Buffer.from(b, 'utf8');
+  if (aBuf.length !== bBuf.length) return false;
+  return crypto.timingSafeEqual(aBuf, bBuf);
+}
+
+/**
+ * Resolve the secrets a webhook may currently be signed with.
+ *
+ * Reads `${name}` (current secret) and, during a rotation, `${name}_PREVIOUS`.
+ * The previous secret is accepted until `${name}_ROTATED_AT` + `${name}_OVERLAP_HOURS`
+ * (default 24h), so the provider can be switched to the new secret without downtime.
+ * @param name Environment variable holding the current secret, e.g. TYPEFORM_WEBHOOK_SECRET
+ * @returns Secrets to try, current first. Empty if nothing is configured.
+ */
+export function getRotatingSecrets(name: string): string[] {
+  const secrets: string[] = [];
+  const current = process.env[name];
+  if (current) secrets.push(current);
+
+  const previous = process.env[`${name}_PREVIOUS`];
+  if (!previous) return secrets;
+
+  const rotatedAtRaw = process.env[`${name}_ROTATED_AT`];
+  if (!rotatedAtRaw) {
+    console.warn(`${name}_PREVIOUS is set without ${name}_ROTATED_AT; accepting it until it is removed`);
+    secrets.push(previous);
+    return secrets;
+  }
+
+  const rotatedAt = Date.parse(rotatedAtRaw);
+  const overlapHours = parseFloat(process.env[`${name}_OVERLAP_HOURS`] || '') || DEFAULT_OVERLAP_HOURS;
+  if (Number.isNaN(rotatedAt)) {
+    console.warn(`${name}_ROTATED_AT is not a valid date (${rotatedAtRaw}); ignoring previous secret`);
+    return secrets;
+  }
+
+  if (Date.now() <= rotatedAt + overlapHours * 60 * 60 * 1000) {
+    secrets.push(previous);
+  }
+  return secrets;
+}
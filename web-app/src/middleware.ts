@@ -7,6 +7,7 @@ const protectedRoutes = [
   '/dashboard',
   '/participants',
   '/screenings',
+  '/medical-reviews',
   '/admin',
 ];
 
@@ -0,0 +1,173 @@
+/**
+ * Checks the HubSpot properties pushed on status transitions, against the fake HubSpot server.
+ *
+ * Creates a throwaway participant and application in the Supabase database configured in
+ * .env.local, moves the application through a few status transitions the way the application
+ * API does, runs each hubspot.sync_status job and checks what reached the fake HubSpot: the
+ * contact the deal was found through, and the application_status, pipeline and deal stage
+ * written for each status. The participant and application are deleted again afterwards.
+ *
+ * Usage: npm run hubspot:check-status-push
+ * Point it at a development database only. Exits with status 1 when a check fails.
+ */
+
+import dotenv from 'dotenv';
+import fs from 'fs';
+import path from 'path';
+import { FakeHubSpotServer } from '../utils/hubspot/fakeServer';
+import type { ApplicationStatus } from '../types/application';
+
+const envLocalPath = path.resolve(process.cwd(), '.env.local');
+dotenv.config(fs.existsSync(envLocalPath) ? { path: envLocalPath } : undefined);
+
+// Walked in order from a new 'pending' application; each step is allowed from the one before
+const TRANSITIONS: Array<{ status: ApplicationStatus; closedReason?: string; rejectedType?: string }> = [
+  { status: 'screening_scheduled' },
+  { status: 'screening_in_process' },
+  { status: 'closed', closedReason: 'Rejected', rejectedType: 'Temporary' },
+];
+
+async function main(): Promise<number> {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!supabaseUrl || !supabaseKey) {
+    console.error('Error: Missing environment variables. Please set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+    return 1;
+  }
+
+  // Services create their Supabase clients on import, so load them once the environment is set
+  const { createClient } = await import('@supabase/supabase-js');
+  const { default: HubSpotService } = await import('../services/hubspotService');
+  const { applicationService } = await import('../services/applicationService');
+  const { hubspotStatusMappingService } = await import('../services/hubspotStatusMappingService');
+  const { jobQueueService } = await import('../services/jobQueueService');
+  const { runJobNow } = await import('../services/jobHandlers');
+  const { validateStatusTransition } = await import('../lib/application-status-machine');
+
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  const server = new FakeHubSpotServer();
+  await server.start();
+  HubSpotService.configure({ baseUrl: server.url, apiKey: server.apiKey });
+
+  const failures: string[] = [];
+  const check = (label: string, actual: unknown, expected: unknown) => {
+    if (actual === expected) {
+      console.log(`  ok    ${label}: ${actual}`);
+    } else {
+      failures.push(label);
+      console.log(`  FAIL  ${label}: expected ${expected}, got ${actual}`);
+    }
+  };
+
+  const email = `hubspot-status-check+${Date.now()}@example.com`;
+  const contactId = server.addContact({ email, firstname: 'HubSpot', lastname: 'Check' });
+  // The deal HubSpot creates for a new contact, which the first push claims for the application
+  const dealId = server.addDeal({ dealname: 'HubSpot Check', pipeline: 'default', dealstage: '1142575458' }, [contactId]);
+
+  let participantId: string | null = null;
+  let applicationId: string | null = null;
+  try {
+    const now = new Date().toISOString();
+    const { data: participant, error: participantError } = await supabase
+      .from('participants')
+      .insert({ email, first_name: 'HubSpot', last_name: 'Check', profile: {}, created_at: now, updated_at: now })
+      .select('id')
+      .single();
+    if (participantError) throw new Error(`Failed to create participant: ${participantError.message}`);
+    participantId = participant.id as string;
+
+    const { data: form } = await supabase.from('typeform_forms').select('id').limit(1).maybeSingle();
+    const { data: application, error: applicationError } = await supabase
+      .from('applications')
+      .insert({
+        participant_id: participantId,
+        form_id: form?.id || null,
+        typeform_response_id: `hubspot-status-check-${Date.now()}`,
+        submission_date: now,
+        raw_data: {},
+        status: 'pending',
+        application_data: { status: 'pending' },
+        created_at: now,
+        updated_at: now
+      })
+      .select('id')
+      .single();
+    if (applicationError) throw new Error(`Failed to create application: ${applicationError.message}`);
+    applicationId = application.id as string;
+
+    let previous: ApplicationStatus = 'pending';
+    for (const step of TRANSITIONS) {
+      console.log(`${previous} -> ${step.status}`);
+      const transition = validateStatusTransition(previous, step.status, {
+        closedReason: step.closedReason,
+        rejectedType: step.rejectedType
+      });
+      if (!transition.allowed) throw new Error(transition.error);
+
+      await applicationService.updateApplicationStatus(
+        applicationId,
+        step.status,
+        undefined,
+        step.closedReason,
+        step.rejectedType,
+        { source: 'system', note: 'HubSpot status push check' }
+      );
+
+      const writesBefore = server.writesFor(dealId).length;
+      const job = await jobQueueService.enqueue('hubspot.sync_status', { applicationId });
+      const run = await runJobNow(job.id);
+      check('sync job', run?.status, 'succeeded');
+      if (run?.error) console.log(`        ${run.error}`);
+
+      const pushed: Record<string, string | null> = Object.assign({}, ...server.writesFor(dealId).slice(writesBefore));
+      const mapping = await hubspotStatusMappingService.getMappingFor(step.status, step.closedReason, step.rejectedType);
+      if (!mapping) {
+        failures.push(`mapping for ${step.status}`);
+        console.log(`  FAIL  no HubSpot status mapping for ${step.status}`);
+      } else {
+        check('application_status', pushed.application_status, mapping.status_property_value);
+        check('pipeline', pushed.pipeline, mapping.pipeline_id);
+        check('dealstage', pushed.dealstage, mapping.stage_id);
+      }
+      previous = step.status;
+    }
+
+    // The deal was found through the applicant's contact, stamped with the application and linked to it
+    console.log('Contact and deal link');
+    const { data: linkedParticipant } = await supabase
+      .from('participants')
+      .select('hubspot_contact_id')
+      .eq('id', participantId)
+      .single();
+    check('participant hubspot_contact_id', linkedParticipant?.hubspot_contact_id, contactId);
+    const { data: linkedApplication } = await supabase
+      .from('applications')
+      .select('hubspot_deal_id')
+      .eq('id', applicationId)
+      .single();
+    check('application hubspot_deal_id', linkedApplication?.hubspot_deal_id, dealId);
+    check('deal br_application_id', server.deals.get(dealId)?.properties.br_application_id, applicationId);
+    check('deal contact', server.dealContacts.get(dealId)?.has(contactId), true);
+  } finally {
+    if (applicationId) {
+      await supabase.from('jobs').delete().eq('payload->>applicationId', applicationId);
+      await supabase.from('application_status_history').delete().eq('application_id', applicationId);
+      await supabase.from('applications').delete().eq('id', applicationId);
+    }
+    if (participantId) {
+      await supabase.from('participants').delete().eq('id', participantId);
+    }
+    await server.stop();
+  }
+
+  console.log(failures.length === 0 ? 'All pushed properties match' : `${failures.length} check(s) failed`);
+  return failures.length === 0 ? 0 : 1;
+}
+
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error('[HubSpot check] Failed:', error);
+    process.exit(1);
+  }
+);
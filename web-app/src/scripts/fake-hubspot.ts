@@ -0,0 +1,37 @@
+/**
+ * Runs the fake HubSpot server for local development, so the screening submit flow and the
+ * HubSpot admin pages work offline.
+ *
+ * Usage: npm run hubspot:fake
+ * Then start the app with HUBSPOT_BASE_URL=http://127.0.0.1:4010 and
+ * HUBSPOT_API_KEY=fake-hubspot-token (or FAKE_HUBSPOT_API_KEY). Deals are created by the app
+ * when it first syncs an application, once the applicant's contact exists; seed contacts with
+ * FAKE_HUBSPOT_CONTACTS=alice@example.com,bob@example.com.
+ */
+
+import { FakeHubSpotServer } from '../utils/hubspot/fakeServer';
+
+const port = Number(process.env.FAKE_HUBSPOT_PORT || 4010);
+const server = new FakeHubSpotServer({ apiKey: process.env.FAKE_HUBSPOT_API_KEY });
+
+for (const email of (process.env.FAKE_HUBSPOT_CONTACTS || '').split(',').map(e => e.trim()).filter(Boolean)) {
+  const contactId = server.addContact({ email });
+  console.log(`[Fake HubSpot] Contact ${contactId}: ${email}`);
+}
+
+server.start(port).then(url => {
+  console.log(`[Fake HubSpot] Listening on ${url} (token ${server.apiKey})`);
+});
+
+// Log each deal write, so pushes can be followed while clicking through the app
+let logged = 0;
+setInterval(() => {
+  for (const write of server.dealWrites.slice(logged)) {
+    console.log(`[Fake HubSpot] Deal ${write.dealId} <- ${JSON.stringify(write.properties)}`);
+  }
+  logged = server.dealWrites.length;
+}, 1000);
+
+process.on('SIGINT', () => {
+  server.stop().finally(() => process.exit(0));
+});
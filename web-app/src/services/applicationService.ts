@@ -1,15 +1,24 @@
 import {scoringService} from '@/services/scoringService';
 import {typeformService} from '@/services/typeformService';
+import {notificationService} from '@/services/notificationService';
+import {participantFieldMappingService} from '@/services/participantFieldMappingService';
 import {
   Application,
   ApplicationStatus,
+  ApplicationStatusHistoryEntry,
   Participant,
   ParticipantData,
   SavedTypeFormApplication,
+  StatusChangeAudit,
   TypeformAnswer,
   TypeformFieldDefinition,
   TypeformWebhook
 } from '@/types/application';
+import {UserRole} from '@/types/user';
+import {ScoreTraceEntry} from '@/types/scoring';
+import {ParticipantAttribute, ParticipantFieldMapping} from '@/types/participantMapping';
+import {TransitionContext} from '@/lib/application-status-machine';
+import {getParticipantAttribute, normalizeAttributeValue, sanitizeParticipantProfile} from '@/lib/participant-attributes';
 import {createClient, SupabaseClient} from '@supabase/supabase-js';
 
 // Initialize Supabase client with service role for admin operations
@@ -66,8 +75,9 @@ export class ApplicationService {
         throw new Error(`Form with ID ${typeformId} not found in our system`);
       }
 
-      // 2. Extract participant data from answers
-      const participantData = this.extractParticipantData(answers, definition.fields);
+      // 2. Extract participant data from answers, using the form's field mapping where set
+      const mappings = await participantFieldMappingService.getMappings(form.id);
+      const participantData = this.extractParticipantData(answers, definition.fields, mappings);
 
       // 3. Check if participant already exists, create if not
       const participant = await this.findOrCreateParticipant(participantData);
@@ -116,197 +126,165 @@ export class ApplicationService {
    * @param token Typeform response token
    */
   private async createDuplicateSubmissionNotification(applicationId: string, token: string): Promise<void> {
-    try {
-      console.log(`Creating notification for duplicate submission of application ${applicationId}`);
-
-      // TODO: Implement proper notification system
-      // This is a stub for future implementation of the notifications feature
-
-      // 1. Get admin and program operations manager users
-      const {data: adminUsers, error} = await supabaseAdmin
-        .from('users')
-        .select('id, email')
-        .in('role', ['program_operations_admin', 'program_operations_manager']);
-
-      if (error) {
-        console.error('Error fetching admin users for notification:', error);
-        return;
+    console.log(`Creating notification for duplicate submission of application ${applicationId}`);
+
+    await notificationService.notifyRoles(
+      [UserRole.PROGRAM_OPERATIONS_ADMINISTRATOR, UserRole.PROGRAM_OPERATIONS_MANAGER],
+      {
+        type: 'duplicate_submission',
+        title: 'Duplicate application submission',
+        message: `Typeform response ${token} was submitted again for an existing application.`,
+        link: `/applications/${applicationId}`,
+        applicationId,
+        metadata: {token}
       }
-
-      // 2. Create notification record for each admin user
-      // Note: This is just logging for now since the notifications table/feature is not yet implemented
-      console.log(`Would notify ${adminUsers?.length || 0} admin users about duplicate submission`);
-
-      // When notifications table is implemented, we would do something like:
-      // for (const user of adminUsers || []) {
-      //   await supabaseAdmin.from('notifications').insert({
-      //     user_id: user.id,
-      //     type: 'duplicate_submission',
-      //     content: `Duplicate application submission detected (ID: ${applicationId}, Token: ${token})`,
-      //     is_read: false,
-      //     created_at: new Date().toISOString()
-      //   });
-      // }
-    } catch (error) {
-      // Log but don't throw - this is a non-critical operation
-      console.error('Error creating duplicate submission notification:', error);
-    }
+    );
   }
 
   /**
-   * Extract participant information from Typeform answers
+   * Extract participant information from Typeform answers. Attributes the form maps to a
+   * field are read from that field's answer; core attributes without a mapping fall back to
+   * guessing from field types, refs and titles.
    * @param answers Array of Typeform answers
    * @param fields Array of field definitions
+   * @param mappings The form's participant field mappings
    * @returns Structured participant data
    */
-  private extractParticipantData(answers: TypeformAnswer[], fields: TypeformFieldDefinition[]): ParticipantData {
-    // Debug log incoming data
-    console.log(`Extracting participant data from ${answers.length} answers and ${fields.length} fields`);
-    console.log('Field definitions:', JSON.stringify(fields.map(f => ({
-      id: f.id,
-      title: f.title,
-      ref: f.ref,
-      type: f.type
-    })), null, 2));
-    console.log('Answer data:', JSON.stringify(answers.map(a => ({
-      type: a.type,
-      field: a.field,
-      text: a.text,
-      email: a.email
-    })), null, 2));
-
-    // Create maps for fields by id, ref, and title to make matching more flexible
-    const fieldRefMap = new Map();
-    const fieldIdMap = new Map();
-    const fieldTitleMap = new Map();
-
-    fields.forEach(field => {
-      fieldIdMap.set(field.id, field);
-      if (field.ref) fieldRefMap.set(field.ref.toLowerCase(), field);
-      if (field.title) fieldTitleMap.set(field.title.toLowerCase(), field);
-    });
+  private extractParticipantData(
+    answers: TypeformAnswer[],
+    fields: TypeformFieldDefinition[],
+    mappings: ParticipantFieldMapping[] = []
+  ): ParticipantData {
+    const mapped = this.extractMappedAttributes(answers, mappings);
+    const mappedAttributes = new Set(mappings.map(mapping => mapping.attribute));
+    const guessed = this.guessParticipantData(answers, fields);
+
+    // A mapped attribute never takes a guessed value, even when its answer is missing or invalid
+    const resolve = (attributes: ParticipantAttribute[], value: string | undefined, fallback: string | undefined) =>
+      value || (attributes.some(attribute => mappedAttributes.has(attribute)) ? undefined : fallback);
+
+    const [fullFirstName, fullLastName] = this.splitFullName(mapped.full_name);
+    const profile = sanitizeParticipantProfile(mapped);
 
-    // Initialize with empty values
     const participantData: ParticipantData = {
-      email: '',
-      firstName: '',
-      lastName: ''
+      email: resolve(['email'], mapped.email, guessed.email) || '',
+      firstName: resolve(['first_name', 'full_name'], mapped.first_name || fullFirstName, guessed.firstName) || '',
+      lastName: resolve(['last_name', 'full_name'], mapped.last_name || fullLastName, guessed.lastName) || '',
+      phone: resolve(['phone'], mapped.phone, guessed.phone),
+      dateOfBirth: resolve(['date_of_birth'], mapped.date_of_birth, guessed.dateOfBirth),
+      ...(Object.keys(profile).length > 0 ? {profile} : {})
     };
 
-    // Track if we've already found specific participant information to avoid overwriting with emergency contact info
-    const found = {
-      email: false,
-      firstName: false,
-      lastName: false,
-      phone: false,
-      dateOfBirth: false
-    };
+    // For testing/development - create default values if missing
+    if (!participantData.email) {
+      console.warn('Email not found in form data, using a default value');
+      participantData.email = `applicant_${Date.now()}@example.com`;
+    }
+
+    if (!participantData.firstName) {
+      console.warn('First name not found in form data, using a default value');
+      participantData.firstName = 'Anonymous';
+    }
+
+    if (!participantData.lastName) {
+      console.warn('Last name not found in form data, using a default value');
+      participantData.lastName = 'Applicant';
+    }
+
+    console.log(`Extracted participant data from ${answers.length} answers (mapped: ${[...mappedAttributes].join(', ') || 'none'})`);
+    return participantData;
+  }
+
+  /**
+   * Read, validate and normalize the answers to a form's mapped fields
+   * @returns Valid values by attribute; invalid or missing answers are left out
+   */
+  private extractMappedAttributes(
+    answers: TypeformAnswer[],
+    mappings: ParticipantFieldMapping[]
+  ): Partial<Record<ParticipantAttribute, string>> {
+    const values: Partial<Record<ParticipantAttribute, string>> = {};
+
+    for (const mapping of mappings) {
+      const definition = getParticipantAttribute(mapping.attribute);
+      const answer = answers.find(a => a.field.id === mapping.field_id) ||
+        (mapping.field_ref ? answers.find(a => a.field.ref === mapping.field_ref) : undefined);
+      if (!definition || !answer || answer.type === 'choices') continue;
+
+      const value = normalizeAttributeValue(definition.kind, this.extractResponseValue(answer));
+      if (value) {
+        values[mapping.attribute] = value;
+      } else {
+        console.warn(`Answer to field ${mapping.field_id} is not a valid ${definition.kind} for ${mapping.attribute}, ignoring`);
+      }
+    }
+
+    return values;
+  }
+
+  /**
+   * Split a full name into first and last name; middle names are dropped
+   */
+  private splitFullName(fullName: string | undefined): [string | undefined, string | undefined] {
+    const nameParts = (fullName || '').split(/\s+/).filter(Boolean);
+    if (nameParts.length === 0) return [undefined, undefined];
+    if (nameParts.length === 1) return [nameParts[0], undefined];
+    return [nameParts[0], nameParts[nameParts.length - 1]];
+  }
+
+  /**
+   * Guess participant information from field types, refs and titles, for forms without
+   * a field mapping. Emergency contact fields are skipped.
+   * @param answers Array of Typeform answers
+   * @param fields Array of field definitions
+   * @returns Whatever could be identified; missing attributes are left empty
+   */
+  private guessParticipantData(answers: TypeformAnswer[], fields: TypeformFieldDefinition[]): Partial<ParticipantData> {
+    const fieldIdMap = new Map<string, TypeformFieldDefinition>();
+    fields.forEach(field => fieldIdMap.set(field.id, field));
+
+    const participantData: Partial<ParticipantData> = {};
 
-    // Process each answer to extract participant data
     answers.forEach(answer => {
-      // Extract field information
-      const fieldId = answer.field.id;
       const fieldRef = answer.field.ref?.toLowerCase() || '';
       const fieldType = answer.type;
+      const fieldTitle = fieldIdMap.get(answer.field.id)?.title?.toLowerCase() || '';
 
-      // Try to identify the field by looking at field ids, refs, and titles
-      const field = fieldIdMap.get(fieldId);
-      const fieldTitle = field?.title?.toLowerCase() || '';
-
-      console.log(`Processing answer for field: ${fieldId}, ref: ${fieldRef}, title: ${fieldTitle}, type: ${fieldType}`);
-
-      // Check for emergency contact fields - skip these as they should not be used for participant data
+      // Emergency contact details must not be taken for the participant's own
       if (fieldRef.includes('emergency') ||
         fieldTitle.includes('emergency') ||
-        fieldRef.includes('contact_') ||
-        fieldTitle.includes('emergency contact')) {
-        console.log('Skipping emergency contact field');
-        return; // Skip to next answer
+        fieldRef.includes('contact_')) {
+        return;
       }
 
-      // Identify field by type and content - first check for email fields
-      if (fieldType === 'email' && !found.email) {
+      if (fieldType === 'email' && !participantData.email) {
         participantData.email = answer.email || '';
-        found.email = true;
-        console.log(`Found participant email: ${participantData.email}`);
-      }
-      // Then look for name fields (first name, last name)
-      else if ((fieldType === 'text' || fieldType === 'short_text')) {
-        // Look at field ref and title to guess what this field is
+      } else if (fieldType === 'text' || fieldType === 'short_text') {
         const text = answer.text || '';
 
-        // First name variations
-        if ((fieldRef.includes('first') || fieldRef.includes('firstname') ||
-            fieldTitle.includes('first name') || fieldTitle.includes('first_name')) &&
-          !found.firstName) {
+        if ((fieldRef.includes('first') || fieldTitle.includes('first name') || fieldTitle.includes('first_name')) &&
+          !participantData.firstName) {
           participantData.firstName = text;
-          found.firstName = true;
-          console.log(`Found participant first name: ${participantData.firstName}`);
-        }
-        // Last name variations
-        else if ((fieldRef.includes('last') || fieldRef.includes('lastname') ||
-            fieldTitle.includes('last name') || fieldTitle.includes('last_name')) &&
-          !found.lastName) {
+        } else if ((fieldRef.includes('last') || fieldTitle.includes('last name') || fieldTitle.includes('last_name')) &&
+          !participantData.lastName) {
           participantData.lastName = text;
-          found.lastName = true;
-          console.log(`Found participant last name: ${participantData.lastName}`);
+        } else if ((fieldRef.includes('name') || fieldTitle.includes('name')) &&
+          (!participantData.firstName || !participantData.lastName) && text.includes(' ')) {
+          // Full name field - fill in whichever part is still missing
+          const [firstName, lastName] = this.splitFullName(text);
+          participantData.firstName = participantData.firstName || firstName;
+          participantData.lastName = participantData.lastName || lastName;
         }
-        // Full name field - try to split it
-        else if ((fieldRef.includes('name') || fieldTitle.includes('name')) &&
-          (!found.firstName || !found.lastName)) {
-          if (text.includes(' ')) {
-            const nameParts = text.split(' ');
-            if (nameParts.length >= 2) {
-              // If we don't already have a first name, use the first part
-              if (!found.firstName) {
-                participantData.firstName = nameParts[0];
-                found.firstName = true;
-                console.log(`Extracted participant first name from full name: ${participantData.firstName}`);
-              }
-              // If we don't already have a last name, use the last part
-              if (!found.lastName) {
-                participantData.lastName = nameParts[nameParts.length - 1];
-                found.lastName = true;
-                console.log(`Extracted participant last name from full name: ${participantData.lastName}`);
-              }
-            }
-          }
-        }
-      }
-      // Phone number field
-      else if (fieldType === 'phone_number' && !found.phone) {
+      } else if (fieldType === 'phone_number' && !participantData.phone) {
         participantData.phone = answer.phone_number || '';
-        found.phone = true;
-        console.log(`Found participant phone: ${participantData.phone}`);
-      }
-      // Date of birth field
-      else if (fieldType === 'date' &&
+      } else if (fieldType === 'date' &&
         (fieldRef.includes('birth') || fieldRef.includes('dob') ||
           fieldTitle.includes('birth') || fieldTitle.includes('dob')) &&
-        !found.dateOfBirth) {
+        !participantData.dateOfBirth) {
         participantData.dateOfBirth = answer.date || '';
-        found.dateOfBirth = true;
-        console.log(`Found participant date of birth: ${participantData.dateOfBirth}`);
       }
     });
 
-    // For testing/development - create default values if missing
-    if (!participantData.email) {
-      console.warn('Email not found in form data, using a default value');
-      participantData.email = `applicant_${Date.now()}@example.com`;
-    }
-
-    if (!participantData.firstName) {
-      console.warn('First name not found in form data, using a default value');
-      participantData.firstName = 'Anonymous';
-    }
-
-    if (!participantData.lastName) {
-      console.warn('Last name not found in form data, using a default value');
-      participantData.lastName = 'Applicant';
-    }
-
-    console.log('Extracted participant data:', JSON.stringify(participantData, null, 2));
     return participantData;
   }
 
@@ -328,7 +306,21 @@ export class ApplicationService {
 
       if (existingParticipants && existingParticipants.length > 0) {
         console.log(`Found existing participant with email ${participantData.email}`);
-        return existingParticipants[0];
+        let participant: Participant = existingParticipants[0];
+
+        // Records merged into another participant hand new submissions to the survivor
+        if (participant.merged_into_id) {
+          const {data: survivor, error: survivorError} = await supabaseAdmin
+            .from('participants')
+            .select('*')
+            .eq('id', participant.merged_into_id)
+            .single();
+
+          if (survivorError) throw survivorError;
+          participant = survivor;
+        }
+
+        return this.fillParticipantDetails(participant, participantData);
       }
 
       // Create new participant
@@ -341,6 +333,7 @@ export class ApplicationService {
           last_name: participantData.lastName,
           phone: participantData.phone || null,
           date_of_birth: participantData.dateOfBirth || null,
+          profile: participantData.profile || {},
           created_at: now,
           updated_at: now
         })
@@ -361,6 +354,34 @@ export class ApplicationService {
     }
   }
 
+  /**
+   * Fill in details a returning participant is missing, and refresh their profile with the
+   * latest answers. Name, email and existing phone/date of birth are left as they are.
+   * @returns The updated participant, or the existing one when nothing changed
+   */
+  private async fillParticipantDetails(participant: Participant, participantData: ParticipantData): Promise<Participant> {
+    const updates: Partial<Participant> = {};
+    if (!participant.phone && participantData.phone) updates.phone = participantData.phone;
+    if (!participant.date_of_birth && participantData.dateOfBirth) updates.date_of_birth = participantData.dateOfBirth;
+
+    const currentProfile = sanitizeParticipantProfile(participant.profile);
+    const profile = {...currentProfile, ...(participantData.profile || {})};
+    if (JSON.stringify(profile) !== JSON.stringify(currentProfile)) updates.profile = profile;
+
+    if (Object.keys(updates).length === 0) return participant;
+
+    const {data, error} = await supabaseAdmin
+      .from('participants')
+      .update({...updates, updated_at: new Date().toISOString()})
+      .eq('id', participant.id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    console.log(`Updated participant ${participant.id}: ${Object.keys(updates).join(', ')}`);
+    return data;
+  }
+
   /**
    * Create a new application record
    * @param applicationData Application data
@@ -418,6 +439,7 @@ export class ApplicationService {
       }
 
       console.log(`Created new application with ID: ${data.id}`);
+      await this.recordStatusChange(data.id, null, 'pending', {source: 'webhook', note: 'Application submitted'});
       return data;
     } catch (error) {
       console.error('Error in createApplication:', error);
@@ -693,11 +715,15 @@ export class ApplicationService {
 
       // If we successfully processed any answers, ensure the application is no longer "pending"
       if (processedCount > 0) {
-        await supabaseAdmin
+        const {data: promoted} = await supabaseAdmin
           .from('applications')
           .update({ status: 'new' })
           .eq('id', applicationId)
-          .eq('status', 'pending');
+          .eq('status', 'pending')
+          .select('id');
+        if (promoted && promoted.length > 0) {
+          await this.recordStatusChange(applicationId, 'pending', 'new', {source: 'system', note: 'Answers processed'});
+        }
       }
 
       // Score calculation is now performed once at the end of processTypeformWebhook
@@ -925,8 +951,9 @@ export class ApplicationService {
    */
   async getApplications(filters?: {
     status?: ApplicationStatus;
-    minScore?: number;
+    minScore?: number; // risk score, 0-100
     maxScore?: number;
+    riskBand?: string;
     assignedTo?: string;
     isScreening?: boolean;
     closedReason?: string;
@@ -1020,10 +1047,13 @@ export class ApplicationService {
           baseQuery = baseQuery.eq('status', filters.status);
         }
         if (filters.minScore !== undefined) {
-          baseQuery = baseQuery.gte('calculated_score', filters.minScore);
+          baseQuery = baseQuery.gte('risk_score', filters.minScore);
         }
         if (filters.maxScore !== undefined) {
-          baseQuery = baseQuery.lte('calculated_score', filters.maxScore);
+          baseQuery = baseQuery.lte('risk_score', filters.maxScore);
+        }
+        if (filters.riskBand) {
+          baseQuery = baseQuery.eq('risk_band', filters.riskBand);
         }
         if (filters.assignedTo) {
           baseQuery = baseQuery.eq('assigned_to', filters.assignedTo);
@@ -1222,7 +1252,7 @@ export class ApplicationService {
       // Step 1: Get the basic field responses first
       const {data: responses, error: respError} = await supabaseAdmin
         .from('application_field_responses')
-        .select('id, field_version_id, response_value, score, created_at')
+        .select('id, field_version_id, response_value, score, score_trace, created_at')
         .eq('application_id', applicationId)
         .order('created_at', {ascending: true});
 
@@ -1402,6 +1432,8 @@ export class ApplicationService {
       // Get a complete flattened field hierarchy
       const flattenedFieldHierarchy = flattenHierarchy(rootFields);
 
+      const ruleCreatorNames = await this.getScoreTraceCreatorNames(responses || []);
+
       // Process responses to normalize the structure for frontend consumption
       const processedResponses = responses?.map(response => {
         // Get the field data from our map
@@ -1458,6 +1490,10 @@ export class ApplicationService {
           response_value: response.response_value,
           display_value: displayValue,
           score: response.score,
+          score_trace: ((response.score_trace || []) as ScoreTraceEntry[]).map(entry => ({
+            ...entry,
+            createdByName: entry.createdBy ? ruleCreatorNames.get(entry.createdBy) || null : null
+          })),
           created_at: response.created_at,
           field: fieldObject,
           choice_labels: choiceLabels,
@@ -1531,19 +1567,72 @@ export class ApplicationService {
     }
   }
 
+  /**
+   * Load the current status and the facts the status state machine guards need
+   * @param applicationId Application ID
+   * @returns Current status and transition context, or null if the application does not exist
+   */
+  async getStatusTransitionState(applicationId: string): Promise<{
+    status: ApplicationStatus;
+    context: TransitionContext;
+  } | null> {
+    const {data: app, error} = await supabaseAdmin
+      .from('applications')
+      .select('status, closed_reason, rejected_type')
+      .eq('id', applicationId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!app) return null;
+
+    const {data: screening} = await supabaseAdmin
+      .from('screenings')
+      .select('status, notes')
+      .eq('application_id', applicationId)
+      .eq('screening_type', 'initial')
+      .maybeSingle();
+
+    // Submitting notes sets the screening to screening_in_process and flags the role entry
+    const notes = screening?.notes as { roles?: Record<string, { submitted?: boolean } | null> } | null;
+    const screeningSubmitted = screening?.status === 'screening_in_process' ||
+      Object.values(notes?.roles || {}).some(entry => entry?.submitted === true);
+
+    // Only the most recent medical review counts: a new referral supersedes an earlier clearance
+    const {data: latestReview} = await supabaseAdmin
+      .from('medical_review_cases')
+      .select('status')
+      .eq('application_id', applicationId)
+      .order('created_at', {ascending: false})
+      .limit(1)
+      .maybeSingle();
+
+    return {
+      status: app.status,
+      context: {
+        closedReason: app.closed_reason,
+        rejectedType: app.rejected_type,
+        screeningSubmitted,
+        medicalReviewCleared: latestReview?.status === 'cleared'
+      }
+    };
+  }
+
   /**
    * Update application status
    * @param applicationId Application ID
    * @param status New status
    * @param assignedTo Optional user ID to assign to
-   * @returns Updated application
+   * @param closedReason Reason when closing
+   * @param rejectedType Rejected type when the closed reason is Rejected
+   * @param audit Source and actor recorded in the status history
    */
   async updateApplicationStatus(
     applicationId: string,
     status: ApplicationStatus,
     assignedTo?: string,
     closedReason?: string,
-    rejectedType?: string
+    rejectedType?: string,
+    audit: StatusChangeAudit = {source: 'system'}
   ): Promise<void> {
     console.log(`ApplicationService.updateApplicationStatus called with:`);
     console.log(`  - applicationId: ${applicationId}`);
@@ -1574,7 +1663,7 @@ export class ApplicationService {
       // Get current application_data to update
       const {data: currentApp, error: fetchError} = await supabaseAdmin
         .from('applications')
-        .select('application_data')
+        .select('application_data, status, closed_reason, rejected_type, assigned_to, participants:participant_id(first_name, last_name)')
         .eq('id', applicationId)
         .single();
 
@@ -1615,12 +1704,159 @@ export class ApplicationService {
       }
 
       console.log('Update successful. Updated record:', updateResult);
+
+      const reasonChanged = status === 'closed' &&
+        ((closedReason && closedReason !== currentApp?.closed_reason) || (rejectedType && rejectedType !== currentApp?.rejected_type));
+      if (currentApp?.status !== status || reasonChanged) {
+        await this.recordStatusChange(applicationId, currentApp?.status || null, status, audit, {
+          closedReason: status === 'closed' ? (closedReason || currentApp?.closed_reason) : null,
+          rejectedType: status === 'closed' ? (rejectedType || currentApp?.rejected_type) : null
+        });
+      }
+
+      await this.notifyStatusUpdate(applicationId, currentApp, status, assignedTo);
     } catch (error) {
       console.error(`Error updating application ${applicationId}:`, error);
       throw error;
     }
   }
 
+  /**
+   * Append an entry to the application's status history.
+   * Never throws: losing a history row must not fail the status change itself.
+   * @param applicationId Application ID
+   * @param fromStatus Previous status (null on creation)
+   * @param toStatus New status
+   * @param audit Source and actor of the change
+   * @param details Closed reason / rejected type when closing
+   */
+  async recordStatusChange(
+    applicationId: string,
+    fromStatus: ApplicationStatus | null,
+    toStatus: ApplicationStatus,
+    audit: StatusChangeAudit,
+    details: { closedReason?: string | null; rejectedType?: string | null } = {}
+  ): Promise<void> {
+    try {
+      const {error} = await supabaseAdmin
+        .from('application_status_history')
+        .insert({
+          application_id: applicationId,
+          from_status: fromStatus,
+          to_status: toStatus,
+          changed_by: audit.actorId || null,
+          source: audit.source,
+          closed_reason: details.closedReason || null,
+          rejected_type: details.rejectedType || null,
+          note: audit.note || null,
+          created_at: new Date().toISOString()
+        });
+
+      if (error) {
+        console.error(`Error recording status change for application ${applicationId}:`, error);
+      }
+    } catch (error) {
+      console.error(`Error recording status change for application ${applicationId}:`, error);
+    }
+  }
+
+  /**
+   * Resolve the names of the users who created the rules in the responses' score traces
+   * @param responses Field responses with their score_trace
+   */
+  private async getScoreTraceCreatorNames(responses: {score_trace?: ScoreTraceEntry[] | null}[]): Promise<Map<string, string>> {
+    const creatorIds = Array.from(new Set(
+      responses.flatMap(r => (r.score_trace || []).map(entry => entry.createdBy)).filter(Boolean)
+    )) as string[];
+    if (creatorIds.length === 0) return new Map();
+
+    const {data: profiles, error} = await supabaseAdmin
+      .from('user_profiles')
+      .select('id, first_name, last_name')
+      .in('id', creatorIds);
+
+    if (error) {
+      console.warn('Error resolving scoring rule creators:', error);
+      return new Map();
+    }
+
+    return new Map((profiles || []).map(p => [p.id, [p.first_name, p.last_name].filter(Boolean).join(' ')]));
+  }
+
+  /**
+   * Get an application's status history, oldest first, with actor names resolved
+   * @param applicationId Application ID
+   */
+  async getStatusHistory(applicationId: string): Promise<ApplicationStatusHistoryEntry[]> {
+    const {data, error} = await supabaseAdmin
+      .from('application_status_history')
+      .select('*')
+      .eq('application_id', applicationId)
+      .order('created_at', {ascending: true});
+
+    if (error) throw error;
+
+    const entries = (data || []) as ApplicationStatusHistoryEntry[];
+    const actorIds = Array.from(new Set(entries.map(e => e.changed_by).filter(Boolean))) as string[];
+    if (actorIds.length === 0) return entries;
+
+    const {data: profiles} = await supabaseAdmin
+      .from('user_profiles')
+      .select('id, first_name, last_name')
+      .in('id', actorIds);
+
+    const names = new Map((profiles || []).map(p => [p.id, [p.first_name, p.last_name].filter(Boolean).join(' ')]));
+    return entries.map(e => ({...e, changed_by_name: e.changed_by ? names.get(e.changed_by) || null : null}));
+  }
+
+  /**
+   * Notify the people affected by a status update: a newly assigned screener,
+   * and the assigned screener plus screener leads when an applicant no-shows
+   * @param applicationId Application ID
+   * @param previous Application row as it was before the update
+   * @param status New status
+   * @param assignedTo User ID the application was (re)assigned to, if any
+   */
+  private async notifyStatusUpdate(
+    applicationId: string,
+    previous: {
+      status: string | null;
+      assigned_to: string | null;
+      participants: Pick<Participant, 'first_name' | 'last_name'> | Pick<Participant, 'first_name' | 'last_name'>[] | null;
+    } | null,
+    status: ApplicationStatus,
+    assignedTo?: string
+  ): Promise<void> {
+    const participant = Array.isArray(previous?.participants) ? previous.participants[0] : previous?.participants;
+    const applicantName = [participant?.first_name, participant?.last_name].filter(Boolean).join(' ') || 'An applicant';
+    const link = `/screenings/${applicationId}`;
+
+    if (assignedTo && assignedTo !== previous?.assigned_to) {
+      await notificationService.notifyUsers([assignedTo], {
+        type: 'application_assigned',
+        title: 'New application assigned',
+        message: `${applicantName}'s application has been assigned to you.`,
+        link,
+        applicationId
+      });
+    }
+
+    if (status === 'screening_no_show' && previous?.status !== 'screening_no_show') {
+      const screenerId = assignedTo || previous?.assigned_to;
+      await notificationService.notifyRoles(
+        [UserRole.SCREENER_LEAD],
+        {
+          type: 'screening_no_show',
+          title: 'Screening no-show',
+          message: `${applicantName} did not attend their screening call.`,
+          link,
+          applicationId
+        },
+        screenerId ? [screenerId] : []
+      );
+    }
+  }
+
   /**
    * Find an application by its Typeform response token
    * @param token Typeform response token
@@ -0,0 +1,245 @@
+import crypto from 'crypto';
+import {promises as fs} from 'fs';
+import os from 'os';
+import path from 'path';
+import {createClient, SupabaseClient} from '@supabase/supabase-js';
+import {Participant} from '@/types/application';
+import {
+  EnvelopeEvent,
+  EnvelopeRequest,
+  EnvelopeSendResult,
+  ESignatureProvider,
+  InformedConsentEnvelope,
+} from '@/types/esignature';
+import {INFORMED_CONSENT_SUBJECT, INFORMED_CONSENT_TEMPLATE} from '@/templates/informedConsent';
+
+// Initialize Supabase client with service role for admin operations
+const supabaseAdmin: SupabaseClient = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+);
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Merge {{placeholder}} values into a template
+ * @param template Template text
+ * @param values Placeholder values; missing placeholders render as an empty string
+ * @param escape HTML-escape values (use false for plain-text templates such as subjects)
+ */
+export function renderTemplate(template: string, values: Record<string, string | null | undefined>, escape = true): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, key: string) => {
+    const value = values[key] ?? '';
+    return escape ? escapeHtml(value) : value;
+  });
+}
+
+/**
+ * Development stand-in that "sends" envelopes by writing them to disk.
+ * Each envelope produces <envelopeId>.html (the document) and <envelopeId>.json (the recipient details).
+ * Simulate a signature by POSTing {"envelope_id": "...", "event": "completed"} to /api/webhooks/esignature.
+ */
+export class LocalFileESignatureProvider implements ESignatureProvider {
+  readonly name = 'local';
+
+  private get outputDir(): string {
+    return process.env.ESIGNATURE_LOCAL_DIR || path.join(os.tmpdir(), 'beckley-esignature');
+  }
+
+  async sendEnvelope(request: EnvelopeRequest): Promise<EnvelopeSendResult> {
+    const envelopeId = `local-${crypto.randomUUID()}`;
+    const dir = this.outputDir;
+    await fs.mkdir(dir, {recursive: true});
+
+    const documentPath = path.join(dir, `${envelopeId}.html`);
+    await fs.writeFile(documentPath, request.documentHtml, 'utf8');
+    await fs.writeFile(
+      path.join(dir, `${envelopeId}.json`),
+      JSON.stringify({
+        envelopeId,
+        applicationId: request.applicationId,
+        to: `${request.recipientName} <${request.recipientEmail}>`,
+        subject: request.subject,
+        sentAt: new Date().toISOString(),
+      }, null, 2),
+      'utf8'
+    );
+
+    console.log(`[E-Signature] Local envelope ${envelopeId} written to ${documentPath}`);
+    return {envelopeId, viewUrl: `file://${documentPath}`};
+  }
+
+  parseCallback(payload: unknown): EnvelopeEvent | null {
+    const body = payload as {envelope_id?: unknown; event?: unknown} | null;
+    if (!body || typeof body.envelope_id !== 'string') return null;
+    if (body.event !== 'completed' && body.event !== 'declined' && body.event !== 'voided') return null;
+    return {envelopeId: body.envelope_id, status: body.event};
+  }
+}
+
+// Available providers, selected with ESIGNATURE_PROVIDER. Add real integrations (DocuSign, Dropbox Sign, ...) here.
+const providerFactories: Record<string, () => ESignatureProvider> = {
+  local: () => new LocalFileESignatureProvider(),
+};
+
+/**
+ * Sends informed consent documents and tracks their envelopes.
+ * Status changes are left to callers so they go through the application status state machine.
+ */
+export class ESignatureService {
+  private providerInstance: ESignatureProvider | null = null;
+
+  /**
+   * The configured provider
+   * @throws Error if ESIGNATURE_PROVIDER names an unknown provider
+   */
+  getProvider(): ESignatureProvider {
+    if (!this.providerInstance) {
+      const name = process.env.ESIGNATURE_PROVIDER || 'local';
+      const factory = providerFactories[name];
+      if (!factory) {
+        throw new Error(`Unknown e-signature provider "${name}". Available: ${Object.keys(providerFactories).join(', ')}`);
+      }
+      if (name === 'local' && process.env.NODE_ENV === 'production') {
+        console.warn('[E-Signature] Using the local file provider in production; documents are not delivered to participants');
+      }
+      this.providerInstance = factory();
+    }
+    return this.providerInstance;
+  }
+
+  /**
+   * Render the informed consent document for a participant
+   * @returns Subject line and HTML body
+   */
+  renderInformedConsent(applicationId: string, participant: Participant): {subject: string; html: string} {
+    const values = {
+      participant_name: `${participant.first_name || ''} ${participant.last_name || ''}`.trim(),
+      participant_email: participant.email,
+      date_of_birth: participant.date_of_birth || 'Not provided',
+      application_id: applicationId,
+      issued_date: new Date().toLocaleDateString('en-US', {year: 'numeric', month: 'long', day: 'numeric'}),
+    };
+    return {
+      subject: renderTemplate(INFORMED_CONSENT_SUBJECT, values, false),
+      html: renderTemplate(INFORMED_CONSENT_TEMPLATE, values),
+    };
+  }
+
+  /**
+   * Generate and send the informed consent document, then record the envelope
+   * @param applicationId The application ID
+   * @param participant The applicant
+   * @param sentBy ID of the user sending the document
+   * @returns The stored envelope
+   */
+  async sendInformedConsent(applicationId: string, participant: Participant, sentBy?: string | null): Promise<InformedConsentEnvelope> {
+    if (!participant.email) {
+      throw new Error('Participant has no email address');
+    }
+
+    const provider = this.getProvider();
+    const {subject, html} = this.renderInformedConsent(applicationId, participant);
+    const recipientName = `${participant.first_name || ''} ${participant.last_name || ''}`.trim();
+
+    const result = await provider.sendEnvelope({
+      applicationId,
+      recipientEmail: participant.email,
+      recipientName,
+      subject,
+      documentHtml: html,
+    });
+    console.log(`[E-Signature] Sent informed consent for application ${applicationId} via ${provider.name} (envelope ${result.envelopeId})`);
+
+    const {data, error} = await supabaseAdmin
+      .from('informed_consent_envelopes')
+      .insert({
+        application_id: applicationId,
+        participant_id: participant.id,
+        provider: provider.name,
+        envelope_id: result.envelopeId,
+        status: 'sent',
+        recipient_email: participant.email,
+        recipient_name: recipientName,
+        document_html: html,
+        sent_by: sentBy || null,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      // The document is already out; log the envelope so it can be reconciled by hand
+      console.error(`[E-Signature] Failed to record envelope ${result.envelopeId} for application ${applicationId}:`, error);
+      throw new Error(`Informed consent sent but the envelope could not be recorded: ${error.message}`);
+    }
+    return data as InformedConsentEnvelope;
+  }
+
+  /**
+   * Most recent envelope sent for an application
+   */
+  async getLatestEnvelope(applicationId: string): Promise<InformedConsentEnvelope | null> {
+    const {data, error} = await supabaseAdmin
+      .from('informed_consent_envelopes')
+      .select('*')
+      .eq('application_id', applicationId)
+      .order('sent_at', {ascending: false})
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error(`Error fetching informed consent envelope for application ${applicationId}:`, error);
+      throw error;
+    }
+    return (data as InformedConsentEnvelope) || null;
+  }
+
+  /**
+   * Apply a provider callback to its envelope. Only envelopes still in "sent" change,
+   * so replayed or out-of-order callbacks are ignored.
+   * @param event Parsed provider event
+   * @param payload Raw callback body, stored for auditing
+   * @returns The envelope and whether this call changed it; null if the envelope is unknown
+   */
+  async recordEnvelopeEvent(
+    event: EnvelopeEvent,
+    payload: unknown
+  ): Promise<{envelope: InformedConsentEnvelope; changed: boolean} | null> {
+    const now = new Date().toISOString();
+    const {data: updated, error} = await supabaseAdmin
+      .from('informed_consent_envelopes')
+      .update({
+        status: event.status,
+        completed_at: now,
+        callback_payload: payload,
+        updated_at: now,
+      })
+      .eq('envelope_id', event.envelopeId)
+      .eq('status', 'sent')
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update envelope ${event.envelopeId}: ${error.message}`);
+    }
+    if (updated) {
+      return {envelope: updated as InformedConsentEnvelope, changed: true};
+    }
+
+    const {data: existing} = await supabaseAdmin
+      .from('informed_consent_envelopes')
+      .select('*')
+      .eq('envelope_id', event.envelopeId)
+      .maybeSingle();
+    return existing ? {envelope: existing as InformedConsentEnvelope, changed: false} : null;
+  }
+}
+
+// Export singleton instance
+export const esignatureService = new ESignatureService();
@@ -0,0 +1,431 @@
+import {createClient, SupabaseClient} from '@supabase/supabase-js';
+import HubSpotService from '@/services/hubspotService';
+import {hubspotStatusMappingService} from '@/services/hubspotStatusMappingService';
+import {hubspotSyncEventService} from '@/services/hubspotSyncEventService';
+import {
+  HubSpotDealCandidate,
+  HubSpotDealLink,
+  HubSpotLinkIssue,
+  HubSpotLinkStatus,
+  HubSpotUnlinkedDeal,
+} from '@/types/hubspotSync';
+
+// Initialize Supabase client with service role for admin operations
+const supabaseAdmin: SupabaseClient = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+);
+
+// The HubSpot form integration creates the deal shortly after submit; only create one ourselves after this
+const DEAL_CREATION_GRACE_MS = 30 * 60 * 1000;
+
+// A contact's deal created this long before an application was submitted can still belong to it
+const CLAIM_WINDOW_BEFORE_MS = 24 * 60 * 60 * 1000;
+
+const DEAL_STAGE_PROPERTY = 'dealstage';
+
+const APPLICATION_COLUMNS = 'id, participant_id, status, closed_reason, rejected_type, submission_date, created_at, hubspot_deal_id, hubspot_link_status';
+
+type LinkApplication = {
+  id: string;
+  participant_id: string | null;
+  status: string;
+  closed_reason: string | null;
+  rejected_type: string | null;
+  submission_date: string | null;
+  created_at: string;
+  hubspot_deal_id: string | null;
+  hubspot_link_status: HubSpotLinkStatus | null;
+};
+
+type LinkParticipant = {
+  id: string;
+  email: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  hubspot_contact_id: string | null;
+};
+
+/**
+ * Links each application to its HubSpot deal once and stores the deal id on the application,
+ * so syncs reuse it instead of guessing the contact's most recent deal. A deal belongs to an
+ * application when its br_application_id property holds the application id; a contact's deal
+ * without one is claimed (and stamped) when it is the only deal that can belong to the
+ * application. Applications whose deal is missing or ambiguous are listed for repair on
+ * /admin/hubspot/links.
+ */
+export class HubSpotDealLinkService {
+  /**
+   * The deal an application syncs to: the stored link, or else the deal found (or created) now.
+   * Throws when no single deal can be linked, so the push job is retried.
+   * @param applicationId The application ID
+   */
+  async getDealId(applicationId: string): Promise<string> {
+    const application = await this.loadApplication(applicationId);
+    if (application.hubspot_deal_id) return application.hubspot_deal_id;
+
+    const link = await this.link(application, true);
+    if (!link.dealId) {
+      throw new Error(link.error || `No HubSpot deal linked to application ${applicationId}`);
+    }
+    return link.dealId;
+  }
+
+  /**
+   * The application's deal link, looking for the deal when none is stored yet. Never creates a
+   * deal; used by reconciliation so old applications get linked, or listed for repair.
+   * @param applicationId The application ID
+   */
+  async findDealLink(applicationId: string): Promise<HubSpotDealLink> {
+    const application = await this.loadApplication(applicationId);
+    if (application.hubspot_deal_id) {
+      return {status: 'linked', dealId: application.hubspot_deal_id, candidates: [], error: null};
+    }
+    return this.link(application, false);
+  }
+
+  /**
+   * Look for the deal of an application that is not linked yet, e.g. after duplicates were
+   * cleaned up in HubSpot
+   * @param applicationId The application ID
+   */
+  async retryLink(applicationId: string): Promise<HubSpotDealLink> {
+    const link = await this.findDealLink(applicationId);
+    if (link.dealId) await hubspotSyncEventService.requeuePush(applicationId);
+    return link;
+  }
+
+  /**
+   * Drop the stored link to a deal that no longer exists in HubSpot, so the next sync looks for
+   * the deal again and the application is listed for repair meanwhile
+   * @param applicationId The application ID
+   * @param dealId The deal that was not found
+   */
+  async unlinkMissingDeal(applicationId: string, dealId: string): Promise<HubSpotDealLink> {
+    return this.saveLink(applicationId, {
+      status: 'missing',
+      dealId: null,
+      candidates: [],
+      error: `Linked deal ${dealId} no longer exists in HubSpot`
+    });
+  }
+
+  /**
+   * Link an application to a deal chosen by an admin, replacing any stored link, and push the
+   * application's state to it
+   * @param applicationId The application ID
+   * @param dealId The HubSpot deal ID
+   * @param userId The admin linking the deal
+   */
+  async linkDeal(applicationId: string, dealId: string, userId: string | null): Promise<HubSpotDealLink> {
+    const application = await this.loadApplication(applicationId);
+    const deal = await HubSpotService.getDeal(dealId);
+    if (!deal) throw new Error(`HubSpot deal ${dealId} not found`);
+    if (deal.applicationId && deal.applicationId !== applicationId) {
+      const {data: owner} = await supabaseAdmin
+        .from('applications')
+        .select('id')
+        .eq('id', deal.applicationId)
+        .maybeSingle();
+      if (owner) throw new Error(`HubSpot deal ${dealId} belongs to application ${deal.applicationId}`);
+    }
+
+    const {data: linked} = await supabaseAdmin
+      .from('applications')
+      .select('id')
+      .eq('hubspot_deal_id', dealId)
+      .neq('id', applicationId)
+      .maybeSingle();
+    if (linked) throw new Error(`HubSpot deal ${dealId} is already linked to application ${linked.id}`);
+
+    await this.stampDeal(deal, applicationId);
+    const link = await this.saveLink(application.id, {status: 'linked', dealId, candidates: [], error: null}, userId);
+    await hubspotSyncEventService.requeuePush(applicationId);
+    return link;
+  }
+
+  /**
+   * Create a deal for an application that has none in HubSpot, without waiting for the form
+   * integration, and push the application's state to it
+   * @param applicationId The application ID
+   * @param userId The admin creating the deal
+   */
+  async createDeal(applicationId: string, userId: string | null): Promise<HubSpotDealLink> {
+    const application = await this.loadApplication(applicationId);
+    if (application.hubspot_deal_id) {
+      throw new Error(`Application ${applicationId} is already linked to HubSpot deal ${application.hubspot_deal_id}`);
+    }
+
+    const participant = await this.loadParticipant(application);
+    const contactId = participant ? await this.resolveContactId(participant) : null;
+    if (!contactId) throw new Error('The applicant has no HubSpot contact to create the deal for');
+
+    const dealId = await this.createDealFor(application, participant!, contactId);
+    const link = await this.saveLink(application.id, {status: 'linked', dealId, candidates: [], error: null}, userId);
+    await hubspotSyncEventService.requeuePush(applicationId);
+    return link;
+  }
+
+  /**
+   * Applications whose deal could not be linked automatically, newest first
+   */
+  async listIssues(limit: number = 200): Promise<HubSpotLinkIssue[]> {
+    const {data, error} = await supabaseAdmin
+      .from('applications')
+      .select('id, status, submission_date, hubspot_link_status, hubspot_link_candidates, hubspot_link_error, hubspot_link_checked_at, participants(email, first_name, last_name, hubspot_contact_id)')
+      .in('hubspot_link_status', ['missing', 'ambiguous'])
+      .order('submission_date', {ascending: false})
+      .limit(limit);
+
+    if (error) throw new Error(`Failed to list HubSpot link issues: ${error.message}`);
+
+    return (data || []).map(row => {
+      const participant = (Array.isArray(row.participants) ? row.participants[0] : row.participants) as Partial<LinkParticipant> | null;
+      return {
+        applicationId: row.id,
+        participantName: [participant?.first_name, participant?.last_name].filter(Boolean).join(' ') || null,
+        email: participant?.email || null,
+        contactId: participant?.hubspot_contact_id || null,
+        submissionDate: row.submission_date,
+        status: row.status,
+        linkStatus: row.hubspot_link_status,
+        candidates: row.hubspot_link_candidates || [],
+        error: row.hubspot_link_error,
+        checkedAt: row.hubspot_link_checked_at
+      };
+    });
+  }
+
+  /**
+   * Deals whose stage changes came in from HubSpot but matched no application, most recent first.
+   * Deals linked since then are left out.
+   */
+  async listUnlinkedDeals(limit: number = 100): Promise<HubSpotUnlinkedDeal[]> {
+    const {data, error} = await supabaseAdmin
+      .from('hubspot_sync_ledger')
+      .select('object_id, property_value, occurred_at')
+      .eq('direction', 'inbound')
+      .eq('object_type', 'deal')
+      .eq('property_name', DEAL_STAGE_PROPERTY)
+      .eq('outcome', 'ignored')
+      .is('application_id', null)
+      .order('occurred_at', {ascending: false})
+      .limit(1000);
+
+    if (error) throw new Error(`Failed to list unlinked HubSpot deals: ${error.message}`);
+
+    const deals = new Map<string, HubSpotUnlinkedDeal>();
+    for (const row of data || []) {
+      const deal = deals.get(row.object_id);
+      if (deal) {
+        deal.eventCount += 1;
+      } else {
+        deals.set(row.object_id, {dealId: row.object_id, lastStage: row.property_value, lastEventAt: row.occurred_at, eventCount: 1});
+      }
+    }
+    if (deals.size === 0) return [];
+
+    const {data: linked, error: linkedError} = await supabaseAdmin
+      .from('applications')
+      .select('hubspot_deal_id')
+      .in('hubspot_deal_id', [...deals.keys()]);
+
+    if (linkedError) throw new Error(`Failed to check HubSpot deal links: ${linkedError.message}`);
+
+    for (const row of linked || []) deals.delete(row.hubspot_deal_id);
+    return [...deals.values()].slice(0, limit);
+  }
+
+  private async link(application: LinkApplication, create: boolean): Promise<HubSpotDealLink> {
+    const stamped = await HubSpotService.findDealsByApplicationId(application.id);
+    if (stamped.length === 1) {
+      return this.saveLink(application.id, {status: 'linked', dealId: stamped[0].id, candidates: [], error: null});
+    }
+    if (stamped.length > 1) {
+      return this.saveLink(application.id, {
+        status: 'ambiguous',
+        dealId: null,
+        candidates: stamped,
+        error: `${stamped.length} HubSpot deals have br_application_id ${application.id}`
+      });
+    }
+
+    const participant = await this.loadParticipant(application);
+    if (!participant) {
+      return this.saveLink(application.id, {status: 'missing', dealId: null, candidates: [], error: 'The application has no participant'});
+    }
+
+    const contactId = await this.resolveContactId(participant);
+    if (!contactId) {
+      return this.saveLink(application.id, {
+        status: 'missing',
+        dealId: null,
+        candidates: [],
+        error: participant.email ? `No HubSpot contact found for ${participant.email}` : 'The participant has no email'
+      });
+    }
+
+    const candidates = await this.claimableDeals(application, contactId);
+    if (candidates.length === 1) {
+      await this.stampDeal(candidates[0], application.id);
+      return this.saveLink(application.id, {status: 'linked', dealId: candidates[0].id, candidates: [], error: null});
+    }
+    if (candidates.length > 1) {
+      return this.saveLink(application.id, {
+        status: 'ambiguous',
+        dealId: null,
+        candidates,
+        error: `Contact ${contactId} has ${candidates.length} deals that could belong to this application`
+      });
+    }
+
+    const submittedAt = Date.parse(application.submission_date || application.created_at);
+    if (!create || Date.now() - submittedAt < DEAL_CREATION_GRACE_MS) {
+      return this.saveLink(application.id, {
+        status: 'missing',
+        dealId: null,
+        candidates: [],
+        error: `No HubSpot deal found for contact ${contactId}`
+      });
+    }
+
+    const dealId = await this.createDealFor(application, participant, contactId);
+    return this.saveLink(application.id, {status: 'linked', dealId, candidates: [], error: null});
+  }
+
+  /**
+   * The contact's deals that can belong to the application: not stamped with another application
+   * id, not linked to another application, and created between shortly before this submission
+   * and the participant's next submission
+   */
+  private async claimableDeals(application: LinkApplication, contactId: string): Promise<HubSpotDealCandidate[]> {
+    const deals = (await HubSpotService.getContactDeals(contactId))
+      .filter(deal => !deal.applicationId || deal.applicationId === application.id);
+    if (deals.length === 0) return [];
+
+    const {data: linked, error} = await supabaseAdmin
+      .from('applications')
+      .select('hubspot_deal_id')
+      .in('hubspot_deal_id', deals.map(deal => deal.id))
+      .neq('id', application.id);
+    if (error) throw new Error(`Failed to load linked HubSpot deals: ${error.message}`);
+    const linkedIds = new Set((linked || []).map(row => row.hubspot_deal_id));
+
+    const submittedAt = Date.parse(application.submission_date || application.created_at);
+    let nextSubmittedAt = Infinity;
+    if (application.participant_id) {
+      const {data: next} = await supabaseAdmin
+        .from('applications')
+        .select('submission_date')
+        .eq('participant_id', application.participant_id)
+        .gt('submission_date', application.submission_date || application.created_at)
+        .order('submission_date', {ascending: true})
+        .limit(1)
+        .maybeSingle();
+      if (next?.submission_date) nextSubmittedAt = Date.parse(next.submission_date);
+    }
+
+    return deals.filter(deal => {
+      if (linkedIds.has(deal.id)) return false;
+      const createdAt = Date.parse(deal.createdAt || '');
+      if (Number.isNaN(createdAt)) return true;
+      return createdAt >= submittedAt - CLAIM_WINDOW_BEFORE_MS && createdAt < nextSubmittedAt;
+    });
+  }
+
+  private async createDealFor(application: LinkApplication, participant: LinkParticipant, contactId: string): Promise<string> {
+    const mapping = await hubspotStatusMappingService.getMappingFor(
+      application.status,
+      application.closed_reason,
+      application.rejected_type
+    );
+    if (!mapping) {
+      throw new Error(`Status ${application.status} is not mapped to a HubSpot stage; map it on /admin/hubspot before creating the deal`);
+    }
+
+    const name = [participant.first_name, participant.last_name].filter(Boolean).join(' ') || participant.email || application.id;
+    const dealId = await HubSpotService.createDeal({
+      name: `${name} - Application`,
+      applicationId: application.id,
+      contactId,
+      pipeline: mapping.pipeline_id,
+      stage: mapping.stage_id
+    });
+    console.log(`[HubSpot Links] Created deal ${dealId} for application ${application.id}`);
+    return dealId;
+  }
+
+  // Write br_application_id on a claimed deal so later lookups find it by application id
+  private async stampDeal(deal: HubSpotDealCandidate, applicationId: string): Promise<void> {
+    if (deal.applicationId === applicationId) return;
+    await HubSpotService.updateDealProperties(deal.id, {br_application_id: applicationId});
+  }
+
+  private async resolveContactId(participant: LinkParticipant): Promise<string | null> {
+    // A stored link wins over the email lookup, so merged participants keep the contact chosen at merge time
+    if (participant.hubspot_contact_id) return participant.hubspot_contact_id;
+    if (!participant.email) return null;
+
+    const contactId = await HubSpotService.findContactIdByEmail(participant.email);
+    if (contactId) {
+      await supabaseAdmin
+        .from('participants')
+        .update({hubspot_contact_id: contactId})
+        .eq('id', participant.id);
+    }
+    return contactId;
+  }
+
+  private async saveLink(applicationId: string, link: HubSpotDealLink, userId: string | null = null): Promise<HubSpotDealLink> {
+    const now = new Date().toISOString();
+    const {error} = await supabaseAdmin
+      .from('applications')
+      .update({
+        hubspot_deal_id: link.dealId,
+        hubspot_link_status: link.status,
+        hubspot_link_candidates: link.candidates.length > 0 ? link.candidates : null,
+        hubspot_link_error: link.error,
+        hubspot_link_checked_at: now,
+        hubspot_linked_at: link.dealId ? now : null,
+        hubspot_linked_by: link.dealId ? userId : null
+      })
+      .eq('id', applicationId);
+
+    if (error) {
+      // The unique index rejects a deal another application was linked to in the meantime
+      if (error.code === '23505') throw new Error(`HubSpot deal ${link.dealId} is already linked to another application`);
+      throw new Error(`Failed to store HubSpot deal link for application ${applicationId}: ${error.message}`);
+    }
+
+    if (link.status !== 'linked') {
+      console.warn(`[HubSpot Links] Application ${applicationId} is ${link.status}: ${link.error}`);
+    }
+    return link;
+  }
+
+  private async loadApplication(applicationId: string): Promise<LinkApplication> {
+    const {data, error} = await supabaseAdmin
+      .from('applications')
+      .select(APPLICATION_COLUMNS)
+      .eq('id', applicationId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load application ${applicationId}: ${error.message}`);
+    if (!data) throw new Error(`Application ${applicationId} not found`);
+    return data as LinkApplication;
+  }
+
+  private async loadParticipant(application: LinkApplication): Promise<LinkParticipant | null> {
+    if (!application.participant_id) return null;
+    const {data, error} = await supabaseAdmin
+      .from('participants')
+      .select('id, email, first_name, last_name, hubspot_contact_id')
+      .eq('id', application.participant_id)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load participant ${application.participant_id}: ${error.message}`);
+    return data as LinkParticipant | null;
+  }
+}
+
+export const hubspotDealLinkService = new HubSpotDealLinkService();
@@ -0,0 +1,376 @@
+import {createClient, SupabaseClient} from '@supabase/supabase-js';
+import HubSpotService from '@/services/hubspotService';
+import {hubspotStatusMappingService} from '@/services/hubspotStatusMappingService';
+import {applicationService} from '@/services/applicationService';
+import {jobQueueService} from '@/services/jobQueueService';
+import {validateStatusTransition} from '@/lib/application-status-machine';
+import {normalizeAttributeValue} from '@/lib/participant-attributes';
+import {ApplicationStatus} from '@/types/application';
+import {ParticipantAttributeKind} from '@/types/participantMapping';
+import {
+  HubSpotObjectType,
+  HubSpotSyncLedgerEntry,
+  HubSpotSyncOutcome,
+  HubSpotWebhookEvent,
+} from '@/types/hubspotSync';
+
+// Initialize Supabase client with service role for admin operations
+const supabaseAdmin: SupabaseClient = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+);
+
+const DEAL_STAGE_PROPERTY = 'dealstage';
+
+// Contact properties synced onto participants, and how their values are validated
+const CONTACT_PROPERTIES: Record<string, {column: 'email' | 'phone' | 'first_name' | 'last_name'; kind: ParticipantAttributeKind}> = {
+  email: {column: 'email', kind: 'email'},
+  phone: {column: 'phone', kind: 'phone'},
+  firstname: {column: 'first_name', kind: 'text'},
+  lastname: {column: 'last_name', kind: 'text'},
+};
+
+// Pattern for a case-insensitive exact match: ilike would otherwise treat % and _ in an email as wildcards
+const exactPattern = (value: string): string => value.replace(/[\\%_]/g, '\\$&');
+
+interface InboundResult {
+  outcome: HubSpotSyncOutcome;
+  detail?: string;
+  previousValue?: string | null;
+  applicationId?: string | null;
+  participantId?: string | null;
+}
+
+const objectTypeOf = (subscriptionType: string): HubSpotObjectType | null => {
+  if (subscriptionType.startsWith('deal.')) return 'deal';
+  if (subscriptionType.startsWith('contact.')) return 'contact';
+  return null;
+};
+
+const isSyncedProperty = (event: HubSpotWebhookEvent) =>
+  (event.subscriptionType === 'deal.propertyChange' && event.propertyName === DEAL_STAGE_PROPERTY) ||
+  (event.subscriptionType === 'contact.propertyChange' && !!event.propertyName && event.propertyName in CONTACT_PROPERTIES);
+
+/**
+ * Applies changes the sales team makes in HubSpot back onto applications and participants.
+ * Every webhook event is written to hubspot_sync_ledger first and processed by a
+ * hubspot.inbound_event job, so HubSpot gets a fast 2xx and retried deliveries are recorded once.
+ *
+ * Precedence when HubSpot and the app disagree:
+ * - Application status: the app is the system of record. A deal stage change is applied only
+ *   when the stage is set to sync from HubSpot (see /admin/hubspot), the status machine allows
+ *   the move, and the application's status has not changed in the app since the HubSpot edit.
+ *   Otherwise the change is logged as a conflict and the app's status is pushed back to the deal.
+ * - Contact details (email, phone, first and last name): HubSpot wins, and the most recent
+ *   HubSpot edit of each property wins over older ones delivered late. Empty or invalid values
+ *   and emails already used by another participant are not applied.
+ */
+export class HubSpotInboundService {
+  /**
+   * Check the shape of a webhook delivery
+   * @returns The events, or null when the body is not a HubSpot event array
+   */
+  parseEvents(payload: unknown): HubSpotWebhookEvent[] | null {
+    if (!Array.isArray(payload)) return null;
+    return payload.filter((event): event is HubSpotWebhookEvent =>
+      !!event && typeof event === 'object' &&
+      (typeof event.eventId === 'number' || typeof event.eventId === 'string') &&
+      (typeof event.objectId === 'number' || typeof event.objectId === 'string') &&
+      typeof event.subscriptionType === 'string' &&
+      typeof event.occurredAt === 'number'
+    );
+  }
+
+  /**
+   * Record a delivery's events in the ledger and queue the ones we sync
+   * @returns How many events were new, and how many of those were queued for processing
+   */
+  async recordEvents(events: HubSpotWebhookEvent[]): Promise<{recorded: number; queued: number}> {
+    const now = new Date().toISOString();
+    const rows = events
+      .filter(event => objectTypeOf(event.subscriptionType))
+      .map(event => {
+        const synced = isSyncedProperty(event);
+        return {
+          direction: 'inbound',
+          event_id: String(event.eventId),
+          subscription_type: event.subscriptionType,
+          object_type: objectTypeOf(event.subscriptionType),
+          object_id: String(event.objectId),
+          property_name: event.propertyName || null,
+          property_value: event.propertyValue ?? null,
+          change_source: event.changeSource || null,
+          occurred_at: new Date(event.occurredAt).toISOString(),
+          outcome: synced ? 'pending' : 'ignored',
+          detail: synced ? null : 'Not a synced property',
+          payload: event,
+          processed_at: synced ? null : now
+        };
+      });
+
+    if (rows.length === 0) return {recorded: 0, queued: 0};
+
+    // Retried deliveries carry the same eventId and are skipped
+    const {data, error} = await supabaseAdmin
+      .from('hubspot_sync_ledger')
+      .upsert(rows, {onConflict: 'direction,event_id', ignoreDuplicates: true})
+      .select('id, outcome');
+
+    if (error) throw new Error(`Failed to record HubSpot events: ${error.message}`);
+
+    const pending = (data || []).filter(row => row.outcome === 'pending');
+    for (const row of pending) {
+      await jobQueueService.enqueue('hubspot.inbound_event', {ledgerId: row.id}, {
+        dedupeKey: `hubspot.inbound_event:${row.id}`
+      });
+    }
+
+    return {recorded: data?.length || 0, queued: pending.length};
+  }
+
+  /**
+   * Apply one recorded event. Safe to run again: entries that are no longer pending are left alone.
+   */
+  async processEntry(ledgerId: string): Promise<HubSpotSyncOutcome> {
+    const {data: entry, error} = await supabaseAdmin
+      .from('hubspot_sync_ledger')
+      .select('*')
+      .eq('id', ledgerId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load HubSpot ledger entry ${ledgerId}: ${error.message}`);
+    if (!entry) throw new Error(`HubSpot ledger entry ${ledgerId} not found`);
+    if (entry.outcome !== 'pending') return entry.outcome;
+
+    const result = entry.object_type === 'deal'
+      ? await this.applyDealStage(entry as HubSpotSyncLedgerEntry)
+      : await this.applyContactProperty(entry as HubSpotSyncLedgerEntry);
+
+    await this.finishEntry(ledgerId, result);
+    console.log(`[HubSpot Inbound] ${entry.subscription_type} ${entry.property_name} on ${entry.object_type} ${entry.object_id}: ${result.outcome}${result.detail ? ` (${result.detail})` : ''}`);
+    return result.outcome;
+  }
+
+  /**
+   * Record why processing an entry failed; the entry is marked failed once the job gives up
+   */
+  async recordFailure(ledgerId: string, error: unknown, final: boolean): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    const {error: updateError} = await supabaseAdmin
+      .from('hubspot_sync_ledger')
+      .update({
+        detail: message,
+        ...(final ? {outcome: 'failed', processed_at: new Date().toISOString()} : {})
+      })
+      .eq('id', ledgerId)
+      .eq('outcome', 'pending');
+
+    if (updateError) console.error(`[HubSpot Inbound] Failed to record error on ledger entry ${ledgerId}:`, updateError);
+  }
+
+  private async applyDealStage(entry: HubSpotSyncLedgerEntry): Promise<InboundResult> {
+    const applicationId = await this.findApplicationForDeal(entry.object_id);
+    if (!applicationId) return {outcome: 'ignored', detail: 'No application linked to this deal; link it from the HubSpot deal links page'};
+
+    const state = await applicationService.getStatusTransitionState(applicationId);
+    if (!state) return {outcome: 'ignored', detail: 'Application not found', applicationId};
+
+    const stage = entry.property_value || '';
+    const previousValue = state.status;
+    const currentMapping = await hubspotStatusMappingService.getMappingFor(state.status, state.context.closedReason, state.context.rejectedType);
+    if (currentMapping?.stage_id === stage) {
+      return {outcome: 'no_change', previousValue, applicationId};
+    }
+
+    const target = await hubspotStatusMappingService.getStatusForStage(stage);
+    if (!target) {
+      return {outcome: 'ignored', detail: `Stage ${stage} is not set to sync back from HubSpot`, previousValue, applicationId};
+    }
+
+    const lastChangeAt = await this.getLastStatusChangeAt(applicationId);
+    if (lastChangeAt && lastChangeAt > entry.occurred_at) {
+      await this.pushStatusToHubSpot(applicationId);
+      return {outcome: 'conflict', detail: 'Status changed in the app after this HubSpot edit', previousValue, applicationId};
+    }
+
+    const transition = validateStatusTransition(state.status, target.status, {
+      ...state.context,
+      closedReason: target.closedReason ?? state.context.closedReason,
+      rejectedType: target.rejectedType ?? state.context.rejectedType
+    });
+    if (!transition.allowed) {
+      await this.pushStatusToHubSpot(applicationId);
+      return {outcome: 'conflict', detail: transition.error, previousValue, applicationId};
+    }
+
+    await applicationService.updateApplicationStatus(
+      applicationId,
+      target.status as ApplicationStatus,
+      undefined,
+      target.closedReason ?? undefined,
+      target.rejectedType ?? undefined,
+      {source: 'hubspot', note: `Deal ${entry.object_id} moved to stage ${stage} in HubSpot`}
+    );
+    // Bring the deal's application_status property in line with the new status
+    await this.pushStatusToHubSpot(applicationId);
+    return {outcome: 'applied', previousValue, applicationId};
+  }
+
+  private async applyContactProperty(entry: HubSpotSyncLedgerEntry): Promise<InboundResult> {
+    const property = CONTACT_PROPERTIES[entry.property_name || ''];
+    if (!property) return {outcome: 'ignored', detail: 'Not a synced property'};
+
+    const participant = await this.findParticipantForContact(entry.object_id);
+    if (!participant) return {outcome: 'ignored', detail: 'No participant linked to this contact'};
+
+    const participantId = participant.id as string;
+    const previousValue = (participant[property.column] as string | null) ?? null;
+
+    if (await this.isSuperseded(entry)) {
+      return {outcome: 'superseded', detail: 'A newer HubSpot edit of this property was already handled', previousValue, participantId};
+    }
+
+    const value = normalizeAttributeValue(property.kind, entry.property_value);
+    if (!value) {
+      return {outcome: 'ignored', detail: `Empty or invalid ${property.kind}; participant left unchanged`, previousValue, participantId};
+    }
+    if (normalizeAttributeValue(property.kind, previousValue) === value) {
+      return {outcome: 'no_change', previousValue, participantId};
+    }
+
+    if (property.column === 'email') {
+      const {data: clash} = await supabaseAdmin
+        .from('participants')
+        .select('id')
+        .ilike('email', exactPattern(value))
+        .neq('id', participantId)
+        .limit(1);
+      if (clash && clash.length > 0) {
+        return {outcome: 'conflict', detail: `Another participant already uses ${value}`, previousValue, participantId};
+      }
+    }
+
+    const {error} = await supabaseAdmin
+      .from('participants')
+      .update({[property.column]: value, updated_at: new Date().toISOString()})
+      .eq('id', participantId);
+
+    if (error) throw new Error(`Failed to update participant ${participantId}: ${error.message}`);
+    return {outcome: 'applied', previousValue, participantId};
+  }
+
+  private async finishEntry(ledgerId: string, result: InboundResult): Promise<void> {
+    const {error} = await supabaseAdmin
+      .from('hubspot_sync_ledger')
+      .update({
+        outcome: result.outcome,
+        detail: result.detail || null,
+        previous_value: result.previousValue ?? null,
+        application_id: result.applicationId || null,
+        participant_id: result.participantId || null,
+        processed_at: new Date().toISOString()
+      })
+      .eq('id', ledgerId);
+
+    if (error) throw new Error(`Failed to update HubSpot ledger entry ${ledgerId}: ${error.message}`);
+  }
+
+  /**
+   * A later edit of the same property has already been handled, so this one arrived out of order
+   */
+  private async isSuperseded(entry: HubSpotSyncLedgerEntry): Promise<boolean> {
+    const {count} = await supabaseAdmin
+      .from('hubspot_sync_ledger')
+      .select('id', {count: 'exact', head: true})
+      .eq('direction', 'inbound')
+      .eq('object_type', entry.object_type)
+      .eq('object_id', entry.object_id)
+      .eq('property_name', entry.property_name)
+      .in('outcome', ['applied', 'no_change', 'conflict'])
+      .gt('occurred_at', entry.occurred_at);
+
+    return (count || 0) > 0;
+  }
+
+  private async getLastStatusChangeAt(applicationId: string): Promise<string | null> {
+    const {data} = await supabaseAdmin
+      .from('application_status_history')
+      .select('created_at')
+      .eq('application_id', applicationId)
+      .order('created_at', {ascending: false})
+      .limit(1)
+      .maybeSingle();
+
+    return data?.created_at || null;
+  }
+
+  private async pushStatusToHubSpot(applicationId: string): Promise<void> {
+    try {
+      await jobQueueService.enqueue('hubspot.sync_status', {applicationId}, {
+        dedupeKey: `hubspot.sync_status:${applicationId}`
+      });
+    } catch (e) {
+      console.warn(`[HubSpot Inbound] Status push for application ${applicationId} could not be queued:`, e);
+    }
+  }
+
+  /**
+   * The application a deal belongs to: the application linked to it, or the one named by the deal's
+   * br_application_id property. Other deals are not guessed from the applicant's contact; their events
+   * are recorded as ignored and listed on the deal links page.
+   */
+  private async findApplicationForDeal(dealId: string): Promise<string | null> {
+    const {data: linked} = await supabaseAdmin
+      .from('applications')
+      .select('id')
+      .eq('hubspot_deal_id', dealId)
+      .maybeSingle();
+    if (linked) return linked.id;
+
+    const properties = await HubSpotService.getDealProperties(dealId, ['br_application_id']);
+    if (!properties?.br_application_id) return null;
+
+    const {data: application} = await supabaseAdmin
+      .from('applications')
+      .select('id')
+      .eq('id', properties.br_application_id)
+      .maybeSingle();
+    return application?.id || null;
+  }
+
+  /**
+   * The participant linked to a contact, linking one by email when no participant is linked yet
+   */
+  private async findParticipantForContact(contactId: string): Promise<Record<string, string | null> | null> {
+    const columns = 'id, email, phone, first_name, last_name';
+    const {data: linked} = await supabaseAdmin
+      .from('participants')
+      .select(columns)
+      .eq('hubspot_contact_id', contactId)
+      .is('merged_into_id', null)
+      .limit(1)
+      .maybeSingle();
+    if (linked) return linked;
+
+    const email = await HubSpotService.getContactEmail(contactId);
+    if (!email) return null;
+
+    const {data: byEmail} = await supabaseAdmin
+      .from('participants')
+      .select(columns)
+      .ilike('email', exactPattern(email.trim()))
+      .is('merged_into_id', null)
+      .is('hubspot_contact_id', null)
+      .limit(1)
+      .maybeSingle();
+    if (!byEmail) return null;
+
+    await supabaseAdmin
+      .from('participants')
+      .update({hubspot_contact_id: contactId})
+      .eq('id', byEmail.id);
+    return byEmail;
+  }
+}
+
+export const hubspotInboundService = new HubSpotInboundService();
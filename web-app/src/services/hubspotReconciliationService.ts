@@ -0,0 +1,221 @@
+import {createClient, SupabaseClient} from '@supabase/supabase-js';
+import HubSpotService from '@/services/hubspotService';
+import {hubspotDealLinkService} from '@/services/hubspotDealLinkService';
+import {hubspotStatusMappingService} from '@/services/hubspotStatusMappingService';
+import {jobQueueService} from '@/services/jobQueueService';
+import {scoringService} from '@/services/scoringService';
+import {HubSpotDriftItem, HubSpotReconciliationRun} from '@/types/hubspotSync';
+
+// Initialize Supabase client with service role for admin operations
+const supabaseAdmin: SupabaseClient = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+);
+
+// Applications checked per job; each costs several HubSpot calls
+const PAGE_SIZE = 20;
+
+// Closed applications stop being checked once they have been left alone this long
+const CLOSED_WINDOW_DAYS = 30;
+
+// New applications get their deal from the HubSpot form integration; give it time before checking
+const NEW_APPLICATION_GRACE_MS = 60 * 60 * 1000;
+
+// Drift entries kept per run; drift_count still counts all of them
+const MAX_DRIFT_ITEMS = 1000;
+
+const SUMMARY_COLUMNS = 'id, status, cursor_application_id, checked_count, drift_count, error_count, last_error, created_by, created_at, updated_at, completed_at';
+
+/**
+ * Compares each application's expected HubSpot state (status, stage, score and screener) with
+ * its live deal and records the differences. A run pages through open applications, and closed
+ * ones touched recently, in hubspot.reconcile_page jobs. Runs nightly from cron.
+ */
+export class HubSpotReconciliationService {
+  /**
+   * Record a run and queue the job that checks its first page. A run already in progress is
+   * returned instead of starting a second one.
+   */
+  async startRun(userId: string | null): Promise<HubSpotReconciliationRun> {
+    const {data: active} = await supabaseAdmin
+      .from('hubspot_reconciliation_runs')
+      .select(SUMMARY_COLUMNS)
+      .in('status', ['pending', 'running'])
+      .order('created_at', {ascending: false})
+      .limit(1)
+      .maybeSingle();
+    if (active) return {...active, drift: []} as HubSpotReconciliationRun;
+
+    const {data: run, error} = await supabaseAdmin
+      .from('hubspot_reconciliation_runs')
+      .insert({status: 'pending', created_by: userId})
+      .select(SUMMARY_COLUMNS)
+      .single();
+
+    if (error || !run) throw new Error(`Failed to create HubSpot reconciliation run: ${error?.message}`);
+
+    await jobQueueService.enqueue('hubspot.reconcile_page', {runId: run.id}, {
+      dedupeKey: `hubspot.reconcile_page:${run.id}:0`,
+      maxAttempts: 5
+    });
+
+    console.log(`[HubSpot Reconciliation] Run ${run.id} queued`);
+    return {...run, drift: []} as HubSpotReconciliationRun;
+  }
+
+  /**
+   * Check the run's next page of applications, then queue the page after it.
+   * Safe to retry: the cursor only moves once a page has been recorded.
+   */
+  async reconcileNextPage(runId: string): Promise<{runId: string; checked: number; done: boolean}> {
+    const {data: run, error} = await supabaseAdmin
+      .from('hubspot_reconciliation_runs')
+      .select('*')
+      .eq('id', runId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load HubSpot reconciliation run: ${error.message}`);
+    if (!run) throw new Error(`HubSpot reconciliation run ${runId} not found`);
+    if (run.status === 'completed' || run.status === 'failed') return {runId, checked: 0, done: true};
+
+    const closedSince = new Date(Date.now() - CLOSED_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    let query = supabaseAdmin
+      .from('applications')
+      .select('id, status, closed_reason, rejected_type, participants(email, first_name, last_name, hubspot_contact_id)')
+      .not('participant_id', 'is', null)
+      .or(`status.neq.closed,updated_at.gte.${closedSince}`)
+      .lt('created_at', new Date(Date.now() - NEW_APPLICATION_GRACE_MS).toISOString())
+      .order('id', {ascending: true})
+      .limit(PAGE_SIZE);
+    if (run.cursor_application_id) query = query.gt('id', run.cursor_application_id);
+
+    const {data: applications, error: appsError} = await query;
+    if (appsError) throw new Error(`Failed to load applications to reconcile: ${appsError.message}`);
+
+    const pageDrift: HubSpotDriftItem[] = [];
+    let errors = 0;
+    let lastError: string | null = null;
+    for (const application of applications || []) {
+      try {
+        pageDrift.push(...await this.checkApplication(application));
+      } catch (e) {
+        errors++;
+        lastError = `Application ${application.id}: ${e instanceof Error ? e.message : String(e)}`;
+        console.warn(`[HubSpot Reconciliation] Could not check application ${application.id}:`, e);
+      }
+    }
+
+    const checked = applications?.length || 0;
+    const done = checked < PAGE_SIZE;
+    const drift: HubSpotDriftItem[] = run.drift || [];
+    const now = new Date().toISOString();
+
+    const {error: updateError} = await supabaseAdmin
+      .from('hubspot_reconciliation_runs')
+      .update({
+        status: done ? 'completed' : 'running',
+        cursor_application_id: checked > 0 ? applications![checked - 1].id : run.cursor_application_id,
+        checked_count: run.checked_count + checked,
+        drift_count: run.drift_count + pageDrift.length,
+        error_count: run.error_count + errors,
+        drift: [...drift, ...pageDrift].slice(0, MAX_DRIFT_ITEMS),
+        last_error: lastError ?? run.last_error,
+        updated_at: now,
+        completed_at: done ? now : null
+      })
+      .eq('id', runId);
+
+    if (updateError) throw new Error(`Failed to record HubSpot reconciliation progress: ${updateError.message}`);
+
+    if (!done) {
+      await jobQueueService.enqueue('hubspot.reconcile_page', {runId}, {
+        dedupeKey: `hubspot.reconcile_page:${runId}:${run.checked_count + checked}`,
+        maxAttempts: 5
+      });
+    }
+
+    console.log(`[HubSpot Reconciliation] Run ${runId}: ${checked} checked, ${pageDrift.length} drifted, ${errors} errors${done ? ', run complete' : ''}`);
+    return {runId, checked, done};
+  }
+
+  /**
+   * Record why a page failed, and fail the run once its job is out of attempts
+   */
+  async recordPageError(runId: string, err: unknown, isFinal: boolean): Promise<void> {
+    const message = err instanceof Error ? err.message : String(err);
+    const now = new Date().toISOString();
+    const {error} = await supabaseAdmin
+      .from('hubspot_reconciliation_runs')
+      .update({
+        last_error: message.slice(0, 2000),
+        ...(isFinal ? {status: 'failed', completed_at: now} : {}),
+        updated_at: now
+      })
+      .eq('id', runId);
+
+    if (error) console.error(`[HubSpot Reconciliation] Failed to record error for run ${runId}:`, error);
+  }
+
+  /**
+   * The most recent run, with its drift
+   */
+  async getLatestRun(): Promise<HubSpotReconciliationRun | null> {
+    const {data, error} = await supabaseAdmin
+      .from('hubspot_reconciliation_runs')
+      .select('*')
+      .order('created_at', {ascending: false})
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load HubSpot reconciliation run: ${error.message}`);
+    return data as HubSpotReconciliationRun | null;
+  }
+
+  private async checkApplication(application: {
+    id: string;
+    status: string;
+    closed_reason: string | null;
+    rejected_type: string | null;
+    participants: unknown;
+  }): Promise<HubSpotDriftItem[]> {
+    const participant = (Array.isArray(application.participants) ? application.participants[0] : application.participants) as {
+      email?: string | null;
+      first_name?: string | null;
+      last_name?: string | null;
+      hubspot_contact_id?: string | null;
+    } | null;
+    if (!participant?.email && !participant?.hubspot_contact_id) return [];
+
+    const participantName = [participant.first_name, participant.last_name].filter(Boolean).join(' ') || null;
+    const drift = (field: HubSpotDriftItem['field'], expected: string | null, actual: string | null, dealId: string | null): HubSpotDriftItem =>
+      ({applicationId: application.id, participantName, dealId, field, expected, actual});
+
+    // Links applications synced before deal links were stored; ones that cannot be linked go to /admin/hubspot/links
+    const link = await hubspotDealLinkService.findDealLink(application.id);
+    if (!link.dealId) return [drift('deal', 'Deal linked to this application', link.error || `Link ${link.status}`, null)];
+    const dealId = link.dealId;
+
+    const actual = await HubSpotService.getApplicationProperties(dealId);
+    if (!actual) {
+      await hubspotDealLinkService.unlinkMissingDeal(application.id, dealId);
+      return [drift('deal', `Deal ${dealId}`, 'Deal not found', dealId)];
+    }
+
+    const items: HubSpotDriftItem[] = [];
+    const mapping = await hubspotStatusMappingService.getMappingFor(application.status, application.closed_reason, application.rejected_type);
+    if (mapping) {
+      if (mapping.status_property_value !== actual.status) items.push(drift('status', mapping.status_property_value, actual.status, dealId));
+      if (mapping.stage_id !== actual.stage) items.push(drift('stage', mapping.stage_id, actual.stage, dealId));
+    }
+
+    const expected = await scoringService.getExpectedHubSpotScoreAndScreener(application.id);
+    if (expected) {
+      if (expected.score !== actual.score) items.push(drift('score', expected.score, actual.score, dealId));
+      // Nothing to compare until a screener is known in the app
+      if (expected.screener && expected.screener !== actual.screener) items.push(drift('screener', expected.screener, actual.screener, dealId));
+    }
+    return items;
+  }
+}
+
+export const hubspotReconciliationService = new HubSpotReconciliationService();
@@ -1,58 +1,51 @@
 /*
   HubSpot integration service
   - Keeps HubSpot-specific logic isolated from app logic
+  - Which stage and application_status value each app status maps to is configured in the
+    database (see hubspotStatusMappingService)
 */
 
+import type { HubSpotDealCandidate, HubSpotPipeline } from '@/types/hubspotSync';
+
 type HubSpotDeal = {
   id: string;
   properties?: Record<string, any>;
 };
 
-const HUBSPOT_API_KEY = process.env.HUBSPOT_API_KEY;
-const HUBSPOT_BASE = 'https://api.hubapi.com';
+// HUBSPOT_BASE_URL points the integration at a stand-in such as utils/hubspot/fakeServer in development
+const config = {
+  apiKey: process.env.HUBSPOT_API_KEY,
+  baseUrl: (process.env.HUBSPOT_BASE_URL || 'https://api.hubapi.com').replace(/\/+$/, ''),
+};
 
 function assertApiKey() {
-  if (!HUBSPOT_API_KEY) {
+  if (!config.apiKey) {
     throw new Error('HUBSPOT_API_KEY is not configured');
   }
 }
 
 async function hsFetch<T>(path: string, init?: RequestInit): Promise<T> {
   assertApiKey();
-  const res = await fetch(`${HUBSPOT_BASE}${path}`, {
+  const res = await fetch(`${config.baseUrl}${path}`, {
     ...init,
     headers: {
       'Content-Type': 'application/json',
-      'Authorization': `Bearer ${HUBSPOT_API_KEY}`,
+      'Authorization': `Bearer ${config.apiKey}`,
       ...(init?.headers || {}),
     },
   });
   if (!res.ok) {
     const text = await res.text();
-    // Throw structured error so callers can detect missing scopes and skip loudly but safely
+    // Throw structured error so callers can detect missing scopes, and sync events can record what was sent
     const err = new Error(`HubSpot API ${path} failed: ${res.status} ${text}`) as any;
     err.status = res.status;
     err.body = text;
+    err.requestBody = typeof init?.body === 'string' ? init.body : undefined;
     throw err;
   }
   return res.json() as Promise<T>;
 }
 
-// Map internal app status to HubSpot pipeline stage (update this config as needed)
-const statusToStage: Record<string, { pipeline: string; stage: string }> = {
-  // internal_status: { pipeline: 'default', stage: 'appointmentscheduled' }
-  pending: { pipeline: 'default', stage: '1142575458' },
-  new: { pipeline: 'default', stage: '1142575458' },
-  screening_scheduled: { pipeline: 'default', stage: 'appointmentscheduled' },
-  screening_no_show: { pipeline: 'default', stage: 'appointmentscheduled' },
-  invited_to_reschedule: { pipeline: 'default', stage: 'appointmentscheduled' },
-  secondary_screening: { pipeline: 'default', stage: 'appointmentscheduled' },
-  screening_in_process: { pipeline: 'default', stage: 'appointmentscheduled' },
-  medical_review_required: { pipeline: 'default', stage: 'appointmentscheduled' },
-  conditionally_approved: { pipeline: 'default', stage: 'qualifiedtobuy' },
-  closed: { pipeline: 'default', stage: '121534028' },
-};
-
 // Provided by user: application_status (dropdown), application_score (single-line), screener_notes (multi-line)
 const dealProps = {
   applicationStatus: 'application_status',
@@ -60,81 +53,152 @@ const dealProps = {
   screenerNotes: 'screener_notes',
 };
 
+// Properties read when listing deals an application could be linked to
+const dealCandidateProps = ['dealname', 'createdate', 'br_application_id', 'pipeline', 'dealstage'];
+
+// HubSpot-defined association type for deal -> contact
+const DEAL_TO_CONTACT_ASSOCIATION = 3;
+
+function toDealCandidate(deal: HubSpotDeal): HubSpotDealCandidate {
+  return {
+    id: deal.id,
+    name: deal.properties?.dealname ?? null,
+    createdAt: deal.properties?.createdate ?? null,
+    applicationId: deal.properties?.br_application_id || null,
+    pipeline: deal.properties?.pipeline ?? null,
+    stage: deal.properties?.dealstage ?? null,
+  };
+}
+
 export class HubSpotService {
-  // Find a contact by email and return HubSpot contact ID
+  // Override the API key or base URL read from the environment, e.g. to run against a FakeHubSpotServer in tests
+  static configure(overrides: { apiKey?: string; baseUrl?: string }): void {
+    if (overrides.apiKey !== undefined) config.apiKey = overrides.apiKey;
+    if (overrides.baseUrl !== undefined) config.baseUrl = overrides.baseUrl.replace(/\/+$/, '');
+  }
+
+  // Find a contact by email and return HubSpot contact ID; API failures are thrown, not treated as "not found"
   static async findContactIdByEmail(email: string): Promise<string | null> {
     assertApiKey();
-    try {
-      const body = {
-        filterGroups: [
-          {
-            filters: [{ propertyName: 'email', operator: 'EQ', value: email }],
-          },
-        ],
-        properties: ['email'],
-        limit: 1,
-      };
-      const data = await hsFetch<{ results: Array<{ id: string }> }>(`/crm/v3/objects/contacts/search`, {
-        method: 'POST',
-        body: JSON.stringify(body),
-      });
-      return data.results?.[0]?.id || null;
-    } catch (e) {
-      console.warn('HubSpot findContactIdByEmail failed:', e);
-      return null;
-    }
+    const body = {
+      filterGroups: [
+        {
+          filters: [{ propertyName: 'email', operator: 'EQ', value: email }],
+        },
+      ],
+      properties: ['email'],
+      limit: 1,
+    };
+    const data = await hsFetch<{ results: Array<{ id: string }> }>(`/crm/v3/objects/contacts/search`, {
+      method: 'POST',
+      body: JSON.stringify(body),
+    });
+    return data.results?.[0]?.id || null;
+  }
+
+  // Deals associated with a contact, newest first
+  static async getContactDeals(contactId: string): Promise<HubSpotDealCandidate[]> {
+    assertApiKey();
+    const assoc = await hsFetch<{ results: Array<{ id: string }> }>(`/crm/v3/objects/contacts/${contactId}/associations/deals`);
+    const dealIds = assoc.results?.map(r => r.id) || [];
+    if (dealIds.length === 0) return [];
+    const batch = await hsFetch<{ results: HubSpotDeal[] }>(`/crm/v3/objects/deals/batch/read`, {
+      method: 'POST',
+      body: JSON.stringify({
+        properties: dealCandidateProps,
+        inputs: dealIds.map(id => ({ id })),
+      }),
+    });
+    return (batch.results || []).map(toDealCandidate).sort((a, b) =>
+      Date.parse(b.createdAt || '') - Date.parse(a.createdAt || '')
+    );
   }
 
-  static async findMostRecentDealIdForContact(contactId: string): Promise<string | null> {
+  // Deals whose br_application_id custom property holds the application id; more than one means duplicates in HubSpot
+  static async findDealsByApplicationId(applicationId: string): Promise<HubSpotDealCandidate[]> {
     assertApiKey();
+    const searchBody = {
+      filterGroups: [
+        {
+          filters: [
+            { propertyName: 'br_application_id', operator: 'EQ', value: applicationId },
+          ],
+        },
+      ],
+      properties: dealCandidateProps,
+      limit: 10,
+    };
+    const data = await hsFetch<{ results: HubSpotDeal[] }>(`/crm/v3/objects/deals/search`, {
+      method: 'POST',
+      body: JSON.stringify(searchBody),
+    });
+    return (data.results || []).map(toDealCandidate);
+  }
+
+  // A single deal in candidate form; null when the deal does not exist
+  static async getDeal(dealId: string): Promise<HubSpotDealCandidate | null> {
     try {
-      // Get associated deals
-      const assoc = await hsFetch<{ results: Array<{ id: string }> }>(`/crm/v3/objects/contacts/${contactId}/associations/deals`);
-      const dealIds = assoc.results?.map(r => r.id) || [];
-      if (dealIds.length === 0) return null;
-      // HubSpot batch read
-      const batch = await hsFetch<{ results: Array<{ id: string; properties?: any }> }>(`/crm/v3/objects/deals/batch/read`, {
-        method: 'POST',
-        body: JSON.stringify({
-          properties: ['lastmodifieddate', 'createdate'],
-          inputs: dealIds.map(id => ({ id })),
-        }),
-      });
-      const sorted = (batch.results || []).sort((a, b) => {
-        const aTime = Date.parse(a.properties?.lastmodifieddate || a.properties?.createdate || '');
-        const bTime = Date.parse(b.properties?.lastmodifieddate || b.properties?.createdate || '');
-        return bTime - aTime; // desc
-      });
-      return sorted[0]?.id || dealIds[0] || null;
+      const deal = await hsFetch<HubSpotDeal>(
+        `/crm/v3/objects/deals/${dealId}?properties=${encodeURIComponent(dealCandidateProps.join(','))}`
+      );
+      return toDealCandidate(deal);
     } catch (e) {
-      console.warn('HubSpot findMostRecentDealIdForContact failed:', e);
-      return null;
+      if ((e as { status?: number })?.status === 404) return null;
+      throw e;
     }
   }
-  // Find a deal by application id stored as a custom property on the deal
-  static async findDealIdByApplicationId(applicationId: string): Promise<string | null> {
+
+  // Create a deal for an application, associated with the applicant's contact
+  static async createDeal(params: {
+    name: string;
+    applicationId: string;
+    contactId: string;
+    pipeline: string;
+    stage: string;
+  }): Promise<string> {
     assertApiKey();
-    try {
-      const searchBody = {
-        filterGroups: [
+    const deal = await hsFetch<{ id: string }>(`/crm/v3/objects/deals`, {
+      method: 'POST',
+      body: JSON.stringify({
+        properties: {
+          dealname: params.name,
+          pipeline: params.pipeline,
+          dealstage: params.stage,
+          br_application_id: params.applicationId,
+        },
+        associations: [
           {
-            filters: [
-              { propertyName: 'br_application_id', operator: 'EQ', value: applicationId },
-            ],
+            to: { id: params.contactId },
+            types: [{ associationCategory: 'HUBSPOT_DEFINED', associationTypeId: DEAL_TO_CONTACT_ASSOCIATION }],
           },
         ],
-        properties: ['dealname', 'pipeline', 'dealstage'],
-        limit: 1,
-      };
-      const data = await hsFetch<{ results: HubSpotDeal[] }>(`/crm/v3/objects/deals/search`, {
-        method: 'POST',
-        body: JSON.stringify(searchBody),
-      });
-      const deal = data.results?.[0];
-      return deal?.id || null;
+      }),
+    });
+    return deal.id;
+  }
+
+  // Read selected properties of a deal; null when the deal does not exist
+  static async getDealProperties(dealId: string, properties: string[]): Promise<Record<string, string | null> | null> {
+    try {
+      const deal = await hsFetch<{ id: string; properties?: Record<string, string | null> }>(
+        `/crm/v3/objects/deals/${dealId}?properties=${encodeURIComponent(properties.join(','))}`
+      );
+      return deal.properties || {};
     } catch (e) {
-      console.warn('HubSpot findDealIdByApplicationId failed:', e);
-      return null;
+      if ((e as { status?: number })?.status === 404) return null;
+      throw e;
+    }
+  }
+
+  static async getContactEmail(contactId: string): Promise<string | null> {
+    try {
+      const contact = await hsFetch<{ properties?: { email?: string | null } }>(
+        `/crm/v3/objects/contacts/${contactId}?properties=email`
+      );
+      return contact.properties?.email || null;
+    } catch (e) {
+      if ((e as { status?: number })?.status === 404) return null;
+      throw e;
     }
   }
 
@@ -159,36 +223,6 @@ export class HubSpotService {
     });
   }
 
-  static getStageForStatus(
-    status: string,
-    closedReason?: string | null,
-    rejectedType?: string | null
-  ): { pipeline: string; stage: string } | null {
-    // Handle closed status with different reasons
-    if (status === 'closed') {
-      const reason = (closedReason || '').toLowerCase();
-      if (reason === 'approved') return { pipeline: 'default', stage: 'closedwon' };
-      if (reason === 'unresponsive') return { pipeline: 'default', stage: '121534028' };
-      if (reason === 'rejected') return { pipeline: 'default', stage: '121534028' };
-    }
-    
-    // Handle screening_completed with different reasons
-    if (status === 'screening_completed') {
-      const reason = (closedReason || '').toLowerCase();
-      if (reason === 'approved') return { pipeline: 'default', stage: 'qualifiedtobuy' };
-      if (reason === 'unresponsive') return { pipeline: 'default', stage: '107658399' };
-      if (reason === 'rejected') {
-        const type = (rejectedType || '').toLowerCase();
-        if (type === 'temporary') return { pipeline: 'default', stage: '107658399' };
-        if (type === 'permanent') return { pipeline: 'default', stage: '107658399' };
-        // Default to application denied if type not specified
-        return { pipeline: 'default', stage: '107658399' };
-      }
-    }
-    
-    return statusToStage[status] || null;
-  }
-
   static buildScoreSummary(red?: number, yellow?: number, green?: number): string | null {
     if (red == null && yellow == null && green == null) return null;
     return `${red ?? 0} / ${yellow ?? 0} / ${green ?? 0}`;
@@ -208,6 +242,19 @@ export class HubSpotService {
     return parts.join(' - ');
   }
 
+  // Deal pipelines with their stages, in HubSpot display order
+  static async getDealPipelines(): Promise<HubSpotPipeline[]> {
+    const data = await hsFetch<{ results?: Array<{ id: string; label: string; displayOrder?: number; stages?: Array<{ id: string; label: string; displayOrder?: number }> }> }>(
+      `/crm/v3/pipelines/deals`
+    );
+    const byOrder = (a: { displayOrder?: number }, b: { displayOrder?: number }) => (a.displayOrder ?? 0) - (b.displayOrder ?? 0);
+    return (data.results || []).sort(byOrder).map(pipeline => ({
+      id: pipeline.id,
+      label: pipeline.label,
+      stages: (pipeline.stages || []).sort(byOrder).map(stage => ({ id: stage.id, label: stage.label })),
+    }));
+  }
+
   // Fetch dropdown options for a deal property
   static async getDealPropertyOptions(propertyName: string): Promise<Array<{ label: string; value: string }>> {
     assertApiKey();
@@ -220,6 +267,11 @@ export class HubSpotService {
     }
   }
 
+  // Options of the application_status dropdown that status mappings choose from
+  static async getApplicationStatusOptions(): Promise<Array<{ label: string; value: string }>> {
+    return this.getDealPropertyOptions(dealProps.applicationStatus);
+  }
+
   // Find the screeners_name dropdown value by matching exact full name (case-insensitive)
   static async findScreenerDropdownValueByExactName(fullName: string): Promise<string | null> {
     const target = (fullName || '').trim().toLowerCase();
@@ -257,102 +309,29 @@ export class HubSpotService {
     await this.updateDealProperties(dealId, properties);
   }
 
-  // Map internal status + closed_reason to HubSpot dropdown value for application_status
-  static mapStatusToApplicationStatusProperty(
-    status: string | null | undefined,
-    closedReason?: string | null,
-    rejectedType?: string | null
-  ): string | null {
-    if (!status) return null;
-    switch (status) {
-      case 'pending':
-      case 'new':
-        return 'Pending';
-      case 'screening_scheduled':
-        return 'Screening Scheduled';
-      case 'screening_no_show':
-        return 'Screening No Show';
-      case 'invited_to_reschedule':
-        return 'Invited to Reschedule';
-      case 'secondary_screening':
-        return 'Secondary Screening';
-      case 'medical_review_required':
-        return 'Medical Review Required';
-      case 'screening_in_process':
-        return 'Screening';
-      case 'conditionally_approved':
-        return 'Conditionally Approved';
-      case 'closed': {
-        const reason = (closedReason || '').toLowerCase();
-        if (reason === 'approved') return 'Screening Completed - Approved';
-        if (reason === 'unresponsive') return 'Screening Completed - Unresponsive';
-        if (reason === 'rejected') {
-          const type = (rejectedType || '').toLowerCase();
-          if (type === 'temporary') return 'Screening Completed - Rejected - Temporary';
-          if (type === 'permanent') return 'Screening Completed - Rejected - Permanent';
-          // If not specified, default to generic Rejected
-          return 'Screening Completed - Rejected';
-        }
-        // Fallback
-        return 'pending';
-      }
-      default:
-        return null;
-    }
-  }
-
-  // Map specifically for the dropdown close action to legacy "Closed - ..." variants
-  static mapStatusToClosedApplicationStatusProperty(
-    status: string | null | undefined,
-    closedReason?: string | null,
-    rejectedType?: string | null
-  ): string | null {
-    if (!status) return null;
-    switch (status) {
-      case 'pending':
-      case 'new':
-        return 'Pending';
-      case 'screening_scheduled':
-        return 'Screening Scheduled';
-      case 'screening_no_show':
-        return 'Screening No Show';
-      case 'invited_to_reschedule':
-        return 'Invited to Reschedule';
-      case 'secondary_screening':
-        return 'Secondary Screening';
-      case 'medical_review_required':
-        return 'Medical Review Required';
-      case 'screening_in_process':
-        return 'Screening';
-      case 'conditionally_approved':
-        return 'Conditionally Approved';
-      case 'screening_completed': {
-        const reason = (closedReason || '').toLowerCase();
-        if (reason === 'approved') return 'Screening Completed - Approved';
-        if (reason === 'unresponsive') return 'Screening Completed - Unresponsive';
-        if (reason === 'rejected') {
-          const type = (rejectedType || '').toLowerCase();
-          if (type === 'temporary') return 'Screening Completed - Rejected - Temporary';
-          if (type === 'permanent') return 'Screening Completed - Rejected - Permanent';
-          return 'Screening Completed - Rejected';
-        }
-        return 'Screening Completed';
-      }
-      case 'closed': {
-        const reason = (closedReason || '').toLowerCase();
-        if (reason === 'approved') return 'Closed - Approved';
-        if (reason === 'unresponsive') return 'Closed - Unresponsive';
-        if (reason === 'rejected') {
-          const type = (rejectedType || '').toLowerCase();
-          if (type === 'temporary') return 'Closed - Rejected - Temporary';
-          if (type === 'permanent') return 'Closed - Rejected - Permanent';
-          return 'Closed - Rejected';
-        }
-        return 'Pending';
-      }
-      default:
-        return null;
-    }
+  // Read back what updateApplicationProperties, the screener sync and the stage sync wrote; null when the deal is gone
+  static async getApplicationProperties(dealId: string): Promise<{
+    status: string | null;
+    score: string | null;
+    screener: string | null;
+    pipeline: string | null;
+    stage: string | null;
+  } | null> {
+    const properties = await this.getDealProperties(dealId, [
+      dealProps.applicationStatus,
+      dealProps.applicationScore,
+      'screeners_name',
+      'pipeline',
+      'dealstage',
+    ]);
+    if (!properties) return null;
+    return {
+      status: properties[dealProps.applicationStatus] ?? null,
+      score: properties[dealProps.applicationScore] ?? null,
+      screener: properties.screeners_name ?? null,
+      pipeline: properties.pipeline ?? null,
+      stage: properties.dealstage ?? null,
+    };
   }
 }
 
@@ -0,0 +1,156 @@
+import {createClient, SupabaseClient} from '@supabase/supabase-js';
+import HubSpotService from '@/services/hubspotService';
+import {HUBSPOT_MAPPING_KEYS, hubspotMappingKeyOf} from '@/lib/hubspot-status-mapping';
+import {
+  HubSpotMappingCatalog,
+  HubSpotStatusMapping,
+  HubSpotStatusMappingInput,
+} from '@/types/hubspotSync';
+
+// Initialize Supabase client with service role for admin operations
+const supabaseAdmin: SupabaseClient = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+);
+
+/**
+ * Which HubSpot deal stage and application_status dropdown value each application status,
+ * closed reason and rejected type is pushed as, and which stages map back to a status when
+ * a deal is moved in HubSpot. Edited on /admin/hubspot against the live pipelines.
+ */
+export class HubSpotStatusMappingService {
+  async getMappings(): Promise<HubSpotStatusMapping[]> {
+    const {data, error} = await supabaseAdmin
+      .from('hubspot_status_mappings')
+      .select('*');
+
+    if (error) throw new Error(`Failed to get HubSpot status mappings: ${error.message}`);
+    return (data || []) as HubSpotStatusMapping[];
+  }
+
+  /**
+   * The mapping for an application's status fields
+   * @returns null when the combination is not mapped, in which case nothing should be pushed
+   */
+  async getMappingFor(
+    status: string,
+    closedReason?: string | null,
+    rejectedType?: string | null
+  ): Promise<HubSpotStatusMapping | null> {
+    const key = hubspotMappingKeyOf(status, closedReason, rejectedType);
+    const mappings = await this.getMappings();
+    return mappings.find(mapping =>
+      hubspotMappingKeyOf(mapping.status, mapping.closed_reason, mapping.rejected_type) === key
+    ) || null;
+  }
+
+  /**
+   * The status a deal moved into this stage in HubSpot should take
+   * @returns null unless one mapping for the stage is marked to sync from HubSpot
+   */
+  async getStatusForStage(stageId: string): Promise<{status: string; closedReason: string | null; rejectedType: string | null} | null> {
+    const {data, error} = await supabaseAdmin
+      .from('hubspot_status_mappings')
+      .select('status, closed_reason, rejected_type')
+      .eq('stage_id', stageId)
+      .eq('sync_from_hubspot', true)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to look up HubSpot stage ${stageId}: ${error.message}`);
+    if (!data) return null;
+    return {status: data.status, closedReason: data.closed_reason, rejectedType: data.rejected_type};
+  }
+
+  /**
+   * Live pipelines, stages and application_status options from HubSpot
+   */
+  async getCatalog(): Promise<HubSpotMappingCatalog> {
+    const [pipelines, statusOptions] = await Promise.all([
+      HubSpotService.getDealPipelines(),
+      HubSpotService.getApplicationStatusOptions()
+    ]);
+    return {pipelines, statusOptions};
+  }
+
+  /**
+   * Validate a complete mapping against the live HubSpot catalog
+   * @returns An error message, or null when every status is mapped to an existing stage and option
+   */
+  validateMappings(inputs: unknown, catalog: HubSpotMappingCatalog): string | null {
+    if (!Array.isArray(inputs)) return 'Mappings must be an array';
+    if (catalog.statusOptions.length === 0) return 'Could not load the application_status options from HubSpot';
+
+    const keyLabels = new Map(HUBSPOT_MAPPING_KEYS.map(key => [
+      hubspotMappingKeyOf(key.status, key.closedReason, key.rejectedType),
+      key.label
+    ]));
+    const optionValues = new Set(catalog.statusOptions.map(option => option.value));
+    const seen = new Set<string>();
+    const syncedStages = new Map<string, string>();
+
+    for (const input of inputs) {
+      const {status, closedReason, rejectedType, pipelineId, stageId, statusPropertyValue, syncFromHubSpot} =
+        (input || {}) as Partial<HubSpotStatusMappingInput>;
+      if (typeof status !== 'string') return 'Each mapping needs a status';
+
+      const key = hubspotMappingKeyOf(status, closedReason, rejectedType);
+      const label = keyLabels.get(key);
+      if (!label) return `Unknown status combination: ${[status, closedReason, rejectedType].filter(Boolean).join(' - ')}`;
+      if (seen.has(key)) return `${label} is mapped more than once`;
+      seen.add(key);
+
+      const pipeline = catalog.pipelines.find(p => p.id === pipelineId);
+      if (!pipeline) return `${label} is mapped to a pipeline that does not exist in HubSpot`;
+      const stage = pipeline.stages.find(s => s.id === stageId);
+      if (!stage) return `${label} is mapped to a stage that is not in the ${pipeline.label} pipeline`;
+      if (typeof statusPropertyValue !== 'string' || !optionValues.has(statusPropertyValue)) {
+        return `${label} is mapped to an application_status value that does not exist in HubSpot`;
+      }
+
+      if (syncFromHubSpot) {
+        const other = syncedStages.get(stage.id);
+        if (other) return `${other} and ${label} both sync from the ${stage.label} stage; only one may`;
+        syncedStages.set(stage.id, label);
+      }
+    }
+
+    const unmapped = Array.from(keyLabels.entries()).filter(([key]) => !seen.has(key)).map(([, label]) => label);
+    if (unmapped.length > 0) return `Every status must be mapped. Missing: ${unmapped.join(', ')}`;
+    return null;
+  }
+
+  /**
+   * Replace the whole mapping in one transaction (replace_hubspot_status_mappings), so a failed
+   * save leaves the previous mapping in place. Call validateMappings first.
+   */
+  async saveMappings(inputs: HubSpotStatusMappingInput[], userId: string | null): Promise<HubSpotStatusMapping[]> {
+    const rows = inputs.map(input => {
+      // Store the canonical key so lookups match however the reason was cased on submit
+      const key = HUBSPOT_MAPPING_KEYS.find(k =>
+        hubspotMappingKeyOf(k.status, k.closedReason, k.rejectedType) ===
+        hubspotMappingKeyOf(input.status, input.closedReason, input.rejectedType)
+      )!;
+      return {
+        status: key.status,
+        closed_reason: key.closedReason,
+        rejected_type: key.rejectedType,
+        pipeline_id: input.pipelineId,
+        stage_id: input.stageId,
+        status_property_value: input.statusPropertyValue,
+        sync_from_hubspot: !!input.syncFromHubSpot
+      };
+    });
+
+    const {data, error} = await supabaseAdmin.rpc('replace_hubspot_status_mappings', {
+      p_mappings: rows,
+      p_updated_by: userId
+    });
+
+    if (error) throw new Error(`Failed to save HubSpot status mappings: ${error.message}`);
+
+    console.log(`[HubSpot Mapping] Saved ${rows.length} status mappings`);
+    return (data || []) as HubSpotStatusMapping[];
+  }
+}
+
+export const hubspotStatusMappingService = new HubSpotStatusMappingService();
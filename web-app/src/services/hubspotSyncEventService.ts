@@ -0,0 +1,140 @@
+import {createClient, SupabaseClient} from '@supabase/supabase-js';
+import {jobQueueService} from '@/services/jobQueueService';
+import {Job} from '@/types/job';
+import {
+  HubSpotPush,
+  HubSpotPushOperation,
+  HubSpotPushResult,
+  HubSpotSyncEvent,
+} from '@/types/hubspotSync';
+
+// Initialize Supabase client with service role for admin operations
+const supabaseAdmin: SupabaseClient = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+);
+
+/**
+ * Records every push of application state to HubSpot in hubspot_sync_events. Pushes run as
+ * hubspot.sync_* jobs, so a failed push is retried by the job queue with backoff; its event
+ * stays pending with the last error until it succeeds or the job runs out of attempts.
+ */
+export class HubSpotSyncEventService {
+  /**
+   * Run one attempt of a push job and record its outcome. Errors are recorded and rethrown
+   * so the job queue retries the push.
+   * @param job The hubspot.sync_* job running the push
+   * @param operation Which push the job performs
+   * @param push Performs the push; resolves to null when there is nothing to push
+   */
+  async track(
+    job: Job<'hubspot.sync_status' | 'hubspot.sync_score'>,
+    operation: HubSpotPushOperation,
+    push: () => Promise<HubSpotPush | null>
+  ): Promise<HubSpotPush | null> {
+    const now = new Date().toISOString();
+    const eventId = await this.recordAttempt(job, operation, now);
+
+    try {
+      const pushed = await push();
+      const wrote = !!pushed && Object.keys(pushed.properties).length > 0;
+      await this.finish(eventId, {
+        result: wrote ? 'succeeded' : 'skipped',
+        deal_id: pushed?.dealId || null,
+        payload: pushed?.properties || null,
+        error: pushed?.warning || null,
+        error_status: null,
+        completed_at: new Date().toISOString()
+      });
+      return pushed;
+    } catch (error) {
+      const final = job.attempts >= job.max_attempts;
+      const details = error as {status?: number; requestBody?: string};
+      await this.finish(eventId, {
+        result: final ? 'failed' : 'pending',
+        error: (error instanceof Error ? error.message : String(error)).slice(0, 2000),
+        error_status: typeof details?.status === 'number' ? details.status : null,
+        // Keep the properties the failing request tried to write, when it got that far
+        ...(details?.requestBody ? {payload: this.parseRequestBody(details.requestBody)} : {}),
+        ...(final ? {completed_at: new Date().toISOString()} : {})
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Most recent pushes, newest first
+   * @param result Only pushes with this result
+   */
+  async listEvents(result?: HubSpotPushResult, limit: number = 100): Promise<HubSpotSyncEvent[]> {
+    let query = supabaseAdmin
+      .from('hubspot_sync_events')
+      .select('*, applications(participants(first_name, last_name))')
+      .order('created_at', {ascending: false})
+      .limit(limit);
+    if (result) query = query.eq('result', result);
+
+    const {data, error} = await query;
+    if (error) throw new Error(`Failed to list HubSpot sync events: ${error.message}`);
+
+    return (data || []).map(({applications, ...event}) => {
+      const application = Array.isArray(applications) ? applications[0] : applications;
+      const participant = Array.isArray(application?.participants) ? application.participants[0] : application?.participants;
+      const name = [participant?.first_name, participant?.last_name].filter(Boolean).join(' ');
+      return {...event, participant_name: name || null} as HubSpotSyncEvent;
+    });
+  }
+
+  /**
+   * Queue a fresh push of an application's status, score and screener. Pushes always read the
+   * latest application state, so this both retries failed pushes and repairs drift.
+   */
+  async requeuePush(applicationId: string): Promise<void> {
+    await jobQueueService.enqueue('hubspot.sync_status', {applicationId}, {
+      dedupeKey: `hubspot.sync_status:${applicationId}`
+    });
+    await jobQueueService.enqueue('hubspot.sync_score', {applicationId}, {
+      dedupeKey: `hubspot.sync_score:${applicationId}`
+    });
+  }
+
+  private async recordAttempt(job: Job, operation: HubSpotPushOperation, now: string): Promise<string> {
+    const {data, error} = await supabaseAdmin
+      .from('hubspot_sync_events')
+      .upsert({
+        job_id: job.id,
+        application_id: (job.payload as {applicationId?: string}).applicationId || null,
+        operation,
+        result: 'pending',
+        attempts: job.attempts,
+        max_attempts: job.max_attempts,
+        last_attempt_at: now,
+        updated_at: now
+      }, {onConflict: 'job_id'})
+      .select('id')
+      .single();
+
+    if (error || !data) throw new Error(`Failed to record HubSpot sync attempt: ${error?.message}`);
+    return data.id;
+  }
+
+  private async finish(eventId: string, changes: Partial<HubSpotSyncEvent>): Promise<void> {
+    const {error} = await supabaseAdmin
+      .from('hubspot_sync_events')
+      .update({...changes, updated_at: new Date().toISOString()})
+      .eq('id', eventId);
+
+    if (error) console.error(`[HubSpot Sync] Failed to record outcome of sync event ${eventId}:`, error);
+  }
+
+  private parseRequestBody(body: string): Record<string, unknown> {
+    try {
+      const parsed = JSON.parse(body);
+      return parsed?.properties || parsed;
+    } catch {
+      return {body};
+    }
+  }
+}
+
+export const hubspotSyncEventService = new HubSpotSyncEventService();
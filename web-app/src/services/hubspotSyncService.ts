@@ -0,0 +1,85 @@
+import {createClient, SupabaseClient} from '@supabase/supabase-js';
+import HubSpotService from '@/services/hubspotService';
+import {hubspotDealLinkService} from '@/services/hubspotDealLinkService';
+import {hubspotStatusMappingService} from '@/services/hubspotStatusMappingService';
+import {HubSpotPush} from '@/types/hubspotSync';
+
+// Initialize Supabase client with service role for admin operations
+const supabaseAdmin: SupabaseClient = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+);
+
+/**
+ * Pushes application state from the database to the applicant's HubSpot deal.
+ * Always reads the latest row, so it is safe to run late or more than once.
+ */
+export class HubSpotSyncService {
+  /**
+   * Sync the application status property, optional screener notes and the deal stage
+   * @param applicationId The application ID
+   * @param notes Curated screener notes; left untouched in HubSpot when undefined
+   * @returns What was written to the deal, or null when there is nothing to sync
+   */
+  async syncApplicationStatus(applicationId: string, notes?: string | null): Promise<HubSpotPush | null> {
+    const {data: appRow, error} = await supabaseAdmin
+      .from('applications')
+      .select('participant_id, status, closed_reason, rejected_type')
+      .eq('id', applicationId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load application ${applicationId}: ${error.message}`);
+    }
+    if (!appRow?.participant_id) {
+      console.log(`[HubSpot] Application ${applicationId} has no participant; nothing to sync`);
+      return null;
+    }
+
+    const {data: participant} = await supabaseAdmin
+      .from('participants')
+      .select('email, hubspot_contact_id')
+      .eq('id', appRow.participant_id)
+      .maybeSingle();
+    if (!participant?.email && !participant?.hubspot_contact_id) {
+      console.log(`[HubSpot] Participant for application ${applicationId} has no email; nothing to sync`);
+      return null;
+    }
+
+    const dealId = await hubspotDealLinkService.getDealId(applicationId);
+
+    const mapping = await hubspotStatusMappingService.getMappingFor(
+      appRow.status,
+      appRow.closed_reason,
+      appRow.rejected_type
+    );
+    // Recorded on the sync event, so unmapped statuses show up on the sync report
+    const warning = mapping
+      ? undefined
+      : `No HubSpot mapping for ${[appRow.status, appRow.closed_reason, appRow.rejected_type].filter(Boolean).join(' - ')}; ` +
+        'application_status and deal stage were not pushed. Map it on /admin/hubspot.';
+    if (warning) console.warn(`[HubSpot] Application ${applicationId}: ${warning}`);
+    const mergedStatus = mapping?.status_property_value || null;
+
+    const props: {status?: string; notes?: string | null} = {};
+    if (mergedStatus) props.status = mergedStatus;
+    if (notes !== undefined) props.notes = notes;
+    // A 403 (token missing scopes) fails the job like any other error, so it is retried and surfaced
+    await HubSpotService.updateApplicationProperties(dealId, props);
+
+    const pushed: HubSpotPush['properties'] = {};
+    if (props.status) pushed.application_status = props.status;
+    if (props.notes !== undefined) pushed.screener_notes = props.notes;
+
+    if (mapping) {
+      console.log('[HubSpot] Updating deal stage:', mapping.pipeline_id, mapping.stage_id, 'for dealId:', dealId);
+      await HubSpotService.updateDealStage(dealId, mapping.pipeline_id, mapping.stage_id);
+      pushed.pipeline = mapping.pipeline_id;
+      pushed.dealstage = mapping.stage_id;
+    }
+    return {dealId, properties: pushed, warning};
+  }
+}
+
+// Export singleton instance
+export const hubspotSyncService = new HubSpotSyncService();
@@ -0,0 +1,158 @@
+import {createClient, SupabaseClient} from '@supabase/supabase-js';
+import {applicationService} from '@/services/applicationService';
+import {hubspotInboundService} from '@/services/hubspotInboundService';
+import {hubspotReconciliationService} from '@/services/hubspotReconciliationService';
+import {hubspotSyncEventService} from '@/services/hubspotSyncEventService';
+import {hubspotSyncService} from '@/services/hubspotSyncService';
+import {jobQueueService} from '@/services/jobQueueService';
+import {scoringService} from '@/services/scoringService';
+import {scoringRuleSetService} from '@/services/scoringRuleSetService';
+import {typeformImportService} from '@/services/typeformImportService';
+import {JobHandlerMap, JobRunResult} from '@/types/job';
+
+// Initialize Supabase client with service role for admin operations
+const supabaseAdmin: SupabaseClient = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+);
+
+/**
+ * Handlers for every job type. Each handler must be safe to run more than once:
+ * a job is retried whenever its previous attempt threw or its function was killed.
+ * Kept out of jobQueueService so services can enqueue without importing each other in a cycle.
+ */
+export const jobHandlers: JobHandlerMap = {
+  'application.process': async (job) => {
+    const {applicationId} = job.payload;
+    const {data: application, error} = await supabaseAdmin
+      .from('applications')
+      .select('*')
+      .eq('id', applicationId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load application ${applicationId}: ${error.message}`);
+    if (!application) throw new Error(`Application ${applicationId} not found`);
+
+    // Skip answer processing if field responses already exist
+    const {count: existingResponses} = await supabaseAdmin
+      .from('application_field_responses')
+      .select('id', {count: 'exact', head: true})
+      .eq('application_id', applicationId);
+    const processAnswers = (existingResponses || 0) === 0;
+
+    if (processAnswers) {
+      await applicationService.processAnswersForApplication(application);
+      console.log(`[Jobs] Answers processed for application ${applicationId}`);
+    }
+
+    // Score when answers were just processed or no score exists yet
+    let totalScore: number | null = application.calculated_score ?? null;
+    if (processAnswers || totalScore == null) {
+      const summary = await scoringService.calculateApplicationScore(applicationId);
+      totalScore = summary.totalScore;
+    }
+
+    // Processing is complete; the cron lookup no longer needs to consider this submission
+    if (application.typeform_response_id) {
+      const {error: lockError} = await supabaseAdmin
+        .from('processing_locks')
+        .delete()
+        .eq('lock_id', `typeform_${application.typeform_response_id}`);
+      if (lockError) console.warn(`Error releasing processing lock for ${applicationId}:`, lockError);
+    }
+
+    return {applicationId, answersProcessed: processAnswers, totalScore};
+  },
+
+  'application.score': async (job) => {
+    const summary = await scoringService.calculateApplicationScore(job.payload.applicationId);
+    return {applicationId: summary.applicationId, totalScore: summary.totalScore};
+  },
+
+  'scoring.rescore_run': async (job) => {
+    const total = await scoringRuleSetService.queueRescoreRun(job.payload.rescoreRunId);
+    return {rescoreRunId: job.payload.rescoreRunId, total};
+  },
+
+  'scoring.rescore': async (job) => {
+    const {applicationId, ruleSetVersionId, rescoreRunId} = job.payload;
+    const version = await scoringRuleSetService.getVersion(ruleSetVersionId);
+    if (!version) throw new Error(`Rule-set version ${ruleSetVersionId} not found`);
+
+    const summary = await scoringService.calculateApplicationScore(applicationId, {ruleSetVersion: version, rescoreRunId});
+    return {applicationId, ruleSetVersionId, totalScore: summary.totalScore};
+  },
+
+  'typeform.import_page': async (job) => {
+    try {
+      return await typeformImportService.importNextPage(job.payload.importId);
+    } catch (error) {
+      await typeformImportService.recordPageError(job.payload.importId, error, job.attempts >= job.max_attempts);
+      throw error;
+    }
+  },
+
+  'hubspot.sync_score': async (job) => {
+    return hubspotSyncEventService.track(job, 'score', () =>
+      scoringService.syncScoreToHubSpot(job.payload.applicationId)
+    );
+  },
+
+  'hubspot.sync_status': async (job) => {
+    return hubspotSyncEventService.track(job, 'status', () =>
+      hubspotSyncService.syncApplicationStatus(job.payload.applicationId, job.payload.notes)
+    );
+  },
+
+  'hubspot.inbound_event': async (job) => {
+    try {
+      return await hubspotInboundService.processEntry(job.payload.ledgerId);
+    } catch (error) {
+      await hubspotInboundService.recordFailure(job.payload.ledgerId, error, job.attempts >= job.max_attempts);
+      throw error;
+    }
+  },
+
+  'hubspot.reconcile_page': async (job) => {
+    try {
+      return await hubspotReconciliationService.reconcileNextPage(job.payload.runId);
+    } catch (error) {
+      await hubspotReconciliationService.recordPageError(job.payload.runId, error, job.attempts >= job.max_attempts);
+      throw error;
+    }
+  },
+};
+
+/**
+ * Run a freshly enqueued job inline instead of waiting for the worker.
+ * If the attempt fails the job stays queued and the worker retries it.
+ * @returns The run result, or null if another worker already picked it up
+ */
+export async function runJobNow(jobId: string): Promise<JobRunResult | null> {
+  return jobQueueService.runJob(jobId, jobHandlers);
+}
+
+// How long a request waits on its HubSpot push before leaving it to the worker
+const INLINE_HUBSPOT_SYNC_TIMEOUT_MS = 4000;
+
+/**
+ * Queue a HubSpot status sync (status, notes and deal stage) for an application and give it a few
+ * seconds inline. The worker retries it if HubSpot is slow or failing, and failures of the push
+ * itself are recorded on the job and in hubspot_sync_events, so this never throws.
+ * @param reason What changed, for the log line when the sync cannot be queued
+ * @param notes Curated screener notes to push along with the status
+ */
+export async function syncHubSpotStatusNow(applicationId: string, reason: string, notes?: string | null): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const job = await jobQueueService.enqueue('hubspot.sync_status', {applicationId, notes});
+    const timeout = new Promise<null>((resolve) => {
+      timer = setTimeout(() => resolve(null), INLINE_HUBSPOT_SYNC_TIMEOUT_MS);
+    });
+    await Promise.race([runJobNow(job.id), timeout]);
+  } catch (e) {
+    console.warn(`HubSpot sync (${reason}) could not be queued:`, e);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,343 @@
+import crypto from 'crypto';
+import {createClient, SupabaseClient} from '@supabase/supabase-js';
+import {
+  EnqueueOptions,
+  Job,
+  JobHandler,
+  JobHandlerMap,
+  JobPayloads,
+  JobRunResult,
+  JobStatus,
+  JobType
+} from '@/types/job';
+import {UserRole} from '@/types/user';
+import {notificationService} from '@/services/notificationService';
+
+// Initialize Supabase client with service role for admin operations
+const supabaseAdmin: SupabaseClient = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+);
+
+const DEFAULT_MAX_ATTEMPTS = 8;
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+// A running job whose lock is older than this is assumed to have died with its function
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+/**
+ * Postgres-backed job queue.
+ * Jobs survive serverless timeouts: a job is only removed from the queue once its handler
+ * succeeds, failed attempts are retried with exponential backoff, and jobs that keep failing
+ * are parked in the `dead` state with their last error for inspection.
+ */
+export class JobQueueService {
+  private readonly workerId = `worker_${crypto.randomUUID()}`;
+
+  /**
+   * Add a job to the queue
+   * @param type Job type
+   * @param payload Job payload
+   * @param options Dedupe key, delayed start and attempt limit
+   * @returns The queued job (the already pending one when the dedupe key matches)
+   */
+  async enqueue<T extends JobType>(type: T, payload: JobPayloads[T], options: EnqueueOptions = {}): Promise<Job<T>> {
+    const now = new Date().toISOString();
+    const {data, error} = await supabaseAdmin
+      .from('jobs')
+      .insert({
+        type,
+        payload,
+        status: 'pending',
+        dedupe_key: options.dedupeKey || null,
+        attempts: 0,
+        max_attempts: options.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+        run_at: (options.runAt || new Date()).toISOString(),
+        created_at: now,
+        updated_at: now
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // A pending job with the same dedupe key already exists; reuse it
+      if (error.code === '23505' && options.dedupeKey) {
+        const existing = await this.findPendingJobByDedupeKey<T>(options.dedupeKey);
+        if (existing) {
+          console.log(`[Jobs] ${type} already queued for ${options.dedupeKey} (job ${existing.id})`);
+          return existing;
+        }
+      }
+      console.error(`[Jobs] Failed to enqueue ${type}:`, error);
+      throw new Error(`Failed to enqueue ${type} job: ${error.message}`);
+    }
+
+    console.log(`[Jobs] Enqueued ${type} job ${data.id}`);
+    return data as Job<T>;
+  }
+
+  /**
+   * Claim and run a single job right away (e.g. inline in a webhook).
+   * If another worker has already claimed it, nothing happens.
+   */
+  async runJob(jobId: string, handlers: JobHandlerMap): Promise<JobRunResult | null> {
+    const {data: job, error} = await supabaseAdmin
+      .from('jobs')
+      .select('*')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load job ${jobId}: ${error.message}`);
+    if (!job || job.status !== 'pending') return null;
+
+    const claimed = await this.claim(job as Job);
+    if (!claimed) return null;
+
+    return this.execute(claimed, handlers);
+  }
+
+  /**
+   * Claim up to `batchSize` due jobs and run them one after another
+   * @returns Outcome of every job that was claimed
+   */
+  async processBatch(handlers: JobHandlerMap, batchSize: number = 10): Promise<JobRunResult[]> {
+    const {data: dueJobs, error} = await supabaseAdmin
+      .from('jobs')
+      .select('*')
+      .eq('status', 'pending')
+      .lte('run_at', new Date().toISOString())
+      .order('run_at', {ascending: true})
+      .limit(batchSize);
+
+    if (error) throw new Error(`Failed to fetch due jobs: ${error.message}`);
+
+    const results: JobRunResult[] = [];
+    for (const job of dueJobs || []) {
+      const claimed = await this.claim(job as Job);
+      if (!claimed) continue; // Another worker got there first
+      results.push(await this.execute(claimed, handlers));
+    }
+    return results;
+  }
+
+  /**
+   * Return jobs whose worker died mid-run (stale lock) to the queue, counting the lost attempt
+   * @returns Number of jobs recovered
+   */
+  async requeueStaleJobs(): Promise<number> {
+    const staleBefore = new Date(Date.now() - STALE_LOCK_MS).toISOString();
+    const {data: staleJobs, error} = await supabaseAdmin
+      .from('jobs')
+      .select('*')
+      .eq('status', 'running')
+      .lte('locked_at', staleBefore);
+
+    if (error) {
+      console.error('[Jobs] Failed to fetch stale jobs:', error);
+      return 0;
+    }
+
+    for (const job of staleJobs || []) {
+      await this.fail(job as Job, new Error(`Worker timed out (locked by ${job.locked_by} at ${job.locked_at})`));
+    }
+    return staleJobs?.length || 0;
+  }
+
+  /**
+   * Atomically move a pending job to running. The attempts check makes the update a no-op
+   * if another worker claimed (and bumped) the job in the meantime.
+   */
+  private async claim(job: Job): Promise<Job | null> {
+    const now = new Date().toISOString();
+    const {data, error} = await supabaseAdmin
+      .from('jobs')
+      .update({
+        status: 'running',
+        attempts: job.attempts + 1,
+        locked_at: now,
+        locked_by: this.workerId,
+        updated_at: now
+      })
+      .eq('id', job.id)
+      .eq('status', 'pending')
+      .eq('attempts', job.attempts)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error(`[Jobs] Failed to claim job ${job.id}:`, error);
+      return null;
+    }
+    return (data as Job) || null;
+  }
+
+  private async execute(job: Job, handlers: JobHandlerMap): Promise<JobRunResult> {
+    const handler = handlers[job.type] as JobHandler;
+    if (!handler) {
+      const error = new Error(`No handler registered for job type ${job.type}`);
+      await this.fail(job, error, true);
+      return {jobId: job.id, type: job.type, status: 'dead', error: error.message};
+    }
+
+    try {
+      console.log(`[Jobs] Running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.max_attempts})`);
+      const result = await handler(job);
+      await this.complete(job, result);
+      return {jobId: job.id, type: job.type, status: 'succeeded', result};
+    } catch (error) {
+      const status = await this.fail(job, error);
+      return {
+        jobId: job.id,
+        type: job.type,
+        status,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  private async complete(job: Job, result: unknown): Promise<void> {
+    const now = new Date().toISOString();
+    const {data, error} = await supabaseAdmin
+      .from('jobs')
+      .update({
+        status: 'succeeded',
+        result: result ?? null,
+        last_error: null,
+        locked_at: null,
+        locked_by: null,
+        completed_at: now,
+        updated_at: now
+      })
+      .eq('id', job.id)
+      .eq('status', 'running')
+      .eq('locked_by', this.lockOwner(job))
+      .select('id');
+
+    if (error) {
+      console.error(`[Jobs] Failed to mark job ${job.id} as succeeded:`, error);
+    } else if (!data?.length) {
+      console.warn(`[Jobs] Job ${job.id} lost its lock before finishing; its result was not recorded`);
+    }
+  }
+
+  /**
+   * Record a failed attempt and schedule a retry, or dead-letter the job when out of attempts.
+   * A retry is dropped when the same work was queued again while this attempt ran.
+   * @returns The job's new status (running when the lock was lost to another worker)
+   */
+  private async fail(job: Job, err: unknown, permanent: boolean = false): Promise<JobStatus> {
+    const message = err instanceof Error ? err.message : String(err);
+    const isDead = permanent || job.attempts >= job.max_attempts;
+    const now = new Date();
+
+    const {data, error} = await supabaseAdmin
+      .from('jobs')
+      .update({
+        status: isDead ? 'dead' : 'pending',
+        last_error: message.slice(0, 2000),
+        run_at: isDead ? job.run_at : new Date(now.getTime() + this.getBackoffMs(job.attempts)).toISOString(),
+        locked_at: null,
+        locked_by: null,
+        updated_at: now.toISOString()
+      })
+      .eq('id', job.id)
+      .eq('status', 'running')
+      .eq('locked_by', this.lockOwner(job))
+      .select('id');
+
+    if (error?.code === '23505' && !isDead && job.dedupe_key) {
+      return this.supersede(job, message, now);
+    }
+    if (error) {
+      console.error(`[Jobs] Failed to record failure for job ${job.id}:`, error);
+    } else if (!data?.length) {
+      console.warn(`[Jobs] Job ${job.id} lost its lock before failing; another worker owns it now: ${message}`);
+      return 'running';
+    }
+
+    if (isDead) {
+      console.error(`[Jobs] ${job.type} job ${job.id} moved to dead-letter after ${job.attempts} attempts: ${message}`);
+      if (job.type.startsWith('hubspot.')) {
+        await this.notifyHubSpotSyncFailed(job, message);
+      }
+    } else {
+      console.warn(`[Jobs] ${job.type} job ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}), will retry: ${message}`);
+    }
+    return isDead ? 'dead' : 'pending';
+  }
+
+  /**
+   * Close a failed job whose retry would duplicate a pending job with the same dedupe key;
+   * that job does the same work, so the failure is kept for the record only
+   */
+  private async supersede(job: Job, message: string, now: Date): Promise<JobStatus> {
+    const pending = job.dedupe_key ? await this.findPendingJobByDedupeKey(job.dedupe_key) : null;
+    const {error} = await supabaseAdmin
+      .from('jobs')
+      .update({
+        status: 'succeeded',
+        result: {supersededBy: pending?.id || null},
+        last_error: message.slice(0, 2000),
+        locked_at: null,
+        locked_by: null,
+        completed_at: now.toISOString(),
+        updated_at: now.toISOString()
+      })
+      .eq('id', job.id)
+      .eq('status', 'running')
+      .eq('locked_by', this.lockOwner(job));
+
+    if (error) {
+      console.error(`[Jobs] Failed to close superseded job ${job.id}:`, error);
+    }
+    console.warn(`[Jobs] ${job.type} job ${job.id} failed (${message}); job ${pending?.id || 'already queued'} will redo it`);
+    return 'succeeded';
+  }
+
+  /**
+   * Worker whose lock must still be held to record a job's outcome: this worker for jobs it claimed,
+   * the dead worker for stale jobs being requeued. A job that was requeued or claimed again since
+   * belongs to someone else, and the update becomes a no-op.
+   */
+  private lockOwner(job: Job): string {
+    return job.locked_by || this.workerId;
+  }
+
+  /**
+   * Exponential backoff with a little jitter: 30s, 1m, 2m, 4m ... capped at 1h
+   */
+  private getBackoffMs(attempts: number): number {
+    const exponential = BACKOFF_BASE_MS * Math.pow(2, Math.max(0, attempts - 1));
+    const jitter = Math.floor(Math.random() * 0.1 * exponential);
+    return Math.min(BACKOFF_MAX_MS, exponential + jitter);
+  }
+
+  private async notifyHubSpotSyncFailed(job: Job, message: string): Promise<void> {
+    const applicationId = (job.payload as { applicationId?: string }).applicationId || null;
+    await notificationService.notifyRoles(
+      [UserRole.PROGRAM_OPERATIONS_ADMINISTRATOR, UserRole.PROGRAM_OPERATIONS_MANAGER],
+      {
+        type: 'hubspot_sync_failed',
+        title: 'HubSpot sync failed',
+        message: `HubSpot sync (${job.type}) gave up after ${job.attempts} attempts: ${message}`,
+        link: applicationId ? `/applications/${applicationId}` : null,
+        applicationId,
+        metadata: {jobId: job.id, jobType: job.type}
+      }
+    );
+  }
+
+  private async findPendingJobByDedupeKey<T extends JobType>(dedupeKey: string): Promise<Job<T> | null> {
+    const {data} = await supabaseAdmin
+      .from('jobs')
+      .select('*')
+      .eq('dedupe_key', dedupeKey)
+      .eq('status', 'pending')
+      .limit(1)
+      .maybeSingle();
+    return (data as Job<T>) || null;
+  }
+}
+
+// Export singleton instance
+export const jobQueueService = new JobQueueService();
@@ -0,0 +1,310 @@
+import {createClient, SupabaseClient} from '@supabase/supabase-js';
+import {ApplicationStatus} from '@/types/application';
+import {
+  MedicalReviewCase,
+  MedicalReviewDecision,
+  MedicalReviewDecisionInput,
+  MedicalReviewStatus,
+  MedicalReviewTriggerResponse,
+  OpenMedicalReviewInput,
+} from '@/types/medicalReview';
+import {UserRole} from '@/types/user';
+
+// Initialize Supabase client with service role for admin operations
+const supabaseAdmin: SupabaseClient = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+);
+
+// Application status each reviewer decision moves the application to
+export const MEDICAL_REVIEW_DECISION_STATUS: Record<MedicalReviewDecision, ApplicationStatus> = {
+  clear: 'conditionally_approved',
+  require_medication_change: 'pending_medication_change',
+  decline: 'closed',
+};
+
+// Case status recorded for each decision
+const DECISION_CASE_STATUS: Record<MedicalReviewDecision, MedicalReviewStatus> = {
+  clear: 'cleared',
+  require_medication_change: 'medication_change_required',
+  decline: 'declined',
+};
+
+// Roles that may see every case and decide on behalf of the assigned reviewer
+const SUPERVISOR_ROLES: string[] = [
+  UserRole.PROGRAM_OPERATIONS_ADMINISTRATOR,
+  UserRole.PROGRAM_OPERATIONS_MANAGER,
+  UserRole.SCREENER_LEAD,
+];
+
+/**
+ * Medical review cases: a screener refers an application to a medical reviewer,
+ * who records a decision. Application status changes stay with the callers so they
+ * go through the status state machine.
+ */
+export class MedicalReviewService {
+  /**
+   * Active users who can be assigned a medical review
+   */
+  async getReviewers(): Promise<{id: string; name: string; email: string}[]> {
+    const {data, error} = await supabaseAdmin
+      .from('user_profiles')
+      .select('id, first_name, last_name, email')
+      .eq('role', UserRole.MEDICAL_REVIEWER)
+      .eq('is_active', true)
+      .order('first_name', {ascending: true});
+
+    if (error) {
+      console.error('Error fetching medical reviewers:', error);
+      throw error;
+    }
+    return (data || []).map(u => ({
+      id: u.id,
+      name: [u.first_name, u.last_name].filter(Boolean).join(' ') || u.email,
+      email: u.email,
+    }));
+  }
+
+  /**
+   * Role of a user, or null if the user has no active profile
+   */
+  async getUserRole(userId: string): Promise<string | null> {
+    const {data} = await supabaseAdmin
+      .from('user_profiles')
+      .select('role, is_active')
+      .eq('id', userId)
+      .maybeSingle();
+    return data?.is_active ? data.role : null;
+  }
+
+  /**
+   * Whether a user may view and decide a case: the assigned reviewer or a supervisor
+   */
+  canAccessCase(reviewCase: MedicalReviewCase, userId: string, userRole: string | null): boolean {
+    return reviewCase.reviewer_id === userId || (!!userRole && SUPERVISOR_ROLES.includes(userRole));
+  }
+
+  isSupervisor(userRole: string | null): boolean {
+    return !!userRole && SUPERVISOR_ROLES.includes(userRole);
+  }
+
+  /**
+   * Red and yellow answers on an application, used as the case's triggering responses
+   */
+  async getFlaggedResponses(applicationId: string): Promise<MedicalReviewTriggerResponse[]> {
+    const {data: responses, error} = await supabaseAdmin
+      .from('application_field_responses')
+      .select('field_version_id, response_value, score')
+      .eq('application_id', applicationId)
+      .in('score', ['red', 'yellow']);
+
+    if (error) {
+      console.error(`Error fetching flagged responses for application ${applicationId}:`, error);
+      throw error;
+    }
+    if (!responses || responses.length === 0) return [];
+
+    const fieldVersionIds = Array.from(new Set(responses.map(r => r.field_version_id)));
+    const {data: fields} = await supabaseAdmin
+      .from('typeform_field_versions')
+      .select('id, field_title')
+      .in('id', fieldVersionIds);
+    const titles = new Map((fields || []).map(f => [f.id, f.field_title]));
+
+    // Red answers first
+    return responses
+      .map(r => ({
+        field_title: titles.get(r.field_version_id) || 'Unknown Field',
+        response_value: r.response_value,
+        score: r.score as 'red' | 'yellow',
+      }))
+      .sort((a, b) => (a.score === b.score ? 0 : a.score === 'red' ? -1 : 1));
+  }
+
+  /**
+   * Open a case for an application and assign it to a reviewer
+   * @param applicationId The application ID
+   * @param input Reviewer, medications and conditions
+   * @param openedBy ID of the user making the referral
+   * @returns The new case
+   */
+  async openCase(applicationId: string, input: OpenMedicalReviewInput, openedBy?: string | null): Promise<MedicalReviewCase> {
+    const {data: app, error: appError} = await supabaseAdmin
+      .from('applications')
+      .select('participant_id')
+      .eq('id', applicationId)
+      .maybeSingle();
+    if (appError) throw appError;
+    if (!app) throw new Error(`Application ${applicationId} not found`);
+
+    const triggeringResponses = await this.getFlaggedResponses(applicationId);
+
+    const {data, error} = await supabaseAdmin
+      .from('medical_review_cases')
+      .insert({
+        application_id: applicationId,
+        participant_id: app.participant_id,
+        reviewer_id: input.reviewerId,
+        opened_by: openedBy || null,
+        medications: input.medications,
+        conditions: input.conditions,
+        triggering_responses: triggeringResponses,
+        referral_notes: input.referralNotes || null,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error(`Error opening medical review case for application ${applicationId}:`, error);
+      throw new Error(error.code === '23505'
+        ? 'This application already has an open medical review'
+        : `Failed to open medical review: ${error.message}`);
+    }
+    console.log(`[Medical Review] Opened case ${data.id} for application ${applicationId}, reviewer ${input.reviewerId}`);
+    return data as MedicalReviewCase;
+  }
+
+  /**
+   * Get a case with participant and reviewer names
+   */
+  async getCaseById(caseId: string): Promise<MedicalReviewCase | null> {
+    const {data, error} = await supabaseAdmin
+      .from('medical_review_cases')
+      .select('*')
+      .eq('id', caseId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+    const [resolved] = await this.resolveNames([data as MedicalReviewCase]);
+    return resolved;
+  }
+
+  /**
+   * Most recent case for an application, open or decided
+   */
+  async getLatestCaseForApplication(applicationId: string): Promise<MedicalReviewCase | null> {
+    const {data, error} = await supabaseAdmin
+      .from('medical_review_cases')
+      .select('*')
+      .eq('application_id', applicationId)
+      .order('created_at', {ascending: false})
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+    const [resolved] = await this.resolveNames([data as MedicalReviewCase]);
+    return resolved;
+  }
+
+  /**
+   * List cases, oldest first so the queue is worked in order
+   * @param options reviewerId limits to one reviewer's cases; status defaults to open
+   */
+  async listCases(options: {reviewerId?: string; status?: MedicalReviewStatus | 'all'} = {}): Promise<MedicalReviewCase[]> {
+    const status = options.status || 'open';
+    let query = supabaseAdmin
+      .from('medical_review_cases')
+      .select('*')
+      .order('created_at', {ascending: true});
+    if (options.reviewerId) query = query.eq('reviewer_id', options.reviewerId);
+    if (status !== 'all') query = query.eq('status', status);
+
+    const {data, error} = await query;
+    if (error) {
+      console.error('Error listing medical review cases:', error);
+      throw error;
+    }
+    return this.resolveNames((data || []) as MedicalReviewCase[]);
+  }
+
+  /**
+   * Record a reviewer's decision on an open case
+   * @param caseId The case ID
+   * @param input Decision and notes
+   * @param decidedBy ID of the user deciding
+   * @returns The updated case, or null if the case was no longer open
+   */
+  async recordDecision(caseId: string, input: MedicalReviewDecisionInput, decidedBy: string): Promise<MedicalReviewCase | null> {
+    const now = new Date().toISOString();
+    const {data, error} = await supabaseAdmin
+      .from('medical_review_cases')
+      .update({
+        status: DECISION_CASE_STATUS[input.decision],
+        decision: input.decision,
+        decision_notes: input.notes || null,
+        decided_by: decidedBy,
+        decided_at: now,
+        updated_at: now,
+      })
+      .eq('id', caseId)
+      .eq('status', 'open')
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.error(`Error recording decision for medical review case ${caseId}:`, error);
+      throw new Error(`Failed to record decision: ${error.message}`);
+    }
+    if (data) {
+      console.log(`[Medical Review] Case ${caseId} decided: ${input.decision}`);
+    }
+    return (data as MedicalReviewCase) || null;
+  }
+
+  /**
+   * Undo a decision whose application status change failed, so the reviewer can decide again
+   * @param decided The case as returned by recordDecision
+   */
+  async reopenCase(decided: MedicalReviewCase): Promise<void> {
+    const {error} = await supabaseAdmin
+      .from('medical_review_cases')
+      .update({
+        status: 'open',
+        decision: null,
+        decision_notes: null,
+        decided_by: null,
+        decided_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', decided.id)
+      .eq('status', decided.status)
+      .eq('decided_at', decided.decided_at);
+
+    if (error) {
+      console.error(`Error reopening medical review case ${decided.id}:`, error);
+      throw new Error(`Failed to reopen medical review: ${error.message}`);
+    }
+    console.log(`[Medical Review] Case ${decided.id} reopened after its status change failed`);
+  }
+
+  // Attach participant and reviewer display names
+  private async resolveNames(cases: MedicalReviewCase[]): Promise<MedicalReviewCase[]> {
+    if (cases.length === 0) return cases;
+
+    const participantIds = Array.from(new Set(cases.map(c => c.participant_id).filter(Boolean))) as string[];
+    const reviewerIds = Array.from(new Set(cases.map(c => c.reviewer_id)));
+
+    const [{data: participants}, {data: reviewers}] = await Promise.all([
+      participantIds.length > 0
+        ? supabaseAdmin.from('participants').select('id, first_name, last_name').in('id', participantIds)
+        : Promise.resolve({data: [] as {id: string; first_name: string; last_name: string}[]}),
+      supabaseAdmin.from('user_profiles').select('id, first_name, last_name').in('id', reviewerIds),
+    ]);
+
+    const fullName = (p: {first_name?: string | null; last_name?: string | null}) =>
+      [p.first_name, p.last_name].filter(Boolean).join(' ');
+    const participantNames = new Map((participants || []).map(p => [p.id, fullName(p)]));
+    const reviewerNames = new Map((reviewers || []).map(r => [r.id, fullName(r)]));
+
+    return cases.map(c => ({
+      ...c,
+      participant_name: c.participant_id ? participantNames.get(c.participant_id) || null : null,
+      reviewer_name: reviewerNames.get(c.reviewer_id) || null,
+    }));
+  }
+}
+
+// Export singleton instance
+export const medicalReviewService = new MedicalReviewService();
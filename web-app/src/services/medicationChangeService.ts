@@ -0,0 +1,260 @@
+import {createClient, SupabaseClient} from '@supabase/supabase-js';
+import {
+  MedicationChangePlan,
+  MedicationChangePlanInput,
+  MedicationChangeReminderKind,
+} from '@/types/application';
+import {UserRole} from '@/types/user';
+import {notificationService} from '@/services/notificationService';
+
+// Initialize Supabase client with service role for admin operations
+const supabaseAdmin: SupabaseClient = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+);
+
+// Remind this many days before the expected clear date
+const UPCOMING_REMINDER_DAYS = 7;
+// Escalate when confirmation is still missing this many days after the expected clear date
+const OVERDUE_AFTER_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whole days from one YYYY-MM-DD date to another (UTC, so DST never shifts the count)
+const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+
+const addDays = (date: string, days: number): string =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+const isIsoDate = (value: string): boolean =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(`${value}T00:00:00Z`));
+
+/**
+ * Medication change (taper/washout) plans for applicants in pending_medication_change.
+ * Status changes stay with the callers so they go through the status state machine.
+ */
+export class MedicationChangeService {
+  /**
+   * The reminder a plan is due for on a given day, if any
+   * @param plan The plan
+   * @param today Today's date (YYYY-MM-DD)
+   */
+  getReminderKind(plan: Pick<MedicationChangePlan, 'expected_clear_date'>, today: string): MedicationChangeReminderKind | null {
+    const daysUntilClear = daysBetween(today, plan.expected_clear_date);
+    if (daysUntilClear <= -OVERDUE_AFTER_DAYS) return 'overdue';
+    if (daysUntilClear <= 0) return 'due';
+    if (daysUntilClear <= UPCOMING_REMINDER_DAYS) return 'upcoming';
+    return null;
+  }
+
+  /**
+   * List an application's plans, oldest first
+   */
+  async listPlans(applicationId: string): Promise<MedicationChangePlan[]> {
+    const {data, error} = await supabaseAdmin
+      .from('medication_change_plans')
+      .select('*')
+      .eq('application_id', applicationId)
+      .order('created_at', {ascending: true});
+
+    if (error) {
+      console.error(`Error fetching medication change plans for application ${applicationId}:`, error);
+      throw error;
+    }
+    return (data || []) as MedicationChangePlan[];
+  }
+
+  async getPlanById(planId: string): Promise<MedicationChangePlan | null> {
+    const {data, error} = await supabaseAdmin
+      .from('medication_change_plans')
+      .select('*')
+      .eq('id', planId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return (data as MedicationChangePlan) || null;
+  }
+
+  /**
+   * Number of plans still waiting on prescriber confirmation
+   */
+  async countActivePlans(applicationId: string): Promise<number> {
+    const {count, error} = await supabaseAdmin
+      .from('medication_change_plans')
+      .select('id', {count: 'exact', head: true})
+      .eq('application_id', applicationId)
+      .eq('status', 'active');
+
+    if (error) throw error;
+    return count || 0;
+  }
+
+  /**
+   * Validate plan input
+   * @returns An error message, or null when valid
+   */
+  validatePlanInput(input: Partial<MedicationChangePlanInput>): string | null {
+    if (!input.medication || !input.medication.trim()) return 'Medication is required';
+    if (input.washoutDays === undefined || !Number.isInteger(input.washoutDays) || input.washoutDays < 0) {
+      return 'Washout period must be a whole number of days';
+    }
+    if (!input.lastDoseDate || !isIsoDate(input.lastDoseDate)) return 'Last dose date must be a date (YYYY-MM-DD)';
+    return null;
+  }
+
+  /**
+   * Create a plan; the expected clear date is the last dose date plus the washout period
+   * @param applicationId The application ID
+   * @param input Medication, washout period, last dose date and prescriber
+   * @param createdBy ID of the user recording the plan
+   */
+  async createPlan(applicationId: string, input: MedicationChangePlanInput, createdBy?: string | null): Promise<MedicationChangePlan> {
+    const validationError = this.validatePlanInput(input);
+    if (validationError) throw new Error(validationError);
+
+    // Link the plan to the screening it came out of
+    const {data: screening} = await supabaseAdmin
+      .from('screenings')
+      .select('id')
+      .eq('application_id', applicationId)
+      .eq('screening_type', 'initial')
+      .maybeSingle();
+
+    const {data, error} = await supabaseAdmin
+      .from('medication_change_plans')
+      .insert({
+        application_id: applicationId,
+        screening_id: screening?.id || null,
+        medication: input.medication.trim(),
+        washout_days: input.washoutDays,
+        last_dose_date: input.lastDoseDate,
+        expected_clear_date: addDays(input.lastDoseDate, input.washoutDays),
+        prescriber_name: input.prescriberName?.trim() || null,
+        created_by: createdBy || null,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error(`Error creating medication change plan for application ${applicationId}:`, error);
+      throw new Error(`Failed to create medication change plan: ${error.message}`);
+    }
+    console.log(`[Medication Change] Plan ${data.id} created for application ${applicationId}, clear on ${data.expected_clear_date}`);
+    return data as MedicationChangePlan;
+  }
+
+  /**
+   * Record the prescriber's confirmation that the change is complete
+   * @returns The confirmed plan, or null if the plan was not active
+   */
+  async confirmPlan(
+    planId: string,
+    confirmation: {prescriberName: string; notes?: string | null},
+    confirmedBy: string | null
+  ): Promise<MedicationChangePlan | null> {
+    const now = new Date().toISOString();
+    const {data, error} = await supabaseAdmin
+      .from('medication_change_plans')
+      .update({
+        status: 'confirmed',
+        prescriber_name: confirmation.prescriberName.trim(),
+        prescriber_confirmed_at: now,
+        confirmation_notes: confirmation.notes?.trim() || null,
+        confirmed_by: confirmedBy,
+        updated_at: now,
+      })
+      .eq('id', planId)
+      .eq('status', 'active')
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.error(`Error confirming medication change plan ${planId}:`, error);
+      throw new Error(`Failed to confirm medication change plan: ${error.message}`);
+    }
+    return (data as MedicationChangePlan) || null;
+  }
+
+  /**
+   * Cancel an active plan (e.g. entered in error)
+   * @returns The cancelled plan, or null if the plan was not active
+   */
+  async cancelPlan(planId: string): Promise<MedicationChangePlan | null> {
+    const {data, error} = await supabaseAdmin
+      .from('medication_change_plans')
+      .update({status: 'cancelled', updated_at: new Date().toISOString()})
+      .eq('id', planId)
+      .eq('status', 'active')
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.error(`Error cancelling medication change plan ${planId}:`, error);
+      throw new Error(`Failed to cancel medication change plan: ${error.message}`);
+    }
+    return (data as MedicationChangePlan) || null;
+  }
+
+  /**
+   * Notify screener leads, the assigned screener and the plan's author about active plans
+   * whose clear date is approaching or has passed. Each reminder is sent once per clear date.
+   * @param now Current time
+   * @returns Number of active plans checked and reminders sent
+   */
+  async sendDueReminders(now: Date = new Date()): Promise<{checked: number; sent: number}> {
+    const today = now.toISOString().slice(0, 10);
+    const {data: plans, error} = await supabaseAdmin
+      .from('medication_change_plans')
+      .select('*, applications(assigned_to, participants(first_name, last_name))')
+      .eq('status', 'active')
+      .lte('expected_clear_date', addDays(today, UPCOMING_REMINDER_DAYS));
+
+    if (error) {
+      console.error('Error fetching medication change plans for reminders:', error);
+      throw error;
+    }
+
+    let sent = 0;
+    for (const plan of plans || []) {
+      const kind = this.getReminderKind(plan, today);
+      if (!kind) continue;
+      const key = `${kind}:${plan.expected_clear_date}`;
+      if ((plan.reminders_sent || []).includes(key)) continue;
+
+      const application = Array.isArray(plan.applications) ? plan.applications[0] : plan.applications;
+      const participant = Array.isArray(application?.participants) ? application.participants[0] : application?.participants;
+      const applicantName = [participant?.first_name, participant?.last_name].filter(Boolean).join(' ') || 'An applicant';
+      const message = {
+        upcoming: `${applicantName}'s ${plan.medication} washout ends on ${plan.expected_clear_date}. Arrange prescriber confirmation.`,
+        due: `${applicantName}'s ${plan.medication} washout ended on ${plan.expected_clear_date}. Record prescriber confirmation to return them to screening.`,
+        overdue: `${applicantName}'s ${plan.medication} washout ended on ${plan.expected_clear_date} and is still unconfirmed.`,
+      }[kind];
+
+      await notificationService.notifyRoles([UserRole.SCREENER_LEAD], {
+        type: 'medication_change_reminder',
+        title: kind === 'overdue' ? 'Medication change confirmation overdue' : 'Medication change reminder',
+        message,
+        link: `/screenings/${plan.application_id}/medication-change`,
+        applicationId: plan.application_id,
+        metadata: {planId: plan.id, kind, expectedClearDate: plan.expected_clear_date},
+      }, [application?.assigned_to, plan.created_by].filter(Boolean));
+
+      // Keep only keys for the current clear date; older ones no longer matter
+      const remindersSent = [...(plan.reminders_sent || []).filter((k: string) => k.endsWith(`:${plan.expected_clear_date}`)), key];
+      const {error: updateError} = await supabaseAdmin
+        .from('medication_change_plans')
+        .update({reminders_sent: remindersSent})
+        .eq('id', plan.id);
+      if (updateError) {
+        console.error(`Error recording reminder ${key} for plan ${plan.id}:`, updateError);
+      }
+      sent++;
+    }
+
+    return {checked: (plans || []).length, sent};
+  }
+}
+
+// Export singleton instance
+export const medicationChangeService = new MedicationChangeService();
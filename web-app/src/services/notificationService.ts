@@ -0,0 +1,156 @@
+import {createClient, SupabaseClient} from '@supabase/supabase-js';
+import {Notification, NotificationInput} from '@/types/notification';
+import {UserRole} from '@/types/user';
+
+// Initialize Supabase client with service role for admin operations
+const supabaseAdmin: SupabaseClient = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+);
+
+export class NotificationService {
+  /**
+   * Notify every active user holding one of the given roles.
+   * Never throws: a failed notification must not break the event that triggered it.
+   * @param roles Roles to notify
+   * @param input Notification content
+   * @param extraUserIds Additional recipients regardless of role (deduplicated)
+   * @returns Number of notifications created
+   */
+  async notifyRoles(roles: UserRole[], input: NotificationInput, extraUserIds: string[] = []): Promise<number> {
+    try {
+      const {data: users, error} = await supabaseAdmin
+        .from('user_profiles')
+        .select('id')
+        .in('role', roles)
+        .eq('is_active', true);
+
+      if (error) {
+        console.error(`Error fetching ${roles.join(', ')} users for ${input.type} notification:`, error);
+        return 0;
+      }
+
+      return await this.insertForUsers([...(users || []).map(u => u.id), ...extraUserIds], input);
+    } catch (error) {
+      console.error(`Error creating ${input.type} notification:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Notify specific users (e.g. the screener an application was assigned to).
+   * Never throws.
+   * @param userIds Recipients
+   * @param input Notification content
+   * @returns Number of notifications created
+   */
+  async notifyUsers(userIds: string[], input: NotificationInput): Promise<number> {
+    try {
+      return await this.insertForUsers(userIds, input);
+    } catch (error) {
+      console.error(`Error creating ${input.type} notification:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * List a user's notifications, newest first
+   * @param userId Recipient
+   * @param options Only unread, and page size
+   */
+  async getNotificationsForUser(
+    userId: string,
+    options: { unreadOnly?: boolean; limit?: number } = {}
+  ): Promise<{ notifications: Notification[]; unreadCount: number }> {
+    let query = supabaseAdmin
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', {ascending: false})
+      .limit(options.limit || 20);
+
+    if (options.unreadOnly) {
+      query = query.eq('is_read', false);
+    }
+
+    const [{data, error}, {count, error: countError}] = await Promise.all([
+      query,
+      supabaseAdmin
+        .from('notifications')
+        .select('id', {count: 'exact', head: true})
+        .eq('user_id', userId)
+        .eq('is_read', false)
+    ]);
+
+    if (error) throw error;
+    if (countError) throw countError;
+
+    return {notifications: (data || []) as Notification[], unreadCount: count || 0};
+  }
+
+  /**
+   * Mark one of the user's notifications as read
+   * @returns false if the notification does not exist or belongs to someone else
+   */
+  async markAsRead(userId: string, notificationId: string): Promise<boolean> {
+    const {data, error} = await supabaseAdmin
+      .from('notifications')
+      .update({is_read: true, read_at: new Date().toISOString()})
+      .eq('id', notificationId)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length > 0;
+  }
+
+  /**
+   * Mark all of the user's unread notifications as read
+   * @returns Number of notifications updated
+   */
+  async markAllAsRead(userId: string): Promise<number> {
+    const {data, error} = await supabaseAdmin
+      .from('notifications')
+      .update({is_read: true, read_at: new Date().toISOString()})
+      .eq('user_id', userId)
+      .eq('is_read', false)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length;
+  }
+
+  private async insertForUsers(userIds: string[], input: NotificationInput): Promise<number> {
+    const recipients = Array.from(new Set(userIds.filter(Boolean)));
+    if (recipients.length === 0) {
+      console.log(`No recipients for ${input.type} notification`);
+      return 0;
+    }
+
+    const now = new Date().toISOString();
+    const {error} = await supabaseAdmin
+      .from('notifications')
+      .insert(recipients.map(userId => ({
+        user_id: userId,
+        type: input.type,
+        title: input.title,
+        message: input.message,
+        link: input.link || null,
+        application_id: input.applicationId || null,
+        metadata: input.metadata || null,
+        is_read: false,
+        created_at: now
+      })));
+
+    if (error) {
+      console.error(`Error inserting ${input.type} notifications:`, error);
+      return 0;
+    }
+
+    console.log(`Created ${input.type} notification for ${recipients.length} users`);
+    return recipients.length;
+  }
+}
+
+// Export singleton instance
+export const notificationService = new NotificationService();
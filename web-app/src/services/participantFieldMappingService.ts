@@ -0,0 +1,127 @@
+import {createClient, SupabaseClient} from '@supabase/supabase-js';
+import {typeformService} from '@/services/typeformService';
+import {getParticipantAttribute} from '@/lib/participant-attributes';
+import {
+  MappableFormField,
+  ParticipantFieldMapping,
+  ParticipantFieldMappingInput,
+} from '@/types/participantMapping';
+
+// Initialize Supabase client with service role for admin operations
+const supabaseAdmin: SupabaseClient = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+);
+
+// Field types that never carry a participant attribute
+const UNMAPPABLE_FIELD_TYPES = new Set(['group', 'statement', 'inline_group']);
+
+/**
+ * Per-form choice of which field supplies each participant attribute. Mappings are keyed by
+ * Typeform field ID rather than field version, so they keep working across re-syncs.
+ */
+export class ParticipantFieldMappingService {
+  /**
+   * Get the saved mappings for a form
+   * @param formId The Typeform form ID or internal database UUID
+   */
+  async getMappings(formId: string): Promise<ParticipantFieldMapping[]> {
+    const dbFormId = await typeformService.resolveDbFormId(formId);
+
+    const {data, error} = await supabaseAdmin
+      .from('participant_field_mappings')
+      .select('*')
+      .eq('form_id', dbFormId);
+
+    if (error) throw new Error(`Failed to get participant field mappings: ${error.message}`);
+    return (data || []) as ParticipantFieldMapping[];
+  }
+
+  /**
+   * Fields on the form's active schema that can be mapped to an attribute
+   * @param formId The Typeform form ID or internal database UUID
+   */
+  async getMappableFields(formId: string): Promise<MappableFormField[]> {
+    const fieldVersions = await typeformService.getFormFieldVersions(formId);
+
+    return fieldVersions
+      .filter(version => !UNMAPPABLE_FIELD_TYPES.has(version.field_type))
+      .map(version => ({
+        fieldId: version.field_id,
+        ref: version.field_ref,
+        title: version.field_title,
+        type: version.field_type
+      }));
+  }
+
+  /**
+   * Validate submitted mappings against the attribute catalog and the form's fields
+   * @returns An error message, or null when valid
+   */
+  validateMappings(inputs: unknown, fields: MappableFormField[]): string | null {
+    if (!Array.isArray(inputs)) return 'Mappings must be an array';
+
+    const fieldIds = new Set(fields.map(field => field.fieldId));
+    const seen = new Set<string>();
+
+    for (const input of inputs) {
+      const {attribute, fieldId} = (input || {}) as Partial<ParticipantFieldMappingInput>;
+      const definition = typeof attribute === 'string' ? getParticipantAttribute(attribute) : undefined;
+      if (!definition) return `Unknown participant attribute: ${attribute}`;
+      if (seen.has(definition.key)) return `${definition.label} is mapped more than once`;
+      seen.add(definition.key);
+      if (typeof fieldId !== 'string' || !fieldIds.has(fieldId)) {
+        return `${definition.label} is mapped to a field that is not on the form`;
+      }
+    }
+
+    if (seen.has('full_name') && seen.has('first_name') && seen.has('last_name')) {
+      return 'Map either a full name field or first and last name fields, not all three';
+    }
+    return null;
+  }
+
+  /**
+   * Replace a form's mappings. Call validateMappings first.
+   * @param formId The Typeform form ID or internal database UUID
+   */
+  async saveMappings(
+    formId: string,
+    inputs: ParticipantFieldMappingInput[],
+    fields: MappableFormField[],
+    userId: string | null
+  ): Promise<ParticipantFieldMapping[]> {
+    const dbFormId = await typeformService.resolveDbFormId(formId);
+    const refsByFieldId = new Map(fields.map(field => [field.fieldId, field.ref]));
+
+    const {error: deleteError} = await supabaseAdmin
+      .from('participant_field_mappings')
+      .delete()
+      .eq('form_id', dbFormId);
+
+    if (deleteError) throw new Error(`Failed to clear participant field mappings: ${deleteError.message}`);
+
+    if (inputs.length === 0) return [];
+
+    const now = new Date().toISOString();
+    const {data, error} = await supabaseAdmin
+      .from('participant_field_mappings')
+      .insert(inputs.map(input => ({
+        form_id: dbFormId,
+        attribute: input.attribute,
+        field_id: input.fieldId,
+        field_ref: refsByFieldId.get(input.fieldId) || null,
+        created_by: userId,
+        created_at: now,
+        updated_at: now
+      })))
+      .select('*');
+
+    if (error) throw new Error(`Failed to save participant field mappings: ${error.message}`);
+
+    console.log(`[Participant Mapping] Saved ${inputs.length} mappings for form ${dbFormId}`);
+    return (data || []) as ParticipantFieldMapping[];
+  }
+}
+
+export const participantFieldMappingService = new ParticipantFieldMappingService();
@@ -0,0 +1,156 @@
+import {createClient, SupabaseClient} from '@supabase/supabase-js';
+import {
+  DuplicateCandidate,
+  DuplicateCandidateParticipant,
+  ParticipantMerge,
+} from '@/types/participantMerge';
+import {blockingKeys, DUPLICATE_SCORE_THRESHOLD, scoreDuplicatePair} from '@/lib/participant-matching';
+
+// Initialize Supabase client with service role for admin operations
+const supabaseAdmin: SupabaseClient = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+);
+
+const MATCH_COLUMNS = 'id, email, first_name, last_name, phone, date_of_birth, hubspot_contact_id, created_at';
+
+// Participants loaded per query while scanning for duplicates
+const SCAN_PAGE_SIZE = 1000;
+
+// Blocks bigger than this (a shared office phone, a placeholder date) say nothing about identity
+const MAX_BLOCK_SIZE = 50;
+
+type ScannedParticipant = Omit<DuplicateCandidateParticipant, 'application_count'>;
+
+/**
+ * Finds participants that are probably the same person and merges them. A merge moves
+ * everything linked to the duplicate onto the surviving participant and keeps the
+ * duplicate as an inactive record pointing at the survivor, with an audit row.
+ */
+export class ParticipantMergeService {
+  /**
+   * Scan active participants for likely duplicates
+   * @param limit Maximum number of pairs to return, best matches first
+   */
+  async findDuplicateCandidates(limit: number = 100): Promise<DuplicateCandidate[]> {
+    const participants = await this.loadActiveParticipants();
+
+    const blocks = new Map<string, ScannedParticipant[]>();
+    for (const participant of participants) {
+      for (const key of blockingKeys(participant)) {
+        const block = blocks.get(key) || [];
+        block.push(participant);
+        blocks.set(key, block);
+      }
+    }
+
+    const compared = new Set<string>();
+    const matches: {score: number; reasons: DuplicateCandidate['reasons']; pair: [ScannedParticipant, ScannedParticipant]}[] = [];
+
+    for (const block of blocks.values()) {
+      if (block.length < 2 || block.length > MAX_BLOCK_SIZE) continue;
+      for (let i = 0; i < block.length; i++) {
+        for (let j = i + 1; j < block.length; j++) {
+          const [older, newer] = block[i].created_at <= block[j].created_at ? [block[i], block[j]] : [block[j], block[i]];
+          const pairKey = `${older.id}|${newer.id}`;
+          if (compared.has(pairKey)) continue;
+          compared.add(pairKey);
+
+          const {score, reasons} = scoreDuplicatePair(older, newer);
+          if (score >= DUPLICATE_SCORE_THRESHOLD) matches.push({score, reasons, pair: [older, newer]});
+        }
+      }
+    }
+
+    const top = matches.sort((a, b) => b.score - a.score).slice(0, limit);
+    const applicationCounts = await this.countApplications(top.flatMap(match => match.pair.map(p => p.id)));
+
+    return top.map(match => ({
+      score: match.score,
+      reasons: match.reasons,
+      participants: match.pair.map(p => ({...p, application_count: applicationCounts.get(p.id) || 0})) as DuplicateCandidate['participants']
+    }));
+  }
+
+  /**
+   * Merge one participant into another. The whole merge runs in the merge_participants
+   * database function, so it either completes with its audit row or changes nothing.
+   * @param survivorId The participant that is kept
+   * @param mergedId The duplicate whose applications, screenings and meetings move to the survivor
+   * @param userId The admin performing the merge
+   */
+  async mergeParticipants(survivorId: string, mergedId: string, userId: string | null): Promise<ParticipantMerge> {
+    if (survivorId === mergedId) throw new Error('A participant cannot be merged into itself');
+
+    const {data: merge, error} = await supabaseAdmin.rpc('merge_participants', {
+      p_survivor_id: survivorId,
+      p_merged_id: mergedId,
+      p_merged_by: userId
+    });
+
+    if (error || !merge) throw new Error(`Failed to merge participant ${mergedId} into ${survivorId}: ${error?.message}`);
+
+    const result = merge as ParticipantMerge;
+    console.log(`[Participant Merge] Merged ${mergedId} into ${survivorId} (HubSpot contact: ${result.hubspot_contact_action})`, result.reparented_counts);
+    return result;
+  }
+
+  /**
+   * Most recent merges, newest first
+   */
+  async listMerges(limit: number = 50): Promise<ParticipantMerge[]> {
+    const {data, error} = await supabaseAdmin
+      .from('participant_merges')
+      .select('*')
+      .order('created_at', {ascending: false})
+      .limit(limit);
+
+    if (error) throw new Error(`Failed to list participant merges: ${error.message}`);
+
+    const merges = (data || []) as ParticipantMerge[];
+    const actorIds = Array.from(new Set(merges.map(m => m.merged_by).filter(Boolean))) as string[];
+    if (actorIds.length === 0) return merges;
+
+    const {data: profiles} = await supabaseAdmin
+      .from('user_profiles')
+      .select('id, first_name, last_name')
+      .in('id', actorIds);
+
+    const names = new Map((profiles || []).map(p => [p.id, [p.first_name, p.last_name].filter(Boolean).join(' ')]));
+    return merges.map(m => ({...m, merged_by_name: m.merged_by ? names.get(m.merged_by) || null : null}));
+  }
+
+  private async loadActiveParticipants(): Promise<ScannedParticipant[]> {
+    const participants: ScannedParticipant[] = [];
+    for (let from = 0; ; from += SCAN_PAGE_SIZE) {
+      const {data, error} = await supabaseAdmin
+        .from('participants')
+        .select(MATCH_COLUMNS)
+        .is('merged_into_id', null)
+        .order('created_at', {ascending: true})
+        .range(from, from + SCAN_PAGE_SIZE - 1);
+
+      if (error) throw new Error(`Failed to load participants: ${error.message}`);
+      participants.push(...((data || []) as ScannedParticipant[]));
+      if (!data || data.length < SCAN_PAGE_SIZE) return participants;
+    }
+  }
+
+  private async countApplications(participantIds: string[]): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    if (participantIds.length === 0) return counts;
+
+    const {data, error} = await supabaseAdmin
+      .from('applications')
+      .select('participant_id')
+      .in('participant_id', Array.from(new Set(participantIds)));
+
+    if (error) throw new Error(`Failed to count applications: ${error.message}`);
+    for (const row of data || []) {
+      counts.set(row.participant_id, (counts.get(row.participant_id) || 0) + 1);
+    }
+    return counts;
+  }
+}
+
+export const participantMergeService = new ParticipantMergeService();
@@ -0,0 +1,436 @@
+import {createClient, SupabaseClient} from '@supabase/supabase-js';
+import {ApplicationStatus} from '@/types/application';
+import {
+  Retreat,
+  RetreatAssignment,
+  RetreatInput,
+  RetreatRosterEntry,
+  RetreatStatus,
+} from '@/types/retreat';
+import {UserRole} from '@/types/user';
+
+// Initialize Supabase client with service role for admin operations
+const supabaseAdmin: SupabaseClient = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+);
+
+export const RETREAT_STATUSES: RetreatStatus[] = ['draft', 'open', 'closed', 'completed', 'cancelled'];
+
+// Application statuses that may be assigned to a retreat
+export const RETREAT_ELIGIBLE_STATUSES: ApplicationStatus[] = ['conditionally_approved', 'pending_ic'];
+
+// Raised by the enforce_retreat_capacity trigger when a confirmed assignment would exceed capacity
+const isRetreatFullError = (error: {code?: string; message?: string} | null) =>
+  !!error && error.code === 'P0001' && (error.message || '').includes('retreat_full');
+
+const isIsoDate = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(`${value}T00:00:00Z`));
+
+const fullName = (p: {first_name?: string | null; last_name?: string | null}) =>
+  [p.first_name, p.last_name].filter(Boolean).join(' ');
+
+/**
+ * Retreats (cohorts) and the applications assigned to them.
+ * Capacity is enforced by a database trigger; assignments beyond capacity join the waitlist.
+ */
+export class RetreatService {
+  /**
+   * Pick retreat fields from a request body, leaving out anything not supplied
+   */
+  parseRetreatInput(data: Record<string, unknown>): Partial<RetreatInput> {
+    const input: Partial<RetreatInput> = {};
+    if (data.name !== undefined) input.name = String(data.name ?? '');
+    if (data.location !== undefined) input.location = String(data.location ?? '');
+    if (data.start_date !== undefined) input.start_date = data.start_date as string;
+    if (data.end_date !== undefined) input.end_date = data.end_date as string;
+    if (data.capacity !== undefined) input.capacity = Number(data.capacity);
+    if (data.price_cents !== undefined) input.price_cents = data.price_cents === null || data.price_cents === '' ? null : Number(data.price_cents);
+    if (data.currency !== undefined) input.currency = String(data.currency || 'USD').toUpperCase();
+    if (data.status !== undefined) input.status = data.status as RetreatStatus;
+    if (data.facilitator_ids !== undefined) input.facilitator_ids = data.facilitator_ids as string[];
+    if (data.description !== undefined) input.description = data.description ? String(data.description) : null;
+    return input;
+  }
+
+  /**
+   * Validate retreat fields
+   * @param input Fields to validate
+   * @param partial Only validate the fields present (updates)
+   * @returns An error message, or null when valid
+   */
+  validateRetreatInput(input: Partial<RetreatInput>, partial = false): string | null {
+    const has = (key: keyof RetreatInput) => !partial || input[key] !== undefined;
+
+    if (has('name') && (!input.name || !input.name.trim())) return 'Name is required';
+    if (has('location') && (!input.location || !input.location.trim())) return 'Location is required';
+    if (has('start_date') && !isIsoDate(input.start_date)) return 'Start date must be a date (YYYY-MM-DD)';
+    if (has('end_date') && !isIsoDate(input.end_date)) return 'End date must be a date (YYYY-MM-DD)';
+    if (input.start_date && input.end_date && input.end_date < input.start_date) return 'End date must be on or after the start date';
+    if (has('capacity') && (!Number.isInteger(input.capacity) || (input.capacity as number) < 0)) {
+      return 'Capacity must be a whole number';
+    }
+    if (input.price_cents != null && (!Number.isInteger(input.price_cents) || input.price_cents < 0)) {
+      return 'Price must be a positive amount';
+    }
+    if (input.status !== undefined && !RETREAT_STATUSES.includes(input.status)) return `Invalid status: ${input.status}`;
+    if (input.facilitator_ids !== undefined && !Array.isArray(input.facilitator_ids)) return 'Facilitators must be a list';
+    return null;
+  }
+
+  /**
+   * Active users with the Facilitator role
+   */
+  async getFacilitators(): Promise<{id: string; name: string}[]> {
+    const {data, error} = await supabaseAdmin
+      .from('user_profiles')
+      .select('id, first_name, last_name, email')
+      .eq('role', UserRole.FACILITATOR)
+      .eq('is_active', true)
+      .order('first_name', {ascending: true});
+
+    if (error) {
+      console.error('Error fetching facilitators:', error);
+      throw error;
+    }
+    return (data || []).map(u => ({id: u.id, name: fullName(u) || u.email}));
+  }
+
+  /**
+   * List retreats by start date with confirmed and waitlist counts
+   * @param options status filter; upcomingDays limits to retreats starting within that many days from today
+   */
+  async listRetreats(options: {status?: RetreatStatus; upcomingDays?: number} = {}): Promise<Retreat[]> {
+    let query = supabaseAdmin
+      .from('retreats')
+      .select('*')
+      .order('start_date', {ascending: true});
+    if (options.status) query = query.eq('status', options.status);
+    if (options.upcomingDays !== undefined) {
+      const today = new Date().toISOString().slice(0, 10);
+      const until = new Date(Date.now() + options.upcomingDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+      query = query.gte('start_date', today).lte('start_date', until).neq('status', 'cancelled');
+    }
+
+    const {data, error} = await query;
+    if (error) {
+      console.error('Error listing retreats:', error);
+      throw error;
+    }
+    return this.withCountsAndFacilitators((data || []) as Retreat[]);
+  }
+
+  async getRetreatById(retreatId: string): Promise<Retreat | null> {
+    const {data, error} = await supabaseAdmin
+      .from('retreats')
+      .select('*')
+      .eq('id', retreatId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+    const [retreat] = await this.withCountsAndFacilitators([data as Retreat]);
+    return retreat;
+  }
+
+  async createRetreat(input: RetreatInput, createdBy?: string | null): Promise<Retreat> {
+    const {data, error} = await supabaseAdmin
+      .from('retreats')
+      .insert({
+        name: input.name.trim(),
+        location: input.location.trim(),
+        start_date: input.start_date,
+        end_date: input.end_date,
+        capacity: input.capacity,
+        price_cents: input.price_cents ?? null,
+        currency: input.currency || 'USD',
+        status: input.status || 'draft',
+        facilitator_ids: input.facilitator_ids || [],
+        description: input.description || null,
+        created_by: createdBy || null,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Error creating retreat:', error);
+      throw new Error(`Failed to create retreat: ${error.message}`);
+    }
+    console.log(`[Retreats] Created retreat ${data.id} (${data.name})`);
+    return data as Retreat;
+  }
+
+  /**
+   * Update a retreat. Raising capacity promotes waitlisted applications into the new places.
+   * @returns The updated retreat, or null if it does not exist
+   */
+  async updateRetreat(retreatId: string, input: Partial<RetreatInput>): Promise<Retreat | null> {
+    const updates: Record<string, unknown> = {};
+    if (input.name !== undefined) updates.name = input.name.trim();
+    if (input.location !== undefined) updates.location = input.location.trim();
+    if (input.start_date !== undefined) updates.start_date = input.start_date;
+    if (input.end_date !== undefined) updates.end_date = input.end_date;
+    if (input.capacity !== undefined) updates.capacity = input.capacity;
+    if (input.price_cents !== undefined) updates.price_cents = input.price_cents;
+    if (input.currency !== undefined) updates.currency = input.currency;
+    if (input.status !== undefined) updates.status = input.status;
+    if (input.facilitator_ids !== undefined) updates.facilitator_ids = input.facilitator_ids;
+    if (input.description !== undefined) updates.description = input.description || null;
+
+    const {data, error} = await supabaseAdmin
+      .from('retreats')
+      .update(updates)
+      .eq('id', retreatId)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.error(`Error updating retreat ${retreatId}:`, error);
+      throw new Error(`Failed to update retreat: ${error.message}`);
+    }
+    if (!data) return null;
+
+    if (input.capacity !== undefined) {
+      await this.promoteFromWaitlist(retreatId);
+    }
+    return this.getRetreatById(retreatId);
+  }
+
+  /**
+   * Delete a retreat that has never had anyone assigned
+   * @returns false if the retreat has assignments (cancel it instead)
+   */
+  async deleteRetreat(retreatId: string): Promise<boolean> {
+    const {count} = await supabaseAdmin
+      .from('retreat_assignments')
+      .select('id', {count: 'exact', head: true})
+      .eq('retreat_id', retreatId);
+    if ((count || 0) > 0) return false;
+
+    const {error} = await supabaseAdmin.from('retreats').delete().eq('id', retreatId);
+    if (error) {
+      console.error(`Error deleting retreat ${retreatId}:`, error);
+      throw new Error(`Failed to delete retreat: ${error.message}`);
+    }
+    return true;
+  }
+
+  /**
+   * The application's confirmed or waitlisted assignment, if any
+   */
+  async getActiveAssignmentForApplication(applicationId: string): Promise<(RetreatAssignment & {retreat: Retreat | null}) | null> {
+    const {data, error} = await supabaseAdmin
+      .from('retreat_assignments')
+      .select('*')
+      .eq('application_id', applicationId)
+      .in('status', ['confirmed', 'waitlisted'])
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+    return {...(data as RetreatAssignment), retreat: await this.getRetreatById(data.retreat_id)};
+  }
+
+  async getAssignmentById(assignmentId: string): Promise<RetreatAssignment | null> {
+    const {data, error} = await supabaseAdmin
+      .from('retreat_assignments')
+      .select('*')
+      .eq('id', assignmentId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return (data as RetreatAssignment) || null;
+  }
+
+  /**
+   * Assign an application to a retreat: confirmed while places remain, otherwise waitlisted
+   * @param retreatId The retreat ID
+   * @param applicationId The application ID
+   * @param assignedBy ID of the user making the assignment
+   */
+  async assignApplication(retreatId: string, applicationId: string, assignedBy?: string | null): Promise<RetreatAssignment> {
+    const {data: app} = await supabaseAdmin
+      .from('applications')
+      .select('participant_id')
+      .eq('id', applicationId)
+      .maybeSingle();
+
+    const now = new Date().toISOString();
+    const row = {
+      retreat_id: retreatId,
+      application_id: applicationId,
+      participant_id: app?.participant_id || null,
+      assigned_by: assignedBy || null,
+    };
+
+    let {data, error} = await supabaseAdmin
+      .from('retreat_assignments')
+      .insert({...row, status: 'confirmed', confirmed_at: now})
+      .select('*')
+      .single();
+
+    if (isRetreatFullError(error)) {
+      ({data, error} = await supabaseAdmin
+        .from('retreat_assignments')
+        .insert({...row, status: 'waitlisted', waitlisted_at: now})
+        .select('*')
+        .single());
+    }
+
+    if (error) {
+      console.error(`Error assigning application ${applicationId} to retreat ${retreatId}:`, error);
+      throw new Error(error.code === '23505'
+        ? 'This application is already assigned to a retreat'
+        : `Failed to assign retreat: ${error.message}`);
+    }
+    console.log(`[Retreats] Application ${applicationId} ${data.status} for retreat ${retreatId}`);
+    return data as RetreatAssignment;
+  }
+
+  /**
+   * Withdraw an assignment and promote the next waitlisted application into a freed place
+   * @returns The withdrawn assignment, or null if it was already withdrawn
+   */
+  async withdrawAssignment(assignmentId: string): Promise<RetreatAssignment | null> {
+    const {data, error} = await supabaseAdmin
+      .from('retreat_assignments')
+      .update({status: 'withdrawn', withdrawn_at: new Date().toISOString()})
+      .eq('id', assignmentId)
+      .in('status', ['confirmed', 'waitlisted'])
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.error(`Error withdrawing retreat assignment ${assignmentId}:`, error);
+      throw new Error(`Failed to withdraw assignment: ${error.message}`);
+    }
+    if (!data) return null;
+
+    if (data.status === 'withdrawn') {
+      await this.promoteFromWaitlist(data.retreat_id);
+    }
+    return data as RetreatAssignment;
+  }
+
+  /**
+   * Move waitlisted applications into confirmed places, earliest first, until the retreat is full
+   * @returns The promoted assignments
+   */
+  async promoteFromWaitlist(retreatId: string): Promise<RetreatAssignment[]> {
+    const {data: waitlist, error} = await supabaseAdmin
+      .from('retreat_assignments')
+      .select('id')
+      .eq('retreat_id', retreatId)
+      .eq('status', 'waitlisted')
+      .order('waitlisted_at', {ascending: true});
+
+    if (error) {
+      console.error(`Error loading waitlist for retreat ${retreatId}:`, error);
+      return [];
+    }
+
+    const promoted: RetreatAssignment[] = [];
+    for (const entry of waitlist || []) {
+      const {data, error: promoteError} = await supabaseAdmin
+        .from('retreat_assignments')
+        .update({status: 'confirmed', confirmed_at: new Date().toISOString()})
+        .eq('id', entry.id)
+        .eq('status', 'waitlisted')
+        .select('*')
+        .maybeSingle();
+
+      if (isRetreatFullError(promoteError)) break;
+      if (promoteError) {
+        console.error(`Error promoting waitlisted assignment ${entry.id}:`, promoteError);
+        break;
+      }
+      if (data) promoted.push(data as RetreatAssignment);
+    }
+
+    if (promoted.length > 0) {
+      console.log(`[Retreats] Promoted ${promoted.length} waitlisted application(s) for retreat ${retreatId}`);
+    }
+    return promoted;
+  }
+
+  /**
+   * Everyone assigned to a retreat with their application and screening status.
+   * Confirmed first, then the waitlist in order, then withdrawn.
+   */
+  async getRoster(retreatId: string): Promise<RetreatRosterEntry[]> {
+    const {data: assignments, error} = await supabaseAdmin
+      .from('retreat_assignments')
+      .select('*, applications(status, participants(first_name, last_name, email))')
+      .eq('retreat_id', retreatId)
+      .order('created_at', {ascending: true});
+
+    if (error) {
+      console.error(`Error loading roster for retreat ${retreatId}:`, error);
+      throw error;
+    }
+    if (!assignments || assignments.length === 0) return [];
+
+    const applicationIds = assignments.map(a => a.application_id);
+    const {data: screenings} = await supabaseAdmin
+      .from('screenings')
+      .select('application_id, status')
+      .in('application_id', applicationIds)
+      .eq('screening_type', 'initial');
+    const screeningStatus = new Map((screenings || []).map(s => [s.application_id, s.status]));
+
+    const order = {confirmed: 0, waitlisted: 1, withdrawn: 2} as const;
+    const sorted = [...assignments].sort((a, b) => {
+      if (a.status !== b.status) return order[a.status as keyof typeof order] - order[b.status as keyof typeof order];
+      const aTime = a.status === 'waitlisted' ? a.waitlisted_at : a.created_at;
+      const bTime = b.status === 'waitlisted' ? b.waitlisted_at : b.created_at;
+      return (aTime || '').localeCompare(bTime || '');
+    });
+
+    let waitlistPosition = 0;
+    return sorted.map(({applications, ...assignment}) => {
+      const application = Array.isArray(applications) ? applications[0] : applications;
+      const participant = Array.isArray(application?.participants) ? application.participants[0] : application?.participants;
+      return {
+        ...(assignment as RetreatAssignment),
+        participant_name: participant ? fullName(participant) : 'Unknown',
+        participant_email: participant?.email || null,
+        application_status: application?.status || 'unknown',
+        screening_status: screeningStatus.get(assignment.application_id) || null,
+        waitlist_position: assignment.status === 'waitlisted' ? ++waitlistPosition : null,
+      };
+    });
+  }
+
+  // Attach confirmed/waitlist counts and facilitator names
+  private async withCountsAndFacilitators(retreats: Retreat[]): Promise<Retreat[]> {
+    if (retreats.length === 0) return retreats;
+
+    const retreatIds = retreats.map(r => r.id);
+    const facilitatorIds = Array.from(new Set(retreats.flatMap(r => r.facilitator_ids || [])));
+
+    const [{data: assignments}, {data: facilitators}] = await Promise.all([
+      supabaseAdmin
+        .from('retreat_assignments')
+        .select('retreat_id, status')
+        .in('retreat_id', retreatIds)
+        .in('status', ['confirmed', 'waitlisted']),
+      facilitatorIds.length > 0
+        ? supabaseAdmin.from('user_profiles').select('id, first_name, last_name').in('id', facilitatorIds)
+        : Promise.resolve({data: [] as {id: string; first_name: string; last_name: string}[]}),
+    ]);
+
+    const facilitatorNames = new Map((facilitators || []).map(f => [f.id, fullName(f)]));
+    return retreats.map(retreat => {
+      const forRetreat = (assignments || []).filter(a => a.retreat_id === retreat.id);
+      return {
+        ...retreat,
+        confirmed_count: forRetreat.filter(a => a.status === 'confirmed').length,
+        waitlist_count: forRetreat.filter(a => a.status === 'waitlisted').length,
+        facilitators: (retreat.facilitator_ids || []).map(id => ({id, name: facilitatorNames.get(id) || 'Unknown'})),
+      };
+    });
+  }
+}
+
+// Export singleton instance
+export const retreatService = new RetreatService();
@@ -0,0 +1,148 @@
+import {createClient, SupabaseClient} from '@supabase/supabase-js';
+import {describeCriteria, describeExpression, parseCriteria} from '@/lib/scoring-criteria';
+import {resolveRiskSettings} from '@/lib/risk-score';
+import {RiskCategory, RiskSettings, WeightedRule} from '@/types/scoring';
+
+// Initialize Supabase client with service role for admin operations
+const supabaseAdmin: SupabaseClient = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+);
+
+/**
+ * Per-form settings for the weighted risk score (colour points, question-group
+ * weights, scale and recommendation bands), and the rules and groups they weight.
+ * The calculation itself lives in lib/risk-score so the admin page can share it.
+ */
+export class RiskScoringService {
+  /**
+   * The form's risk settings, or the defaults when none are saved
+   * @param dbFormId typeform_forms.id
+   */
+  async getSettings(dbFormId: string): Promise<RiskSettings> {
+    const {data, error} = await supabaseAdmin
+      .from('scoring_risk_settings')
+      .select('*')
+      .eq('form_id', dbFormId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load risk settings: ${error.message}`);
+    if (!data) return resolveRiskSettings(null);
+
+    return resolveRiskSettings({
+      colorPoints: data.color_points,
+      categoryWeights: data.category_weights,
+      maxPoints: Number(data.max_points),
+      bands: data.bands
+    });
+  }
+
+  /**
+   * Save the form's risk settings; call validateRiskSettings first
+   * @param dbFormId typeform_forms.id
+   */
+  async saveSettings(dbFormId: string, settings: RiskSettings, userId: string | null): Promise<RiskSettings> {
+    const {error} = await supabaseAdmin
+      .from('scoring_risk_settings')
+      .upsert({
+        form_id: dbFormId,
+        color_points: settings.colorPoints,
+        category_weights: settings.categoryWeights,
+        max_points: settings.maxPoints,
+        bands: [...settings.bands].sort((a, b) => a.minScore - b.minScore),
+        updated_by: userId,
+        updated_at: new Date().toISOString()
+      }, {onConflict: 'form_id'});
+
+    if (error) throw new Error(`Failed to save risk settings: ${error.message}`);
+    return this.getSettings(dbFormId);
+  }
+
+  /**
+   * The form's active top-level question groups
+   * @param dbFormId typeform_forms.id
+   */
+  async getCategories(dbFormId: string): Promise<RiskCategory[]> {
+    const {data, error} = await supabaseAdmin
+      .from('typeform_field_versions')
+      .select('field_id, field_title')
+      .eq('form_id', dbFormId)
+      .eq('field_type', 'group')
+      .eq('hierarchy_level', 0)
+      .eq('is_active', true)
+      .order('display_order', {ascending: true});
+
+    if (error) throw new Error(`Failed to load question groups: ${error.message}`);
+    return (data || []).map(group => ({fieldId: group.field_id, title: group.field_title}));
+  }
+
+  /**
+   * The form's active rules with readable labels, for setting their weights
+   * @param dbFormId typeform_forms.id
+   */
+  async getWeightedRules(dbFormId: string): Promise<WeightedRule[]> {
+    const {data: fields, error: fieldError} = await supabaseAdmin
+      .from('typeform_field_versions')
+      .select('id, field_title, field_ref')
+      .eq('form_id', dbFormId)
+      .eq('is_active', true)
+      .order('display_order', {ascending: true});
+
+    if (fieldError) throw new Error(`Failed to load form fields: ${fieldError.message}`);
+
+    const fieldTitles = new Map((fields || []).map(field => [field.id, field.field_title as string]));
+    const titlesByRef: Record<string, string> = {};
+    (fields || []).forEach(field => {
+      if (field.field_ref) titlesByRef[field.field_ref] = field.field_title;
+    });
+
+    const choiceLabels = new Map<string, string>();
+    if (fieldTitles.size > 0) {
+      const {data: choices, error: choiceError} = await supabaseAdmin
+        .from('typeform_choice_versions')
+        .select('id, field_version_id, choice_label')
+        .in('field_version_id', Array.from(fieldTitles.keys()))
+        .eq('is_active', true);
+
+      if (choiceError) throw new Error(`Failed to load form choices: ${choiceError.message}`);
+      (choices || []).forEach(choice => {
+        choiceLabels.set(choice.id, `${fieldTitles.get(choice.field_version_id)}: ${choice.choice_label}`);
+      });
+    }
+
+    const {data: rules, error} = await supabaseAdmin
+      .from('scoring_rules')
+      .select('id, target_type, target_id, score_value, criteria, weight')
+      .in('target_id', [dbFormId, ...fieldTitles.keys(), ...choiceLabels.keys()])
+      .eq('is_active', true);
+
+    if (error) throw new Error(`Failed to load scoring rules: ${error.message}`);
+
+    const order = new Map([...fieldTitles.keys(), ...choiceLabels.keys()].map((id, index) => [id, index]));
+    return (rules || [])
+      .filter(rule => rule.score_value !== 'na')
+      .sort((a, b) => (order.get(a.target_id) ?? -1) - (order.get(b.target_id) ?? -1))
+      .map(rule => {
+        if (rule.target_type === 'application') {
+          return {
+            id: rule.id,
+            target_type: rule.target_type,
+            score_value: rule.score_value,
+            weight: Number(rule.weight ?? 1),
+            label: rule.criteria?.name || 'Compound rule',
+            description: rule.criteria?.expression ? describeExpression(rule.criteria.expression, titlesByRef) : ''
+          };
+        }
+        return {
+          id: rule.id,
+          target_type: rule.target_type,
+          score_value: rule.score_value,
+          weight: Number(rule.weight ?? 1),
+          label: (rule.target_type === 'choice' ? choiceLabels.get(rule.target_id) : fieldTitles.get(rule.target_id)) || 'Unknown question',
+          description: rule.target_type === 'choice' ? 'choice selected' : describeCriteria(parseCriteria(rule.criteria))
+        };
+      });
+  }
+}
+
+export const riskScoringService = new RiskScoringService();
@@ -0,0 +1,386 @@
+import crypto from 'crypto';
+import {createClient, SupabaseClient} from '@supabase/supabase-js';
+import {APPLICATION_STATUS_LABELS} from '@/lib/application-status-machine';
+import {jobQueueService} from '@/services/jobQueueService';
+import {typeformService} from '@/services/typeformService';
+import {
+  ApplicationScoreHistoryEntry,
+  RescoreFilters,
+  ScoringRescoreRun,
+  ScoringRuleSetVersion,
+  ScoringRuleSnapshot,
+} from '@/types/scoring';
+
+// Initialize Supabase client with service role for admin operations
+const supabaseAdmin: SupabaseClient = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+);
+
+// Supabase caps a single select at 1000 rows
+const PAGE_SIZE = 1000;
+
+const isIsoDate = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(`${value}T00:00:00Z`));
+
+/**
+ * Immutable, numbered snapshots of a form's scoring rules, and rescoring of stored
+ * applications against a chosen version. Rules are still edited in scoring_rules;
+ * a version is taken whenever a draft is published, on demand, and automatically
+ * when an application is scored after the rules changed.
+ */
+export class ScoringRuleSetService {
+  /**
+   * The form's active field, choice and application rules, in a stable order
+   * @param dbFormId typeform_forms.id
+   */
+  async getFormRules(dbFormId: string): Promise<ScoringRuleSnapshot[]> {
+    const {data: fieldVersions, error: fieldError} = await supabaseAdmin
+      .from('typeform_field_versions')
+      .select('id')
+      .eq('form_id', dbFormId);
+
+    if (fieldError) throw new Error(`Failed to load form fields: ${fieldError.message}`);
+
+    const fieldIds = (fieldVersions || []).map(field => field.id);
+    let choiceIds: string[] = [];
+    if (fieldIds.length > 0) {
+      const {data: choiceVersions, error: choiceError} = await supabaseAdmin
+        .from('typeform_choice_versions')
+        .select('id')
+        .in('field_version_id', fieldIds);
+
+      if (choiceError) throw new Error(`Failed to load form choices: ${choiceError.message}`);
+      choiceIds = (choiceVersions || []).map(choice => choice.id);
+    }
+
+    const {data: rules, error} = await supabaseAdmin
+      .from('scoring_rules')
+      .select('id, target_type, target_id, score_value, criteria, weight')
+      .in('target_id', [dbFormId, ...fieldIds, ...choiceIds])
+      .eq('is_active', true)
+      .order('id', {ascending: true});
+
+    if (error) throw new Error(`Failed to load scoring rules: ${error.message}`);
+    return (rules || []) as ScoringRuleSnapshot[];
+  }
+
+  private hashRules(rules: ScoringRuleSnapshot[]): string {
+    // Default weights are left out so versions saved before rule weights keep matching unchanged rules
+    const canonical = rules.map(rule => [
+      rule.id, rule.target_type, rule.target_id, rule.score_value, rule.criteria ?? null,
+      ...((rule.weight ?? 1) === 1 ? [] : [Number(rule.weight)])
+    ]);
+    return crypto.createHash('sha256').update(JSON.stringify(canonical)).digest('hex');
+  }
+
+  async getLatestVersion(dbFormId: string): Promise<ScoringRuleSetVersion | null> {
+    const {data, error} = await supabaseAdmin
+      .from('scoring_rule_set_versions')
+      .select('*')
+      .eq('form_id', dbFormId)
+      .order('version_number', {ascending: false})
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load latest rule-set version: ${error.message}`);
+    return data;
+  }
+
+  async getVersion(versionId: string): Promise<ScoringRuleSetVersion | null> {
+    const {data, error} = await supabaseAdmin
+      .from('scoring_rule_set_versions')
+      .select('*')
+      .eq('id', versionId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load rule-set version: ${error.message}`);
+    return data;
+  }
+
+  /**
+   * A form's versions, newest first, with how many applications are currently scored with each
+   * @param formId The Typeform form ID or internal database UUID
+   */
+  async listVersions(formId: string): Promise<ScoringRuleSetVersion[]> {
+    const dbFormId = await typeformService.resolveDbFormId(formId);
+
+    const {data, error} = await supabaseAdmin
+      .from('scoring_rule_set_versions')
+      .select('*')
+      .eq('form_id', dbFormId)
+      .order('version_number', {ascending: false});
+
+    if (error) throw new Error(`Failed to list rule-set versions: ${error.message}`);
+
+    const versions = (data || []) as ScoringRuleSetVersion[];
+    if (versions.length === 0) return versions;
+
+    const {data: counts, error: countError} = await supabaseAdmin.rpc('count_applications_by_rule_set_version', {
+      p_version_ids: versions.map(version => version.id)
+    });
+
+    if (countError) throw new Error(`Failed to count applications per rule-set version: ${countError.message}`);
+
+    const countsByVersion = new Map<string, number>(
+      ((counts || []) as {version_id: string; applications_count: number}[])
+        .map(row => [row.version_id, Number(row.applications_count)])
+    );
+    for (const version of versions) {
+      version.applications_count = countsByVersion.get(version.id) || 0;
+    }
+    return versions;
+  }
+
+  /**
+   * Snapshot the form's current rules as a new named version
+   * @param dbFormId typeform_forms.id
+   */
+  async createVersion(dbFormId: string, name: string, notes: string | null, userId: string | null): Promise<ScoringRuleSetVersion> {
+    const rules = await this.getFormRules(dbFormId);
+    return this.insertVersion(dbFormId, rules, name, notes, userId);
+  }
+
+  /**
+   * The version matching the form's current rules, snapshotting them first if they changed since the latest version
+   * @param dbFormId typeform_forms.id
+   */
+  async ensureCurrentVersion(dbFormId: string): Promise<ScoringRuleSetVersion> {
+    const rules = await this.getFormRules(dbFormId);
+    const latest = await this.getLatestVersion(dbFormId);
+    if (latest && latest.rules_hash === this.hashRules(rules)) {
+      return latest;
+    }
+
+    console.log(`[Scoring] Rules for form ${dbFormId} changed since the latest version; taking a snapshot`);
+    return this.insertVersion(
+      dbFormId,
+      rules,
+      `Auto-saved ${new Date().toISOString().slice(0, 10)}`,
+      'Rules were edited directly; snapshot taken when an application was scored',
+      null
+    );
+  }
+
+  private async insertVersion(
+    dbFormId: string,
+    rules: ScoringRuleSnapshot[],
+    name: string,
+    notes: string | null,
+    userId: string | null
+  ): Promise<ScoringRuleSetVersion> {
+    const rulesHash = this.hashRules(rules);
+
+    // Two writers may race for the next number; the unique (form_id, version_number) key decides
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const latest = await this.getLatestVersion(dbFormId);
+      const {data, error} = await supabaseAdmin
+        .from('scoring_rule_set_versions')
+        .insert({
+          form_id: dbFormId,
+          version_number: (latest?.version_number || 0) + 1,
+          name,
+          notes,
+          rules,
+          rules_hash: rulesHash,
+          created_by: userId
+        })
+        .select('*')
+        .single();
+
+      if (!error && data) {
+        console.log(`[Scoring] Created rule-set version ${data.version_number} (${rules.length} rules) for form ${dbFormId}`);
+        return data;
+      }
+      if (error?.code !== '23505') {
+        throw new Error(`Failed to create rule-set version: ${error?.message}`);
+      }
+    }
+
+    throw new Error('Failed to create rule-set version: version number conflict');
+  }
+
+  /**
+   * Validate a rescore population filter
+   * @returns An error message, or null when valid
+   */
+  validateRescoreFilters(filters: RescoreFilters): string | null {
+    if (filters.statuses !== undefined) {
+      if (!Array.isArray(filters.statuses)) return 'Statuses must be an array';
+      const unknown = filters.statuses.find(status => !(status in APPLICATION_STATUS_LABELS));
+      if (unknown) return `Unknown status: ${unknown}`;
+    }
+    if (filters.submittedFrom !== undefined && !isIsoDate(filters.submittedFrom)) return 'Submitted from must be a date (YYYY-MM-DD)';
+    if (filters.submittedTo !== undefined && !isIsoDate(filters.submittedTo)) return 'Submitted to must be a date (YYYY-MM-DD)';
+    if (filters.submittedFrom && filters.submittedTo && filters.submittedFrom > filters.submittedTo) {
+      return 'Submitted from must be on or before submitted to';
+    }
+    return null;
+  }
+
+  /**
+   * Record a rescore run and queue the job that fans it out to one scoring job per application
+   * @param formId The Typeform form ID or internal database UUID
+   * @returns The run, or null when the version does not belong to the form
+   */
+  async startRescore(
+    formId: string,
+    versionId: string,
+    filters: RescoreFilters,
+    userId: string | null
+  ): Promise<ScoringRescoreRun | null> {
+    const dbFormId = await typeformService.resolveDbFormId(formId);
+    const version = await this.getVersion(versionId);
+    if (!version || version.form_id !== dbFormId) {
+      return null;
+    }
+
+    const {data: run, error} = await supabaseAdmin
+      .from('scoring_rescore_runs')
+      .insert({
+        form_id: dbFormId,
+        rule_set_version_id: versionId,
+        filters,
+        created_by: userId
+      })
+      .select('*')
+      .single();
+
+    if (error || !run) throw new Error(`Failed to create rescore run: ${error?.message}`);
+
+    await jobQueueService.enqueue('scoring.rescore_run', {rescoreRunId: run.id}, {
+      dedupeKey: `scoring.rescore_run:${run.id}`
+    });
+
+    console.log(`[Scoring] Rescore run ${run.id} queued for form ${dbFormId} against version ${version.version_number}`);
+    return run;
+  }
+
+  /**
+   * Queue one scoring.rescore job per application in the run's population.
+   * Safe to retry: applications that already have a job for this run are skipped.
+   * @returns The number of applications in the run
+   */
+  async queueRescoreRun(rescoreRunId: string): Promise<number> {
+    const {data: run, error: runError} = await supabaseAdmin
+      .from('scoring_rescore_runs')
+      .select('*, typeform_forms(form_id)')
+      .eq('id', rescoreRunId)
+      .maybeSingle();
+
+    if (runError) throw new Error(`Failed to load rescore run: ${runError.message}`);
+    if (!run) throw new Error(`Rescore run ${rescoreRunId} not found`);
+
+    const typeformFormId = (Array.isArray(run.typeform_forms) ? run.typeform_forms[0] : run.typeform_forms)?.form_id;
+    const filters: RescoreFilters = run.filters || {};
+
+    const applicationIds: string[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabaseAdmin
+        .from('applications')
+        .select('id')
+        .eq('form_id', typeformFormId)
+        .order('submission_date', {ascending: true})
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (filters.statuses && filters.statuses.length > 0) query = query.in('status', filters.statuses);
+      if (filters.submittedFrom) query = query.gte('submission_date', `${filters.submittedFrom}T00:00:00Z`);
+      if (filters.submittedTo) query = query.lte('submission_date', `${filters.submittedTo}T23:59:59.999Z`);
+
+      const {data, error} = await query;
+      if (error) throw new Error(`Failed to load applications for rescore: ${error.message}`);
+
+      applicationIds.push(...(data || []).map(application => application.id));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    const {data: existingJobs, error: jobsError} = await supabaseAdmin
+      .from('jobs')
+      .select('payload')
+      .eq('type', 'scoring.rescore')
+      .eq('payload->>rescoreRunId', rescoreRunId);
+
+    if (jobsError) throw new Error(`Failed to load existing rescore jobs: ${jobsError.message}`);
+    const alreadyQueued = new Set((existingJobs || []).map(job => job.payload?.applicationId));
+
+    for (const applicationId of applicationIds) {
+      if (alreadyQueued.has(applicationId)) continue;
+      await jobQueueService.enqueue('scoring.rescore', {
+        applicationId,
+        ruleSetVersionId: run.rule_set_version_id,
+        rescoreRunId
+      }, {
+        dedupeKey: `scoring.rescore:${rescoreRunId}:${applicationId}`,
+        maxAttempts: 3
+      });
+    }
+
+    const {error: updateError} = await supabaseAdmin
+      .from('scoring_rescore_runs')
+      .update({total_count: applicationIds.length})
+      .eq('id', rescoreRunId);
+
+    if (updateError) throw new Error(`Failed to record rescore run size: ${updateError.message}`);
+
+    console.log(`[Scoring] Rescore run ${rescoreRunId}: ${applicationIds.length} applications queued`);
+    return applicationIds.length;
+  }
+
+  /**
+   * A form's most recent rescore runs with their progress
+   * @param formId The Typeform form ID or internal database UUID
+   */
+  async listRescoreRuns(formId: string, limit: number = 10): Promise<ScoringRescoreRun[]> {
+    const dbFormId = await typeformService.resolveDbFormId(formId);
+
+    const {data, error} = await supabaseAdmin
+      .from('scoring_rescore_runs')
+      .select('*, version:scoring_rule_set_versions(version_number, name)')
+      .eq('form_id', dbFormId)
+      .order('created_at', {ascending: false})
+      .limit(limit);
+
+    if (error) throw new Error(`Failed to list rescore runs: ${error.message}`);
+
+    const runs = (data || []) as ScoringRescoreRun[];
+    if (runs.length === 0) return runs;
+
+    const {data: counts, error: countError} = await supabaseAdmin.rpc('count_rescore_run_jobs', {
+      p_run_ids: runs.map(run => run.id)
+    });
+
+    if (countError) throw new Error(`Failed to count rescore run jobs: ${countError.message}`);
+
+    const countsByRun = new Map(
+      ((counts || []) as {rescore_run_id: string; succeeded_count: number; failed_count: number}[])
+        .map(row => [row.rescore_run_id, row])
+    );
+    for (const run of runs) {
+      const jobCounts = countsByRun.get(run.id);
+      run.succeeded_count = Number(jobCounts?.succeeded_count || 0);
+      run.failed_count = Number(jobCounts?.failed_count || 0);
+      if (run.total_count === null) {
+        run.status = 'queuing';
+      } else {
+        run.status = run.succeeded_count + run.failed_count >= run.total_count ? 'completed' : 'running';
+      }
+    }
+    return runs;
+  }
+
+  /**
+   * Every score written for an application, newest first
+   */
+  async getScoreHistory(applicationId: string): Promise<ApplicationScoreHistoryEntry[]> {
+    const {data, error} = await supabaseAdmin
+      .from('application_score_history')
+      .select('*, version:scoring_rule_set_versions(version_number, name)')
+      .eq('application_id', applicationId)
+      .order('scored_at', {ascending: false});
+
+    if (error) throw new Error(`Failed to load score history: ${error.message}`);
+    return (data || []) as ApplicationScoreHistoryEntry[];
+  }
+}
+
+export const scoringRuleSetService = new ScoringRuleSetService();
@@ -6,6 +6,33 @@ import {
   TypeformAnswer,
 } from '@/types/application';
 import HubSpotService from '@/services/hubspotService';
+import { hubspotStatusMappingService } from '@/services/hubspotStatusMappingService';
+import { hubspotDealLinkService } from '@/services/hubspotDealLinkService';
+import { HubSpotPush } from '@/types/hubspotSync';
+import { jobQueueService } from '@/services/jobQueueService';
+import {
+  describeCriteria,
+  evaluateCriteria,
+  evaluateExpression,
+  hasConditions,
+  parseCriteria,
+  validateExpression,
+} from '@/lib/scoring-criteria';
+import { scoringRuleSetService } from '@/services/scoringRuleSetService';
+import { riskScoringService } from '@/services/riskScoringService';
+import { bandFor, bandLabel, categoryWeight, resolveRiskSettings, riskScoreFromPoints, rulePoints } from '@/lib/risk-score';
+import {
+  ApplicationScoreColor,
+  ApplicationScorePreview,
+  DraftScoringRule,
+  FormRuleScope,
+  RiskScoreResult,
+  RiskSettings,
+  ScoreTotals,
+  ScoreTraceEntry,
+  ScoringPreviewResult,
+  ScoringRuleSetVersion,
+} from '@/types/scoring';
 
 // Extend the ApplicationFieldResponse with properties needed for scoring
 interface ApplicationFieldResponse {
@@ -34,11 +61,12 @@ const supabaseAdmin: SupabaseClient = createClient(
 // Define interfaces for scoring operations
 interface ScoringRule {
   id: string;
-  target_type: 'field' | 'choice';
+  target_type: 'field' | 'choice' | 'application';
   target_id: string;
   is_active: boolean;
   score_value: ScoreValue;
   criteria: any;
+  weight?: number;
   created_at: string;
   updated_at: string;
   created_by?: string;
@@ -50,6 +78,7 @@ interface FieldDetails {
   type: string;
   ref: string;
   version_id: string;
+  parent_version_id: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -72,18 +101,73 @@ interface ScoringResult {
   details: Array<{ rule: ScoringRule; matched: boolean }>;
 }
 
+interface ResponseScore {
+  responseId: string;
+  fieldVersionId: string;
+  responseValue: unknown;
+  score: ScoreValue;
+}
+
 interface ScoringSummary {
   applicationId: string;
   redCount: number;
   yellowCount: number;
   greenCount: number;
   totalScore: number;
+  riskScore: number;
+  riskBand: string;
+  // Only filled in dry runs
+  responseScores?: ResponseScore[];
+}
+
+interface ScoringOptions {
+  // Compute scores without writing them to the database or syncing them to HubSpot
+  dryRun?: boolean;
+  // Field and choice rules to score with instead of the active ones, keyed by target_id
+  rules?: Map<string, ScoringRule[]>;
+  // Preloaded field details, to avoid reloading them for every application
+  fieldDetails?: Map<string, FieldDetails>;
+  // Score with this rule-set version's rules (field, choice and compound) instead of the live ones
+  ruleSetVersion?: ScoringRuleSetVersion;
+  // Rescore run the score is written for, recorded in the score history
+  rescoreRunId?: string;
+}
+
+// What a stored score is attributed to
+interface ScoreAudit {
+  ruleSetVersionId: string | null;
+  rescoreRunId?: string;
+  responseScores: ResponseScore[];
+}
+
+// Compound rules that matched, on top of the per-field counts
+interface CompoundResult {
+  counts: { red: number; yellow: number; green: number };
+  matched: ScoringRule[];
 }
 
 interface BatchResult {
   response: ApplicationFieldResponse;
   score: ScoreValue;
   counts: { red: number; yellow: number; green: number };
+  // Rules that fired for the response, stored alongside its score
+  trace: ScoreTraceEntry[];
+}
+
+// The application columns a HubSpot push reads
+interface HubSpotApplicationRow {
+  id: string;
+  participant_id: string | null;
+  status: string;
+  closed_reason: string | null;
+  rejected_type: string | null;
+  assigned_to: string | null;
+  application_data: Record<string, unknown> | null;
+  red_count: number | null;
+  yellow_count: number | null;
+  green_count: number | null;
+  risk_score: number | null;
+  risk_band: string | null;
 }
 
 export class ScoringService {
@@ -102,18 +186,20 @@ export class ScoringService {
     return false;
   }
 
-  async calculateApplicationScore(applicationId: string): Promise<ScoringSummary> {
+  async calculateApplicationScore(applicationId: string, options: ScoringOptions = {}): Promise<ScoringSummary> {
     this.startTime = Date.now();
     
     try {
-      console.log(`\n=== Calculating score for application ${applicationId} ===`);
+      console.log(`\n=== Calculating score for application ${applicationId}${options.dryRun ? ' (dry run)' : ''} ===`);
       console.log(`Environment: ${process.env.NODE_ENV}, Region: ${process.env.VERCEL_REGION || 'local'}`);
 
+      const versionRules = options.ruleSetVersion ? this.rulesFromVersion(options.ruleSetVersion) : null;
+
       console.log('Fetching responses and scoring rules...');
       const [responses, allScoringRules, fieldDetailsMap] = await Promise.all([
         this.getApplicationResponses(applicationId),
-        this.getAllActiveScoringRules(),
-        this.getAllFieldDetails()
+        options.rules || versionRules?.rules || this.getAllActiveScoringRules(),
+        options.fieldDetails || this.getAllFieldDetails()
       ]);
       
       if (!responses || responses.length === 0) {
@@ -127,23 +213,50 @@ export class ScoringService {
       
       if (this.checkTimeout()) {
         console.warn('Timeout approaching early, using fallback processing');
-        return await this.processWithTimeoutFallback(applicationId, responses, allScoringRules, fieldDetailsMap);
+        return await this.processWithTimeoutFallback(applicationId, responses, allScoringRules, fieldDetailsMap, options);
       }
 
       console.log('Processing responses in batches...');
       const batchResults = await this.processBatchedResponses(responses, allScoringRules, fieldDetailsMap);
       
+      const compound = await this.evaluateCompoundRules(applicationId, responses, fieldDetailsMap, versionRules?.compoundRules);
+
       console.log('Calculating final scores...');
-      const { redCount, yellowCount, greenCount, totalScore } = this.calculateFinalScores(batchResults);
+      const { redCount, yellowCount, greenCount, totalScore } = this.calculateFinalScores(batchResults, compound.counts);
+      const risk = await this.calculateRiskScore(applicationId, batchResults, compound.matched, fieldDetailsMap);
       
-      console.log(`Calculated totals: Red: ${redCount}, Yellow: ${yellowCount}, Green: ${greenCount}, Score: ${totalScore}`);
+      console.log(`Calculated totals: Red: ${redCount}, Yellow: ${yellowCount}, Green: ${greenCount}, Score: ${totalScore}, Risk: ${risk.riskScore} (${risk.riskBand})`);
+
+      if (options.dryRun) {
+        console.log(`=== Dry run completed for application ${applicationId}, nothing saved ===`);
+        return {
+          applicationId,
+          redCount,
+          yellowCount,
+          greenCount,
+          totalScore,
+          ...risk,
+          responseScores: this.toResponseScores(batchResults)
+        };
+      }
       
       console.log('Updating database...');
-      await this.updateApplicationScore(applicationId, redCount, yellowCount, greenCount, totalScore);
+      await this.updateApplicationScore(applicationId, redCount, yellowCount, greenCount, totalScore, risk, {
+        ruleSetVersionId: options.ruleSetVersion?.id ?? await this.resolveRuleSetVersionId(applicationId),
+        rescoreRunId: options.rescoreRunId,
+        responseScores: this.toResponseScores(batchResults)
+      });
       
       await this.batchUpdateResponseScores(batchResults);
       
-      await this.syncToHubSpotWithTimeout(applicationId, redCount, yellowCount, greenCount);
+      // HubSpot sync runs as a queued job so a slow or failing HubSpot call can be retried
+      try {
+        await jobQueueService.enqueue('hubspot.sync_score', { applicationId }, {
+          dedupeKey: `hubspot.sync_score:${applicationId}`
+        });
+      } catch (queueError) {
+        console.error('[HubSpot] Failed to queue score sync:', queueError);
+      }
 
       console.log(`=== Scoring completed for application ${applicationId} ===`);
       
@@ -152,7 +265,8 @@ export class ScoringService {
         redCount,
         yellowCount,
         greenCount,
-        totalScore
+        totalScore,
+        ...risk
       };
     } catch (error) {
       console.error('Error calculating application score:', error);
@@ -200,6 +314,7 @@ export class ScoringService {
     const { data, error } = await supabaseAdmin
       .from('scoring_rules')
       .select('*')
+      .in('target_type', ['field', 'choice'])
       .eq('is_active', true);
 
     if (error) {
@@ -240,6 +355,7 @@ export class ScoringService {
         type: field.field_type,
         ref: field.field_ref,
         version_id: field.id,
+        parent_version_id: field.parent_field_version_id || null,
         created_at: field.created_at,
         updated_at: field.updated_at
       });
@@ -254,6 +370,7 @@ export class ScoringService {
     fieldDetailsMap: Map<string, FieldDetails>
   ): Promise<BatchResult> {
     const counts = { red: 0, yellow: 0, green: 0 };
+    const trace: ScoreTraceEntry[] = [];
     
     try {
       const fieldVersionId = response.field_version_id;
@@ -261,24 +378,26 @@ export class ScoringService {
       const fieldDetails = fieldDetailsMap.get(fieldVersionId);
       if (!fieldDetails) {
         console.warn(`Field details not found for version ID: ${fieldVersionId}`);
-        return { response, score: 'na', counts };
+        return { response, score: 'na', counts, trace };
       }
       
       const fieldRules = allScoringRules.get(fieldVersionId) || [];
       
       if (response.choice_version_id) {
         const choiceRules = allScoringRules.get(response.choice_version_id) || [];
-        this.applyRules(choiceRules, counts);
+        this.applyRules(choiceRules, counts, trace);
       }
       
       if (fieldDetails.type === 'yes_no') {
-        this.applyYesNoRules(fieldRules, response, counts);
+        this.applyYesNoRules(fieldRules, response, counts, trace);
       } else if (fieldDetails.type === 'multiple_choice') {
-        await this.applyMultipleChoiceRules(fieldRules, response, counts, allScoringRules);
+        await this.applyMultipleChoiceRules(fieldRules, response, counts, trace, allScoringRules);
       } else if (fieldDetails.type === 'opinion_scale') {
-        await this.applyOpinionScaleRules(response, counts, allScoringRules);
+        // Scale choices keep their own rules; conditional field rules (e.g. "rating ≤ 3") apply on top
+        this.applyRules(fieldRules.filter(rule => hasConditions(parseCriteria(rule.criteria))), counts, trace, response);
+        await this.applyOpinionScaleRules(response, counts, trace, allScoringRules);
       } else {
-        this.applyRules(fieldRules, counts);
+        this.applyRules(fieldRules, counts, trace, response);
       }
       
       let finalScore: ScoreValue = 'na';
@@ -286,63 +405,80 @@ export class ScoringService {
       else if (counts.yellow > 0) finalScore = 'yellow';
       else if (counts.green > 0) finalScore = 'green';
       
-      return { response, score: finalScore, counts };
+      return { response, score: finalScore, counts, trace };
       
     } catch (error) {
       console.error(`Error evaluating response ${response.id}:`, error);
-      return { response, score: 'na', counts };
+      return { response, score: 'na', counts, trace };
     }
   }
 
-  private applyRules(rules: ScoringRule[], counts: { red: number; yellow: number; green: number }): void {
+  /**
+   * Count each active rule's score and record it in the trace. Rules with criteria only count when
+   * the response matches them; rules without criteria apply unconditionally.
+   */
+  private applyRules(
+    rules: ScoringRule[],
+    counts: { red: number; yellow: number; green: number },
+    trace: ScoreTraceEntry[],
+    response?: ApplicationFieldResponse
+  ): void {
     rules.forEach(rule => {
-      if (rule.is_active) {
+      if (rule.is_active && this.ruleMatches(rule, response)) {
         switch (rule.score_value) {
           case 'red': counts.red++; break;
           case 'yellow': counts.yellow++; break;
           case 'green': counts.green++; break;
         }
+        trace.push(this.toTraceEntry(rule));
       }
     });
   }
 
+  private toTraceEntry(rule: ScoringRule): ScoreTraceEntry {
+    const criteria = parseCriteria(rule.criteria);
+    return {
+      ruleId: rule.id,
+      targetType: rule.target_type === 'choice' ? 'choice' : 'field',
+      targetId: rule.target_id,
+      scoreValue: rule.score_value,
+      criteria: criteria && hasConditions(criteria) ? { ...criteria } : null,
+      description: rule.target_type === 'choice' ? 'choice selected' : describeCriteria(criteria),
+      weight: Number(rule.weight ?? 1),
+      createdBy: rule.created_by || null,
+      createdAt: rule.created_at
+    };
+  }
+
+  // Yes/no rules only count when their criteria match; a yes/no rule without criteria never applies
   private applyYesNoRules(
     rules: ScoringRule[], 
     response: ApplicationFieldResponse, 
-    counts: { red: number; yellow: number; green: number }
+    counts: { red: number; yellow: number; green: number },
+    trace: ScoreTraceEntry[]
   ): void {
-    rules.forEach(rule => {
-      if (!rule.is_active) return;
-      
-      let criteria: any = rule.criteria;
-      if (typeof criteria === 'string') {
-        try {
-          criteria = JSON.parse(criteria);
-        } catch (e) {
-          console.warn(`Failed to parse criteria for rule ${rule.id}:`, e);
-          return;
-        }
-      }
-      
-      if (criteria?.answer && 
-          criteria.answer.toLowerCase() === response.response_value?.toString().toLowerCase()) {
-        switch (rule.score_value) {
-          case 'red': counts.red++; break;
-          case 'yellow': counts.yellow++; break;
-          case 'green': counts.green++; break;
-        }
-      }
-    });
+    this.applyRules(rules.filter(rule => hasConditions(parseCriteria(rule.criteria))), counts, trace, response);
+  }
+
+  private ruleMatches(rule: ScoringRule, response?: ApplicationFieldResponse): boolean {
+    const criteria = parseCriteria(rule.criteria);
+    if (criteria === null) {
+      console.warn(`Failed to parse criteria for rule ${rule.id}`);
+      return false;
+    }
+    if (!hasConditions(criteria)) return true;
+    return !!response && evaluateCriteria(criteria, response.response_value);
   }
 
   private async applyMultipleChoiceRules(
     fieldRules: ScoringRule[],
     response: ApplicationFieldResponse,
     counts: { red: number; yellow: number; green: number },
+    trace: ScoreTraceEntry[],
     allScoringRules: Map<string, ScoringRule[]>
   ): Promise<void> {
     try {
-      this.applyRules(fieldRules, counts);
+      this.applyRules(fieldRules, counts, trace, response);
 
       const responseValue = response.response_value?.toString();
       if (!responseValue) return;
@@ -350,7 +486,7 @@ export class ScoringService {
       const choiceVersion = await this.findChoiceVersionByLabel(response.field_version_id, responseValue);
       if (choiceVersion) {
         const choiceRules = allScoringRules.get(choiceVersion) || [];
-        this.applyRules(choiceRules, counts);
+        this.applyRules(choiceRules, counts, trace);
       }
     } catch (error) {
       console.warn(`Error applying multiple choice rules:`, error);
@@ -360,6 +496,7 @@ export class ScoringService {
   private async applyOpinionScaleRules(
     response: ApplicationFieldResponse,
     counts: { red: number; yellow: number; green: number },
+    trace: ScoreTraceEntry[],
     allScoringRules: Map<string, ScoringRule[]>
   ): Promise<void> {
     try {
@@ -369,7 +506,7 @@ export class ScoringService {
       const choiceVersion = await this.findChoiceVersionByLabel(response.field_version_id, responseValue);
       if (choiceVersion) {
         const choiceRules = allScoringRules.get(choiceVersion) || [];
-        this.applyRules(choiceRules, counts);
+        this.applyRules(choiceRules, counts, trace);
       }
     } catch (error) {
       console.warn(`Error applying opinion scale rules:`, error);
@@ -399,7 +536,141 @@ export class ScoringService {
     }
   }
 
-  private calculateFinalScores(batchResults: BatchResult[]): {
+  // typeform_forms.id for the application's form; applications store the Typeform form ID
+  private async getApplicationDbFormId(applicationId: string): Promise<string | null> {
+    const { data: application, error: appError } = await supabaseAdmin
+      .from('applications')
+      .select('form_id')
+      .eq('id', applicationId)
+      .single();
+
+    if (appError || !application?.form_id) {
+      return null;
+    }
+
+    const { data: form } = await supabaseAdmin
+      .from('typeform_forms')
+      .select('id')
+      .eq('form_id', application.form_id)
+      .maybeSingle();
+
+    return form?.id || null;
+  }
+
+  /**
+   * The rule-set version matching the form's live rules, so the stored score can point at it.
+   * Versioning problems never block scoring; the score is stored unattributed instead.
+   */
+  private async resolveRuleSetVersionId(applicationId: string): Promise<string | null> {
+    try {
+      const dbFormId = await this.getApplicationDbFormId(applicationId);
+      if (!dbFormId) return null;
+      const version = await scoringRuleSetService.ensureCurrentVersion(dbFormId);
+      return version.id;
+    } catch (error) {
+      console.error('Error resolving rule-set version:', error);
+      return null;
+    }
+  }
+
+  private rulesFromVersion(version: ScoringRuleSetVersion): { rules: Map<string, ScoringRule[]>; compoundRules: ScoringRule[] } {
+    const rules = new Map<string, ScoringRule[]>();
+    const compoundRules: ScoringRule[] = [];
+
+    version.rules.forEach(snapshot => {
+      const rule: ScoringRule = {
+        ...snapshot,
+        is_active: true,
+        created_at: version.created_at,
+        updated_at: version.created_at
+      };
+      if (rule.target_type === 'application') {
+        compoundRules.push(rule);
+        return;
+      }
+      if (!rules.has(rule.target_id)) {
+        rules.set(rule.target_id, []);
+      }
+      rules.get(rule.target_id)!.push(rule);
+    });
+
+    return { rules, compoundRules };
+  }
+
+  /**
+   * Evaluates the application-level (compound) rules for the application's form.
+   * Each matching rule adds one count of its score, on top of the per-field counts,
+   * and is returned so its weight can count towards the risk score.
+   */
+  private async evaluateCompoundRules(
+    applicationId: string,
+    responses: ApplicationFieldResponse[],
+    fieldDetailsMap: Map<string, FieldDetails>,
+    compoundRules?: ScoringRule[]
+  ): Promise<CompoundResult> {
+    const counts = { red: 0, yellow: 0, green: 0 };
+    const matched: ScoringRule[] = [];
+
+    try {
+      let rules = compoundRules;
+      if (!rules) {
+        const dbFormId = await this.getApplicationDbFormId(applicationId);
+        if (!dbFormId) {
+          return { counts, matched };
+        }
+
+        const { data, error: rulesError } = await supabaseAdmin
+          .from('scoring_rules')
+          .select('*')
+          .eq('target_type', 'application')
+          .eq('target_id', dbFormId)
+          .eq('is_active', true);
+
+        if (rulesError) {
+          console.error('Error fetching compound scoring rules:', rulesError);
+          return { counts, matched };
+        }
+        rules = data || [];
+      }
+
+      if (rules.length === 0) {
+        return { counts, matched };
+      }
+
+      // Multi-select answers are stored one row per choice, so a ref can have several values
+      const answersByRef = new Map<string, unknown[]>();
+      for (const response of responses) {
+        const ref = fieldDetailsMap.get(response.field_version_id)?.ref;
+        if (!ref) continue;
+        if (!answersByRef.has(ref)) {
+          answersByRef.set(ref, []);
+        }
+        answersByRef.get(ref)!.push(response.response_value);
+      }
+
+      const now = new Date();
+      for (const rule of rules) {
+        const expression = rule.criteria?.expression;
+        if (!expression || validateExpression(expression)) {
+          console.warn(`Skipping compound rule ${rule.id} with an invalid expression`);
+          continue;
+        }
+        if (!evaluateExpression(expression, answersByRef, now)) continue;
+
+        console.log(`Compound rule matched: ${rule.criteria?.name || rule.id} -> ${rule.score_value}`);
+        if (rule.score_value === 'red') counts.red++;
+        else if (rule.score_value === 'yellow') counts.yellow++;
+        else if (rule.score_value === 'green') counts.green++;
+        matched.push(rule);
+      }
+    } catch (error) {
+      console.error('Error evaluating compound scoring rules:', error);
+    }
+
+    return { counts, matched };
+  }
+
+  private calculateFinalScores(batchResults: BatchResult[], extraCounts?: BatchResult['counts']): {
     redCount: number; yellowCount: number; greenCount: number; totalScore: number;
   } {
     const totals = batchResults.reduce(
@@ -408,7 +679,11 @@ export class ScoringService {
         yellowCount: acc.yellowCount + result.counts.yellow,
         greenCount: acc.greenCount + result.counts.green,
       }),
-      { redCount: 0, yellowCount: 0, greenCount: 0 }
+      {
+        redCount: extraCounts?.red || 0,
+        yellowCount: extraCounts?.yellow || 0,
+        greenCount: extraCounts?.green || 0,
+      }
     );
 
     const totalScore = (totals.greenCount * 3) - (totals.redCount * 3) - totals.yellowCount;
@@ -416,20 +691,183 @@ export class ScoringService {
     return { ...totals, totalScore };
   }
 
+  /**
+   * Weighted 0-100 risk score from the rules that fired, using the form's risk settings.
+   * Settings problems never block scoring; the defaults are used instead.
+   */
+  private async calculateRiskScore(
+    applicationId: string,
+    batchResults: BatchResult[],
+    compoundMatched: ScoringRule[],
+    fieldDetailsMap: Map<string, FieldDetails>
+  ): Promise<RiskScoreResult> {
+    let settings: RiskSettings = resolveRiskSettings(null);
+    try {
+      const dbFormId = await this.getApplicationDbFormId(applicationId);
+      if (dbFormId) settings = await riskScoringService.getSettings(dbFormId);
+    } catch (error) {
+      console.error('Error loading risk settings, using defaults:', error);
+    }
+
+    let points = 0;
+    batchResults.forEach(result => {
+      const groupWeight = categoryWeight(settings, this.topLevelGroupId(result.response.field_version_id, fieldDetailsMap));
+      result.trace.forEach(entry => {
+        points += rulePoints(settings, entry.scoreValue, entry.weight, groupWeight);
+      });
+    });
+    compoundMatched.forEach(rule => {
+      points += rulePoints(settings, rule.score_value, Number(rule.weight ?? 1));
+    });
+
+    return riskScoreFromPoints(settings, points);
+  }
+
+  // Typeform field ID of the top-level group a field sits in, or null for ungrouped fields
+  private topLevelGroupId(fieldVersionId: string, fieldDetailsMap: Map<string, FieldDetails>): string | null {
+    let current = fieldDetailsMap.get(fieldVersionId);
+    const visited = new Set<string>();
+    while (current?.parent_version_id && fieldDetailsMap.has(current.parent_version_id) && !visited.has(current.version_id)) {
+      visited.add(current.version_id);
+      current = fieldDetailsMap.get(current.parent_version_id);
+    }
+    return current && current.version_id !== fieldVersionId ? current.id : null;
+  }
+
+  private toResponseScores(batchResults: BatchResult[]): ResponseScore[] {
+    return batchResults.map(result => ({
+      responseId: result.response.id,
+      fieldVersionId: result.response.field_version_id,
+      responseValue: result.response.response_value,
+      score: result.score
+    }));
+  }
+
+  private scoreColor(summary: ScoringSummary): ApplicationScoreColor {
+    if (summary.redCount > 0) return 'red';
+    if (summary.yellowCount > 0) return 'yellow';
+    if (summary.greenCount > 0) return 'green';
+    return 'none';
+  }
+
+  /**
+   * Dry-runs a draft rule set against a form's most recent applications and diffs the result
+   * against the active rules. Draft rules replace every field and choice rule in the form's scope;
+   * compound rules are the same on both sides. Nothing is saved and nothing is sent to HubSpot.
+   */
+  async previewRuleSet(scope: FormRuleScope, draftRules: DraftScoringRule[], limit: number = 20): Promise<ScoringPreviewResult> {
+    const { data: applications, error } = await supabaseAdmin
+      .from('applications')
+      .select('id, submission_date, participants:participant_id(first_name, last_name)')
+      .eq('form_id', scope.typeformFormId)
+      .order('submission_date', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching applications for preview:', error);
+      throw new Error(`Failed to fetch applications: ${error.message}`);
+    }
+
+    const [activeRules, fieldDetailsMap] = await Promise.all([
+      this.getAllActiveScoringRules(),
+      this.getAllFieldDetails()
+    ]);
+
+    const draftRulesMap = new Map(activeRules);
+    scope.targetIds.forEach(targetId => draftRulesMap.delete(targetId));
+    const now = new Date().toISOString();
+    draftRules.forEach((rule, index) => {
+      draftRulesMap.set(rule.target_id, [
+        ...(draftRulesMap.get(rule.target_id) || []),
+        {
+          id: rule.id || `draft-${index}`,
+          target_type: rule.target_type,
+          target_id: rule.target_id,
+          score_value: rule.score_value,
+          criteria: rule.criteria || {},
+          is_active: true,
+          created_at: now,
+          updated_at: now
+        }
+      ]);
+    });
+
+    const toTotals = (summary: ScoringSummary): ScoreTotals => ({
+      redCount: summary.redCount,
+      yellowCount: summary.yellowCount,
+      greenCount: summary.greenCount,
+      totalScore: summary.totalScore,
+      color: this.scoreColor(summary)
+    });
+
+    // Sequential: scoring tracks its timeout budget on the instance
+    const previews: ApplicationScorePreview[] = [];
+    for (const application of applications || []) {
+      const current = await this.calculateApplicationScore(application.id, {
+        dryRun: true, rules: activeRules, fieldDetails: fieldDetailsMap
+      });
+      const proposed = await this.calculateApplicationScore(application.id, {
+        dryRun: true, rules: draftRulesMap, fieldDetails: fieldDetailsMap
+      });
+
+      const proposedByResponse = new Map((proposed.responseScores || []).map(score => [score.responseId, score.score]));
+      const responseChanges = (current.responseScores || [])
+        .filter(score => proposedByResponse.has(score.responseId) && proposedByResponse.get(score.responseId) !== score.score)
+        .map(score => ({
+          responseId: score.responseId,
+          fieldTitle: fieldDetailsMap.get(score.fieldVersionId)?.name || 'Unknown field',
+          answer: score.responseValue == null ? '' : String(score.responseValue),
+          currentScore: score.score,
+          proposedScore: proposedByResponse.get(score.responseId) as ScoreValue
+        }));
+
+      const participant = Array.isArray(application.participants) ? application.participants[0] : application.participants;
+      const currentTotals = toTotals(current);
+      const proposedTotals = toTotals(proposed);
+
+      previews.push({
+        applicationId: application.id,
+        applicantName: participant ? `${participant.first_name || ''} ${participant.last_name || ''}`.trim() : 'Unknown applicant',
+        submissionDate: application.submission_date,
+        current: currentTotals,
+        proposed: proposedTotals,
+        colorChanged: currentTotals.color !== proposedTotals.color,
+        countsChanged: currentTotals.redCount !== proposedTotals.redCount
+          || currentTotals.yellowCount !== proposedTotals.yellowCount
+          || currentTotals.greenCount !== proposedTotals.greenCount,
+        responseChanges
+      });
+    }
+
+    return {
+      sampleSize: previews.length,
+      changedCount: previews.filter(preview => preview.countsChanged || preview.responseChanges.length > 0).length,
+      colorChangedCount: previews.filter(preview => preview.colorChanged).length,
+      applications: previews
+    };
+  }
+
   private async updateApplicationScore(
     applicationId: string, 
     redCount: number, 
     yellowCount: number, 
     greenCount: number, 
-    totalScore: number
+    totalScore: number,
+    risk: RiskScoreResult,
+    audit: ScoreAudit
   ): Promise<void> {
+    const scoredAt = new Date().toISOString();
     const { data, error } = await supabaseAdmin
       .from('applications')
       .update({
         calculated_score: totalScore,
         red_count: redCount,
         yellow_count: yellowCount,
-        green_count: greenCount
+        green_count: greenCount,
+        risk_score: risk.riskScore,
+        risk_band: risk.riskBand,
+        scoring_rule_set_version_id: audit.ruleSetVersionId,
+        scored_at: scoredAt
       })
       .eq('id', applicationId)
       .select('id');
@@ -440,6 +878,27 @@ export class ScoringService {
     }
 
     console.log(`Updated application ${applicationId} with scores in database`);
+
+    // Earlier scores stay in the history for audit
+    const { error: historyError } = await supabaseAdmin
+      .from('application_score_history')
+      .insert({
+        application_id: applicationId,
+        rule_set_version_id: audit.ruleSetVersionId,
+        rescore_run_id: audit.rescoreRunId || null,
+        red_count: redCount,
+        yellow_count: yellowCount,
+        green_count: greenCount,
+        calculated_score: totalScore,
+        risk_score: risk.riskScore,
+        risk_band: risk.riskBand,
+        response_scores: audit.responseScores.map(({ responseId, fieldVersionId, score }) => ({ responseId, fieldVersionId, score })),
+        scored_at: scoredAt
+      });
+
+    if (historyError) {
+      console.error('Error recording score history:', historyError);
+    }
   }
 
   private async batchUpdateResponseScores(batchResults: BatchResult[]): Promise<void> {
@@ -457,6 +916,7 @@ export class ScoringService {
         const updates = batch.map(item => ({
           id: item.response.id,
           score: item.score,
+          score_trace: item.trace,
           application_id: item.response.application_id,
           field_version_id: item.response.field_version_id,
           choice_version_id: item.response.choice_version_id,
@@ -481,106 +941,127 @@ export class ScoringService {
     }
   }
 
-  private async syncToHubSpotWithTimeout(
-    applicationId: string, 
-    redCount: number, 
-    yellowCount: number, 
-    greenCount: number
-  ): Promise<void> {
-    const timeRemaining = this.MAX_EXECUTION_TIME - (Date.now() - this.startTime);
-    if (timeRemaining < 10000) {
-      console.warn(`[HubSpot] Skipping sync due to insufficient time (${timeRemaining}ms remaining)`);
-      return;
+  /**
+   * Push the stored score, status and screener for an application to its HubSpot deal.
+   * Runs from the job queue; throws when HubSpot is not ready yet so the job is retried.
+   * @param applicationId The application ID
+   * @returns What was written to the deal, or null when there is nothing to sync
+   */
+  async syncScoreToHubSpot(applicationId: string): Promise<HubSpotPush | null> {
+    this.startTime = Date.now();
+    console.log('[HubSpot] Starting sync for application', applicationId);
+
+    await this.waitForCalendlyDataWithBackoff(applicationId);
+
+    const app = await this.loadHubSpotApplication(applicationId);
+    if (!app?.participant_id) {
+      console.log('[HubSpot] No participant_id found');
+      return null;
     }
 
-    try {
-      console.log('[HubSpot] Starting sync for application', applicationId);
-      
-      await this.waitForCalendlyDataWithBackoff(applicationId);
-      
-      const { data: app } = await supabaseAdmin
-        .from('applications')
-        .select('participant_id, status, closed_reason, rejected_type, assigned_to, id, application_data')
-        .eq('id', applicationId)
-        .maybeSingle();
-        
-      if (!app?.participant_id) {
-        console.log('[HubSpot] No participant_id found');
-        return;
-      }
-      
-      const { data: participant } = await supabaseAdmin
-        .from('participants')
-        .select('email')
-        .eq('id', app.participant_id)
-        .maybeSingle();
-        
-      if (!participant?.email) {
-        console.log('[HubSpot] No participant email found');
-        return;
-      }
-      
-      console.log(`[HubSpot] Looking up contact for email: ${participant.email}`);
-      const contactId = await HubSpotService.findContactIdByEmail(participant.email);
-      if (!contactId) {
-        console.log('[HubSpot] No HubSpot contact found');
-        return;
-      }
-      
-      console.log(`[HubSpot] Found contact ID: ${contactId}, looking up deal...`);
+    const { data: participant } = await supabaseAdmin
+      .from('participants')
+      .select('email, hubspot_contact_id')
+      .eq('id', app.participant_id)
+      .maybeSingle();
 
-      const dealId = await this.findDealWithRetry(contactId);
-      if (!dealId) {
-        console.log(`[HubSpot] No HubSpot deal found; skipping updates`);
-        return;
-      }
-      
-      console.log(`[HubSpot] Found deal ID: ${dealId}, determining status and screener...`);
-      
-      const mappedStatus = await this.determineHubSpotStatus(applicationId, app);
-      console.log(`[HubSpot] Final mappedStatus for HubSpot: ${mappedStatus}`);
-      
-      const scoreSummary = `Red: ${redCount} / Yellow: ${yellowCount} / Green: ${greenCount}`;
-      console.log(`[HubSpot] Updating deal with status: ${mappedStatus}, score: ${scoreSummary}`);
-      
-      try {
-        await HubSpotService.updateApplicationProperties(dealId, {
-          status: mappedStatus,
-          score: scoreSummary,
-        });
-        console.log('[HubSpot] Successfully updated application properties');
-      } catch (e: any) {
-        if (e?.status === 403) {
-          console.warn('[HubSpot] Status/score update skipped (missing scopes)');
-        } else {
-          console.error('[HubSpot] Error updating application properties:', e);
-          throw e;
-        }
-      }
+    if (!participant?.email && !participant?.hubspot_contact_id) {
+      console.log('[HubSpot] No participant email found');
+      return null;
+    }
 
-      const screenersDropdownValue = await this.determineScreenerName(applicationId, app);
-      
-      if (screenersDropdownValue) {
-        console.log(`[HubSpot] Updating screener dropdown with value: ${screenersDropdownValue}`);
-        try {
-          await HubSpotService.updateDealProperties(dealId, { screeners_name: screenersDropdownValue });
-          console.log('[HubSpot] Successfully updated screener dropdown');
-        } catch (e: any) {
-          if (e?.status === 403) {
-            console.warn('[HubSpot] Screener update skipped (missing scopes)');
-          } else {
-            console.error('[HubSpot] Error updating screener:', e);
-            throw e;
-          }
-        }
-      } else {
-        console.log('[HubSpot] No screener dropdown value found to update');
-      }
-      
-      console.log('[HubSpot] Sync completed successfully');
+    // The stored deal link, or the application's deal found (or created) once and stored; throws
+    // while the HubSpot form integration has not created the contact or deal yet, so the job is retried
+    const dealId = await hubspotDealLinkService.getDealId(applicationId);
+
+    console.log(`[HubSpot] Found deal ID: ${dealId}, determining status and screener...`);
+
+    const mappedStatus = await this.determineHubSpotStatus(applicationId, app);
+    console.log(`[HubSpot] Final mappedStatus for HubSpot: ${mappedStatus}`);
+
+    const scoreSummary = await this.hubSpotScoreValue(applicationId, app);
+    console.log(`[HubSpot] Updating deal with status: ${mappedStatus}, score: ${scoreSummary}`);
+
+    // A 403 (token missing scopes) fails the job like any other error, so it is retried and surfaced
+    await HubSpotService.updateApplicationProperties(dealId, {
+      status: mappedStatus,
+      score: scoreSummary,
+    });
+    console.log('[HubSpot] Successfully updated application properties');
+
+    const pushed: HubSpotPush['properties'] = { application_score: scoreSummary };
+    if (mappedStatus) pushed.application_status = mappedStatus;
+
+    const screenersDropdownValue = await this.determineScreenerName(applicationId, app);
+
+    if (screenersDropdownValue) {
+      console.log(`[HubSpot] Updating screener dropdown with value: ${screenersDropdownValue}`);
+      await HubSpotService.updateDealProperties(dealId, { screeners_name: screenersDropdownValue });
+      pushed.screeners_name = screenersDropdownValue;
+      console.log('[HubSpot] Successfully updated screener dropdown');
+    } else {
+      console.log('[HubSpot] No screener dropdown value found to update');
+    }
+
+    // Recorded on the sync event, so unmapped statuses show up on the sync report
+    const warning = mappedStatus
+      ? undefined
+      : `No HubSpot mapping for ${[app.status, app.closed_reason, app.rejected_type].filter(Boolean).join(' - ')}; ` +
+        'application_status was not pushed. Map it on /admin/hubspot.';
+
+    console.log('[HubSpot] Sync completed successfully');
+    return { dealId, properties: pushed, warning };
+  }
+
+  /**
+   * The application_score and screeners_name values the deal should currently hold.
+   * Used by HubSpot reconciliation; does not wait for Calendly data like the push does.
+   * @param applicationId The application ID
+   */
+  async getExpectedHubSpotScoreAndScreener(applicationId: string): Promise<{ score: string; screener: string | null } | null> {
+    const app = await this.loadHubSpotApplication(applicationId);
+    if (!app) return null;
+    return {
+      score: await this.hubSpotScoreValue(applicationId, app),
+      screener: await this.determineScreenerName(applicationId, app)
+    };
+  }
+
+  private async loadHubSpotApplication(applicationId: string): Promise<HubSpotApplicationRow | null> {
+    const { data: app, error: appError } = await supabaseAdmin
+      .from('applications')
+      .select('participant_id, status, closed_reason, rejected_type, assigned_to, id, application_data, red_count, yellow_count, green_count, risk_score, risk_band')
+      .eq('id', applicationId)
+      .maybeSingle<HubSpotApplicationRow>();
+
+    if (appError) {
+      throw new Error(`Failed to load application ${applicationId}: ${appError.message}`);
+    }
+    return app;
+  }
+
+  /**
+   * application_score value: the risk score and band, e.g. "42 (Needs review)".
+   * Applications not scored since risk scores were introduced keep the raw counts.
+   */
+  private async hubSpotScoreValue(
+    applicationId: string,
+    app: { red_count?: number | null; yellow_count?: number | null; green_count?: number | null; risk_score?: number | null; risk_band?: string | null }
+  ): Promise<string> {
+    if (app.risk_score == null) {
+      return `Red: ${app.red_count || 0} / Yellow: ${app.yellow_count || 0} / Green: ${app.green_count || 0}`;
+    }
+
+    let settings: RiskSettings = resolveRiskSettings(null);
+    try {
+      const dbFormId = await this.getApplicationDbFormId(applicationId);
+      if (dbFormId) settings = await riskScoringService.getSettings(dbFormId);
     } catch (error) {
-      console.error('[HubSpot] Sync failed:', error);
+      console.warn('[HubSpot] Error loading risk settings for band label:', error);
     }
+
+    const label = bandLabel(settings, app.risk_band);
+    return label ? `${app.risk_score} (${label})` : String(app.risk_score);
   }
 
   private async waitForCalendlyDataWithBackoff(applicationId: string): Promise<void> {
@@ -647,56 +1128,13 @@ export class ScoringService {
     }
   }
 
-  private async findDealWithRetry(contactId: string): Promise<string | null> {
-    const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-    const overallDeadline = this.startTime + this.MAX_EXECUTION_TIME - 10000;
-    const MAX_RETRIES = 20;
-    
-    let dealId: string | null = null;
-    let attempt = 0;
-    let backoffMs = 1000;
-    
-    if (Date.now() + 1500 < overallDeadline) {
-      console.log('[HubSpot] Waiting 1.5s before first deal lookup...');
-      await wait(1500);
-    }
-    
-    while (!dealId && Date.now() < overallDeadline && attempt < MAX_RETRIES) {
-      attempt++;
-      
-      try {
-        dealId = await HubSpotService.findMostRecentDealIdForContact(contactId);
-      } catch (e) {
-        console.warn('[HubSpot] Deal lookup attempt failed:', e);
-      }
-      
-      if (dealId) break;
-      
-      const jitter = Math.floor(Math.random() * 300);
-      const waitMs = Math.min(5000, backoffMs) + jitter;
-      const waitUntil = Date.now() + waitMs;
-      
-      if (waitUntil >= overallDeadline || attempt >= MAX_RETRIES) break;
-      
-      console.log(`[HubSpot] Deal not found (attempt ${attempt}/${MAX_RETRIES}), retrying in ${waitMs}ms...`);
-      await wait(waitMs);
-      backoffMs = Math.floor(backoffMs * 1.6);
-    }
-    
-    return dealId;
-  }
-
-  private async determineHubSpotStatus(applicationId: string, app: any): Promise<string | null> {
+  private async determineHubSpotStatus(applicationId: string, app: HubSpotApplicationRow): Promise<string | null> {
     try {
-      const hint = (app?.application_data as any)?.hubspot_status_hint as string | undefined;
+      const hint = app.application_data?.hubspot_status_hint as string | undefined;
       if (typeof hint === 'string' && hint.trim().length > 0) {
         const trimmedHint = hint.trim();
         console.log(`[HubSpot] Using hubspot_status_hint from application_data: ${trimmedHint}`);
-        const hinted = HubSpotService.mapStatusToClosedApplicationStatusProperty(
-          trimmedHint as any, 
-          undefined, 
-          undefined
-        );
+        const hinted = (await hubspotStatusMappingService.getMappingFor(trimmedHint))?.status_property_value;
         if (hinted) {
           return hinted;
         }
@@ -716,11 +1154,7 @@ export class ScoringService {
       
       if (meeting?.id) {
         console.log('[HubSpot] Calendly meeting exists, using "Screening Scheduled" status');
-        const scheduledStatus = HubSpotService.mapStatusToClosedApplicationStatusProperty(
-          'screening_scheduled' as any, 
-          undefined, 
-          undefined
-        );
+        const scheduledStatus = (await hubspotStatusMappingService.getMappingFor('screening_scheduled'))?.status_property_value;
         if (scheduledStatus) {
           return scheduledStatus;
         }
@@ -730,16 +1164,13 @@ export class ScoringService {
     }
 
     console.log(`[HubSpot] Using default status mapping for: ${app.status}`);
-    return HubSpotService.mapStatusToClosedApplicationStatusProperty(
-      app.status,
-      app.closed_reason,
-      app.rejected_type
-    );
+    const mapping = await hubspotStatusMappingService.getMappingFor(app.status, app.closed_reason, app.rejected_type);
+    return mapping?.status_property_value || null;
   }
 
-  private async determineScreenerName(applicationId: string, app: any): Promise<string | null> {
+  private async determineScreenerName(applicationId: string, app: HubSpotApplicationRow): Promise<string | null> {
     try {
-      const screenerHint = (app?.application_data as any)?.hubspot_screener_hint as string | undefined;
+      const screenerHint = app.application_data?.hubspot_screener_hint as string | undefined;
       if (typeof screenerHint === 'string' && screenerHint.trim().length > 0) {
         const trimmedName = screenerHint.trim();
         console.log(`[HubSpot] Using hubspot_screener_hint from application_data: ${trimmedName}`);
@@ -803,7 +1234,9 @@ export class ScoringService {
       redCount: 0,
       yellowCount: 0,
       greenCount: 0,
-      totalScore: 0
+      totalScore: 0,
+      riskScore: 0,
+      riskBand: bandFor(resolveRiskSettings(null), 0).key
     };
   }
 
@@ -811,7 +1244,8 @@ export class ScoringService {
     applicationId: string,
     responses: ApplicationFieldResponse[],
     allScoringRules: Map<string, ScoringRule[]>,
-    fieldDetailsMap: Map<string, FieldDetails>
+    fieldDetailsMap: Map<string, FieldDetails>,
+    options: ScoringOptions = {}
   ): Promise<ScoringSummary> {
     console.warn('Using timeout fallback processing');
     
@@ -823,9 +1257,18 @@ export class ScoringService {
       )
     );
     
-    const { redCount, yellowCount, greenCount, totalScore } = this.calculateFinalScores(batchResults);
+    const compoundRules = options.ruleSetVersion ? this.rulesFromVersion(options.ruleSetVersion).compoundRules : undefined;
+    const compound = await this.evaluateCompoundRules(applicationId, responses, fieldDetailsMap, compoundRules);
+    const { redCount, yellowCount, greenCount, totalScore } = this.calculateFinalScores(batchResults, compound.counts);
+    const risk = await this.calculateRiskScore(applicationId, batchResults, compound.matched, fieldDetailsMap);
     
-    await this.updateApplicationScore(applicationId, redCount, yellowCount, greenCount, totalScore);
+    if (!options.dryRun) {
+      await this.updateApplicationScore(applicationId, redCount, yellowCount, greenCount, totalScore, risk, {
+        ruleSetVersionId: options.ruleSetVersion?.id ?? await this.resolveRuleSetVersionId(applicationId),
+        rescoreRunId: options.rescoreRunId,
+        responseScores: this.toResponseScores(batchResults)
+      });
+    }
     
     console.warn(`Timeout protection: processed ${limitedResponses.length}/${responses.length} responses`);
     
@@ -834,7 +1277,9 @@ export class ScoringService {
       redCount,
       yellowCount,
       greenCount,
-      totalScore
+      totalScore,
+      ...risk,
+      ...(options.dryRun ? { responseScores: this.toResponseScores(batchResults) } : {})
     };
   }
 
@@ -886,6 +1331,7 @@ export class ScoringService {
       type: data.field_type,
       ref: data.field_ref,
       version_id: data.id,
+      parent_version_id: data.parent_field_version_id || null,
       created_at: data.created_at,
       updated_at: data.updated_at
     };
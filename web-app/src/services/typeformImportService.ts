@@ -0,0 +1,297 @@
+import {createClient, SupabaseClient} from '@supabase/supabase-js';
+import {applicationService} from '@/services/applicationService';
+import {jobQueueService} from '@/services/jobQueueService';
+import {TypeformField, typeformService} from '@/services/typeformService';
+import {TypeformFieldDefinition, TypeformWebhook} from '@/types/application';
+import {
+  TypeformApiResponseItem,
+  TypeformImportRange,
+  TypeformImportResult,
+  TypeformResponseImport,
+} from '@/types/typeformImport';
+
+// Initialize Supabase client with service role for admin operations
+const supabaseAdmin: SupabaseClient = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+);
+
+// Responses fetched per typeform.import_page job; small enough to finish well within a function run
+const PAGE_SIZE = 50;
+
+// Everything but the per-response results, for listing imports
+const SUMMARY_COLUMNS = 'id, form_id, submitted_from, submitted_to, status, before_token, pages_fetched, total_count, imported_count, skipped_count, failed_count, last_error, created_by, created_at, updated_at, completed_at';
+
+const isIsoDate = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(`${value}T00:00:00Z`));
+
+// Typeform expects UTC date-times to the second
+const toTypeformTime = (isoTimestamp: string | null) =>
+  isoTimestamp ? new Date(isoTimestamp).toISOString().replace(/\.\d{3}Z$/, 'Z') : null;
+
+/**
+ * Backfills applications the webhook never delivered (downtime, or a form connected after
+ * responses came in) by paging through the Typeform Responses API. Each response is rebuilt
+ * in the webhook shape and ingested exactly like a live submission; responses whose token
+ * already has an application are skipped. One page is fetched per job, and each page queues
+ * the next, so progress survives function timeouts and can be followed from the import row.
+ */
+export class TypeformImportService {
+  /**
+   * Validate an import date range
+   * @returns An error message, or null when valid
+   */
+  validateRange(range: TypeformImportRange): string | null {
+    if (range.submittedFrom !== undefined && !isIsoDate(range.submittedFrom)) return 'Submitted from must be a date (YYYY-MM-DD)';
+    if (range.submittedTo !== undefined && !isIsoDate(range.submittedTo)) return 'Submitted to must be a date (YYYY-MM-DD)';
+    if (range.submittedFrom && range.submittedTo && range.submittedFrom > range.submittedTo) {
+      return 'Submitted from must be on or before submitted to';
+    }
+    return null;
+  }
+
+  /**
+   * Record an import and queue the job that fetches its first page
+   * @param formId The Typeform form ID or internal database UUID
+   */
+  async startImport(formId: string, range: TypeformImportRange, userId: string | null): Promise<TypeformResponseImport> {
+    const dbFormId = await typeformService.resolveDbFormId(formId);
+
+    const {data: responseImport, error} = await supabaseAdmin
+      .from('typeform_response_imports')
+      .insert({
+        form_id: dbFormId,
+        submitted_from: range.submittedFrom ? `${range.submittedFrom}T00:00:00Z` : null,
+        submitted_to: range.submittedTo ? `${range.submittedTo}T23:59:59Z` : null,
+        status: 'pending',
+        created_by: userId
+      })
+      .select(SUMMARY_COLUMNS)
+      .single();
+
+    if (error || !responseImport) throw new Error(`Failed to create response import: ${error?.message}`);
+
+    await jobQueueService.enqueue('typeform.import_page', {importId: responseImport.id}, {
+      dedupeKey: `typeform.import_page:${responseImport.id}:0`,
+      maxAttempts: 5
+    });
+
+    console.log(`[Typeform Import] Import ${responseImport.id} queued for form ${dbFormId}`);
+    return responseImport as TypeformResponseImport;
+  }
+
+  /**
+   * Fetch and ingest the import's next page of responses, then queue the page after it.
+   * Safe to retry: responses already in the import's results are not ingested again.
+   * @returns Counts for the page
+   */
+  async importNextPage(importId: string): Promise<{importId: string; fetched: number; done: boolean}> {
+    const {data: responseImport, error} = await supabaseAdmin
+      .from('typeform_response_imports')
+      .select('*, typeform_forms(form_id)')
+      .eq('id', importId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load response import: ${error.message}`);
+    if (!responseImport) throw new Error(`Response import ${importId} not found`);
+    if (responseImport.status === 'completed' || responseImport.status === 'failed') {
+      return {importId, fetched: 0, done: true};
+    }
+
+    const typeformFormId: string | undefined = (Array.isArray(responseImport.typeform_forms)
+      ? responseImport.typeform_forms[0]
+      : responseImport.typeform_forms)?.form_id;
+    if (!typeformFormId) throw new Error(`Form for response import ${importId} not found`);
+
+    const page = await typeformService.getFormResponses(typeformFormId, {
+      since: toTypeformTime(responseImport.submitted_from),
+      until: toTypeformTime(responseImport.submitted_to),
+      before: responseImport.before_token,
+      pageSize: PAGE_SIZE
+    });
+    const items = page.items || [];
+
+    // Answers reference the form's fields; the Responses API does not include their definitions
+    const formDetails = items.length > 0 ? await typeformService.getFormDetails(typeformFormId) : null;
+    const definition = formDetails
+      ? {id: formDetails.id, title: formDetails.title, fields: this.flattenFields(formDetails.fields)}
+      : null;
+
+    const results: TypeformImportResult[] = responseImport.results || [];
+    const seenTokens = new Set(results.map(result => result.token));
+    const pageResults: TypeformImportResult[] = [];
+    if (definition) {
+      for (const item of items) {
+        if (seenTokens.has(item.token)) continue;
+        pageResults.push(await this.importResponse(typeformFormId, item, definition));
+      }
+    }
+
+    const count = (outcome: TypeformImportResult['outcome']) =>
+      pageResults.filter(result => result.outcome === outcome).length;
+    const done = items.length < PAGE_SIZE;
+    const now = new Date().toISOString();
+
+    const {error: updateError} = await supabaseAdmin
+      .from('typeform_response_imports')
+      .update({
+        status: done ? 'completed' : 'running',
+        before_token: items.length > 0 ? items[items.length - 1].token : responseImport.before_token,
+        pages_fetched: responseImport.pages_fetched + 1,
+        total_count: responseImport.total_count ?? page.total_items ?? items.length,
+        imported_count: responseImport.imported_count + count('imported'),
+        skipped_count: responseImport.skipped_count + count('skipped'),
+        failed_count: responseImport.failed_count + count('failed'),
+        results: [...results, ...pageResults],
+        last_error: null,
+        updated_at: now,
+        completed_at: done ? now : null
+      })
+      .eq('id', importId);
+
+    if (updateError) throw new Error(`Failed to record response import progress: ${updateError.message}`);
+
+    if (!done) {
+      await jobQueueService.enqueue('typeform.import_page', {importId}, {
+        dedupeKey: `typeform.import_page:${importId}:${responseImport.pages_fetched + 1}`,
+        maxAttempts: 5
+      });
+    }
+
+    console.log(`[Typeform Import] Import ${importId} page ${responseImport.pages_fetched + 1}: ${items.length} responses fetched${done ? ', import complete' : ''}`);
+    return {importId, fetched: items.length, done};
+  }
+
+  /**
+   * Record why a page failed, and fail the import once its job is out of attempts
+   */
+  async recordPageError(importId: string, err: unknown, isFinal: boolean): Promise<void> {
+    const message = err instanceof Error ? err.message : String(err);
+    const now = new Date().toISOString();
+    const {error} = await supabaseAdmin
+      .from('typeform_response_imports')
+      .update({
+        last_error: message.slice(0, 2000),
+        ...(isFinal ? {status: 'failed', completed_at: now} : {}),
+        updated_at: now
+      })
+      .eq('id', importId);
+
+    if (error) console.error(`[Typeform Import] Failed to record error for import ${importId}:`, error);
+  }
+
+  /**
+   * A form's most recent imports, without their per-response results
+   * @param formId The Typeform form ID or internal database UUID
+   */
+  async listImports(formId: string, limit: number = 10): Promise<TypeformResponseImport[]> {
+    const dbFormId = await typeformService.resolveDbFormId(formId);
+
+    const {data, error} = await supabaseAdmin
+      .from('typeform_response_imports')
+      .select(SUMMARY_COLUMNS)
+      .eq('form_id', dbFormId)
+      .order('created_at', {ascending: false})
+      .limit(limit);
+
+    if (error) throw new Error(`Failed to list response imports: ${error.message}`);
+    return (data || []) as TypeformResponseImport[];
+  }
+
+  /**
+   * An import with its per-response results
+   * @param formId The Typeform form ID or internal database UUID
+   * @returns The import, or null when it does not belong to the form
+   */
+  async getImport(formId: string, importId: string): Promise<TypeformResponseImport | null> {
+    const dbFormId = await typeformService.resolveDbFormId(formId);
+
+    const {data, error} = await supabaseAdmin
+      .from('typeform_response_imports')
+      .select('*')
+      .eq('id', importId)
+      .eq('form_id', dbFormId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load response import: ${error.message}`);
+    return data as TypeformResponseImport | null;
+  }
+
+  /**
+   * Ingest a single response through the same path as the webhook and queue its processing
+   */
+  private async importResponse(
+    typeformFormId: string,
+    item: TypeformApiResponseItem,
+    definition: TypeformWebhook['form_response']['definition']
+  ): Promise<TypeformImportResult> {
+    const base = {token: item.token, submittedAt: item.submitted_at || null};
+
+    try {
+      if (!item.submitted_at) {
+        return {...base, outcome: 'skipped', reason: 'Response was not submitted'};
+      }
+
+      const existingApplication = await applicationService.findApplicationByToken(item.token);
+      if (existingApplication) {
+        return {...base, outcome: 'skipped', applicationId: existingApplication.id, reason: 'Application already exists'};
+      }
+
+      const {application, isDuplicate} = await applicationService.createApplicationFromWebhookData(
+        this.toWebhook(typeformFormId, item, definition)
+      );
+      if (isDuplicate) {
+        return {...base, outcome: 'skipped', applicationId: application.id, reason: 'Application already exists'};
+      }
+
+      await jobQueueService.enqueue('application.process', {applicationId: application.id}, {
+        dedupeKey: `application.process:${application.id}`
+      });
+      return {...base, outcome: 'imported', applicationId: application.id};
+    } catch (error) {
+      console.error(`[Typeform Import] Failed to import response ${item.token}:`, error);
+      return {...base, outcome: 'failed', reason: error instanceof Error ? error.message : String(error)};
+    }
+  }
+
+  /**
+   * Rebuild the webhook payload Typeform would have delivered for a response
+   */
+  private toWebhook(
+    typeformFormId: string,
+    item: TypeformApiResponseItem,
+    definition: TypeformWebhook['form_response']['definition']
+  ): TypeformWebhook {
+    return {
+      event_id: `import_${item.token}`,
+      event_type: 'form_response',
+      form_response: {
+        form_id: typeformFormId,
+        token: item.token,
+        submitted_at: item.submitted_at,
+        landed_at: item.landed_at,
+        calculated: item.calculated,
+        hidden: item.hidden,
+        definition,
+        answers: item.answers || []
+      }
+    };
+  }
+
+  /**
+   * Webhook definitions list answerable fields flat; the Create API nests them inside groups
+   */
+  private flattenFields(fields: TypeformField[]): TypeformFieldDefinition[] {
+    const flattened: TypeformFieldDefinition[] = [];
+    for (const field of fields || []) {
+      if (Array.isArray(field.properties?.fields)) {
+        flattened.push(...this.flattenFields(field.properties.fields));
+        continue;
+      }
+      flattened.push({id: field.id, title: field.title, type: field.type, ref: field.ref, properties: field.properties});
+    }
+    return flattened;
+  }
+}
+
+export const typeformImportService = new TypeformImportService();
@@ -0,0 +1,443 @@
+import {createClient, SupabaseClient} from '@supabase/supabase-js';
+import {CompoundRuleCriteria, collectFieldRefs} from '@/lib/scoring-criteria';
+import {scoringRuleSetService} from '@/services/scoringRuleSetService';
+import {
+  DbTypeformChoiceVersion,
+  DbTypeformFieldVersion,
+  TypeformChoice,
+  TypeformField,
+  typeformService,
+} from '@/services/typeformService';
+import {
+  ChoiceDiff,
+  CompoundRuleWarning,
+  FieldChangeKind,
+  FieldDiff,
+  FormSchemaDiff,
+  RuleMigrationDecision,
+  RuleMigrationProposal,
+  RuleMigrationResult,
+  SyncTargetField,
+} from '@/types/formSchemaDiff';
+
+// Initialize Supabase client with service role for admin operations
+const supabaseAdmin: SupabaseClient = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+);
+
+// Stands in for the ID of a field version the sync has yet to create
+const pendingVersionId = (fieldId: string) => `pending:${fieldId}`;
+
+const sameLabel = (a: string | null, b: string | null) =>
+  (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+/**
+ * Previews what re-syncing a form from Typeform will change, before anything is written.
+ * Scoring rules are keyed by field and choice version IDs, so a field that gets a new version
+ * (retitled, retyped, choices changed, ...) or disappears leaves its rules behind on the retired
+ * version. The preview proposes where each such rule should go, matched by ref, and once the
+ * admin confirms or adjusts the mapping the rules are copied onto the new versions after the sync.
+ */
+export class TypeformSchemaDiffService {
+  /**
+   * Compare the form on Typeform with its active field and choice versions
+   * @param formId The Typeform form ID
+   */
+  async previewSync(formId: string): Promise<FormSchemaDiff> {
+    const formDetails = await typeformService.getFormDetails(formId);
+    const {form} = await typeformService.checkFormExists(formId, true);
+
+    let oldFields: DbTypeformFieldVersion[] = [];
+    let oldChoices: DbTypeformChoiceVersion[] = [];
+    if (form) {
+      const {data: fieldData, error: fieldError} = await supabaseAdmin
+        .from('typeform_field_versions')
+        .select('*')
+        .eq('form_id', form.id)
+        .eq('is_active', true);
+
+      if (fieldError) throw new Error(`Failed to load field versions: ${fieldError.message}`);
+      oldFields = fieldData || [];
+
+      if (oldFields.length > 0) {
+        const {data: choiceData, error: choiceError} = await supabaseAdmin
+          .from('typeform_choice_versions')
+          .select('*')
+          .in('field_version_id', oldFields.map(field => field.id))
+          .eq('is_active', true);
+
+        if (choiceError) throw new Error(`Failed to load choice versions: ${choiceError.message}`);
+        oldChoices = choiceData || [];
+      }
+    }
+
+    const oldFieldsById = new Map(oldFields.map(field => [field.field_id, field]));
+    const choicesByFieldVersion = new Map<string, DbTypeformChoiceVersion[]>();
+    for (const choice of oldChoices) {
+      choicesByFieldVersion.set(choice.field_version_id, [...(choicesByFieldVersion.get(choice.field_version_id) || []), choice]);
+    }
+
+    const fieldDiffs: FieldDiff[] = [];
+    const targets: SyncTargetField[] = [];
+    const seenFieldIds = new Set<string>();
+
+    // Walk the form the way syncForm does, tracking the version ID each parent group will end up with
+    const walk = (fields: TypeformField[], parentVersionId: string | null, level: number) => {
+      for (const field of fields || []) {
+        seenFieldIds.add(field.id);
+        const newChoices = this.expectedChoices(field);
+        targets.push({fieldId: field.id, ref: field.ref || null, title: field.title, type: field.type, choices: newChoices});
+
+        const old = oldFieldsById.get(field.id);
+        let versionId: string;
+        if (!old) {
+          fieldDiffs.push({
+            fieldId: field.id,
+            ref: field.ref || null,
+            oldFieldVersionId: null,
+            oldTitle: null,
+            newTitle: field.title,
+            oldType: null,
+            newType: field.type,
+            level,
+            changes: ['added'],
+            createsNewVersion: true,
+            choices: newChoices.map(choice => ({
+              choiceId: choice.choiceId,
+              ref: choice.ref,
+              oldChoiceVersionId: null,
+              oldLabel: null,
+              newLabel: choice.label,
+              changes: ['added']
+            }))
+          });
+          versionId = pendingVersionId(field.id);
+        } else if (typeformService.hasFieldVersionChanged(old, field, parentVersionId, level)) {
+          const changes: FieldChangeKind[] = [];
+          if (old.field_title !== field.title) changes.push('retitled');
+          if (old.field_type !== field.type) changes.push('retyped');
+          if (old.parent_field_version_id !== parentVersionId || old.hierarchy_level !== level) changes.push('moved');
+          if (changes.length === 0) changes.push('modified');
+
+          fieldDiffs.push({
+            fieldId: field.id,
+            ref: field.ref || null,
+            oldFieldVersionId: old.id,
+            oldTitle: old.field_title,
+            newTitle: field.title,
+            oldType: old.field_type,
+            newType: field.type,
+            level,
+            changes,
+            createsNewVersion: true,
+            choices: this.diffChoices(choicesByFieldVersion.get(old.id) || [], newChoices)
+          });
+          versionId = pendingVersionId(field.id);
+        } else {
+          versionId = old.id;
+        }
+
+        if (Array.isArray(field.properties?.fields)) {
+          walk(field.properties.fields, versionId, level + 1);
+        }
+      }
+    };
+    walk(formDetails.fields, null, 0);
+
+    for (const old of oldFields) {
+      if (seenFieldIds.has(old.field_id)) continue;
+      fieldDiffs.push({
+        fieldId: old.field_id,
+        ref: old.field_ref,
+        oldFieldVersionId: old.id,
+        oldTitle: old.field_title,
+        newTitle: null,
+        oldType: old.field_type,
+        newType: null,
+        level: old.hierarchy_level,
+        changes: ['removed'],
+        createsNewVersion: false,
+        choices: this.diffChoices(choicesByFieldVersion.get(old.id) || [], [])
+      });
+    }
+
+    const ruleMigrations = form
+      ? await this.proposeRuleMigrations(fieldDiffs, oldFields, oldChoices, targets)
+      : [];
+    const compoundRuleWarnings = form
+      ? await this.findCompoundRuleWarnings(form.id, targets)
+      : [];
+
+    return {
+      formId,
+      dbFormId: form?.id || null,
+      formTitle: formDetails.title,
+      hasChanges: fieldDiffs.length > 0 || (!!form && form.form_title !== formDetails.title),
+      fields: fieldDiffs,
+      ruleMigrations,
+      targets,
+      compoundRuleWarnings
+    };
+  }
+
+  /**
+   * Copy each confirmed rule onto the field or choice version it was mapped to.
+   * Run after syncForm. The original stays on the retired version so answers stored against it
+   * keep scoring the same way when rescored.
+   * @param formId The Typeform form ID or internal database UUID
+   */
+  async applyRuleMigrations(
+    formId: string,
+    decisions: RuleMigrationDecision[],
+    userId: string | null
+  ): Promise<RuleMigrationResult> {
+    const result: RuleMigrationResult = {migrated: 0, skipped: []};
+    const toApply = decisions.filter(decision => decision.toFieldId);
+    if (toApply.length === 0) return result;
+
+    const dbFormId = await typeformService.resolveDbFormId(formId);
+    const formRules = await scoringRuleSetService.getFormRules(dbFormId);
+    const rulesById = new Map(formRules.map(rule => [rule.id, rule]));
+
+    const {data: activeFields, error: fieldError} = await supabaseAdmin
+      .from('typeform_field_versions')
+      .select('id, field_id')
+      .eq('form_id', dbFormId)
+      .eq('is_active', true);
+
+    if (fieldError) throw new Error(`Failed to load field versions: ${fieldError.message}`);
+    const fieldVersionIds = new Map((activeFields || []).map(field => [field.field_id, field.id]));
+
+    for (const decision of toApply) {
+      const rule = rulesById.get(decision.ruleId);
+      if (!rule || rule.target_type === 'application') {
+        result.skipped.push({ruleId: decision.ruleId, reason: 'Rule not found on this form'});
+        continue;
+      }
+
+      const fieldVersionId = fieldVersionIds.get(decision.toFieldId!);
+      if (!fieldVersionId) {
+        result.skipped.push({ruleId: rule.id, reason: `Field ${decision.toFieldId} not found after sync`});
+        continue;
+      }
+
+      let targetId = fieldVersionId;
+      if (rule.target_type === 'choice') {
+        if (!decision.toChoiceId) {
+          result.skipped.push({ruleId: rule.id, reason: 'Choice rules must be mapped to a choice'});
+          continue;
+        }
+        const {data: choiceVersion, error: choiceError} = await supabaseAdmin
+          .from('typeform_choice_versions')
+          .select('id')
+          .eq('field_version_id', fieldVersionId)
+          .eq('choice_id', decision.toChoiceId)
+          .eq('is_active', true)
+          .maybeSingle();
+
+        if (choiceError) throw new Error(`Failed to load choice version: ${choiceError.message}`);
+        if (!choiceVersion) {
+          result.skipped.push({ruleId: rule.id, reason: `Choice ${decision.toChoiceId} not found after sync`});
+          continue;
+        }
+        targetId = choiceVersion.id;
+      }
+
+      if (targetId === rule.target_id) {
+        result.skipped.push({ruleId: rule.id, reason: 'Already on the current version'});
+        continue;
+      }
+
+      const duplicate = formRules.some(existing =>
+        existing.target_id === targetId &&
+        existing.score_value === rule.score_value &&
+        JSON.stringify(existing.criteria ?? null) === JSON.stringify(rule.criteria ?? null)
+      );
+      if (duplicate) {
+        result.skipped.push({ruleId: rule.id, reason: 'An identical rule already exists on the target'});
+        continue;
+      }
+
+      const {data: inserted, error: insertError} = await supabaseAdmin
+        .from('scoring_rules')
+        .insert({
+          target_type: rule.target_type,
+          target_id: targetId,
+          score_value: rule.score_value,
+          criteria: rule.criteria,
+          weight: rule.weight ?? 1,
+          created_by: userId,
+          is_active: true
+        })
+        .select('id, target_type, target_id, score_value, criteria, weight')
+        .single();
+
+      if (insertError || !inserted) throw new Error(`Failed to migrate scoring rule ${rule.id}: ${insertError?.message}`);
+
+      formRules.push(inserted);
+      result.migrated++;
+    }
+
+    console.log(`[Typeform Sync] Migrated ${result.migrated} scoring rules for form ${dbFormId}, skipped ${result.skipped.length}`);
+    return result;
+  }
+
+  /**
+   * Propose a new home for every active rule on a field or choice version the sync retires
+   */
+  private async proposeRuleMigrations(
+    fieldDiffs: FieldDiff[],
+    oldFields: DbTypeformFieldVersion[],
+    oldChoices: DbTypeformChoiceVersion[],
+    targets: SyncTargetField[]
+  ): Promise<RuleMigrationProposal[]> {
+    const retiredFieldIds = new Set(
+      fieldDiffs
+        .filter(diff => diff.oldFieldVersionId && (diff.createsNewVersion || diff.changes.includes('removed')))
+        .map(diff => diff.oldFieldVersionId as string)
+    );
+    const retiredChoices = oldChoices.filter(choice => retiredFieldIds.has(choice.field_version_id));
+    const retiredIds = [...Array.from(retiredFieldIds), ...retiredChoices.map(choice => choice.id)];
+    if (retiredIds.length === 0) return [];
+
+    const {data: rules, error} = await supabaseAdmin
+      .from('scoring_rules')
+      .select('id, target_type, target_id, score_value, criteria')
+      .in('target_type', ['field', 'choice'])
+      .in('target_id', retiredIds)
+      .eq('is_active', true)
+      .order('created_at', {ascending: true});
+
+    if (error) throw new Error(`Failed to load scoring rules: ${error.message}`);
+
+    const fieldsById = new Map(oldFields.map(field => [field.id, field]));
+    const choicesById = new Map(retiredChoices.map(choice => [choice.id, choice]));
+
+    // The new field an old version continues as: same ref first, then same Typeform ID
+    const matchField = (old: DbTypeformFieldVersion): {target: SyncTargetField | null; matchedBy: 'ref' | 'id' | null} => {
+      const byRef = old.field_ref ? targets.find(target => target.ref === old.field_ref) : undefined;
+      if (byRef) return {target: byRef, matchedBy: 'ref'};
+      const byId = targets.find(target => target.fieldId === old.field_id);
+      if (byId) return {target: byId, matchedBy: 'id'};
+      return {target: null, matchedBy: null};
+    };
+
+    const proposals: RuleMigrationProposal[] = [];
+    for (const rule of rules || []) {
+      if (rule.target_type === 'field') {
+        const old = fieldsById.get(rule.target_id);
+        if (!old) continue;
+        const {target, matchedBy} = matchField(old);
+        proposals.push({
+          ruleId: rule.id,
+          targetType: 'field',
+          scoreValue: rule.score_value,
+          criteria: rule.criteria,
+          fromTargetId: rule.target_id,
+          fromLabel: old.field_title,
+          toFieldId: target?.fieldId || null,
+          toChoiceId: null,
+          matchedBy
+        });
+        continue;
+      }
+
+      const oldChoice = choicesById.get(rule.target_id);
+      const oldField = oldChoice ? fieldsById.get(oldChoice.field_version_id) : undefined;
+      if (!oldChoice || !oldField) continue;
+
+      const {target} = matchField(oldField);
+      let toChoice: SyncTargetField['choices'][number] | undefined;
+      let matchedBy: RuleMigrationProposal['matchedBy'] = null;
+      if (target) {
+        toChoice = oldChoice.choice_ref ? target.choices.find(choice => choice.ref === oldChoice.choice_ref) : undefined;
+        if (toChoice) matchedBy = 'ref';
+        if (!toChoice) {
+          toChoice = target.choices.find(choice => choice.choiceId === oldChoice.choice_id);
+          if (toChoice) matchedBy = 'id';
+        }
+        if (!toChoice) {
+          toChoice = target.choices.find(choice => sameLabel(choice.label, oldChoice.choice_label));
+          if (toChoice) matchedBy = 'label';
+        }
+      }
+
+      proposals.push({
+        ruleId: rule.id,
+        targetType: 'choice',
+        scoreValue: rule.score_value,
+        criteria: rule.criteria,
+        fromTargetId: rule.target_id,
+        fromLabel: `${oldField.field_title} › ${oldChoice.choice_label}`,
+        toFieldId: toChoice ? target!.fieldId : null,
+        toChoiceId: toChoice?.choiceId || null,
+        matchedBy
+      });
+    }
+    return proposals;
+  }
+
+  /**
+   * Compound rules that read a field ref the form will no longer have
+   */
+  private async findCompoundRuleWarnings(dbFormId: string, targets: SyncTargetField[]): Promise<CompoundRuleWarning[]> {
+    const compoundRules = await typeformService.getCompoundRules(dbFormId);
+    const refs = new Set(targets.map(target => target.ref).filter(Boolean));
+
+    const warnings: CompoundRuleWarning[] = [];
+    for (const rule of compoundRules) {
+      const expression = (rule.criteria as CompoundRuleCriteria | null)?.expression;
+      if (!expression) continue;
+      const missingRefs = collectFieldRefs(expression).filter(ref => !refs.has(ref));
+      if (missingRefs.length > 0) warnings.push({ruleId: rule.id, missingRefs});
+    }
+    return warnings;
+  }
+
+  /**
+   * Compare the choices of a retired field version with those its new version will get
+   */
+  private diffChoices(oldChoices: DbTypeformChoiceVersion[], newChoices: SyncTargetField['choices']): ChoiceDiff[] {
+    const diffs: ChoiceDiff[] = [];
+    for (const choice of newChoices) {
+      const old = oldChoices.find(oldChoice => oldChoice.choice_id === choice.choiceId);
+      if (!old) {
+        diffs.push({choiceId: choice.choiceId, ref: choice.ref, oldChoiceVersionId: null, oldLabel: null, newLabel: choice.label, changes: ['added']});
+      } else if (old.choice_label !== choice.label) {
+        diffs.push({choiceId: choice.choiceId, ref: choice.ref, oldChoiceVersionId: old.id, oldLabel: old.choice_label, newLabel: choice.label, changes: ['relabeled']});
+      }
+    }
+    for (const old of oldChoices) {
+      if (newChoices.some(choice => choice.choiceId === old.choice_id)) continue;
+      diffs.push({choiceId: old.choice_id, ref: old.choice_ref, oldChoiceVersionId: old.id, oldLabel: old.choice_label, newLabel: null, changes: ['removed']});
+    }
+    return diffs;
+  }
+
+  /**
+   * The choices syncForm stores for a field, including the synthetic ones of an opinion scale
+   */
+  private expectedChoices(field: TypeformField): SyncTargetField['choices'] {
+    if (field.type === 'opinion_scale') {
+      const steps = field.properties?.steps;
+      if (typeof steps !== 'number' || steps <= 0) return [];
+      const start = field.properties?.start_at_one ? 1 : 0;
+      return Array.from({length: steps}, (_, index) => ({
+        choiceId: `${field.id}-${start + index}`,
+        ref: String(start + index),
+        label: String(start + index)
+      }));
+    }
+    if (Array.isArray(field.properties?.choices)) {
+      return field.properties.choices.map((choice: TypeformChoice) => ({
+        choiceId: choice.id,
+        ref: choice.ref || null,
+        label: choice.label
+      }));
+    }
+    return [];
+  }
+}
+
+export const typeformSchemaDiffService = new TypeformSchemaDiffService();
@@ -1,5 +1,8 @@
 import axios from 'axios';
 import { createClient } from '@supabase/supabase-js';
+import { CompoundRuleCriteria, parseCriteria, ScoringCriteria, validateCriteria } from '@/lib/scoring-criteria';
+import { DraftScoringRule, FormRuleScope, RuleSetPublishResult } from '@/types/scoring';
+import { TypeformApiResponsePage } from '@/types/typeformImport';
 
 // Types for Typeform API responses
 export interface TypeformForm {
@@ -76,10 +79,11 @@ export interface DbTypeformChoiceVersion {
 
 export interface DbScoringRule {
   id: string;
-  target_type: 'field' | 'choice';
+  target_type: 'field' | 'choice' | 'application';
   target_id: string;
   score_value: 'red' | 'yellow' | 'green' | 'na';
   criteria: any;
+  weight: number;
   created_by: string | null;
   created_at: string;
   updated_at: string;
@@ -208,6 +212,39 @@ export class TypeformService {
     }
   }
 
+  /**
+   * Get one page of completed responses for a form, newest first
+   * https://www.typeform.com/developers/responses/reference/retrieve-responses/
+   * @param formId The Typeform form ID
+   * @param options since/until (ISO 8601), before (token of the oldest response already fetched) and page size
+   */
+  async getFormResponses(formId: string, options: {
+    since?: string | null;
+    until?: string | null;
+    before?: string | null;
+    pageSize?: number;
+  } = {}): Promise<TypeformApiResponsePage> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/forms/${formId}/responses`, {
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`
+        },
+        params: {
+          page_size: options.pageSize || 100,
+          completed: true,
+          ...(options.since ? { since: options.since } : {}),
+          ...(options.until ? { until: options.until } : {}),
+          ...(options.before ? { before: options.before } : {})
+        }
+      });
+
+      return response.data;
+    } catch (error) {
+      console.error(`Error fetching responses for form ${formId}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Sync a form from Typeform to our database
    * Will create a new form record if it doesn't exist,
@@ -364,6 +401,97 @@ export class TypeformService {
     }
   }
 
+  /**
+   * Whether a Typeform field differs from its stored version in a way that needs a new version
+   * @param existingField The active typeform_field_versions row
+   * @param field The field as returned by the Typeform API
+   * @param parentFieldVersionId The field version ID its parent group will have after the sync
+   * @param level The hierarchical level
+   */
+  hasFieldVersionChanged(existingField: DbTypeformFieldVersion, field: TypeformField, parentFieldVersionId: string | null, level: number): boolean {
+    // Check critical properties that would require a new version if changed
+    const criticalChanges = (
+      existingField.field_title !== field.title ||
+      existingField.field_type !== field.type ||
+      existingField.field_ref !== (field.ref || null) ||
+      existingField.parent_field_version_id !== parentFieldVersionId ||
+      existingField.hierarchy_level !== level
+    );
+    
+    // If critical properties haven't changed, do a deeper check on properties
+    if (!criticalChanges) {
+      // Only check properties that would affect the form structure or function
+      const existingProps = existingField.properties || {};
+      const newProps = field.properties || {};
+      
+      // Compare specific property values that matter for form structure/behavior
+      const compareSpecificProps = (props1: Record<string, unknown>, props2: Record<string, unknown>, propNames: string[]) => {
+        for (const prop of propNames) {
+          const value1 = props1[prop];
+          const value2 = props2[prop];
+
+          // Skip if both are undefined/null
+          if (value1 == null && value2 == null) continue;
+          
+          // If one has the property and the other doesn't, it's a change
+          if ((value1 == null) !== (value2 == null)) return true;
+          
+          // Arrays need special handling
+          if (Array.isArray(value1) && Array.isArray(value2)) {
+            // Different length means changed
+            if (value1.length !== value2.length) return true;
+            
+            // For fields array, we NEVER want to mark a parent as changed just because its children changed
+            // Child fields are processed separately in their own processField calls
+            if (prop === 'fields') {
+              // Always return false to indicate no change based on child fields
+              // This prevents unnecessary versioning of parent groups when only child fields change
+              return false;
+            }
+            
+            // For choices, check if the IDs match
+            if (prop === 'choices') {
+              const oldChoiceIds = (value1 as TypeformChoice[]).map(c => c.id).sort();
+              const newChoiceIds = (value2 as TypeformChoice[]).map(c => c.id).sort();
+              return !oldChoiceIds.every((id, i) => id === newChoiceIds[i]);
+            }
+          } else if (typeof value1 !== typeof value2) {
+            // Different types
+            return true;
+          } else if (typeof value1 === 'object') {
+            // Both are objects but not arrays - compare by keys
+            const keys1 = Object.keys(value1 || {}).sort();
+            const keys2 = Object.keys(value2 || {}).sort();
+            if (keys1.length !== keys2.length) return true;
+            if (!keys1.every((k, i) => k === keys2[i])) return true;
+          } else if (value1 !== value2) {
+            // Simple value comparison
+            return true;
+          }
+        }
+        return false;
+      };
+      
+      // List of property names that should trigger a new version if changed
+      // IMPORTANT: We're removing 'fields' from this list to avoid marking a parent field as changed
+      // when only its children fields change. This prevents unnecessary versioning of all fields in a group.
+      const significantProps = [
+        // 'fields' is intentionally excluded - we handle child fields separately in processField
+        'choices',         // Choice options for multiple choice
+        'steps',           // For opinion scales
+        'start_at_one',    // For opinion scales
+        'allow_multiple_selection', // For multiple choice
+        'allow_other_choice',      // For multiple choice
+        'randomize',              // For multiple choice
+        'required'                // Whether the field is required
+      ];
+      
+      return compareSpecificProps(existingProps, newProps, significantProps);
+    }
+    
+    return criticalChanges;
+  }
+
   /**
    * Process a field and its children recursively
    * @param field The field to process
@@ -405,94 +533,12 @@ export class TypeformService {
       let fieldVersionId: string;
       let isNewVersion = false;
       
-      // Helper function to check if the field has actually changed in a meaningful way
-      const hasFieldChanged = (existingField: any) => {
-        // Check critical properties that would require a new version if changed
-        const criticalChanges = (
-          existingField.field_title !== field.title ||
-          existingField.field_type !== field.type ||
-          existingField.field_ref !== (field.ref || null) ||
-          existingField.parent_field_version_id !== parentFieldVersionId ||
-          existingField.hierarchy_level !== level
-        );
-        
-        // If critical properties haven't changed, do a deeper check on properties
-        if (!criticalChanges) {
-          // Only check properties that would affect the form structure or function
-          const existingProps = existingField.properties || {};
-          const newProps = field.properties || {};
-          
-          // Compare specific property values that matter for form structure/behavior
-          const compareSpecificProps = (props1: any, props2: any, propNames: string[]) => {
-            for (const prop of propNames) {
-              // Skip if both are undefined/null
-              if (props1[prop] == null && props2[prop] == null) continue;
-              
-              // If one has the property and the other doesn't, it's a change
-              if ((props1[prop] == null) !== (props2[prop] == null)) return true;
-              
-              // Arrays need special handling
-              if (Array.isArray(props1[prop]) && Array.isArray(props2[prop])) {
-                // Different length means changed
-                if (props1[prop].length !== props2[prop].length) return true;
-                
-                // For fields array, we NEVER want to mark a parent as changed just because its children changed
-                // Child fields are processed separately in their own processField calls
-                if (prop === 'fields') {
-                  // Always return false to indicate no change based on child fields
-                  // This prevents unnecessary versioning of parent groups when only child fields change
-                  return false;
-                }
-                
-                // For choices, check if the IDs match
-                if (prop === 'choices') {
-                  const oldChoiceIds = props1[prop].map((c: any) => c.id).sort();
-                  const newChoiceIds = props2[prop].map((c: any) => c.id).sort();
-                  return !oldChoiceIds.every((id: string, i: number) => id === newChoiceIds[i]);
-                }
-              } else if (typeof props1[prop] !== typeof props2[prop]) {
-                // Different types
-                return true;
-              } else if (typeof props1[prop] === 'object') {
-                // Both are objects but not arrays - compare by keys
-                const keys1 = Object.keys(props1[prop] || {}).sort();
-                const keys2 = Object.keys(props2[prop] || {}).sort();
-                if (keys1.length !== keys2.length) return true;
-                if (!keys1.every((k, i) => k === keys2[i])) return true;
-              } else if (props1[prop] !== props2[prop]) {
-                // Simple value comparison
-                return true;
-              }
-            }
-            return false;
-          };
-          
-          // List of property names that should trigger a new version if changed
-          // IMPORTANT: We're removing 'fields' from this list to avoid marking a parent field as changed
-          // when only its children fields change. This prevents unnecessary versioning of all fields in a group.
-          const significantProps = [
-            // 'fields' is intentionally excluded - we handle child fields separately in processField
-            'choices',         // Choice options for multiple choice
-            'steps',           // For opinion scales
-            'start_at_one',    // For opinion scales
-            'allow_multiple_selection', // For multiple choice
-            'allow_other_choice',      // For multiple choice
-            'randomize',              // For multiple choice
-            'required'                // Whether the field is required
-          ];
-          
-          return compareSpecificProps(existingProps, newProps, significantProps);
-        }
-        
-        return criticalChanges;
-      };
-      
       // Case 1: Field exists and is active
       if (!activeFieldError && activeField && activeField.length > 0) {
         const currentField = activeField[0];
         
         // Only update if something has actually changed
-        if (hasFieldChanged(currentField)) {
+        if (this.hasFieldVersionChanged(currentField, field, parentFieldVersionId, level)) {
           console.log(`Field ${field.id} (${field.title}) has changed, creating new version`);
           
           // Mark the previous version as inactive
@@ -1107,6 +1153,69 @@ export class TypeformService {
     }
   }
   
+  /**
+   * Update an existing rule's score and criteria in place (used when editing a conditional rule)
+   */
+  async updateScoringRule(
+    ruleId: string,
+    scoreValue: 'red' | 'yellow' | 'green' | 'na',
+    criteria: ScoringCriteria = {}
+  ): Promise<string> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('scoring_rules')
+        .update({
+          score_value: scoreValue,
+          criteria,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', ruleId)
+        .eq('is_active', true)
+        .select('id')
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to update scoring rule: ${error.message}`);
+      }
+      if (!data) {
+        throw new Error(`Scoring rule ${ruleId} not found`);
+      }
+
+      return data.id;
+    } catch (error) {
+      console.error(`Error updating scoring rule ${ruleId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Set how much an active rule counts towards the risk score
+   * @returns The rule ID, or null if no active rule has that ID
+   */
+  async updateScoringRuleWeight(ruleId: string, weight: number): Promise<string | null> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('scoring_rules')
+        .update({
+          weight,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', ruleId)
+        .eq('is_active', true)
+        .select('id')
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to update scoring rule weight: ${error.message}`);
+      }
+
+      return data?.id || null;
+    } catch (error) {
+      console.error(`Error updating weight for scoring rule ${ruleId}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Check if a scoring rule exists
    */
@@ -1149,6 +1258,239 @@ export class TypeformService {
     }
   }
   
+  /**
+   * Resolve a Typeform form ID (e.g., "cY2L1JML") or internal database UUID to the internal UUID
+   */
+  async resolveDbFormId(formId: string): Promise<string> {
+    const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (uuidPattern.test(formId)) {
+      return formId;
+    }
+
+    const { data: formData, error: formError } = await supabaseAdmin
+      .from('typeform_forms')
+      .select('id')
+      .eq('form_id', formId)
+      .single();
+
+    if (formError || !formData) {
+      throw new Error(`Form with ID ${formId} not found: ${formError?.message || 'Not found'}`);
+    }
+
+    return formData.id;
+  }
+
+  /**
+   * Get the compound (application-level) scoring rules for a form
+   * @param formId The Typeform form ID (e.g., "cY2L1JML") or internal database UUID
+   */
+  async getCompoundRules(formId: string): Promise<DbScoringRule[]> {
+    try {
+      const dbFormId = await this.resolveDbFormId(formId);
+
+      const { data, error } = await supabaseAdmin
+        .from('scoring_rules')
+        .select('*')
+        .eq('target_type', 'application')
+        .eq('target_id', dbFormId)
+        .eq('is_active', true)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to get compound rules: ${error.message}`);
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error(`Error getting compound rules for form ${formId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a compound rule; criteria holds the rule name and its expression over field refs
+   */
+  async createCompoundRule(
+    formId: string,
+    scoreValue: 'red' | 'yellow' | 'green' | 'na',
+    criteria: CompoundRuleCriteria,
+    userId: string
+  ): Promise<DbScoringRule> {
+    try {
+      const dbFormId = await this.resolveDbFormId(formId);
+
+      const { data, error } = await supabaseAdmin
+        .from('scoring_rules')
+        .insert({
+          target_type: 'application',
+          target_id: dbFormId,
+          score_value: scoreValue,
+          criteria,
+          created_by: userId || null
+        })
+        .select('*')
+        .single();
+
+      if (error || !data) {
+        throw new Error(`Failed to create compound rule: ${error?.message}`);
+      }
+
+      return data;
+    } catch (error) {
+      console.error(`Error creating compound rule for form ${formId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a compound rule, scoped to the form it belongs to. Returns null when not found.
+   */
+  async updateCompoundRule(
+    formId: string,
+    ruleId: string,
+    scoreValue: 'red' | 'yellow' | 'green' | 'na',
+    criteria: CompoundRuleCriteria
+  ): Promise<DbScoringRule | null> {
+    try {
+      const dbFormId = await this.resolveDbFormId(formId);
+
+      const { data, error } = await supabaseAdmin
+        .from('scoring_rules')
+        .update({
+          score_value: scoreValue,
+          criteria,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', ruleId)
+        .eq('target_type', 'application')
+        .eq('target_id', dbFormId)
+        .eq('is_active', true)
+        .select('*')
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to update compound rule: ${error.message}`);
+      }
+
+      return data;
+    } catch (error) {
+      console.error(`Error updating compound rule ${ruleId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Soft-delete a compound rule, scoped to the form it belongs to. Returns false when not found.
+   */
+  async deleteCompoundRule(formId: string, ruleId: string): Promise<boolean> {
+    try {
+      const dbFormId = await this.resolveDbFormId(formId);
+
+      const { data, error } = await supabaseAdmin
+        .from('scoring_rules')
+        .update({ is_active: false })
+        .eq('id', ruleId)
+        .eq('target_type', 'application')
+        .eq('target_id', dbFormId)
+        .eq('is_active', true)
+        .select('id');
+
+      if (error) {
+        throw new Error(`Failed to delete compound rule: ${error.message}`);
+      }
+
+      return (data || []).length > 0;
+    } catch (error) {
+      console.error(`Error deleting compound rule ${ruleId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the field and choice versions whose rules make up a form's rule set
+   * @param formId The Typeform form ID (e.g., "cY2L1JML") or internal database UUID
+   */
+  async getFormRuleScope(formId: string): Promise<FormRuleScope> {
+    const dbFormId = await this.resolveDbFormId(formId);
+
+    const { data: form, error: formError } = await supabaseAdmin
+      .from('typeform_forms')
+      .select('id, form_id')
+      .eq('id', dbFormId)
+      .single();
+
+    if (formError || !form) {
+      throw new Error(`Form with ID ${formId} not found: ${formError?.message || 'Not found'}`);
+    }
+
+    const fields = await this.getFormFieldVersions(dbFormId);
+    const targetIds = fields.map(field => field.id);
+    for (const field of fields) {
+      const choices = await this.getFieldChoiceVersions(field.id);
+      targetIds.push(...choices.map(choice => choice.id));
+    }
+
+    return { dbFormId: form.id, typeformFormId: form.form_id, targetIds };
+  }
+
+  /**
+   * Validate a draft rule set before previewing or publishing it
+   * @returns An error message, or null when valid
+   */
+  validateDraftRuleSet(rules: unknown, scope: FormRuleScope): string | null {
+    if (!Array.isArray(rules)) return 'Rules must be an array';
+
+    const targetIds = new Set(scope.targetIds);
+    for (const rule of rules as DraftScoringRule[]) {
+      if (!rule || !['field', 'choice'].includes(rule.target_type)) return 'Each rule needs a target type of field or choice';
+      if (!targetIds.has(rule.target_id)) return `Rule target ${rule.target_id} is not on this form`;
+      if (!['red', 'yellow', 'green', 'na'].includes(rule.score_value)) return `Invalid score value: ${rule.score_value}`;
+
+      const criteria = parseCriteria(rule.criteria);
+      if (criteria === null) return 'Criteria must be an object';
+      const criteriaError = validateCriteria(criteria);
+      if (criteriaError) return criteriaError;
+    }
+
+    return null;
+  }
+
+  /**
+   * Replace a form's field and choice rules with a draft rule set.
+   * Draft rules keep their id when they edit a saved rule; saved rules missing from the draft are removed.
+   * Runs in one transaction (publish_scoring_rule_set), so a failed publish leaves the saved rules as they were.
+   */
+  async publishRuleSet(scope: FormRuleScope, rules: DraftScoringRule[], userId: string): Promise<RuleSetPublishResult> {
+    try {
+      // Ids that cannot be saved rules (e.g. client placeholders) mark new rules
+      const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+      const draft = rules.map(rule => ({
+        id: rule.id && uuidPattern.test(rule.id) ? rule.id : null,
+        target_type: rule.target_type,
+        target_id: rule.target_id,
+        score_value: rule.score_value,
+        criteria: rule.criteria || {}
+      }));
+
+      const { data, error } = await supabaseAdmin.rpc('publish_scoring_rule_set', {
+        p_target_ids: scope.targetIds,
+        p_rules: draft,
+        p_created_by: userId || null
+      });
+
+      if (error || !data) {
+        throw new Error(`Failed to publish scoring rules: ${error?.message}`);
+      }
+
+      const result = data as RuleSetPublishResult;
+      console.log(`Published rule set for form ${scope.typeformFormId}: ${result.created} created, ${result.updated} updated, ${result.removed} removed`);
+      return result;
+    } catch (error) {
+      console.error(`Error publishing rule set for form ${scope.typeformFormId}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Delete a form from the database
    * This is a soft delete that marks the form and its fields/choices as inactive
@@ -0,0 +1,42 @@
+/**
+ * Informed consent document template.
+ * Placeholders use {{name}} and are filled by renderTemplate in services/esignatureService.ts;
+ * values are HTML-escaped before merging.
+ */
+export const INFORMED_CONSENT_SUBJECT = 'Beckley Retreats – Informed Consent for {{participant_name}}';
+
+export const INFORMED_CONSENT_TEMPLATE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Informed Consent – {{participant_name}}</title>
+</head>
+<body style="font-family: Arial, sans-serif; max-width: 720px; margin: 0 auto; line-height: 1.5;">
+  <h1>Informed Consent</h1>
+  <p><strong>Participant:</strong> {{participant_name}}<br />
+     <strong>Email:</strong> {{participant_email}}<br />
+     <strong>Date of birth:</strong> {{date_of_birth}}<br />
+     <strong>Application reference:</strong> {{application_id}}<br />
+     <strong>Issued:</strong> {{issued_date}}</p>
+
+  <h2>1. Purpose</h2>
+  <p>You have been conditionally approved to attend a Beckley Retreats program. This document explains
+  what participation involves, the known risks, and your rights, so that you can make an informed decision.</p>
+
+  <h2>2. Medical and psychological disclosure</h2>
+  <p>I confirm that the health, medication and psychological history I shared during screening is complete
+  and accurate, and that I will tell Beckley Retreats about any change before the retreat.</p>
+
+  <h2>3. Risks</h2>
+  <p>I understand that participation may involve intense physical and psychological experiences, and that
+  Beckley Retreats staff may ask me to stop participating at any time for my safety or the safety of others.</p>
+
+  <h2>4. Voluntary participation</h2>
+  <p>My participation is voluntary. I may withdraw at any time before or during the retreat.</p>
+
+  <h2>5. Signature</h2>
+  <p>By signing, I, {{participant_name}}, confirm that I have read and understood this document.</p>
+  <p>Signature: ______________________________ &nbsp; Date: ______________</p>
+</body>
+</html>
+`;
@@ -1,5 +1,7 @@
 // Types for Application Intake feature
 
+import { ParticipantProfile } from '@/types/participantMapping';
+
 // Database Participant type
 export interface Participant {
   id: string;
@@ -8,7 +10,10 @@ export interface Participant {
   last_name: string;
   phone?: string;
   date_of_birth?: string; // ISO date string
-  hubspot_contact_id?: string;
+  profile?: ParticipantProfile; // pronouns, city, emergency contact, ... from mapped form fields
+  hubspot_contact_id?: string | null;
+  merged_into_id?: string | null; // set once merged into another participant
+  merged_at?: string | null;
   created_at: string;
   updated_at: string;
   is_active: boolean;
@@ -31,6 +36,31 @@ export type ApplicationStatus =
   | 'screening_completed'
   | 'closed';
 
+// Where a status change originated
+export type StatusChangeSource = 'ui' | 'webhook' | 'cron' | 'hubspot' | 'system';
+
+// Database ApplicationStatusHistory type
+export interface ApplicationStatusHistoryEntry {
+  id: string;
+  application_id: string;
+  from_status: ApplicationStatus | null; // null for the initial status on creation
+  to_status: ApplicationStatus;
+  changed_by?: string | null; // user_profiles.id of the actor, null for automated changes
+  changed_by_name?: string | null; // Resolved for display
+  source: StatusChangeSource;
+  closed_reason?: string | null;
+  rejected_type?: string | null;
+  note?: string | null;
+  created_at: string;
+}
+
+// Who/what is changing a status, recorded in application_status_history
+export interface StatusChangeAudit {
+  source: StatusChangeSource;
+  actorId?: string | null;
+  note?: string | null;
+}
+
 export interface SavedTypeFormApplication {
   id: string,
   typeform_response_id: string
@@ -50,10 +80,14 @@ export interface Application {
   red_count?: number;
   yellow_count?: number;
   green_count?: number;
+  risk_score?: number | null; // weighted, 0-100
+  risk_band?: string | null;
   status: ApplicationStatus;
   assigned_to?: string;
   assigned_screener_id?: string; // ID of the assigned screener user
-  hubspot_deal_id?: string;
+  hubspot_deal_id?: string | null;
+  hubspot_link_status?: 'linked' | 'missing' | 'ambiguous' | null; // see hubspotDealLinkService
+  hubspot_linked_at?: string | null;
   created_at: string;
   updated_at: string;
   closed_reason?: string;
@@ -71,6 +105,7 @@ export interface Application {
   screening_meeting?: {
     id: string;
     calendly_event_type: string;
+    calendly_event_uri?: string | null;
     calendly_payload: any;
     application_id: string;
     participant_id: string;
@@ -184,6 +219,7 @@ export interface ParticipantData {
   lastName: string;
   phone?: string;
   dateOfBirth?: string;
+  profile?: ParticipantProfile;
 }
 
 export interface ScreeningNoteValues {
@@ -191,6 +227,7 @@ export interface ScreeningNoteValues {
   secondaryScreeningSummary: string;
   generalNotes?: string; // New field added for general notes
   desiredRetreat: string;
+  desiredRetreatId?: string; // retreats.id when a scheduled retreat was picked; desiredRetreat holds its label
   scholarshipNeeds?: string; // Old field kept for backward compatibility
   scholarshipNeeded: boolean; // New boolean field replacing scholarshipNeeds string
   medsHealthHistory: string;
@@ -218,3 +255,36 @@ export interface Screening {
   updated_at: string; // timestamp with time zone
   screening_type: string; // e.g., 'initial', 'secondary', 'medical'
 }
+
+export type MedicationChangePlanStatus = 'active' | 'confirmed' | 'cancelled';
+
+// Reminder stages sent as a plan's expected clear date approaches and passes
+export type MedicationChangeReminderKind = 'upcoming' | 'due' | 'overdue';
+
+// A medication taper/washout an applicant must complete before returning to screening
+export interface MedicationChangePlan {
+  id: string; // uuid
+  application_id: string; // uuid
+  screening_id?: string | null; // uuid, the screening that led to the plan
+  medication: string;
+  washout_days: number;
+  last_dose_date: string; // date (YYYY-MM-DD)
+  expected_clear_date: string; // date (YYYY-MM-DD), last dose + washout
+  prescriber_name?: string | null;
+  prescriber_confirmed_at?: string | null; // timestamp with time zone
+  confirmation_notes?: string | null;
+  confirmed_by?: string | null; // uuid, references user_profiles.id
+  status: MedicationChangePlanStatus;
+  // Keys of reminders already sent, e.g. "due:2026-11-02"
+  reminders_sent: string[];
+  created_by?: string | null; // uuid, references user_profiles.id
+  created_at: string; // timestamp with time zone
+  updated_at: string; // timestamp with time zone
+}
+
+export interface MedicationChangePlanInput {
+  medication: string;
+  washoutDays: number;
+  lastDoseDate: string; // YYYY-MM-DD
+  prescriberName?: string | null;
+}
@@ -0,0 +1,54 @@
+// Types for informed consent delivery through an e-signature provider
+
+export type EnvelopeStatus = 'sent' | 'completed' | 'declined' | 'voided';
+
+// Database InformedConsentEnvelope type
+export interface InformedConsentEnvelope {
+  id: string;
+  application_id: string;
+  participant_id: string;
+  provider: string;
+  envelope_id: string; // Provider's envelope/document ID
+  status: EnvelopeStatus;
+  recipient_email: string;
+  recipient_name: string;
+  document_html: string; // Rendered document as sent
+  sent_by?: string | null;
+  sent_at: string;
+  completed_at?: string | null;
+  callback_payload?: Record<string, unknown> | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EnvelopeRequest {
+  // Our reference, echoed back by providers that support it
+  applicationId: string;
+  recipientEmail: string;
+  recipientName: string;
+  subject: string;
+  documentHtml: string;
+}
+
+export interface EnvelopeSendResult {
+  envelopeId: string;
+  // Where the recipient (or a developer, for the local provider) can view the document
+  viewUrl?: string | null;
+}
+
+// Provider-neutral completion event parsed from a callback
+export interface EnvelopeEvent {
+  envelopeId: string;
+  status: Exclude<EnvelopeStatus, 'sent'>;
+}
+
+/**
+ * An e-signature / email delivery backend.
+ * Register implementations in services/esignatureService.ts and select one with ESIGNATURE_PROVIDER.
+ */
+export interface ESignatureProvider {
+  readonly name: string;
+  sendEnvelope(request: EnvelopeRequest): Promise<EnvelopeSendResult>;
+  // Parse a verified callback body into an event; null if the body is not a status event we track
+  parseCallback(payload: unknown): EnvelopeEvent | null;
+}
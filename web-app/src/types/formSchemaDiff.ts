@@ -0,0 +1,82 @@
+// Types for previewing a Typeform re-sync and carrying scoring rules over to new field/choice versions
+
+import { ScoreValue } from '@/types/application';
+
+export type FieldChangeKind = 'added' | 'removed' | 'retitled' | 'retyped' | 'moved' | 'modified';
+
+export type ChoiceChangeKind = 'added' | 'removed' | 'relabeled';
+
+export interface ChoiceDiff {
+  choiceId: string; // Typeform choice ID
+  ref: string | null;
+  oldChoiceVersionId: string | null; // null when added
+  oldLabel: string | null;
+  newLabel: string | null;
+  changes: ChoiceChangeKind[];
+}
+
+export interface FieldDiff {
+  fieldId: string; // Typeform field ID
+  ref: string | null;
+  oldFieldVersionId: string | null; // null when added
+  oldTitle: string | null;
+  newTitle: string | null;
+  oldType: string | null;
+  newType: string | null;
+  level: number;
+  changes: FieldChangeKind[];
+  // The sync will deactivate the current version (and its choices) and create a new one
+  createsNewVersion: boolean;
+  choices: ChoiceDiff[];
+}
+
+// A field or choice on the form after the sync, as a rule migration target
+export interface SyncTargetField {
+  fieldId: string;
+  ref: string | null;
+  title: string;
+  type: string;
+  choices: { choiceId: string; ref: string | null; label: string }[];
+}
+
+// How a rule left on a field/choice version the sync retires should follow to the new schema
+export interface RuleMigrationProposal {
+  ruleId: string;
+  targetType: 'field' | 'choice';
+  scoreValue: ScoreValue;
+  criteria: Record<string, unknown> | null;
+  fromTargetId: string; // field or choice version ID the rule is on now
+  fromLabel: string; // "Field title" or "Field title › Choice label"
+  toFieldId: string | null; // Typeform field ID, null when no match was found
+  toChoiceId: string | null; // Typeform choice ID, for choice rules
+  matchedBy: 'ref' | 'id' | 'label' | null;
+}
+
+// Compound rules read answers by field ref; these refs disappear with the sync
+export interface CompoundRuleWarning {
+  ruleId: string;
+  missingRefs: string[];
+}
+
+export interface FormSchemaDiff {
+  formId: string; // Typeform form ID
+  dbFormId: string | null; // null when the form has never been synced
+  formTitle: string;
+  hasChanges: boolean;
+  fields: FieldDiff[]; // changed fields only
+  ruleMigrations: RuleMigrationProposal[];
+  targets: SyncTargetField[];
+  compoundRuleWarnings: CompoundRuleWarning[];
+}
+
+// The admin's confirmed (or adjusted) mapping; a null toFieldId leaves the rule on the retired version
+export interface RuleMigrationDecision {
+  ruleId: string;
+  toFieldId: string | null;
+  toChoiceId?: string | null;
+}
+
+export interface RuleMigrationResult {
+  migrated: number;
+  skipped: { ruleId: string; reason: string }[];
+}
@@ -0,0 +1,203 @@
+// Types for syncing changes between HubSpot and the app
+
+export type HubSpotSyncDirection = 'inbound' | 'outbound';
+
+export type HubSpotObjectType = 'deal' | 'contact';
+
+export type HubSpotSyncOutcome =
+  | 'pending'
+  | 'applied'
+  | 'no_change' // the app already had this value (often our own push echoed back)
+  | 'conflict' // the app value was kept under the precedence policy
+  | 'superseded' // a newer change to the same property was already handled
+  | 'ignored' // not a property we sync, or nothing in the app to apply it to
+  | 'failed';
+
+// One event from a HubSpot webhook delivery (deliveries are arrays of these)
+export interface HubSpotWebhookEvent {
+  eventId: number | string;
+  subscriptionId?: number;
+  portalId?: number;
+  appId?: number;
+  occurredAt: number; // epoch milliseconds
+  subscriptionType: string; // e.g. deal.propertyChange, contact.propertyChange
+  attemptNumber?: number;
+  objectId: number | string;
+  propertyName?: string;
+  propertyValue?: string;
+  changeSource?: string;
+  sourceId?: string;
+}
+
+// Database HubSpotSyncLedgerEntry type
+export interface HubSpotSyncLedgerEntry {
+  id: string;
+  direction: HubSpotSyncDirection;
+  event_id: string | null;
+  subscription_type: string;
+  object_type: HubSpotObjectType;
+  object_id: string;
+  property_name: string | null;
+  property_value: string | null;
+  change_source: string | null;
+  occurred_at: string;
+  application_id: string | null;
+  participant_id: string | null;
+  outcome: HubSpotSyncOutcome;
+  previous_value: string | null;
+  detail: string | null;
+  payload?: HubSpotWebhookEvent | null;
+  created_at: string;
+  processed_at: string | null;
+}
+
+// Database HubSpotStatusMapping type
+export interface HubSpotStatusMapping {
+  id: string;
+  status: string;
+  closed_reason: string | null;
+  rejected_type: string | null;
+  pipeline_id: string;
+  stage_id: string;
+  status_property_value: string;
+  sync_from_hubspot: boolean;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// One row of the mapping as submitted from the admin page
+export interface HubSpotStatusMappingInput {
+  status: string;
+  closedReason: string | null;
+  rejectedType: string | null;
+  pipelineId: string;
+  stageId: string;
+  statusPropertyValue: string;
+  syncFromHubSpot: boolean;
+}
+
+export interface HubSpotPipelineStage {
+  id: string;
+  label: string;
+}
+
+export interface HubSpotPipeline {
+  id: string;
+  label: string;
+  stages: HubSpotPipelineStage[];
+}
+
+export interface HubSpotPropertyOption {
+  label: string;
+  value: string;
+}
+
+// Live pipelines and application_status dropdown options the mapping is validated against
+export interface HubSpotMappingCatalog {
+  pipelines: HubSpotPipeline[];
+  statusOptions: HubSpotPropertyOption[];
+}
+
+export type HubSpotPushOperation = 'status' | 'score';
+
+export type HubSpotPushResult = 'pending' | 'succeeded' | 'skipped' | 'failed';
+
+// What a push wrote to a deal; null from a push function means there was nothing to push
+export interface HubSpotPush {
+  dealId: string;
+  properties: Record<string, string | null>;
+  // Why part of the push was left out, e.g. a status with no HubSpot mapping
+  warning?: string;
+}
+
+// Database HubSpotSyncEvent type
+export interface HubSpotSyncEvent {
+  id: string;
+  application_id: string | null;
+  job_id: string | null;
+  operation: HubSpotPushOperation;
+  deal_id: string | null;
+  payload: Record<string, unknown> | null;
+  result: HubSpotPushResult;
+  error: string | null;
+  error_status: number | null;
+  attempts: number;
+  max_attempts: number;
+  created_at: string;
+  updated_at: string;
+  last_attempt_at: string | null;
+  completed_at: string | null;
+  participant_name?: string | null; // Resolved for display
+}
+
+export type HubSpotDriftField = 'deal' | 'status' | 'stage' | 'score' | 'screener';
+
+export interface HubSpotDriftItem {
+  applicationId: string;
+  participantName: string | null;
+  dealId: string | null;
+  field: HubSpotDriftField;
+  expected: string | null;
+  actual: string | null;
+}
+
+export type HubSpotReconciliationStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+// Database HubSpotReconciliationRun type
+export interface HubSpotReconciliationRun {
+  id: string;
+  status: HubSpotReconciliationStatus;
+  cursor_application_id: string | null;
+  checked_count: number;
+  drift_count: number;
+  error_count: number;
+  drift: HubSpotDriftItem[];
+  last_error: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export type HubSpotLinkStatus = 'linked' | 'missing' | 'ambiguous';
+
+// A deal that could belong to an application, as listed when its link is ambiguous
+export interface HubSpotDealCandidate {
+  id: string;
+  name: string | null;
+  createdAt: string | null;
+  applicationId: string | null; // the deal's br_application_id
+  pipeline: string | null;
+  stage: string | null;
+}
+
+// Outcome of looking for an application's deal
+export interface HubSpotDealLink {
+  status: HubSpotLinkStatus;
+  dealId: string | null;
+  candidates: HubSpotDealCandidate[];
+  error: string | null;
+}
+
+// An application whose deal could not be linked automatically
+export interface HubSpotLinkIssue {
+  applicationId: string;
+  participantName: string | null;
+  email: string | null;
+  contactId: string | null;
+  submissionDate: string | null;
+  status: string;
+  linkStatus: Exclude<HubSpotLinkStatus, 'linked'>;
+  candidates: HubSpotDealCandidate[];
+  error: string | null;
+  checkedAt: string | null;
+}
+
+// A HubSpot deal whose stage changes could not be matched to an application
+export interface HubSpotUnlinkedDeal {
+  dealId: string;
+  lastStage: string | null;
+  lastEventAt: string;
+  eventCount: number;
+}
@@ -0,0 +1,68 @@
+// Types for the background job queue
+
+// Job types handled by the worker (see services/jobHandlers.ts)
+export type JobType =
+  | 'application.process'
+  | 'application.score'
+  | 'scoring.rescore_run'
+  | 'scoring.rescore'
+  | 'typeform.import_page'
+  | 'hubspot.sync_score'
+  | 'hubspot.sync_status'
+  | 'hubspot.inbound_event'
+  | 'hubspot.reconcile_page';
+
+// Payloads per job type
+export interface JobPayloads {
+  'application.process': { applicationId: string };
+  'application.score': { applicationId: string };
+  'scoring.rescore_run': { rescoreRunId: string };
+  'scoring.rescore': { applicationId: string; ruleSetVersionId: string; rescoreRunId: string };
+  'typeform.import_page': { importId: string };
+  'hubspot.sync_score': { applicationId: string };
+  'hubspot.sync_status': { applicationId: string; notes?: string | null };
+  'hubspot.inbound_event': { ledgerId: string };
+  'hubspot.reconcile_page': { runId: string };
+}
+
+// Lifecycle: pending -> running -> succeeded, or back to pending with backoff, or dead after max_attempts
+export type JobStatus = 'pending' | 'running' | 'succeeded' | 'dead';
+
+// Database Job type
+export interface Job<T extends JobType = JobType> {
+  id: string;
+  type: T;
+  payload: JobPayloads[T];
+  status: JobStatus;
+  dedupe_key?: string | null;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_at?: string | null;
+  locked_by?: string | null;
+  last_error?: string | null;
+  result?: unknown;
+  created_at: string;
+  updated_at: string;
+  completed_at?: string | null;
+}
+
+export type JobHandler<T extends JobType = JobType> = (job: Job<T>) => Promise<unknown>;
+
+export type JobHandlerMap = { [K in JobType]: JobHandler<K> };
+
+export interface EnqueueOptions {
+  // Only one pending job may exist per dedupe key; a running job doesn't block a new one
+  dedupeKey?: string;
+  // Earliest time the job may run (defaults to now)
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+export interface JobRunResult {
+  jobId: string;
+  type: JobType;
+  status: JobStatus;
+  error?: string;
+  result?: unknown;
+}
@@ -0,0 +1,50 @@
+// Types for medical review cases opened from a screening
+
+export type MedicalReviewStatus = 'open' | 'cleared' | 'medication_change_required' | 'declined';
+
+// Decisions a medical reviewer can record; each closes the case and drives the application status
+export type MedicalReviewDecision = 'clear' | 'require_medication_change' | 'decline';
+
+// Snapshot of a flagged answer at the time the case was opened
+export interface MedicalReviewTriggerResponse {
+  field_title: string;
+  response_value: string;
+  score: 'red' | 'yellow';
+}
+
+// Database MedicalReviewCase type
+export interface MedicalReviewCase {
+  id: string;
+  application_id: string;
+  participant_id?: string | null;
+  reviewer_id: string;
+  opened_by?: string | null;
+  status: MedicalReviewStatus;
+  medications: string[];
+  conditions: string[];
+  triggering_responses: MedicalReviewTriggerResponse[];
+  referral_notes?: string | null;
+  decision?: MedicalReviewDecision | null;
+  decision_notes?: string | null;
+  decided_by?: string | null;
+  decided_at?: string | null;
+  created_at: string;
+  updated_at: string;
+  // Resolved for display
+  participant_name?: string | null;
+  reviewer_name?: string | null;
+}
+
+export interface OpenMedicalReviewInput {
+  reviewerId: string;
+  medications: string[];
+  conditions: string[];
+  referralNotes?: string | null;
+}
+
+export interface MedicalReviewDecisionInput {
+  decision: MedicalReviewDecision;
+  notes?: string | null;
+  // Required when declining; recorded as the application's rejected type
+  rejectedType?: 'Temporary' | 'Permanent' | null;
+}
@@ -0,0 +1,36 @@
+// Types for in-app notifications
+
+export type NotificationType =
+  | 'duplicate_submission'
+  | 'application_assigned'
+  | 'screening_no_show'
+  | 'hubspot_sync_failed'
+  | 'medical_review_assigned'
+  | 'medical_review_decided'
+  | 'medication_change_reminder';
+
+// Database Notification type
+export interface Notification {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  // In-app path to open when the notification is clicked, e.g. /applications/{id}
+  link?: string | null;
+  application_id?: string | null;
+  metadata?: Record<string, unknown> | null;
+  is_read: boolean;
+  read_at?: string | null;
+  created_at: string;
+}
+
+// Fields supplied when creating a notification (recipients are resolved separately)
+export interface NotificationInput {
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string | null;
+  applicationId?: string | null;
+  metadata?: Record<string, unknown> | null;
+}
@@ -0,0 +1,54 @@
+// Types for mapping form fields to participant attributes
+
+// Attributes stored in their own participants column
+export type ParticipantColumnAttribute = 'email' | 'first_name' | 'last_name' | 'full_name' | 'phone' | 'date_of_birth';
+
+// Attributes stored in participants.profile
+export type ParticipantProfileAttribute =
+  | 'pronouns'
+  | 'city'
+  | 'country'
+  | 'emergency_contact_name'
+  | 'emergency_contact_phone'
+  | 'emergency_contact_relationship';
+
+export type ParticipantAttribute = ParticipantColumnAttribute | ParticipantProfileAttribute;
+
+// How an answer is validated and normalized before it is stored
+export type ParticipantAttributeKind = 'email' | 'text' | 'phone' | 'date';
+
+export interface ParticipantAttributeDefinition {
+  key: ParticipantAttribute;
+  label: string;
+  kind: ParticipantAttributeKind;
+  storage: 'column' | 'profile';
+  description?: string;
+}
+
+export type ParticipantProfile = Partial<Record<ParticipantProfileAttribute, string>>;
+
+// Database ParticipantFieldMapping type
+export interface ParticipantFieldMapping {
+  id: string;
+  form_id: string;
+  attribute: ParticipantAttribute;
+  field_id: string; // Typeform field ID
+  field_ref: string | null;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// One mapping as submitted from the admin page
+export interface ParticipantFieldMappingInput {
+  attribute: ParticipantAttribute;
+  fieldId: string;
+}
+
+// A field on the form that can be mapped
+export interface MappableFormField {
+  fieldId: string;
+  ref: string | null;
+  title: string;
+  type: string;
+}
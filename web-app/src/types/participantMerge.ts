@@ -0,0 +1,42 @@
+// Types for finding and merging duplicate participants
+
+import { Participant } from '@/types/application';
+
+export type DuplicateMatchReason = 'same_phone' | 'same_date_of_birth' | 'same_name' | 'similar_name' | 'similar_email';
+
+// The participant columns compared when looking for duplicates
+export type ParticipantMatchFields = Pick<Participant, 'id' | 'email' | 'first_name' | 'last_name' | 'phone' | 'date_of_birth'>;
+
+export interface DuplicateCandidateParticipant extends ParticipantMatchFields {
+  hubspot_contact_id?: string | null;
+  created_at: string;
+  application_count: number;
+}
+
+// Two participants that may be the same person; the older record is listed first
+export interface DuplicateCandidate {
+  score: number;
+  reasons: DuplicateMatchReason[];
+  participants: [DuplicateCandidateParticipant, DuplicateCandidateParticipant];
+}
+
+// What happened to hubspot_contact_id on the surviving participant
+export type HubSpotContactMergeAction =
+  | 'none' // neither record was linked
+  | 'kept' // the survivor's link was kept
+  | 'adopted' // the survivor took the merged record's link
+  | 'conflict'; // both were linked to different contacts; the survivor's was kept
+
+// Database ParticipantMerge type
+export interface ParticipantMerge {
+  id: string;
+  survivor_id: string;
+  merged_participant_id: string;
+  merged_snapshot: Partial<Participant>; // the merged record as it was before the merge
+  reparented_counts: Record<string, number>; // rows moved to the survivor, by table
+  hubspot_contact_action: HubSpotContactMergeAction;
+  merged_hubspot_contact_id?: string | null;
+  merged_by?: string | null;
+  merged_by_name?: string | null; // Resolved for display
+  created_at: string;
+}
@@ -0,0 +1,66 @@
+// Types for retreats (cohorts) and the applications assigned to them
+
+export type RetreatStatus = 'draft' | 'open' | 'closed' | 'completed' | 'cancelled';
+
+export type RetreatAssignmentStatus = 'confirmed' | 'waitlisted' | 'withdrawn';
+
+// Database Retreat type
+export interface Retreat {
+  id: string;
+  name: string;
+  location: string;
+  start_date: string; // date (YYYY-MM-DD)
+  end_date: string; // date (YYYY-MM-DD)
+  capacity: number;
+  price_cents?: number | null;
+  currency: string;
+  status: RetreatStatus;
+  facilitator_ids: string[];
+  description?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+  // Resolved for display
+  confirmed_count?: number;
+  waitlist_count?: number;
+  facilitators?: { id: string; name: string }[];
+}
+
+// Fields accepted when creating or updating a retreat
+export interface RetreatInput {
+  name: string;
+  location: string;
+  start_date: string;
+  end_date: string;
+  capacity: number;
+  price_cents?: number | null;
+  currency?: string;
+  status?: RetreatStatus;
+  facilitator_ids?: string[];
+  description?: string | null;
+}
+
+// Database RetreatAssignment type
+export interface RetreatAssignment {
+  id: string;
+  retreat_id: string;
+  application_id: string;
+  participant_id?: string | null;
+  status: RetreatAssignmentStatus;
+  assigned_by?: string | null;
+  waitlisted_at?: string | null;
+  confirmed_at?: string | null;
+  withdrawn_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Roster row: an assignment with the participant and screening state
+export interface RetreatRosterEntry extends RetreatAssignment {
+  participant_name: string;
+  participant_email?: string | null;
+  application_status: string;
+  screening_status?: string | null;
+  // 1-based position for waitlisted entries
+  waitlist_position?: number | null;
+}
@@ -0,0 +1,184 @@
+// Types for previewing, publishing and versioning scoring rule sets, and for explaining scores
+
+import { ApplicationStatus, ScoreValue } from '@/types/application';
+
+// A field or choice rule in a draft rule set. Rules not yet saved have no id (or a temporary one).
+export interface DraftScoringRule {
+  id?: string;
+  target_type: 'field' | 'choice';
+  target_id: string;
+  score_value: ScoreValue;
+  criteria: Record<string, unknown> | null;
+}
+
+// The rules a form's draft replaces: every active field and choice version on the form
+export interface FormRuleScope {
+  dbFormId: string; // typeform_forms.id
+  typeformFormId: string; // typeform_forms.form_id, as stored on applications.form_id
+  targetIds: string[];
+}
+
+// An application's overall colour is its worst flag
+export type ApplicationScoreColor = 'red' | 'yellow' | 'green' | 'none';
+
+export interface ScoreTotals {
+  redCount: number;
+  yellowCount: number;
+  greenCount: number;
+  totalScore: number;
+  color: ApplicationScoreColor;
+}
+
+export interface ResponseScoreChange {
+  responseId: string;
+  fieldTitle: string;
+  answer: string;
+  currentScore: ScoreValue;
+  proposedScore: ScoreValue;
+}
+
+export interface ApplicationScorePreview {
+  applicationId: string;
+  applicantName: string;
+  submissionDate: string;
+  current: ScoreTotals;
+  proposed: ScoreTotals;
+  colorChanged: boolean;
+  countsChanged: boolean;
+  responseChanges: ResponseScoreChange[];
+}
+
+export interface ScoringPreviewResult {
+  sampleSize: number;
+  changedCount: number;
+  colorChangedCount: number;
+  applications: ApplicationScorePreview[];
+}
+
+export interface RuleSetPublishResult {
+  created: number;
+  updated: number;
+  removed: number;
+}
+
+// A scoring_rules row as captured in a rule-set version
+export interface ScoringRuleSnapshot {
+  id: string;
+  target_type: 'field' | 'choice' | 'application';
+  target_id: string;
+  score_value: ScoreValue;
+  criteria: Record<string, unknown> | null;
+  weight?: number; // missing in versions saved before rule weights; treated as 1
+}
+
+// Database ScoringRuleSetVersion type; rows are immutable
+export interface ScoringRuleSetVersion {
+  id: string;
+  form_id: string; // typeform_forms.id
+  version_number: number;
+  name: string;
+  notes?: string | null;
+  rules: ScoringRuleSnapshot[];
+  rules_hash: string;
+  created_by?: string | null;
+  created_at: string;
+  // Resolved for display
+  applications_count?: number;
+}
+
+// Which applications a rescore run covers; all of the form's applications when empty
+export interface RescoreFilters {
+  statuses?: ApplicationStatus[];
+  submittedFrom?: string; // date (YYYY-MM-DD)
+  submittedTo?: string; // date (YYYY-MM-DD), inclusive
+}
+
+export type RescoreRunStatus = 'queuing' | 'running' | 'completed';
+
+// Database ScoringRescoreRun type
+export interface ScoringRescoreRun {
+  id: string;
+  form_id: string;
+  rule_set_version_id: string;
+  filters: RescoreFilters;
+  total_count: number | null; // null until the run's jobs are queued
+  created_by?: string | null;
+  created_at: string;
+  // Resolved from the run's jobs
+  status?: RescoreRunStatus;
+  succeeded_count?: number;
+  failed_count?: number;
+  version?: Pick<ScoringRuleSetVersion, 'version_number' | 'name'>;
+}
+
+// Database ApplicationScoreHistoryEntry type
+export interface ApplicationScoreHistoryEntry {
+  id: string;
+  application_id: string;
+  rule_set_version_id: string | null;
+  rescore_run_id: string | null;
+  red_count: number;
+  yellow_count: number;
+  green_count: number;
+  calculated_score: number;
+  risk_score: number | null;
+  risk_band: string | null;
+  response_scores: { responseId: string; fieldVersionId: string; score: ScoreValue }[];
+  scored_at: string;
+  // Resolved for display
+  version?: Pick<ScoringRuleSetVersion, 'version_number' | 'name'> | null;
+}
+
+// A field or choice rule that fired for an answer, captured when the answer was scored
+export interface ScoreTraceEntry {
+  ruleId: string;
+  targetType: 'field' | 'choice';
+  targetId: string;
+  scoreValue: ScoreValue;
+  criteria: Record<string, unknown> | null;
+  description: string; // e.g. "answer is \"Yes\"" or "age < 21"
+  weight: number;
+  createdBy: string | null;
+  createdAt: string;
+  // Resolved for display
+  createdByName?: string | null;
+}
+
+// A recommendation band; an application falls in the band with the highest minScore at or below its risk score
+export interface RiskBand {
+  key: string;
+  label: string;
+  minScore: number; // 0-100
+}
+
+// How matched rules turn into a form's 0-100 risk score
+export interface RiskSettings {
+  // Risk points per matched rule of each colour, before rule and category weights; green may be negative
+  colorPoints: { red: number; yellow: number; green: number };
+  // Multipliers for answers in a top-level question group, keyed by the group's Typeform field ID
+  categoryWeights: Record<string, number>;
+  // Points at which the risk score reaches 100
+  maxPoints: number;
+  bands: RiskBand[];
+}
+
+export interface RiskScoreResult {
+  riskScore: number;
+  riskBand: string;
+}
+
+// A top-level question group that can carry a category weight
+export interface RiskCategory {
+  fieldId: string; // Typeform field ID, stable across form versions
+  title: string;
+}
+
+// An active rule as listed for weighting
+export interface WeightedRule {
+  id: string;
+  target_type: 'field' | 'choice' | 'application';
+  score_value: ScoreValue;
+  weight: number;
+  label: string; // question title, "question: choice" or the compound rule's name
+  description: string;
+}
@@ -0,0 +1,63 @@
+// Types for importing historical responses through the Typeform Responses API
+
+import { TypeformAnswer, TypeformWebhook } from '@/types/application';
+
+export type TypeformImportStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export type TypeformImportOutcome = 'imported' | 'skipped' | 'failed';
+
+// What happened to one response in an import
+export interface TypeformImportResult {
+  token: string;
+  submittedAt: string | null;
+  outcome: TypeformImportOutcome;
+  applicationId?: string | null;
+  reason?: string | null; // why it was skipped or failed
+}
+
+// Range accepted when starting an import
+export interface TypeformImportRange {
+  submittedFrom?: string; // date (YYYY-MM-DD)
+  submittedTo?: string; // date (YYYY-MM-DD), inclusive
+}
+
+// Database TypeformResponseImport type
+export interface TypeformResponseImport {
+  id: string;
+  form_id: string;
+  submitted_from: string | null;
+  submitted_to: string | null;
+  status: TypeformImportStatus;
+  before_token: string | null;
+  pages_fetched: number;
+  total_count: number | null; // null until the first page is fetched
+  imported_count: number;
+  skipped_count: number;
+  failed_count: number;
+  results: TypeformImportResult[];
+  last_error?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at?: string | null;
+}
+
+// A response item as returned by GET /forms/{form_id}/responses
+export interface TypeformApiResponseItem {
+  landing_id: string;
+  token: string;
+  response_id?: string;
+  landed_at: string;
+  submitted_at: string;
+  hidden?: TypeformWebhook['form_response']['hidden'];
+  calculated?: {
+    score?: number;
+  };
+  answers?: TypeformAnswer[];
+}
+
+export interface TypeformApiResponsePage {
+  total_items: number;
+  page_count: number;
+  items: TypeformApiResponseItem[];
+}
@@ -5,6 +5,7 @@ export enum UserRole {
   SCREENER_LEAD = 'SCREENER_LEAD',
   SCREENER = 'SCREENER',
   FACILITATOR = 'FACILITATOR',
+  MEDICAL_REVIEWER = 'MEDICAL_REVIEWER',
   PROGRAM_OPERATIONS_MANAGER = 'PROGRAM_OPERATIONS_MANAGER',
   PROGRAM_OPERATIONS_ADMINISTRATOR = 'PROGRAM_OPERATIONS_ADMINISTRATOR',
 }
@@ -51,6 +52,11 @@ export const rolePermissions = {
     canDocumentObservations: true,
     canUpdateParticipantStatus: true,
   },
+  [UserRole.MEDICAL_REVIEWER]: {
+    canViewMedicalReviewQueue: true,
+    canViewParticipantProfiles: true,
+    canMakeMedicalDeterminations: true,
+  },
   [UserRole.PROGRAM_OPERATIONS_MANAGER]: {
     canCreateFacilitatorUsers: true,
     canResetFacilitatorPasswords: true,
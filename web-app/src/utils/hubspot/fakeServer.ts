@@ -0,0 +1,363 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { HubSpotPipeline, HubSpotPropertyOption } from '../../types/hubspotSync';
+
+/*
+  In-process stand-in for the HubSpot CRM API
+  - Implements the endpoints HubSpotService calls: contact search and read, contact/deal
+    associations, deal search, read, batch read, create and patch, deal pipelines and
+    deal property options
+  - State is held in memory and exposed for assertions, e.g. which properties each push wrote
+  - Point the app at it with HUBSPOT_BASE_URL (see src/scripts/fake-hubspot.ts), or in-process
+    with HubSpotService.configure({ baseUrl: server.url, apiKey: server.apiKey })
+*/
+
+export interface FakeHubSpotObject {
+  id: string;
+  properties: Record<string, string | null>;
+}
+
+export interface FakeHubSpotRequest {
+  method: string;
+  path: string;
+  body: unknown;
+  status: number;
+}
+
+// One PATCH of a deal, or the properties a deal was created with
+export interface FakeHubSpotDealWrite {
+  dealId: string;
+  properties: Record<string, string | null>;
+  at: string;
+}
+
+interface FakeHubSpotFailure {
+  method: string;
+  path: RegExp;
+  status: number;
+  message: string;
+  remaining: number;
+}
+
+// Pipeline and options the seeded hubspot_status_mappings rows point at
+const DEFAULT_PIPELINES: HubSpotPipeline[] = [
+  {
+    id: 'default',
+    label: 'Sales Pipeline',
+    stages: [
+      { id: '1142575458', label: 'Application Received' },
+      { id: 'appointmentscheduled', label: 'Screening' },
+      { id: 'qualifiedtobuy', label: 'Approved' },
+      { id: '107658399', label: 'Screening Closed' },
+      { id: 'closedwon', label: 'Closed Won' },
+      { id: '121534028', label: 'Closed Lost' },
+    ],
+  },
+];
+
+const DEFAULT_STATUS_OPTIONS = [
+  'Pending',
+  'Screening Scheduled',
+  'Screening No Show',
+  'Invited to Reschedule',
+  'Secondary Screening',
+  'Screening',
+  'Medical Review Required',
+  'Conditionally Approved',
+  'Screening Completed - Approved',
+  'Screening Completed - Unresponsive',
+  'Screening Completed - Rejected - Temporary',
+  'Screening Completed - Rejected - Permanent',
+  'Closed - Approved',
+  'Closed - Unresponsive',
+  'Closed - Rejected - Temporary',
+  'Closed - Rejected - Permanent',
+];
+
+class FakeHubSpotError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export class FakeHubSpotServer {
+  readonly apiKey: string;
+  readonly contacts = new Map<string, FakeHubSpotObject>();
+  readonly deals = new Map<string, FakeHubSpotObject>();
+  readonly dealContacts = new Map<string, Set<string>>();
+  readonly dealWrites: FakeHubSpotDealWrite[] = [];
+  readonly requests: FakeHubSpotRequest[] = [];
+  pipelines: HubSpotPipeline[] = [];
+  propertyOptions: Record<string, HubSpotPropertyOption[]> = {};
+
+  private server: http.Server | null = null;
+  private failures: FakeHubSpotFailure[] = [];
+  private nextId = 1000;
+
+  constructor(options: { apiKey?: string } = {}) {
+    this.apiKey = options.apiKey || 'fake-hubspot-token';
+    this.reset();
+  }
+
+  /**
+   * Base URL of the running server, for HUBSPOT_BASE_URL or HubSpotService.configure
+   */
+  get url(): string {
+    const address = this.server?.address() as AddressInfo | null;
+    if (!address) throw new Error('Fake HubSpot server is not running');
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  /**
+   * Start listening; port 0 picks a free port
+   * @returns The server's base URL
+   */
+  async start(port: number = 0): Promise<string> {
+    if (this.server) return this.url;
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch(err => {
+        console.error('[Fake HubSpot] Unhandled error:', err);
+        res.writeHead(500).end();
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => resolve());
+    });
+    this.server = server;
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    await new Promise<void>((resolve, reject) => server.close(err => (err ? reject(err) : resolve())));
+  }
+
+  /**
+   * Clear all records, recorded requests and injected failures, and restore the default
+   * pipeline and application_status options
+   */
+  reset(): void {
+    this.contacts.clear();
+    this.deals.clear();
+    this.dealContacts.clear();
+    this.dealWrites.length = 0;
+    this.requests.length = 0;
+    this.failures = [];
+    this.pipelines = structuredClone(DEFAULT_PIPELINES);
+    this.propertyOptions = {
+      application_status: DEFAULT_STATUS_OPTIONS.map(value => ({ label: value, value })),
+      screeners_name: [],
+    };
+  }
+
+  addContact(properties: Record<string, string | null>): string {
+    const id = this.newId();
+    this.contacts.set(id, { id, properties: { createdate: new Date().toISOString(), ...properties } });
+    return id;
+  }
+
+  addDeal(properties: Record<string, string | null>, contactIds: string[] = []): string {
+    const id = this.newId();
+    const now = new Date().toISOString();
+    this.deals.set(id, { id, properties: { createdate: now, hs_lastmodifieddate: now, ...properties } });
+    this.dealContacts.set(id, new Set(contactIds));
+    return id;
+  }
+
+  /**
+   * Make the next matching requests fail, e.g. a 403 for a token missing scopes
+   * @param method HTTP method to match
+   * @param path Request path (without query string) to match
+   * @param status Status to respond with
+   * @param times How many matching requests fail
+   */
+  failNext(method: string, path: RegExp, status: number, message: string = 'Injected failure', times: number = 1): void {
+    this.failures.push({ method: method.toUpperCase(), path, status, message, remaining: times });
+  }
+
+  /**
+   * The properties written to a deal, one entry per create or PATCH, oldest first
+   */
+  writesFor(dealId: string): Array<Record<string, string | null>> {
+    return this.dealWrites.filter(write => write.dealId === dealId).map(write => write.properties);
+  }
+
+  private newId(): string {
+    return String(this.nextId++);
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = (req.method || 'GET').toUpperCase();
+    const raw = await new Promise<string>((resolve, reject) => {
+      let data = '';
+      req.on('data', chunk => { data += chunk; });
+      req.on('end', () => resolve(data));
+      req.on('error', reject);
+    });
+
+    let body: unknown = null;
+    let status = 200;
+    let payload: unknown;
+    try {
+      body = raw ? JSON.parse(raw) : null;
+      if (req.headers.authorization !== `Bearer ${this.apiKey}`) {
+        throw new FakeHubSpotError(401, 'Authentication credentials not found');
+      }
+      this.throwInjectedFailure(method, url.pathname);
+      [status, payload] = this.route(method, url, body);
+    } catch (err) {
+      status = err instanceof FakeHubSpotError ? err.status : 400;
+      payload = { status: 'error', message: err instanceof Error ? err.message : String(err) };
+    }
+
+    this.requests.push({ method, path: url.pathname + url.search, body, status });
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload));
+  }
+
+  private throwInjectedFailure(method: string, path: string): void {
+    const failure = this.failures.find(f => f.remaining > 0 && f.method === method && f.path.test(path));
+    if (!failure) return;
+    failure.remaining--;
+    throw new FakeHubSpotError(failure.status, failure.message);
+  }
+
+  private route(method: string, url: URL, body: unknown): [number, unknown] {
+    const path = url.pathname;
+    const requested = (url.searchParams.get('properties') || '').split(',').filter(Boolean);
+    let match: RegExpMatchArray | null;
+
+    if (method === 'POST' && path === '/crm/v3/objects/contacts/search') {
+      return [200, this.search(this.contacts, body)];
+    }
+    if (method === 'GET' && (match = path.match(/^\/crm\/v3\/objects\/contacts\/([^/]+)\/associations\/deals$/))) {
+      const contactId = match[1];
+      const dealIds = [...this.dealContacts].filter(([, contacts]) => contacts.has(contactId)).map(([dealId]) => dealId);
+      return [200, { results: dealIds.map(id => ({ id, type: 'contact_to_deal' })) }];
+    }
+    if (method === 'GET' && (match = path.match(/^\/crm\/v3\/objects\/contacts\/([^/]+)$/))) {
+      return [200, this.project(this.find(this.contacts, match[1], 'Contact'), requested)];
+    }
+    if (method === 'POST' && path === '/crm/v3/objects/deals/search') {
+      return [200, this.search(this.deals, body)];
+    }
+    if (method === 'POST' && path === '/crm/v3/objects/deals/batch/read') {
+      const { inputs, properties } = (body || {}) as { inputs?: Array<{ id: string }>; properties?: string[] };
+      const results = (inputs || [])
+        .map(input => this.deals.get(input.id))
+        .filter((deal): deal is FakeHubSpotObject => !!deal)
+        .map(deal => this.project(deal, properties || []));
+      return [200, { status: 'COMPLETE', results }];
+    }
+    if (method === 'POST' && path === '/crm/v3/objects/deals') {
+      return [201, this.createDeal(body)];
+    }
+    if (method === 'GET' && (match = path.match(/^\/crm\/v3\/objects\/deals\/([^/]+)\/associations\/contacts$/))) {
+      this.find(this.deals, match[1], 'Deal');
+      const contactIds = [...(this.dealContacts.get(match[1]) || [])];
+      return [200, { results: contactIds.map(id => ({ id, type: 'deal_to_contact' })) }];
+    }
+    if (method === 'GET' && (match = path.match(/^\/crm\/v3\/objects\/deals\/([^/]+)$/))) {
+      return [200, this.project(this.find(this.deals, match[1], 'Deal'), requested)];
+    }
+    if (method === 'PATCH' && (match = path.match(/^\/crm\/v3\/objects\/deals\/([^/]+)$/))) {
+      return [200, this.patchDeal(match[1], body)];
+    }
+    if (method === 'GET' && path === '/crm/v3/pipelines/deals') {
+      return [200, {
+        results: this.pipelines.map((pipeline, index) => ({
+          id: pipeline.id,
+          label: pipeline.label,
+          displayOrder: index,
+          stages: pipeline.stages.map((stage, stageIndex) => ({ ...stage, displayOrder: stageIndex })),
+        })),
+      }];
+    }
+    if (method === 'GET' && (match = path.match(/^\/crm\/v3\/properties\/deals\/([^/]+)$/))) {
+      const options = this.propertyOptions[match[1]];
+      if (!options) throw new FakeHubSpotError(404, `Property ${match[1]} does not exist`);
+      return [200, { name: match[1], type: 'enumeration', options }];
+    }
+
+    throw new FakeHubSpotError(404, `${method} ${path} is not implemented by the fake HubSpot server`);
+  }
+
+  // Supports the EQ filters HubSpotService sends; strings compare case-insensitively like HubSpot
+  private search(records: Map<string, FakeHubSpotObject>, body: unknown) {
+    const { filterGroups, properties, limit } = (body || {}) as {
+      filterGroups?: Array<{ filters?: Array<{ propertyName: string; operator: string; value: string }> }>;
+      properties?: string[];
+      limit?: number;
+    };
+    const matches = [...records.values()].filter(record =>
+      !filterGroups?.length || filterGroups.some(group => (group.filters || []).every(filter => {
+        if (filter.operator !== 'EQ') throw new FakeHubSpotError(400, `Operator ${filter.operator} is not supported`);
+        return (record.properties[filter.propertyName] ?? '').toLowerCase() === String(filter.value).toLowerCase();
+      }))
+    );
+    return {
+      total: matches.length,
+      results: matches.slice(0, limit || 10).map(record => this.project(record, properties || [])),
+    };
+  }
+
+  private createDeal(body: unknown) {
+    const { properties, associations } = (body || {}) as {
+      properties?: Record<string, string | null>;
+      associations?: Array<{ to: { id: string } }>;
+    };
+    const contactIds = (associations || []).map(association => association.to.id);
+    contactIds.forEach(contactId => this.find(this.contacts, contactId, 'Contact'));
+
+    const id = this.addDeal(properties || {}, contactIds);
+    this.dealWrites.push({ dealId: id, properties: { ...(properties || {}) }, at: new Date().toISOString() });
+    return this.project(this.deals.get(id)!, Object.keys(properties || {}));
+  }
+
+  private patchDeal(dealId: string, body: unknown) {
+    const deal = this.find(this.deals, dealId, 'Deal');
+    const { properties } = (body || {}) as { properties?: Record<string, unknown> };
+    if (!properties || typeof properties !== 'object') throw new FakeHubSpotError(400, 'properties is required');
+
+    const written: Record<string, string | null> = {};
+    for (const [name, value] of Object.entries(properties)) {
+      const options = this.propertyOptions[name];
+      const stringValue = value == null ? null : String(value);
+      // Like HubSpot, reject dropdown values that are not among the property's options
+      if (options?.length && stringValue && !options.some(option => option.value === stringValue)) {
+        throw new FakeHubSpotError(400, `${stringValue} was not one of the allowed options for ${name}`);
+      }
+      written[name] = stringValue;
+    }
+    if (written.dealstage) {
+      const pipeline = this.pipelines.find(p => p.id === (written.pipeline ?? deal.properties.pipeline));
+      if (pipeline && !pipeline.stages.some(stage => stage.id === written.dealstage)) {
+        throw new FakeHubSpotError(400, `${written.dealstage} is not a valid stage of pipeline ${pipeline.id}`);
+      }
+    }
+
+    Object.assign(deal.properties, written, { hs_lastmodifieddate: new Date().toISOString() });
+    this.dealWrites.push({ dealId, properties: written, at: new Date().toISOString() });
+    return this.project(deal, Object.keys(written));
+  }
+
+  private find(records: Map<string, FakeHubSpotObject>, id: string, label: string): FakeHubSpotObject {
+    const record = records.get(id);
+    if (!record) throw new FakeHubSpotError(404, `${label} ${id} not found`);
+    return record;
+  }
+
+  // Like HubSpot, a read returns the requested properties plus the default timestamps
+  private project(record: FakeHubSpotObject, properties: string[]) {
+    const names = new Set([...properties, 'createdate', 'hs_lastmodifieddate', 'hs_object_id']);
+    const values: Record<string, string | null> = { hs_object_id: record.id };
+    for (const name of names) {
+      if (name !== 'hs_object_id') values[name] = record.properties[name] ?? null;
+    }
+    return { id: record.id, properties: values, archived: false };
+  }
+}